@@ -0,0 +1,12 @@
+"use server";
+
+import { after } from "next/server";
+import type { BriefFormState } from "@/lib/inbound/brief-form";
+import { BriefSubmissionService } from "@/lib/inbound/brief-submission";
+
+// The pipeline runs after the response is sent, so the form answers as soon as the brief is accepted.
+const submission = new BriefSubmissionService({ schedule: (task) => after(task) });
+
+export async function submitBrief(_previous: BriefFormState, formData: FormData): Promise<BriefFormState> {
+  return submission.submit(formData);
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import { BriefForm } from "@/components/factory/brief-form";
+import { BRIEF_LOCALE_OPTIONS } from "@/lib/inbound/brief-form";
+
+export const metadata: Metadata = {
+  title: "New campaign brief",
+};
+
+export default function BriefPage() {
+  const names = new Intl.DisplayNames(["en"], { type: "language" });
+  const locales = BRIEF_LOCALE_OPTIONS.map((value) => ({ value, label: `${names.of(value) ?? value} (${value})` }));
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-2xl flex-col gap-8 px-6 py-16">
+      <header className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">New campaign brief</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Submit a brief to generate, optimize and deploy one microsite per target locale.
+        </p>
+      </header>
+      <BriefForm locales={locales} />
+    </main>
+  );
+}
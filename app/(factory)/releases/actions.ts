@@ -0,0 +1,19 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { releases } from "./data";
+
+function readVersion(formData: FormData): number | undefined {
+  const version = Number(formData.get("version"));
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
+
+export async function promoteVersion(formData: FormData): Promise<void> {
+  await releases.promote(String(formData.get("campaignId")), readVersion(formData));
+  revalidatePath("/releases");
+}
+
+export async function rollbackRelease(formData: FormData): Promise<void> {
+  await releases.rollback(String(formData.get("campaignId")), readVersion(formData));
+  revalidatePath("/releases");
+}
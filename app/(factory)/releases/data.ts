@@ -0,0 +1,15 @@
+import { ReleaseManager } from "@/lib/deployment/release-manager";
+
+export const releases = new ReleaseManager();
+
+export function loadReleases() {
+  return releases.listOverviews();
+}
+
+/**
+ * What promoting the preview would change in production; null when there is nothing to compare.
+ */
+export async function loadPendingChanges(campaignId: string, production?: number, preview?: number) {
+  if (production === undefined || preview === undefined || production === preview) return null;
+  return releases.diff(campaignId, production, preview);
+}
@@ -0,0 +1,121 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { formatTime } from "@/components/factory/format";
+import { VersionChanges } from "@/components/factory/version-changes";
+import { PREVIEW_QUERY_PARAM, type ReleaseOverview } from "@/lib/deployment/release-manager";
+import { promoteVersion, rollbackRelease } from "./actions";
+import { loadPendingChanges, loadReleases } from "./data";
+
+export const metadata: Metadata = {
+  title: "Releases",
+};
+
+// Promotions and rollbacks must show up immediately.
+export const dynamic = "force-dynamic";
+
+export default async function ReleasesPage() {
+  const overviews = await loadReleases();
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-10 px-6 py-16">
+      <header className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Releases</h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Every run deploys a preview. Promote it to put it in production, or roll back to the previous production version.
+        </p>
+      </header>
+
+      {overviews.length === 0 ? (
+        <p className="text-zinc-600 dark:text-zinc-400">
+          Nothing deployed yet. <Link href="/runs" className="underline">Check the pipeline runs.</Link>
+        </p>
+      ) : (
+        overviews.map((overview) => <CampaignReleases key={overview.campaignId} overview={overview} />)
+      )}
+    </main>
+  );
+}
+
+async function CampaignReleases({ overview }: { overview: ReleaseOverview }) {
+  const { campaignId, preview, production, rollbackTarget } = overview;
+  const pending = await loadPendingChanges(campaignId, production, preview);
+
+  return (
+    <section className="flex flex-col gap-4 border-t border-zinc-200 pt-6 dark:border-zinc-800">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-semibold">{campaignId}</h2>
+          <p className="text-sm text-zinc-500">
+            production {production ? `v${production}` : "none"} · preview v{preview} ·{" "}
+            <a href={`/${encodeURIComponent(campaignId)}?${PREVIEW_QUERY_PARAM}`} className="underline">open preview</a>
+          </p>
+        </div>
+        <div className="flex gap-2 text-sm">
+          {rollbackTarget !== undefined && (
+            <form action={rollbackRelease}>
+              <input type="hidden" name="campaignId" value={campaignId} />
+              <input type="hidden" name="version" value={rollbackTarget} />
+              <button type="submit" className="rounded border border-zinc-300 px-3 py-1.5 dark:border-zinc-700">
+                Roll back to v{rollbackTarget}
+              </button>
+            </form>
+          )}
+          {preview !== undefined && preview !== production && (
+            <form action={promoteVersion}>
+              <input type="hidden" name="campaignId" value={campaignId} />
+              <input type="hidden" name="version" value={preview} />
+              <button type="submit" className="rounded bg-zinc-900 px-3 py-1.5 text-white dark:bg-zinc-100 dark:text-zinc-900">
+                Promote v{preview}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="border-b border-zinc-200 text-zinc-500 dark:border-zinc-800">
+          <tr>
+            <th className="py-2 pr-4 font-medium">Version</th>
+            <th className="py-2 pr-4 font-medium">Run</th>
+            <th className="py-2 font-medium">Deployed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...overview.versions].reverse().map((version) => (
+            <tr key={version.version} className="border-b border-zinc-100 dark:border-zinc-900">
+              <td className="py-2 pr-4">
+                v{version.version}
+                {version.version === production && <span className="ml-2 text-xs text-emerald-700 dark:text-emerald-300">production</span>}
+                {version.version === preview && <span className="ml-2 text-xs text-sky-700 dark:text-sky-300">preview</span>}
+              </td>
+              <td className="py-2 pr-4">
+                <Link href={`/runs/${encodeURIComponent(version.runId)}`} className="font-mono text-xs underline-offset-4 hover:underline">
+                  {version.runId}
+                </Link>
+              </td>
+              <td className="py-2 text-xs text-zinc-500">{formatTime(version.deployedAt)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {pending && (
+        <div className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold">Changes since production</h3>
+          <VersionChanges diff={pending} />
+        </div>
+      )}
+
+      {overview.history.length > 0 && (
+        <ol className="flex flex-col gap-1 text-xs text-zinc-500">
+          {[...overview.history].reverse().map((event, index) => (
+            <li key={index}>
+              {formatTime(event.at)} · {event.action} to v{event.version}
+              {event.previousVersion !== undefined && ` (was v${event.previousVersion})`}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,119 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { formatTime } from "@/components/factory/format";
+import { LiveRefresh } from "@/components/factory/live-refresh";
+import { RunStatusBadge, SeoAuditFindings, StageTimeline } from "@/components/factory/run-status";
+import { summarizeLocales, summarizeRun } from "@/lib/rendering/run-summary";
+import { loadRun } from "../data";
+
+type RunPageProps = {
+  params: Promise<{ runId: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: RunPageProps): Promise<Metadata> {
+  const { runId } = await params;
+  return { title: `Run ${decodeURIComponent(runId)}` };
+}
+
+export default async function RunPage({ params }: RunPageProps) {
+  const { runId } = await params;
+  const state = await loadRun(runId);
+  if (!state) notFound();
+
+  const run = summarizeRun(state);
+  const locales = summarizeLocales(state);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-10 px-6 py-16">
+      <header className="flex flex-col gap-4">
+        <Link href="/runs" className="text-sm text-zinc-500 hover:underline">← All runs</Link>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-semibold tracking-tight">{run.campaignId ?? run.id}</h1>
+          <RunStatusBadge status={run.status} />
+          <LiveRefresh active={run.status === "running"} />
+        </div>
+        <p className="font-mono text-xs text-zinc-500">
+          {run.id} · {run.priority} · started {formatTime(run.startedAt)} · updated {formatTime(run.lastUpdated)}
+          {run.traceId && <> · trace {run.traceId}</>}
+        </p>
+        <StageTimeline stages={run.stages} />
+      </header>
+
+      {state.errors.length > 0 && (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Errors & warnings</h2>
+          <ul className="flex flex-col gap-1 text-sm">
+            {state.errors.map((error, index) => (
+              <li key={index} className={error.fatal ? "text-red-600 dark:text-red-400" : "text-amber-700 dark:text-amber-300"}>
+                <span className="font-mono text-xs">[{error.module}]</span> {error.message}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {run.deployment && (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Deployment</h2>
+          <pre className="overflow-x-auto rounded-md bg-zinc-100 p-4 text-xs dark:bg-zinc-900">
+            {JSON.stringify({ ...run.deployment, crawl: { sitemapUrl: run.deployment.crawl.sitemapUrl, robotsUrl: run.deployment.crawl.robotsUrl } }, null, 2)}
+          </pre>
+        </section>
+      )}
+
+      {state.data.seoAudit && (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">SEO audit</h2>
+          <p className="text-sm">
+            <span className={state.data.seoAudit.passed ? "text-emerald-700 dark:text-emerald-300" : "text-red-600 dark:text-red-400"}>
+              {state.data.seoAudit.passed ? "passed" : "failed"}
+            </span>
+            {" "}· lowest locale score {state.data.seoAudit.score} (minimum {state.data.seoAudit.minScore}) ·{" "}
+            <a href={`/api/runs/${encodeURIComponent(run.id)}/seo-audit`} className="underline">JSON report</a>
+          </p>
+        </section>
+      )}
+
+      <section className="flex flex-col gap-4">
+        <h2 className="text-lg font-semibold">Locales ({run.variants.generated}/{run.variants.requested} generated)</h2>
+        {locales.map(({ locale, creative, seo, audit, errors }) => (
+          <article key={locale} className="grid gap-4 rounded-lg border border-zinc-200 p-4 md:grid-cols-2 dark:border-zinc-800">
+            <div className="flex flex-col gap-2">
+              <h3 className="font-mono text-sm font-semibold">{locale} · creative</h3>
+              {creative ? (
+                <>
+                  <p className="text-xl font-semibold">{creative.heroTitle}</p>
+                  <p className="text-sm">{creative.bodyCopy}</p>
+                  <p className="text-sm"><span className="text-zinc-500">CTA:</span> {creative.ctaText}</p>
+                  <p className="text-xs text-zinc-500">{creative.layoutId}{creative.generationModel ? ` · ${creative.generationModel}` : ""}</p>
+                </>
+              ) : errors.length > 0 ? (
+                errors.map((message) => <p key={message} className="text-sm text-red-600 dark:text-red-400">{message}</p>)
+              ) : (
+                <p className="text-sm text-zinc-500">{run.status === "running" ? "Generating…" : "Not generated."}</p>
+              )}
+            </div>
+            <div className="flex flex-col gap-2">
+              <h3 className="font-mono text-sm font-semibold">{locale} · SEO</h3>
+              {seo ? (
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                  <dt className="text-zinc-500">title</dt><dd>{seo.seo.title}</dd>
+                  <dt className="text-zinc-500">description</dt><dd>{seo.seo.description}</dd>
+                  <dt className="text-zinc-500">canonical</dt><dd className="break-all font-mono text-xs">{seo.seo.canonicalUrl}</dd>
+                  <dt className="text-zinc-500">keywords</dt><dd>{seo.keywordsApplied.join(", ") || "–"}</dd>
+                  <dt className="text-zinc-500">hreflang</dt><dd className="font-mono text-xs">{Object.keys(seo.seo.hreflang ?? {}).join(" ")}</dd>
+                </dl>
+              ) : (
+                <p className="text-sm text-zinc-500">{creative && run.status === "running" ? "Optimizing…" : "No SEO metadata."}</p>
+              )}
+              {audit && <SeoAuditFindings audit={audit} />}
+            </div>
+          </article>
+        ))}
+      </section>
+    </main>
+  );
+}
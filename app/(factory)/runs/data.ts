@@ -0,0 +1,26 @@
+import { getSharedLimiter } from "@/lib/resilience/concurrency-limiter";
+import { FileWorkflowStateStore } from "@/lib/state/workflow-store";
+
+const store = new FileWorkflowStateStore();
+
+export function loadRuns() {
+  return store.list();
+}
+
+/**
+ * Null for unknown or malformed ids (the store rejects ids that are not safe file names).
+ */
+export async function loadRun(runId: string) {
+  try {
+    return await store.load(decodeURIComponent(runId));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Counts of the limiter shared by every run in this server process.
+ */
+export function loadCapacity() {
+  return getSharedLimiter().stats();
+}
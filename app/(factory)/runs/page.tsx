@@ -0,0 +1,84 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { formatTime } from "@/components/factory/format";
+import { LiveRefresh } from "@/components/factory/live-refresh";
+import { CapacityMeter, DeploymentRegions, RunStatusBadge, StageTimeline } from "@/components/factory/run-status";
+import { summarizeRun } from "@/lib/rendering/run-summary";
+import { loadCapacity, loadRuns } from "./data";
+
+export const metadata: Metadata = {
+  title: "Pipeline runs",
+};
+
+// Runs change while the pipeline works; never serve a cached list.
+export const dynamic = "force-dynamic";
+
+export default async function RunsPage() {
+  const summaries = (await loadRuns()).map((state) => summarizeRun(state));
+  const capacity = loadCapacity();
+  const busy = capacity.inFlight + capacity.queued.interactive + capacity.queued.batch > 0;
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-8 px-6 py-16">
+      <header className="flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold tracking-tight">Pipeline runs</h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            Newest first. Open a run to compare copy and SEO per locale, or <Link href="/releases" className="underline">promote a version</Link>.
+          </p>
+          <CapacityMeter stats={capacity} />
+        </div>
+        <LiveRefresh active={busy || summaries.some((run) => run.status === "running")} />
+      </header>
+
+      {summaries.length === 0 ? (
+        <p className="text-zinc-600 dark:text-zinc-400">
+          No runs yet. <Link href="/brief" className="underline">Submit a brief</Link> to start one.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-zinc-200 text-zinc-500 dark:border-zinc-800">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Run</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Stages</th>
+                <th className="py-2 pr-4 font-medium">Variants</th>
+                <th className="py-2 pr-4 font-medium">Deployment</th>
+                <th className="py-2 font-medium">Updated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((run) => (
+                <tr key={run.id} className="border-b border-zinc-100 align-top dark:border-zinc-900">
+                  <td className="py-3 pr-4">
+                    <Link href={`/runs/${encodeURIComponent(run.id)}`} className="font-medium underline-offset-4 hover:underline">
+                      {run.campaignId ?? run.id}
+                    </Link>
+                    <div className="font-mono text-xs text-zinc-500">{run.id}</div>
+                    <div className="text-xs text-zinc-500">{run.priority}</div>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <RunStatusBadge status={run.status} />
+                    {run.fatalError && <div className="mt-1 max-w-56 text-xs text-red-600 dark:text-red-400">{run.fatalError}</div>}
+                  </td>
+                  <td className="py-3 pr-4"><StageTimeline stages={run.stages} /></td>
+                  <td className="py-3 pr-4 whitespace-nowrap">
+                    {run.variants.generated}/{run.variants.requested} generated
+                    {run.variants.failed > 0 && <div className="text-xs text-red-600 dark:text-red-400">{run.variants.failed} failed</div>}
+                  </td>
+                  <td className="py-3 pr-4 text-xs">
+                    {run.deployment ? (
+                      <DeploymentRegions manifest={run.deployment} />
+                    ) : "–"}
+                  </td>
+                  <td className="py-3 whitespace-nowrap text-xs text-zinc-500">{formatTime(run.lastUpdated)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import { cache } from "react";
+import type { ReleaseTarget } from "@/lib/contracts/contracts";
+import { MicrositeRepository } from "@/lib/rendering/microsite-repository";
+
+const repository = new MicrositeRepository();
+
+// Deduplicated per request: generateMetadata and the page share one store read.
+export const loadCampaign = cache((campaign: string, target: ReleaseTarget) =>
+  repository.findCampaign(campaign, target),
+);
+
+export const loadVariant = cache(async (campaign: string, locale: string, target: ReleaseTarget) => {
+  const published = await loadCampaign(campaign, target);
+  const wanted = locale.toLowerCase();
+  return published?.variants.find((variant) => variant.locale.toLowerCase() === wanted) ?? null;
+});
@@ -0,0 +1,71 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { MicrositeLayout } from "@/components/microsite/microsite-layout";
+import { PrivacyNotices } from "@/components/microsite/privacy-notices";
+import { TelemetryBeacon } from "@/components/microsite/telemetry-beacon";
+import type { PrivacyNotice, ReleaseTarget } from "@/lib/contracts/contracts";
+import { deploymentForLocale } from "@/lib/deployment/deployment-manifest";
+import {
+  CONSENT_STATE_HEADER,
+  PRIVACY_NOTICES_HEADER,
+  isTrackingAllowed,
+  type ConsentState,
+} from "@/lib/deployment/middleware-policy";
+import { PREVIEW_QUERY_PARAM } from "@/lib/deployment/release-manager";
+import { serializeJsonLd, toNextMetadata } from "@/lib/rendering/next-metadata";
+import { loadCampaign, loadVariant } from "./data";
+
+type MicrositePageProps = {
+  params: Promise<{ locale: string; campaign: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+async function releaseTarget(searchParams: MicrositePageProps["searchParams"]): Promise<ReleaseTarget> {
+  return PREVIEW_QUERY_PARAM in (await searchParams) ? "preview" : "production";
+}
+
+// Content changes with every deployment, so pages are rendered per request.
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params, searchParams }: MicrositePageProps): Promise<Metadata> {
+  const [{ locale, campaign }, target] = await Promise.all([params, releaseTarget(searchParams)]);
+  const variant = await loadVariant(campaign, locale, target);
+  if (!variant) return {};
+  // Previews must never compete with the production page in search results.
+  return target === "preview" ? { ...toNextMetadata(variant), robots: { index: false, follow: false } } : toNextMetadata(variant);
+}
+
+export default async function MicrositePage({ params, searchParams }: MicrositePageProps) {
+  const [{ locale, campaign }, target] = await Promise.all([params, releaseTarget(searchParams)]);
+  const [published, variant] = await Promise.all([loadCampaign(campaign, target), loadVariant(campaign, locale, target)]);
+  if (!published || !variant) notFound();
+
+  // Set by the proxy; a missing header (proxy bypassed) counts as no consent.
+  const requestHeaders = await headers();
+  const consent = requestHeaders.get(CONSENT_STATE_HEADER);
+  const notices = (requestHeaders.get(PRIVACY_NOTICES_HEADER)?.split(",").filter(Boolean) ?? []) as PrivacyNotice[];
+  // Each locale reports to the regional deployment serving it; previews are reviewed, not measured.
+  const deployment = deploymentForLocale(published.manifest, variant.locale);
+  const trackingAllowed = isTrackingAllowed(consent) && deployment !== undefined && target === "production";
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(variant.seo.structuredData) }}
+      />
+      <MicrositeLayout variant={variant} theme={published.theme} />
+      {trackingAllowed && deployment && (
+        // Same-origin path, so the consent cookie travels with every beacon.
+        <TelemetryBeacon
+          endpoint={new URL(deployment.telemetryEndpoint).pathname}
+          deploymentId={deployment.deploymentId}
+          locale={variant.locale}
+          variant={variant.layoutId}
+        />
+      )}
+      {consent && <PrivacyNotices notices={notices} consent={consent as ConsentState} />}
+    </>
+  );
+}
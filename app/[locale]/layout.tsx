@@ -0,0 +1,26 @@
+import { notFound } from "next/navigation";
+import { resolveLocale } from "@/lib/locale/locale-registry";
+import "../globals.css";
+
+/**
+ * Root layout for published microsites.
+ * Lives beside the factory's own root layout so <html lang dir> always matches the page locale.
+ */
+export default async function MicrositeRootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  const { locale } = await params;
+
+  const info = resolveLocale(locale);
+  if (!info) notFound();
+
+  return (
+    <html lang={info.tag} dir={info.direction}>
+      <body className="antialiased">{children}</body>
+    </html>
+  );
+}
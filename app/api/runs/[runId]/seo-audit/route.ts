@@ -0,0 +1,22 @@
+import { FileWorkflowStateStore } from "@/lib/state/workflow-store";
+
+type SeoAuditRouteContext = {
+  params: Promise<{ runId: string }>;
+};
+
+const store = new FileWorkflowStateStore();
+
+/**
+ * The persisted SEO audit report of a run (404 until the AUDIT stage has finished).
+ */
+export async function GET(_request: Request, { params }: SeoAuditRouteContext) {
+  const { runId } = await params;
+  const state = await store.load(runId).catch(() => null); // Unsafe ids are rejected by the store
+  if (!state) {
+    return Response.json({ error: "UNKNOWN_RUN" }, { status: 404 });
+  }
+  if (!state.data.seoAudit) {
+    return Response.json({ error: "NOT_AUDITED" }, { status: 404 });
+  }
+  return Response.json(state.data.seoAudit);
+}
@@ -0,0 +1,45 @@
+import { TelemetryIngestionError } from "@/lib/contracts/errors";
+import { MicrositeRepository } from "@/lib/rendering/microsite-repository";
+import { AnalyticsAggregationJob } from "@/lib/telemetry/analytics-report";
+import { TelemetryIngestionService } from "@/lib/telemetry/telemetry-ingestion";
+
+type TelemetryRouteContext = {
+  params: Promise<{ deploymentId: string }>;
+};
+
+const ingestion = new TelemetryIngestionService();
+const aggregation = new AnalyticsAggregationJob();
+const repository = new MicrositeRepository();
+
+const STATUS_BY_REASON: Record<TelemetryIngestionError["reason"], number> = {
+  UNKNOWN_DEPLOYMENT: 404,
+  MALFORMED_PAYLOAD: 400,
+  BATCH_TOO_LARGE: 413,
+};
+
+/**
+ * Ingests page_view / cta_click / conversion events for one deployment (DeploymentConfig.telemetryEndpoint).
+ */
+export async function POST(request: Request, { params }: TelemetryRouteContext) {
+  const { deploymentId } = await params;
+  try {
+    const result = await ingestion.ingest(deploymentId, request);
+    return Response.json(result, { status: 202 });
+  } catch (error) {
+    if (error instanceof TelemetryIngestionError) {
+      return Response.json({ error: error.reason, message: error.message }, { status: STATUS_BY_REASON[error.reason] });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs the aggregation job and returns the fresh analytics.json report.
+ */
+export async function GET(_request: Request, { params }: TelemetryRouteContext) {
+  const { deploymentId } = await params;
+  if (!(await repository.findDeployment(deploymentId))) {
+    return Response.json({ error: "UNKNOWN_DEPLOYMENT" }, { status: 404 });
+  }
+  return Response.json(await aggregation.run(deploymentId));
+}
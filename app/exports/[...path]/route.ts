@@ -0,0 +1,31 @@
+import { LocalStaticExportProvider } from "@/lib/deployment/providers/local-static-provider";
+
+type ExportRouteContext = {
+  params: Promise<{ path: string[] }>;
+};
+
+const provider = new LocalStaticExportProvider();
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Serves the static exports written by the local deployment provider (DEPLOYMENT_PROVIDER=local-static),
+ * e.g. /exports/{campaign}/{manifestId}/it-IT/{campaign}/index.html.
+ */
+export async function GET(request: Request, { params }: ExportRouteContext) {
+  const { path } = await params;
+  const entry = await provider.read(path);
+
+  if (!entry) {
+    return new Response("Not found", { status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+  }
+  if (entry.kind === "directory") {
+    // Exported pages link relative to their index.html
+    const url = new URL(request.url);
+    url.pathname = `${url.pathname.replace(/\/+$/, "")}/index.html`;
+    return Response.redirect(url, 308);
+  }
+  return new Response(new Uint8Array(entry.content), {
+    headers: { "Content-Type": entry.contentType, "Cache-Control": "public, max-age=31536000, immutable" },
+  });
+}
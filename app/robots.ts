@@ -0,0 +1,15 @@
+import type { MetadataRoute } from "next";
+import { getSiteBaseUrl } from "@/lib/config/factory-config";
+import { loadSiteSitemapChunks } from "@/lib/rendering/site-crawl";
+
+export const dynamic = "force-dynamic";
+
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const chunks = await loadSiteSitemapChunks();
+  const baseUrl = getSiteBaseUrl();
+
+  return {
+    rules: { userAgent: "*", allow: "/", disallow: "/api/" },
+    sitemap: chunks.length > 1 ? `${baseUrl}/sitemap-index.xml` : `${baseUrl}/sitemap/0.xml`,
+  };
+}
@@ -0,0 +1,19 @@
+import { getSiteBaseUrl } from "@/lib/config/factory-config";
+import { renderSitemapIndexXml } from "@/lib/deployment/crawl-artifacts";
+import { loadSiteSitemapChunks } from "@/lib/rendering/site-crawl";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Sitemap index over the /sitemap/[id].xml chunks; robots.txt points here once the site exceeds one sitemap.
+ */
+export async function GET() {
+  const chunks = await loadSiteSitemapChunks();
+  const baseUrl = getSiteBaseUrl();
+  const xml = renderSitemapIndexXml(
+    chunks.map((_, id) => `${baseUrl}/sitemap/${id}.xml`),
+    new Date().toISOString(),
+  );
+
+  return new Response(xml, { headers: { "Content-Type": "application/xml" } });
+}
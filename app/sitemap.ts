@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+import { loadSiteSitemapChunks } from "@/lib/rendering/site-crawl";
+
+// Served as /sitemap/[id].xml; a new deployment must show up without a rebuild.
+export const dynamic = "force-dynamic";
+
+export async function generateSitemaps() {
+  const chunks = await loadSiteSitemapChunks();
+  return chunks.map((_, id) => ({ id }));
+}
+
+export default async function sitemap({ id }: { id: Promise<string> }): Promise<MetadataRoute.Sitemap> {
+  const chunks = await loadSiteSitemapChunks();
+  const chunk = chunks[Number(await id)] ?? [];
+
+  return chunk.map((entry) => ({
+    url: entry.url,
+    lastModified: entry.lastModified,
+    alternates: { languages: entry.alternates },
+  }));
+}
@@ -0,0 +1,22 @@
+import { loadCampaignCrawlFile } from "@/lib/rendering/site-crawl";
+
+type CampaignSitemapRouteContext = {
+  params: Promise<{ campaign: string; file: string }>;
+};
+
+// A promotion must show up without a rebuild.
+export const dynamic = "force-dynamic";
+
+/**
+ * A campaign's own sitemaps, at the URLs its deployment advertises (DeploymentManifest.crawl.sitemapUrl),
+ * e.g. /sitemaps/summer-2026/sitemap.xml. Served from the production version.
+ */
+export async function GET(_request: Request, { params }: CampaignSitemapRouteContext) {
+  const { campaign, file } = await params;
+  const artifact = await loadCampaignCrawlFile(campaign, file).catch(() => null); // Unsafe ids are rejected by the store
+
+  if (!artifact) {
+    return new Response("Not found", { status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+  }
+  return new Response(artifact.content, { headers: { "Content-Type": artifact.contentType } });
+}
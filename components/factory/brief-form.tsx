@@ -0,0 +1,112 @@
+"use client";
+
+import Link from "next/link";
+import { useActionState } from "react";
+import { submitBrief } from "@/app/(factory)/brief/actions";
+import { INITIAL_BRIEF_FORM_STATE } from "@/lib/inbound/brief-form";
+
+type BriefFormProps = {
+  locales: Array<{ value: string; label: string }>;
+};
+
+const inputClass =
+  "rounded-md border border-zinc-300 bg-transparent px-3 py-2 text-base aria-invalid:border-red-500 dark:border-zinc-700";
+
+function FieldErrors({ id, errors }: { id: string; errors?: string[] }) {
+  if (!errors?.length) return null;
+  return (
+    <ul id={id} className="text-sm text-red-600 dark:text-red-400">
+      {errors.map((message) => (
+        <li key={message}>{message}</li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Brief intake form. Validation runs server-side (InboundOrchestrator) and errors come back per field.
+ */
+export function BriefForm({ locales }: BriefFormProps) {
+  const [state, formAction, pending] = useActionState(submitBrief, INITIAL_BRIEF_FORM_STATE);
+  const { values, fieldErrors } = state;
+  const invalid = (field: string) => (fieldErrors[field]?.length ? true : undefined);
+
+  return (
+    <form action={formAction} className="flex flex-col gap-6" noValidate>
+      {state.status === "started" && (
+        <p role="status" className="rounded-md bg-emerald-50 p-4 text-emerald-900 dark:bg-emerald-950 dark:text-emerald-100">
+          Brief accepted. Pipeline run{" "}
+          <Link href={`/runs/${state.runId}`} className="font-mono underline">{state.runId}</Link> has started.
+        </p>
+      )}
+      {state.warnings.length > 0 && (
+        <ul className="rounded-md bg-amber-50 p-4 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100">
+          {state.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      <label className="flex flex-col gap-2">
+        <span className="font-medium">Campaign ID</span>
+        <input name="campaignId" defaultValue={values.campaignId} className={inputClass}
+          aria-invalid={invalid("campaignId")} aria-describedby="campaignId-errors" />
+        <FieldErrors id="campaignId-errors" errors={fieldErrors.campaignId} />
+      </label>
+
+      <label className="flex flex-col gap-2">
+        <span className="font-medium">Brand</span>
+        <input name="brandName" defaultValue={values.brandName} className={inputClass}
+          aria-invalid={invalid("brandName")} aria-describedby="brandName-errors" />
+        <FieldErrors id="brandName-errors" errors={fieldErrors.brandName} />
+      </label>
+
+      <label className="flex flex-col gap-2">
+        <span className="font-medium">Core message</span>
+        <textarea name="coreMessage" rows={4} defaultValue={values.coreMessage} className={inputClass}
+          aria-invalid={invalid("coreMessage")} aria-describedby="coreMessage-errors" />
+        <FieldErrors id="coreMessage-errors" errors={fieldErrors.coreMessage} />
+      </label>
+
+      <fieldset className="flex flex-col gap-2" aria-describedby="targetLocales-errors">
+        <legend className="mb-2 font-medium">Target locales</legend>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {locales.map((locale) => (
+            <label key={locale.value} className="flex items-center gap-2">
+              <input type="checkbox" name="targetLocales" value={locale.value}
+                defaultChecked={values.targetLocales.includes(locale.value)} />
+              {locale.label}
+            </label>
+          ))}
+        </div>
+        <FieldErrors id="targetLocales-errors" errors={fieldErrors.targetLocales} />
+        <label className="mt-2 flex items-center gap-2 text-sm">
+          <input type="checkbox" name="restrictToTargetMarkets" defaultChecked={values.restrictToTargetMarkets} />
+          Only serve visitors from the target countries
+        </label>
+        <FieldErrors id="restrictToTargetMarkets-errors" errors={fieldErrors.restrictToTargetMarkets} />
+      </fieldset>
+
+      <label className="flex flex-col gap-2">
+        <span className="font-medium">Logo</span>
+        <input type="file" name="logo" accept="image/png,image/jpeg,image/svg+xml,image/webp"
+          aria-invalid={invalid("assets.logoUrl")} aria-describedby="logo-errors" />
+        <FieldErrors id="logo-errors" errors={fieldErrors["assets.logoUrl"]} />
+      </label>
+
+      <label className="flex flex-col gap-2">
+        <span className="font-medium">Keywords (CSV)</span>
+        <input type="file" name="keywords" accept=".csv,text/csv"
+          aria-invalid={invalid("assets.keywordsCsvUrl")} aria-describedby="keywords-errors" />
+        <FieldErrors id="keywords-errors" errors={fieldErrors["assets.keywordsCsvUrl"]} />
+      </label>
+
+      <FieldErrors id="assets-errors" errors={fieldErrors.assets} />
+
+      <button type="submit" disabled={pending}
+        className="h-12 rounded-full bg-foreground px-6 font-medium text-background transition-opacity hover:opacity-85 disabled:opacity-50">
+        {pending ? "Validating…" : "Submit brief"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+
+type LiveRefreshProps = {
+  active: boolean;
+  intervalMs?: number;
+};
+
+/**
+ * Re-renders the surrounding server page on an interval while runs are in flight.
+ * Stops polling as soon as the page reports nothing active.
+ */
+export function LiveRefresh({ active, intervalMs = 2000 }: LiveRefreshProps) {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => router.refresh(), intervalMs);
+    return () => clearInterval(timer);
+  }, [active, intervalMs, router]);
+
+  return active ? (
+    <span className="inline-flex items-center gap-2 text-sm text-zinc-500">
+      <span className="h-2 w-2 animate-pulse rounded-full bg-emerald-500" aria-hidden />
+      Live
+    </span>
+  ) : null;
+}
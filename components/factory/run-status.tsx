@@ -0,0 +1,108 @@
+import { Fragment } from "react";
+import type { DeploymentManifest, LimiterStats, SeoVariantAudit } from "@/lib/contracts/contracts";
+import type { RunStatus, StageSummary } from "@/lib/rendering/run-summary";
+import { formatDuration } from "./format";
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+  running: "bg-sky-100 text-sky-900 dark:bg-sky-950 dark:text-sky-100",
+  completed: "bg-emerald-100 text-emerald-900 dark:bg-emerald-950 dark:text-emerald-100",
+  failed: "bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-100",
+  stalled: "bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100",
+};
+
+const STAGE_STYLES: Record<StageSummary["state"], string> = {
+  pending: "border-zinc-200 text-zinc-400 dark:border-zinc-800",
+  active: "border-sky-400 text-sky-700 animate-pulse dark:text-sky-300",
+  succeeded: "border-emerald-400 text-emerald-700 dark:text-emerald-300",
+  failed: "border-red-400 text-red-700 dark:text-red-300",
+  skipped: "border-zinc-300 text-zinc-500 dark:border-zinc-700",
+};
+
+export function RunStatusBadge({ status }: { status: RunStatus }) {
+  return <span className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>{status}</span>;
+}
+
+/**
+ * Load on the shared provider limiter: calls in flight and waiting, per run priority.
+ */
+export function CapacityMeter({ stats }: { stats: LimiterStats }) {
+  return (
+    <p className="text-sm text-zinc-500">
+      Provider capacity: {stats.inFlight}/{stats.maxConcurrent} in flight · {stats.queued.interactive} interactive
+      and {stats.queued.batch} batch queued
+      {stats.ratePerSecond !== undefined && ` · ${stats.ratePerSecond}/s (${stats.tokensAvailable} tokens)`}
+    </p>
+  );
+}
+
+/**
+ * One cell per pipeline stage with its state and duration.
+ */
+export function StageTimeline({ stages }: { stages: StageSummary[] }) {
+  return (
+    <ol className="flex gap-1">
+      {stages.map((stage) => (
+        <li key={stage.step} title={`${stage.step}: ${stage.state}`}
+          className={`flex min-w-24 flex-col rounded-md border px-2 py-1 text-xs ${STAGE_STYLES[stage.state]}`}>
+          <span className="font-medium">{stage.step}</span>
+          <span>{stage.state === "active" ? "running…" : formatDuration(stage.durationMs)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * One locale's SEO audit score and findings, errors first.
+ */
+export function SeoAuditFindings({ audit }: { audit: SeoVariantAudit }) {
+  const findings = [...audit.findings].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <p><span className="text-zinc-500">audit score</span> {audit.score}/100</p>
+      <ul className="flex flex-col gap-0.5 text-xs">
+        {findings.map((finding) => (
+          <li key={`${finding.check}:${finding.field}`} className={finding.severity === "error" ? "text-red-600 dark:text-red-400" : "text-amber-700 dark:text-amber-300"}>
+            <span className="font-mono">[{finding.check}]</span> {finding.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Regional deployments of a manifest (region, id, served locales) and the campaign-wide edge rules.
+ */
+export function DeploymentRegions({ manifest }: { manifest: DeploymentManifest }) {
+  const rules = manifest.deployments[0]?.middlewareRules;
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-2">
+      {manifest.deployments.map((deployment) => (
+        <Fragment key={deployment.deploymentId}>
+          <dt className="text-zinc-500">{deployment.edgeRegion}</dt>
+          <dd>
+            <span className="font-mono">{deployment.deploymentId}</span>
+            {deployment.isLive ? " · live" : ""} · {deployment.locales.join(", ")}
+            {deployment.url && (
+              <>
+                {" · "}
+                <a href={deployment.url} className="underline">open</a>
+              </>
+            )}
+          </dd>
+        </Fragment>
+      ))}
+      {rules && (
+        <>
+          <dt className="text-zinc-500">rules</dt>
+          <dd>
+            {rules.consentRequired ? "consent" : "no consent"}
+            {rules.privacy?.length ? ` · ${rules.privacy.map((rule) => rule.regime).join(", ")}` : ""}
+            {rules.geoBlocking ? ` · geo: ${rules.allowedCountries.join(", ")}` : ""}
+          </dd>
+        </>
+      )}
+    </dl>
+  );
+}
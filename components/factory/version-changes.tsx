@@ -0,0 +1,44 @@
+import type { VersionDiff } from "@/lib/contracts/contracts";
+
+const AREA_STYLES = {
+  copy: "text-sky-700 dark:text-sky-300",
+  metadata: "text-violet-700 dark:text-violet-300",
+  middleware: "text-amber-700 dark:text-amber-300",
+};
+
+function shorten(value?: string): string {
+  if (value === undefined) return "–";
+  return value.length > 120 ? `${value.slice(0, 119)}…` : value;
+}
+
+/**
+ * Per-locale changes between two campaign versions (copy, SEO metadata, middleware rules).
+ */
+export function VersionChanges({ diff }: { diff: VersionDiff }) {
+  if (diff.changes.length === 0) {
+    return <p className="text-sm text-zinc-500">v{diff.to} is identical to v{diff.from}.</p>;
+  }
+
+  return (
+    <table className="w-full text-left text-xs">
+      <thead className="border-b border-zinc-200 text-zinc-500 dark:border-zinc-800">
+        <tr>
+          <th className="py-1 pr-3 font-medium">Locale</th>
+          <th className="py-1 pr-3 font-medium">Field</th>
+          <th className="py-1 pr-3 font-medium">v{diff.from}</th>
+          <th className="py-1 font-medium">v{diff.to}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {diff.changes.map((change, index) => (
+          <tr key={index} className="border-b border-zinc-100 align-top dark:border-zinc-900">
+            <td className="py-1 pr-3 font-mono">{change.locale}</td>
+            <td className={`py-1 pr-3 font-mono ${AREA_STYLES[change.area]}`}>{change.field}</td>
+            <td className="py-1 pr-3 text-zinc-500 line-through decoration-zinc-300">{shorten(change.before)}</td>
+            <td className="py-1">{shorten(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,27 @@
+import type { CSSProperties } from "react";
+import { MinimalLayout } from "./minimal-layout";
+import { WideLayout } from "./wide-layout";
+import type { MicrositeLayoutProps, ThemedMicrositeLayoutProps } from "./types";
+
+/**
+ * Renders a variant through the template named by its layoutId
+ * (values chosen by CreativeAIEngine.determineLayout). Unknown ids fall back to the minimal layout.
+ * Theme tokens are set on a wrapper, so the templates' color and font utilities pick up the brand.
+ */
+export function MicrositeLayout({ variant, theme }: ThemedMicrositeLayoutProps) {
+  return (
+    <div style={theme as CSSProperties} className="font-body">
+      <Template variant={variant} />
+    </div>
+  );
+}
+
+function Template({ variant }: MicrositeLayoutProps) {
+  switch (variant.layoutId) {
+    case "layout-wide-v2":
+      return <WideLayout variant={variant} />;
+    case "layout-minimal-v1":
+    default:
+      return <MinimalLayout variant={variant} />;
+  }
+}
@@ -0,0 +1,25 @@
+import type { MicrositeLayoutProps } from "./types";
+
+/**
+ * layout-minimal-v1: single centered column for short, punchy copy.
+ */
+export function MinimalLayout({ variant }: MicrositeLayoutProps) {
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-background px-6 py-24 text-foreground">
+      <section className="flex max-w-2xl flex-col items-center gap-8 text-center">
+        <h1 className="font-heading text-4xl font-semibold leading-tight tracking-tight sm:text-5xl">
+          {variant.heroTitle}
+        </h1>
+        <p className="text-lg leading-8 opacity-80">{variant.bodyCopy}</p>
+        <a
+          href="#cta"
+          id="cta"
+          data-track="cta"
+          className="rounded-full bg-primary px-8 py-3 text-base font-medium text-on-primary transition-opacity hover:opacity-85"
+        >
+          {variant.ctaText}
+        </a>
+      </section>
+    </main>
+  );
+}
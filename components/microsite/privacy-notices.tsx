@@ -0,0 +1,68 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import type { PrivacyNotice } from "@/lib/contracts/contracts";
+import { CONSENT_COOKIE, type ConsentState } from "@/lib/deployment/middleware-policy";
+
+type PrivacyNoticesProps = {
+  notices: PrivacyNotice[];
+  consent: ConsentState;
+};
+
+// Consent choices are re-asked after 13 months
+const CONSENT_MAX_AGE_SECONDS = 395 * 24 * 60 * 60;
+
+/**
+ * Renders the notices the visitor's privacy regimes require (see middlewareRules.privacy):
+ * an opt-in banner until a choice is made, a "Do Not Sell" link, or an opt-out cookie notice.
+ * Choices are stored in the consent cookie the proxy reads, then the page is re-rendered server-side.
+ */
+export function PrivacyNotices({ notices, consent }: PrivacyNoticesProps) {
+  const router = useRouter();
+
+  const choose = (choice: "granted" | "denied") => {
+    document.cookie = `${CONSENT_COOKIE}=${choice}; Path=/; Max-Age=${CONSENT_MAX_AGE_SECONDS}; SameSite=Lax`;
+    router.refresh();
+  };
+
+  const showBanner = notices.includes("consent-banner") && consent === "required";
+  const showCookieNotice = notices.includes("cookie-notice") && consent === "implied";
+  const showDoNotSell = notices.includes("do-not-sell-link");
+  if (!showBanner && !showCookieNotice && !showDoNotSell) return null;
+
+  return (
+    <aside className="fixed inset-x-0 bottom-0 border-t border-zinc-200 bg-white/95 px-6 py-4 text-sm text-zinc-700 backdrop-blur">
+      <div className="mx-auto flex max-w-4xl flex-wrap items-center justify-between gap-3">
+        {showBanner && (
+          <>
+            <p>We use first-party analytics to measure visits and clicks on this page, only with your consent.</p>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => choose("denied")} className="rounded border border-zinc-300 px-3 py-1.5">
+                Decline
+              </button>
+              <button type="button" onClick={() => choose("granted")} className="rounded bg-zinc-900 px-3 py-1.5 text-white">
+                Accept
+              </button>
+            </div>
+          </>
+        )}
+        {showCookieNotice && (
+          <p>
+            This page measures visits with first-party analytics.{" "}
+            <button type="button" onClick={() => choose("denied")} className="underline">
+              Opt out
+            </button>
+          </p>
+        )}
+        {showDoNotSell &&
+          (consent === "denied" ? (
+            <p>You have opted out of the sale or sharing of your personal information.</p>
+          ) : (
+            <button type="button" onClick={() => choose("denied")} className="underline">
+              Do Not Sell or Share My Personal Information
+            </button>
+          ))}
+      </div>
+    </aside>
+  );
+}
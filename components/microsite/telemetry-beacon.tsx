@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect } from "react";
+import type { TelemetryEventType } from "@/lib/contracts/contracts";
+
+type TelemetryBeaconProps = {
+  endpoint: string;
+  deploymentId: string;
+  locale: string;
+  variant: string;
+};
+
+/**
+ * Sends page_view on mount, and cta_click / conversion for clicks on [data-track="cta"] / [data-track="conversion"].
+ * Only rendered by the page once the middleware marked the request as consented (or consent-free).
+ */
+export function TelemetryBeacon({ endpoint, deploymentId, locale, variant }: TelemetryBeaconProps) {
+  useEffect(() => {
+    const send = (type: TelemetryEventType) => {
+      const body = JSON.stringify({
+        eventId: crypto.randomUUID(),
+        type,
+        deploymentId,
+        locale,
+        variant,
+        occurredAt: new Date().toISOString(),
+      });
+      const blob = new Blob([body], { type: "application/json" });
+      if (!navigator.sendBeacon?.(endpoint, blob)) {
+        void fetch(endpoint, { method: "POST", body, headers: { "Content-Type": "application/json" }, keepalive: true });
+      }
+    };
+
+    const onClick = (event: MouseEvent) => {
+      const tracked = (event.target as Element | null)?.closest<HTMLElement>("[data-track]");
+      const type = tracked?.dataset.track;
+      if (type === "cta") send("cta_click");
+      else if (type === "conversion") send("conversion");
+    };
+
+    send("page_view");
+    document.addEventListener("click", onClick);
+    return () => document.removeEventListener("click", onClick);
+  }, [endpoint, deploymentId, locale, variant]);
+
+  return null;
+}
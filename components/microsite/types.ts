@@ -0,0 +1,10 @@
+import type { SEOOptimizedVariant } from "@/lib/contracts/contracts";
+import type { ThemeTokens } from "@/lib/rendering/theme-tokens";
+
+export interface MicrositeLayoutProps {
+  variant: SEOOptimizedVariant;
+}
+
+export interface ThemedMicrositeLayoutProps extends MicrositeLayoutProps {
+  theme?: ThemeTokens; // Brand palette and typography; the default theme applies without it
+}
@@ -0,0 +1,27 @@
+import type { MicrositeLayoutProps } from "./types";
+
+/**
+ * layout-wide-v2: two-column hero for locales with longer copy (de, ru, fi).
+ */
+export function WideLayout({ variant }: MicrositeLayoutProps) {
+  return (
+    <main className="min-h-screen bg-background px-6 py-24 text-foreground">
+      <section className="mx-auto grid max-w-6xl gap-12 md:grid-cols-2 md:items-center">
+        <h1 className="font-heading text-4xl font-semibold leading-tight tracking-tight hyphens-auto sm:text-5xl">
+          {variant.heroTitle}
+        </h1>
+        <div className="flex flex-col items-start gap-8">
+          <p className="text-lg leading-8 opacity-80 hyphens-auto">{variant.bodyCopy}</p>
+          <a
+            href="#cta"
+            id="cta"
+            data-track="cta"
+            className="rounded-md bg-primary px-8 py-3 text-base font-medium text-on-primary transition-opacity hover:opacity-85"
+          >
+            {variant.ctaText}
+          </a>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,102 @@
+import {
+    DataResidency,
+    GeoCompliance,
+    PrivacyNotice,
+    PrivacyRequirement,
+    PrivacyRule
+} from '../contracts/contracts';
+import { gdprCountries } from '../locale/locale-registry';
+
+/**
+ * Module: Privacy Rules Engine
+ * Purpose: Map a campaign's target markets to the privacy regimes that apply to it, and a visitor to the regimes that
+ * cover them. Each regime carries its consent mode, required notices, data residency and retention limit.
+ *
+ * Friction Points Managed:
+ * 1. Beyond GDPR: California, Brazil, Switzerland, the UK and Canada are first-class regimes, not "GLOBAL".
+ * 2. Declarative Rules: Regimes are plain data (DEFAULT_PRIVACY_RULES); a different rule set is passed to the
+ *    constructor, never patched into the evaluation logic.
+ * 3. Strictest Wins: When several regimes apply, opt-in beats opt-out and EU residency beats GLOBAL.
+ *    Visitors whose location is unknown get every applicable regime.
+ */
+
+// Retention limits follow regulator guidance for audience measurement (e.g. CNIL: 13 months) and the
+// CCPA's 12-month look-back; adjust per legal review by passing a custom rule set.
+export const DEFAULT_PRIVACY_RULES: PrivacyRule[] = [
+    { regime: 'GDPR', countries: gdprCountries(), consentMode: 'opt-in', notices: ['consent-banner'], dataResidency: 'EU', retentionDays: 395 },
+    { regime: 'UK_GDPR', countries: ['GB'], consentMode: 'opt-in', notices: ['consent-banner'], dataResidency: 'EU', retentionDays: 395 },
+    { regime: 'CH_FADP', countries: ['CH'], consentMode: 'opt-out', notices: ['cookie-notice'], dataResidency: 'EU', retentionDays: 395 },
+    { regime: 'CCPA_CPRA', countries: ['US'], subdivisions: ['US-CA'], consentMode: 'opt-out', notices: ['do-not-sell-link'], dataResidency: 'GLOBAL', retentionDays: 365 },
+    { regime: 'LGPD', countries: ['BR'], consentMode: 'opt-in', notices: ['consent-banner'], dataResidency: 'GLOBAL', retentionDays: 365 },
+    { regime: 'PIPEDA', countries: ['CA'], consentMode: 'opt-out', notices: ['cookie-notice'], dataResidency: 'GLOBAL', retentionDays: 730 }
+];
+
+const RESIDENCY_STRICTNESS: Record<DataResidency, number> = { GLOBAL: 0, US: 1, EU: 2 };
+
+export class PrivacyRulesEngine {
+
+    private readonly rules: PrivacyRule[];
+
+    constructor(rules: PrivacyRule[] = DEFAULT_PRIVACY_RULES) {
+        for (const rule of rules) {
+            if (rule.countries.length === 0 || !(rule.retentionDays > 0)) {
+                throw new Error(`[PrivacyRulesEngine] Invariant Violation: Rule '${rule.regime}' needs countries and a positive retentionDays.`);
+            }
+        }
+        this.rules = rules;
+    }
+
+    /**
+     * Regimes triggered by the target markets (ISO 3166-1 alpha-2), in rule order.
+     * Subdivision rules trigger on the whole country: a US campaign reaches California.
+     */
+    public evaluate(markets: string[]): PrivacyRequirement[] {
+        const targets = new Set(markets.map(market => market.toUpperCase()));
+        return this.rules
+            .map(rule => ({ ...rule, markets: rule.countries.filter(country => targets.has(country)) }))
+            .filter(requirement => requirement.markets.length > 0);
+    }
+
+    /**
+     * GeoCompliance flags for a set of requirements (allowedCountries is decided separately by the brief).
+     */
+    public summarize(requirements: PrivacyRequirement[]): Omit<GeoCompliance, 'allowedCountries'> {
+        return {
+            requiresGDPR: requirements.some(requirement => requirement.regime === 'GDPR'),
+            cookieConsentActive: requirements.some(requirement => requirement.consentMode === 'opt-in'),
+            dataResidency: strictestResidency(requirements.map(requirement => requirement.dataResidency)),
+            privacy: requirements
+        };
+    }
+}
+
+/**
+ * EU beats US beats GLOBAL; no constraint at all is GLOBAL.
+ */
+export function strictestResidency(residencies: DataResidency[]): DataResidency {
+    return residencies.reduce<DataResidency>(
+        (strictest, residency) => RESIDENCY_STRICTNESS[residency] > RESIDENCY_STRICTNESS[strictest] ? residency : strictest,
+        'GLOBAL'
+    );
+}
+
+/**
+ * Regimes covering one visitor. Unknown countries (or unknown subdivisions of a partly covered country)
+ * get every candidate regime, so missing geo headers never weaken consent.
+ */
+export function regimesForVisitor(requirements: PrivacyRequirement[], country: string | null, subdivision: string | null): PrivacyRequirement[] {
+    if (!country) return requirements;
+    return requirements.filter(requirement => {
+        if (!requirement.countries.includes(country)) return false;
+        const partial = requirement.subdivisions?.filter(code => code.startsWith(`${country}-`)) ?? [];
+        return partial.length === 0 || !subdivision || partial.includes(subdivision);
+    });
+}
+
+/**
+ * Notices the page must render for a set of regimes, deduplicated in rule order.
+ */
+export function requiredNotices(requirements: PrivacyRequirement[]): PrivacyNotice[] {
+    return [...new Set(requirements.flatMap(requirement => requirement.notices))];
+}
+
@@ -0,0 +1,156 @@
+import path from 'node:path';
+import { LogLevel } from '../contracts/contracts';
+
+/**
+ * Module: Factory Configuration
+ * Purpose: Single place where runtime locations and environment-driven settings are resolved.
+ *
+ * Friction Points Managed:
+ * 1. Config Drift: Modules never read process.env directly, so defaults stay consistent across the pipeline and the Next.js app.
+ * 2. Local-first: Everything persists under one data directory, which keeps the MVP free of cloud dependencies.
+ */
+
+const DEFAULT_DATA_DIR = '.factory-data';
+const DEFAULT_SITE_BASE_URL = 'https://microsite-factory.com';
+
+/**
+ * Resolves a path inside the factory data directory.
+ * Override the root with FACTORY_DATA_DIR (absolute or relative to the working directory).
+ */
+export function resolveDataPath(...segments: string[]): string {
+    const root = process.env.FACTORY_DATA_DIR || DEFAULT_DATA_DIR;
+    return path.resolve(process.cwd(), root, ...segments);
+}
+
+/**
+ * Public origin the microsites are served from (canonical URLs, hreflang, sitemaps).
+ * Override with SITE_BASE_URL; trailing slashes are stripped.
+ */
+export function getSiteBaseUrl(): string {
+    return (process.env.SITE_BASE_URL || DEFAULT_SITE_BASE_URL).replace(/\/+$/, '');
+}
+
+export interface TextProviderSettings {
+    provider: 'stub' | 'openai-compatible';
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    timeoutMs: number;
+}
+
+/**
+ * Text-generation backend for the Creative AI Engine.
+ * CREATIVE_PROVIDER=openai-compatible switches from the deterministic stub to any
+ * OpenAI-compatible chat-completions endpoint (OpenAI, Azure gateway, vLLM, Ollama, ...).
+ */
+export function getTextProviderSettings(): TextProviderSettings {
+    return {
+        provider: process.env.CREATIVE_PROVIDER === 'openai-compatible' ? 'openai-compatible' : 'stub',
+        baseUrl: process.env.CREATIVE_API_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.CREATIVE_API_KEY || undefined,
+        model: process.env.CREATIVE_MODEL || 'gpt-4o',
+        timeoutMs: Number(process.env.CREATIVE_TIMEOUT_MS) || 25_000
+    };
+}
+
+export interface DeploymentProviderSettings {
+    provider: 'stub' | 'local-static';
+}
+
+/**
+ * Deployment backend for the GEO Deployment Hub.
+ * DEPLOYMENT_PROVIDER=local-static writes every deployment as a static site under the data directory
+ * (served by the factory at /exports) instead of simulating a platform push.
+ */
+export function getDeploymentProviderSettings(): DeploymentProviderSettings {
+    return {
+        provider: process.env.DEPLOYMENT_PROVIDER === 'local-static' ? 'local-static' : 'stub'
+    };
+}
+
+export interface ConcurrencySettings {
+    maxConcurrent: number;
+    ratePerSecond: number; // 0 disables rate limiting
+    burst: number;
+}
+
+/**
+ * Limits shared by every run in the process for per-locale stage work (creative generation, SEO jobs).
+ * PIPELINE_MAX_CONCURRENCY caps the calls in flight; PIPELINE_RATE_PER_SECOND and PIPELINE_RATE_BURST
+ * shape the token bucket in front of the providers.
+ */
+export function getConcurrencySettings(): ConcurrencySettings {
+    const ratePerSecond = readNumber(process.env.PIPELINE_RATE_PER_SECOND, 20);
+    return {
+        maxConcurrent: Math.max(1, Math.floor(readNumber(process.env.PIPELINE_MAX_CONCURRENCY, 8))),
+        ratePerSecond,
+        burst: readNumber(process.env.PIPELINE_RATE_BURST, ratePerSecond)
+    };
+}
+
+export interface ObservabilitySettings {
+    logLevel: LogLevel;
+    traceExporter: 'none' | 'file' | 'otlp';
+    traceFile: string;
+    otlpEndpoint: string;
+    serviceName: string;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Structured logs and pipeline traces.
+ * LOG_LEVEL filters the JSON log lines (default info). TRACE_EXPORTER=file appends OTLP JSON to TRACE_FILE
+ * (default traces/traces.jsonl in the data directory); TRACE_EXPORTER=otlp posts to the collector at
+ * OTEL_EXPORTER_OTLP_ENDPOINT, which is also the default whenever that endpoint is set.
+ */
+export function getObservabilitySettings(): ObservabilitySettings {
+    const logLevel = LOG_LEVELS.find(level => level === process.env.LOG_LEVEL?.toLowerCase()) ?? 'info';
+    const exporter = process.env.TRACE_EXPORTER?.toLowerCase();
+    return {
+        logLevel,
+        traceExporter: exporter === 'file' || exporter === 'otlp' || exporter === 'none'
+            ? exporter
+            : process.env.OTEL_EXPORTER_OTLP_ENDPOINT ? 'otlp' : 'none',
+        traceFile: process.env.TRACE_FILE ? path.resolve(process.cwd(), process.env.TRACE_FILE) : resolveDataPath('traces', 'traces.jsonl'),
+        otlpEndpoint: (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318').replace(/\/+$/, ''),
+        serviceName: process.env.OTEL_SERVICE_NAME || 'microsite-factory'
+    };
+}
+
+export interface SeoAuditSettings {
+    gate: 'enforce' | 'report';
+    minScore: number; // 0..100, per locale
+}
+
+/**
+ * Pass/fail gate between the SEO and deployment stages.
+ * SEO_AUDIT_GATE=enforce halts runs whose audit fails; the default, report, records the failure as a warning and deploys.
+ * SEO_AUDIT_MIN_SCORE (default 70) is the lowest per-locale score that passes.
+ */
+export function getSeoAuditSettings(): SeoAuditSettings {
+    return {
+        gate: process.env.SEO_AUDIT_GATE?.toLowerCase() === 'enforce' ? 'enforce' : 'report',
+        minScore: Math.min(100, Math.max(0, readNumber(process.env.SEO_AUDIT_MIN_SCORE, 70)))
+    };
+}
+
+export interface SerpTruncationSettings {
+    measure: 'characters' | 'pixels';
+}
+
+/**
+ * How titles and descriptions are fitted to search result snippets.
+ * SERP_MEASURE=pixels fits them to an estimated rendered width; the default, characters, to 60/160 graphemes.
+ */
+export function getSerpTruncationSettings(): SerpTruncationSettings {
+    return {
+        measure: process.env.SERP_MEASURE?.toLowerCase() === 'pixels' ? 'pixels' : 'characters'
+    };
+}
+
+// Unlike `Number(value) || fallback`, keeps an explicit 0
+function readNumber(value: string | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return value === undefined || value.trim() === '' || !Number.isFinite(parsed) ? fallback : parsed;
+}
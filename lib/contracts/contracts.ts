@@ -7,10 +7,35 @@
 
 export type Locale = 'en-US' | 'it-IT' | 'fr-FR' | 'es-ES' | 'de-DE' | string;
 
+export type DataResidency = 'EU' | 'US' | 'GLOBAL';
+
 export interface GeoCompliance {
     requiresGDPR: boolean;
-    cookieConsentActive: boolean;
-    dataResidency: 'EU' | 'US' | 'GLOBAL';
+    cookieConsentActive: boolean; // True when any applicable regime is opt-in
+    dataResidency: DataResidency; // Strictest residency across the applicable regimes
+    allowedCountries?: string[]; // ISO 3166-1 alpha-2; set only when the brief restricts delivery to its target markets
+    privacy: PrivacyRequirement[]; // Regimes triggered by the target markets
+}
+
+// --- Privacy Contracts ---
+// Declarative market -> regime rules (see lib/compliance/privacy-rules.ts for the defaults)
+
+export type PrivacyRegime = 'GDPR' | 'UK_GDPR' | 'CH_FADP' | 'CCPA_CPRA' | 'LGPD' | 'PIPEDA';
+export type ConsentMode = 'opt-in' | 'opt-out'; // opt-in: no tracking before consent; opt-out: tracking until the visitor objects
+export type PrivacyNotice = 'consent-banner' | 'do-not-sell-link' | 'cookie-notice';
+
+export interface PrivacyRule {
+    regime: PrivacyRegime;
+    countries: string[]; // ISO 3166-1 alpha-2 countries whose visitors the regime covers
+    subdivisions?: string[]; // ISO 3166-2 codes when only part of a country is covered (e.g. 'US-CA')
+    consentMode: ConsentMode;
+    notices: PrivacyNotice[];
+    dataResidency: DataResidency;
+    retentionDays: number; // Maximum retention for visitor-level data (telemetry, consent records)
+}
+
+export interface PrivacyRequirement extends PrivacyRule {
+    markets: string[]; // Target countries of the brief that triggered the regime
 }
 
 // --- Module 1: Inbound Orchestrator Contracts ---
@@ -25,6 +50,107 @@ export interface BriefInput {
         logoUrl: string;
         keywordsCsvUrl: string;
     };
+    restrictToTargetMarkets?: boolean; // Geo-block visitors outside the countries of targetLocales
+    campaign?: CampaignDetails; // Adds a campaign-type schema (Product, RealEstateListing, Event, FAQPage) to each page's JSON-LD
+    guidelines?: BrandGuidelines; // Steers generation, is checked on every variant, and themes the rendered pages
+}
+
+// Campaign-type details, discriminated by `type`. Dates are ISO 8601, prices in major units of an ISO 4217 currency.
+export type OfferAvailability = 'InStock' | 'OutOfStock' | 'PreOrder' | 'SoldOut';
+
+export interface ProductCampaign {
+    type: 'product';
+    name?: string; // Defaults to the localized hero title
+    sku?: string;
+    imageUrl?: string;
+    price: number;
+    currency: string;
+    availability?: OfferAvailability; // Defaults to InStock
+}
+
+export interface RealEstateCampaign {
+    type: 'real-estate';
+    address: string;
+    price?: number;
+    currency?: string; // Required with price
+    datePosted?: string;
+}
+
+export interface EventCampaign {
+    type: 'event';
+    name?: string; // Defaults to the localized hero title
+    startDate: string;
+    endDate?: string;
+    venue: string;
+    address: string;
+    attendanceMode?: 'offline' | 'online' | 'mixed'; // Defaults to offline
+}
+
+export interface FaqCampaign {
+    type: 'faq';
+    questions: Array<{ question: string; answer: string }>;
+}
+
+export type CampaignDetails = ProductCampaign | RealEstateCampaign | EventCampaign | FaqCampaign;
+
+// Brand guidelines. Tone, audience and reading level only steer the prompt; the copy rules are checked on every variant.
+export type CopyField = 'heroTitle' | 'bodyCopy' | 'ctaText';
+
+export type ReadingLevel = 'simple' | 'standard' | 'expert';
+
+export interface CtaStyle {
+    verbStyle: 'imperative' | 'first-person'; // 'Book your visit' vs 'Book my visit'
+    verbs?: Record<string, string[]>; // Allowed opening verbs per locale, or per language for all its locales ('it')
+    maxWords?: number;
+}
+
+export interface BrandPalette {
+    // Hex colors (#rgb or #rrggbb)
+    primary: string; // Calls to action
+    onPrimary?: string; // Text on primary; defaults to black or white, whichever contrasts more
+    background?: string;
+    text?: string; // Defaults to black or white against the background
+}
+
+export interface BrandTypography {
+    // Font family names; the fonts must be installed on the visitor's system or loaded by the site
+    headingFont?: string;
+    bodyFont?: string;
+    fallback?: 'sans-serif' | 'serif' | 'monospace'; // Generic family after the brand fonts; defaults to sans-serif
+}
+
+export interface BrandGuidelines {
+    toneOfVoice?: string[]; // e.g. ['warm', 'confident', 'never pushy']
+    targetAudience?: string;
+    readingLevel?: ReadingLevel;
+    maxLengths?: Partial<Record<CopyField, number>>; // Characters; tighter than the layout budget, never looser
+    bannedPhrases?: string[]; // Matched case-insensitively on word boundaries, in every locale
+    cta?: CtaStyle;
+    palette?: BrandPalette;
+    typography?: BrandTypography;
+}
+
+export type BrandGuidelineRule = 'MAX_LENGTH' | 'BANNED_PHRASE' | 'CTA_STYLE';
+
+export interface BrandGuidelineViolation {
+    locale: Locale;
+    rule: BrandGuidelineRule;
+    field: CopyField;
+    message: string;
+}
+
+export type ValidationIssueCode =
+    | 'REQUIRED'
+    | 'TOO_SHORT'
+    | 'INVALID_FORMAT'
+    | 'DUPLICATE_VALUE'
+    | 'UNSUPPORTED_SOURCE';
+
+export interface ValidationIssue {
+    field: string; // Dot/bracket path into BriefInput, e.g. 'assets.logoUrl' or 'targetLocales[2]'
+    code: ValidationIssueCode;
+    severity: 'error' | 'warning'; // Only 'error' fails validation
+    message: string;
 }
 
 export interface ValidatedProject {
@@ -33,6 +159,7 @@ export interface ValidatedProject {
     status: 'VALIDATED' | 'FAILED';
     payload: BriefInput;
     compliance: GeoCompliance;
+    issues: ValidationIssue[];
 }
 
 // --- Module 2: Creative AI Engine Contracts ---
@@ -44,13 +171,58 @@ export interface UIContentVariant {
     bodyCopy: string;
     ctaText: string;
     layoutId: string; // Riferimento al template Next.js
+    generationModel?: string; // Model that produced this variant
 }
 
 export interface CreativeEngineOutput {
     projectId: string;
     variants: UIContentVariant[];
     generationModel: string;
-    errors?: string[];
+    errors?: string[]; // One per failed locale, prefixed '<locale>: '
+    warnings?: string[]; // Failed attempts that a retry recovered from, prefixed '<locale>: '
+}
+
+// Per-brand terminology, fed into generation and checked on every variant (see lib/creative/terminology.ts).
+// Entry locales match exactly ('de-AT') or by language when they have no region ('de' covers every 'de-*').
+export interface MandatedTranslation {
+    source: string; // Term as written in the brief
+    locale: Locale;
+    target: string; // The only accepted rendering in that locale
+}
+
+export interface ForbiddenTerm {
+    term: string;
+    locales?: Locale[]; // Every locale when omitted
+    reason?: string;
+}
+
+export interface BrandGlossary {
+    doNotTranslate: string[]; // Brand, product and tagline strings kept verbatim in every locale
+    mandatedTranslations: MandatedTranslation[];
+    forbidden: ForbiddenTerm[];
+}
+
+export interface TranslationMemorySegment {
+    source: string; // Segment of the brief (e.g. a tagline)
+    locale: Locale;
+    target: string; // Approved translation, reused verbatim
+    approvedAt: string;
+}
+
+export interface BrandTerminology {
+    brandId: string; // Slug of the brand name, e.g. 'lusitano'
+    glossary: BrandGlossary;
+    translationMemory: TranslationMemorySegment[];
+}
+
+export type TerminologyRule = 'DO_NOT_TRANSLATE' | 'MANDATED_TRANSLATION' | 'FORBIDDEN_TERM' | 'TRANSLATION_MEMORY';
+
+export interface TerminologyViolation {
+    locale: Locale;
+    rule: TerminologyRule;
+    term: string;
+    field?: CopyField; // Set when the violation sits in one field (forbidden terms)
+    message: string;
 }
 
 // --- Module 3: SEO Semantic Agent Contracts ---
@@ -65,40 +237,335 @@ export interface SEOMetadata {
     structuredData: object; // JSON-LD
 }
 
+export type KeywordIntent = 'informational' | 'navigational' | 'commercial' | 'transactional' | 'unknown';
+
+export interface KeywordRecord {
+    locale: Locale;
+    keyword: string;
+    searchVolume: number;
+    intent: KeywordIntent;
+}
+
+export interface KeywordIngestionResult {
+    keywordsByLocale: Record<Locale, KeywordRecord[]>; // Ranked, best first
+    warnings: string[];
+}
+
+// Campaign-level context the agent cannot derive from a single variant
+export interface SEOContext {
+    project?: ValidatedProject;
+    keywords?: KeywordRecord[]; // Ranked keywords for the variant's locale
+    siblingLocales?: Locale[]; // Locales with a successful variant, in campaign order (drives hreflang)
+}
+
 export interface SEOOptimizedVariant extends UIContentVariant {
     seo: SEOMetadata;
     keywordsApplied: string[];
+    warnings?: string[];
+}
+
+export type SeoAuditCheck =
+    | 'KEYWORD_IN_TITLE'
+    | 'KEYWORD_IN_DESCRIPTION'
+    | 'KEYWORD_IN_BODY'
+    | 'DUPLICATE_TITLE'
+    | 'DUPLICATE_DESCRIPTION'
+    | 'TRUNCATED_MID_WORD'
+    | 'MISSING_OG_IMAGE'
+    | 'LANGUAGE_MISMATCH';
+
+export interface SeoAuditFinding {
+    check: SeoAuditCheck;
+    severity: 'error' | 'warning'; // Any error fails the gate; warnings only lower the score
+    field: string; // Path into SEOOptimizedVariant, e.g. 'seo.title' or 'bodyCopy'
+    message: string;
+    relatedLocales?: Locale[]; // Other locales involved (duplicate titles and descriptions)
+}
+
+export interface SeoVariantAudit {
+    locale: Locale;
+    score: number; // 0..100
+    findings: SeoAuditFinding[];
+}
+
+export interface SeoAuditReport {
+    auditedAt: string;
+    passed: boolean; // No error findings and every variant at or above minScore
+    minScore: number;
+    score: number; // Lowest variant score (0 when nothing was audited)
+    variants: SeoVariantAudit[];
 }
 
 // --- Module 4: GEO Deployment Hub Contracts ---
 // Gestione rilascio, GDPR e Telemetria
 
+export interface SitemapEntry {
+    url: string;
+    lastModified: string; // ISO 8601
+    alternates: Record<string, string>; // hreflang -> URL, rendered as xhtml:link
+}
+
+export interface CrawlArtifact {
+    path: string; // Site-root relative, e.g. '/sitemaps/summer-2026/sitemap.xml'
+    contentType: string;
+    content: string;
+}
+
+export interface CrawlArtifacts {
+    sitemapUrl: string; // Entry point for crawlers (sitemap or sitemap index)
+    robotsUrl: string;
+    entries: SitemapEntry[];
+    files: CrawlArtifact[];
+}
+
+export interface DeploymentContext {
+    campaignId: string;
+    assets?: BriefInput['assets']; // Shipped with the pages by providers that write files
+    guidelines?: BriefInput['guidelines']; // Palette and typography become the theme of pages rendered by providers
+}
+
+export interface EdgeRegionDefinition {
+    id: string; // Platform region id, e.g. 'fra1'
+    residency: DataResidency; // Jurisdiction the region's data stays in ('GLOBAL': no guarantee)
+    countries: string[]; // ISO 3166-1 alpha-2 countries this region is the nearest edge for
+}
+
+export interface RegionAssignment {
+    locale: Locale;
+    country?: string; // Market of the locale, when it has one
+    residency: DataResidency; // Strictest residency required by the regimes covering the market
+    edgeRegion: string;
+}
+
+// One DeploymentConfig per edge region; a campaign is published as a manifest of them.
 export interface DeploymentConfig {
     deploymentId: string;
     edgeRegion: string;
     isLive: boolean;
     telemetryEndpoint: string;
+    url?: string; // Where the provider serves this region's output; absent for simulated deployments
+    locales: Locale[]; // Variants served from this region
     middlewareRules: {
         geoBlocking: boolean;
-        consentRequired: boolean;
+        allowedCountries: string[]; // Enforced only when geoBlocking is true
+        consentRequired: boolean; // True when any regime is opt-in; the per-visitor decision uses `privacy`
+        privacy?: PrivacyRequirement[]; // Absent on deployments recorded before privacy rules existed
     };
 }
 
+export interface DeploymentManifest {
+    manifestId: string;
+    campaignId: string;
+    createdAt: string;
+    provider?: string; // DeploymentProvider that shipped it; absent on manifests recorded before providers existed
+    assignments: RegionAssignment[]; // In variant order
+    deployments: DeploymentConfig[];
+    crawl: CrawlArtifacts; // Campaign-wide: hreflang alternates span every region
+}
+
+// --- Release Contracts ---
+// Every completed run is an immutable version of its campaign; release targets point at versions.
+
+export type ReleaseTarget = 'preview' | 'production';
+
+export interface DeploymentVersion {
+    version: number; // 1-based per campaign; assigned once when the run deploys and never reused
+    runId: string;
+    manifestId: string;
+    deployedAt: string;
+    deploymentIds: string[]; // Regional deployments of the manifest, so telemetry finds its version without loading runs
+}
+
+export interface ReleaseEvent {
+    action: 'promote' | 'rollback';
+    version: number;
+    runId: string;
+    manifestId: string;
+    previousVersion?: number; // Production version replaced; absent on the first release
+    at: string;
+}
+
+export interface CampaignRelease {
+    campaignId: string;
+    versions: DeploymentVersion[]; // Oldest first; previews always serve the newest version
+    production?: DeploymentVersion; // Version served publicly
+    history: ReleaseEvent[]; // Oldest first
+}
+
+export type VersionChangeArea = 'copy' | 'metadata' | 'middleware';
+
+export interface VersionChange {
+    area: VersionChangeArea;
+    locale: Locale;
+    field: string; // e.g. 'heroTitle', 'seo.title', 'middlewareRules.consentRequired'; 'locale' when a variant was added or removed
+    before?: string; // Absent when added
+    after?: string; // Absent when removed
+}
+
+export interface VersionDiff {
+    campaignId: string;
+    from: number;
+    to: number;
+    changes: VersionChange[];
+}
+
+// --- Telemetry Contracts ---
+// Conversion tracking per deployment (design: "track conversions" -> analytics.json)
+
+export type TelemetryEventType = 'page_view' | 'cta_click' | 'conversion';
+
+export interface TelemetryEvent {
+    eventId: string; // Client-generated, used for deduplication
+    type: TelemetryEventType;
+    deploymentId: string;
+    locale: Locale;
+    variant: string; // Rendered variant (layoutId, or an experiment arm)
+    occurredAt: string; // ISO 8601
+    receivedAt: string; // ISO 8601, set by the ingestion endpoint
+}
+
+export interface TelemetryIngestResult {
+    accepted: number;
+    duplicates: number;
+    droppedForConsent: number;
+    rejected: Array<{ index: number; issues: ValidationIssue[] }>;
+}
+
+export interface ConversionMetrics {
+    pageViews: number;
+    ctaClicks: number;
+    conversions: number;
+    ctaClickRate: number; // ctaClicks / pageViews
+    conversionRate: number; // conversions / pageViews
+}
+
+export interface LocaleAnalytics extends ConversionMetrics {
+    variants: Record<string, ConversionMetrics>;
+}
+
+export interface AnalyticsReport {
+    deploymentId: string;
+    generatedAt: string;
+    totals: ConversionMetrics;
+    locales: Record<Locale, LocaleAnalytics>;
+}
+
 // --- Integration Patterns & State Persistence [cite: 27, 28, 29] ---
 
+export type WorkflowStep = 'ORCHESTRATION' | 'CREATIVE' | 'SEO' | 'AUDIT' | 'DEPLOYMENT' | 'COMPLETED';
+
+export interface StageTiming {
+    startedAt: string;
+    finishedAt?: string;
+    durationMs?: number;
+    outcome?: 'succeeded' | 'failed';
+}
+
+export type RunPriority = 'interactive' | 'batch';
+
 export interface WorkflowState {
     id: string; // Supabase Primary Key
-    currentStep: 'ORCHESTRATION' | 'CREATIVE' | 'SEO' | 'DEPLOYMENT' | 'COMPLETED';
+    currentStep: WorkflowStep;
     lastUpdated: string;
+    priority?: RunPriority; // Absent on runs persisted before priorities existed (treated as batch)
+    traceId?: string; // Trace of the latest execution (runs and resumes each start one); absent before tracing existed
+    heartbeatAt?: string; // Written when a stage starts and periodically while it runs (see HEARTBEAT_INTERVAL_MS)
+    timings?: Partial<Record<WorkflowStep, StageTiming>>; // Absent on runs persisted before timings existed
     data: {
         project?: ValidatedProject;
         creatives?: CreativeEngineOutput;
         seoResults?: SEOOptimizedVariant[];
-        deployment?: DeploymentConfig;
+        seoAudit?: SeoAuditReport;
+        deployment?: DeploymentManifest;
     };
     errors: Array<{ module: string; message: string; fatal: boolean }>;
 }
 
+// --- Stage Policies (Retries, Timeouts, Partial Failure) ---
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelayMs: number; // Backoff before the second attempt; doubles for each further attempt
+    maxDelayMs: number;
+    jitter: number; // 0..1: share of each backoff delay that is randomized
+    attemptTimeoutMs: number; // 0 disables the per-attempt timeout
+}
+
+export interface StagePolicy extends RetryPolicy {
+    minSuccessRatio: number; // 0..1 of the requested locales that must come out of the stage
+    requiredLocales: Locale[]; // Locales the run cannot deploy without
+}
+
+export type PolicyStep = Extract<WorkflowStep, 'CREATIVE' | 'SEO'>;
+
+export interface LimiterStats {
+    maxConcurrent: number;
+    inFlight: number;
+    queued: Record<RunPriority, number>;
+    ratePerSecond?: number; // Absent when calls are not rate-limited
+    tokensAvailable?: number;
+}
+
+// --- Async Task Distribution (Events & Jobs) ---
+
+/**
+ * Events published between stages, keyed by type. Every payload carries the runId so
+ * subscribers can tell concurrent runs apart.
+ */
+export interface PipelineEventMap {
+    'creative.variant.generated': { runId: string; variant: UIContentVariant };
+    'seo.variant.optimized': { runId: string; variant: SEOOptimizedVariant };
+    'job.dead-lettered': { job: PipelineJob };
+}
+
+export type PipelineEventType = keyof PipelineEventMap;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead-lettered';
+
+export interface PipelineJob<TPayload = unknown, TResult = unknown> {
+    id: string; // `${runId}/${type}/${key}`: re-enqueueing the same work reuses the job
+    type: string;
+    runId: string;
+    payload: TPayload;
+    status: JobStatus;
+    priority?: RunPriority; // Absent means batch
+    attempts: number;
+    maxAttempts: number;
+    enqueuedAt: string;
+    updatedAt: string;
+    result?: TResult; // Set once succeeded
+    errors: string[]; // One message per failed attempt
+}
+
+// --- Observability (Logs & Traces) ---
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type SpanAttributeValue = string | number | boolean | string[];
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export interface SpanEvent {
+    name: string;
+    timeMs: number;
+    attributes: SpanAttributes;
+}
+
+/**
+ * A finished span. Ids follow W3C Trace Context (32 and 16 hex characters) so exported traces
+ * can be joined with any OpenTelemetry backend; times are epoch milliseconds with sub-millisecond precision.
+ */
+export interface SpanRecord {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string; // Absent on the root span of a trace
+    name: string;
+    startTimeMs: number;
+    endTimeMs: number;
+    attributes: SpanAttributes;
+    events: SpanEvent[];
+    status: { code: 'UNSET' | 'OK' | 'ERROR'; message?: string };
+}
+
 /**
 
 - SERVICE INTERFACES (The "Boundaries")
@@ -110,8 +577,46 @@ export interface IMicrositePipeline {
 
     // Async Task Distribution 
     generateCreatives(project: ValidatedProject): Promise<CreativeEngineOutput>;
-    optimizeSEO(variant: UIContentVariant): Promise<SEOOptimizedVariant>;
+    optimizeSEO(variant: UIContentVariant, context?: SEOContext): Promise<SEOOptimizedVariant>;
 
     // Middleware Routing 
-    executeGeoDeploy(seoVariants: SEOOptimizedVariant[], compliance: GeoCompliance): Promise<DeploymentConfig>;
-}
\ No newline at end of file
+    executeGeoDeploy(seoVariants: SEOOptimizedVariant[], compliance: GeoCompliance, context?: DeploymentContext): Promise<DeploymentManifest>;
+}
+
+export interface IWorkflowStateStore {
+    // State Persistence Pattern
+    load(id: string): Promise<WorkflowState | null>;
+    save(state: WorkflowState): Promise<void>;
+    list(): Promise<WorkflowState[]>;
+}
+
+export interface IReleaseStore {
+    // One release record per campaign; updates of one campaign are serialized
+    load(campaignId: string): Promise<CampaignRelease | null>;
+    update(campaignId: string, change: (release: CampaignRelease) => CampaignRelease): Promise<CampaignRelease>;
+    list(): Promise<CampaignRelease[]>;
+}
+
+export interface ITerminologyStore {
+    // One glossary and translation memory per brand
+    load(brandId: string): Promise<BrandTerminology | null>;
+    save(terminology: BrandTerminology): Promise<void>;
+}
+
+export interface IJobStore {
+    // One record per job; dead-lettered jobs stay here until retried
+    load(id: string): Promise<PipelineJob | null>;
+    save(job: PipelineJob): Promise<void>;
+    list(): Promise<PipelineJob[]>;
+}
+
+export interface ISpanExporter {
+    // Receives the spans of one trace once its root span has ended (late spans follow in their own batch)
+    export(spans: SpanRecord[]): Promise<void>;
+}
+
+export interface ITelemetryEventStore {
+    // Appends events whose eventId is not stored yet; returns the ones actually written
+    appendUnique(deploymentId: string, events: TelemetryEvent[]): Promise<TelemetryEvent[]>;
+    read(deploymentId: string): Promise<TelemetryEvent[]>;
+}
@@ -0,0 +1,148 @@
+import { BrandGuidelineViolation, Locale, PolicyStep, SeoAuditReport, TerminologyViolation, ValidationIssue } from './contracts';
+
+/**
+ * Pipeline Errors
+ * Typed failures that cross module boundaries, so callers (UI, API clients) can react
+ * to them without parsing error messages.
+ */
+
+/**
+ * Thrown when a brief fails inbound validation.
+ * Carries the field-addressed issues produced by the InboundOrchestrator.
+ */
+export class PipelineValidationError extends Error {
+
+    public readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[]) {
+        const blocking = issues.filter(issue => issue.severity === 'error');
+        super(`Pipeline Halted: Input validation failed (${blocking.map(issue => issue.field).join(', ')}).`);
+        this.name = 'PipelineValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Thrown when a telemetry batch cannot be accepted as a whole.
+ * Per-event problems are not errors; they are reported in TelemetryIngestResult.rejected.
+ */
+export class TelemetryIngestionError extends Error {
+
+    public readonly reason: 'UNKNOWN_DEPLOYMENT' | 'MALFORMED_PAYLOAD' | 'BATCH_TOO_LARGE';
+
+    constructor(reason: TelemetryIngestionError['reason'], message: string) {
+        super(message);
+        this.name = 'TelemetryIngestionError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Thrown when deployment planning cannot place every locale in an edge region that meets its data-residency requirement.
+ * Nothing is deployed when planning fails.
+ */
+export class DeploymentPlanningError extends Error {
+
+    public readonly unplaced: Array<{ locale: Locale; residency: string }>;
+
+    constructor(unplaced: DeploymentPlanningError['unplaced']) {
+        super(`Deployment Halted: No edge region meets the data-residency requirement for ${unplaced.map(u => `${u.locale} (${u.residency})`).join(', ')}.`);
+        this.name = 'DeploymentPlanningError';
+        this.unplaced = unplaced;
+    }
+}
+
+/**
+ * Thrown when a promote or rollback cannot be applied. The production version is left unchanged.
+ */
+export class ReleaseError extends Error {
+
+    public readonly reason: 'UNKNOWN_VERSION' | 'NO_ROLLBACK_TARGET';
+
+    constructor(reason: ReleaseError['reason'], message: string) {
+        super(message);
+        this.name = 'ReleaseError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Thrown when a task still fails after every attempt its retry policy allows.
+ * Carries the message of each failed attempt, oldest first.
+ */
+export class RetryExhaustedError extends Error {
+
+    public readonly failures: string[];
+
+    constructor(failures: string[]) {
+        super(`${failures.at(-1)} (gave up after ${failures.length} attempts)`);
+        this.name = 'RetryExhaustedError';
+        this.failures = failures;
+    }
+}
+
+/**
+ * Thrown when too few locales come out of a stage for the run to proceed towards deployment:
+ * below the stage's minimum success ratio, or missing a required locale. The stage's data stays persisted.
+ */
+export class StagePolicyError extends Error {
+
+    public readonly reason: 'BELOW_SUCCESS_RATIO' | 'REQUIRED_LOCALE_FAILED';
+    public readonly step: PolicyStep;
+    public readonly missingLocales: Locale[]; // Requested locales without a result
+
+    constructor(reason: StagePolicyError['reason'], step: PolicyStep, missingLocales: Locale[], message: string) {
+        super(message);
+        this.name = 'StagePolicyError';
+        this.reason = reason;
+        this.step = step;
+        this.missingLocales = missingLocales;
+    }
+}
+
+/**
+ * Thrown when the SEO audit gate is enforced and the audit did not pass; the report stays persisted on the run.
+ */
+export class SeoAuditError extends Error {
+
+    public readonly report: SeoAuditReport;
+
+    constructor(report: SeoAuditReport) {
+        const failing = report.variants.filter(variant => variant.score < report.minScore || variant.findings.some(finding => finding.severity === 'error'));
+        super(`Pipeline Halted: SEO audit failed for ${failing.map(variant => `${variant.locale} (${variant.score})`).join(', ')}; minimum score ${report.minScore}, no errors allowed.`);
+        this.name = 'SeoAuditError';
+        this.report = report;
+    }
+}
+
+/**
+ * Thrown when a generated variant breaks its brand's glossary or translation memory; the variant is not shipped.
+ */
+export class TerminologyViolationError extends Error {
+
+    public readonly locale: Locale;
+    public readonly violations: TerminologyViolation[];
+
+    constructor(locale: Locale, violations: TerminologyViolation[]) {
+        super(`Terminology Violation: ${locale} copy breaks the brand glossary: ${violations.map(violation => violation.message).join(' ')}`);
+        this.name = 'TerminologyViolationError';
+        this.locale = locale;
+        this.violations = violations;
+    }
+}
+
+/**
+ * Thrown when a generated variant breaks the brief's brand guidelines (length, banned phrases, CTA style); the variant is not shipped.
+ */
+export class BrandGuidelineViolationError extends Error {
+
+    public readonly locale: Locale;
+    public readonly violations: BrandGuidelineViolation[];
+
+    constructor(locale: Locale, violations: BrandGuidelineViolation[]) {
+        super(`Brand Guideline Violation: ${locale} copy breaks the brand guidelines: ${violations.map(violation => violation.message).join(' ')}`);
+        this.name = 'BrandGuidelineViolationError';
+        this.locale = locale;
+        this.violations = violations;
+    }
+}
@@ -0,0 +1,142 @@
+import {
+    BrandGuidelines,
+    BrandGuidelineViolation,
+    CopyField,
+    CtaStyle,
+    Locale,
+    ReadingLevel,
+    UIContentVariant
+} from '../contracts/contracts';
+import { resolveLocale } from '../locale/locale-registry';
+import { COPY_FIELDS, containsTerm } from './terminology';
+
+/**
+ * Module: Brand Guidelines (Creative AI Engine support)
+ * Purpose: Turn the brief's brand guidelines into prompt instructions, and check generated copy against
+ * the rules that can be verified (length limits, banned phrases, CTA style).
+ *
+ * Friction Points Managed:
+ * 1. Off-brand Copy: Tone of voice, audience and reading level travel with every prompt, so each locale is
+ *    written for the same reader in the same voice.
+ * 2. Trust but Verify: The checkable rules are enforced after generation; a violating variant fails its locale.
+ * 3. Per-language CTAs: Opening verbs are configured per locale or language, and first-person wording is
+ *    recognized for the languages listed in FIRST_PERSON_WORDS (other languages skip that part of the check).
+ */
+
+const READING_LEVELS: Record<ReadingLevel, string> = {
+    simple: 'simple (short sentences, everyday words, no jargon)',
+    standard: 'standard (clear and conversational)',
+    expert: 'expert (precise, specialist vocabulary is fine)'
+};
+
+// Pronouns and possessives that mark a first-person CTA ('Book my visit'), by language
+const FIRST_PERSON_WORDS: Record<string, string[]> = {
+    en: ['i', 'me', 'my', 'mine'],
+    it: ['io', 'mio', 'mia', 'miei', 'mie', 'voglio'],
+    es: ['yo', 'mi', 'mis', 'quiero'],
+    pt: ['eu', 'meu', 'minha', 'meus', 'minhas', 'quero'],
+    fr: ['je', 'moi', 'mon', 'ma', 'mes'],
+    de: ['ich', 'mich', 'mir', 'mein', 'meine', 'meinen', 'meinem'],
+    nl: ['ik', 'mij', 'mijn']
+};
+
+/**
+ * Prompt lines for the guidelines (empty when there are none). Length limits travel in the layout constraints.
+ */
+export function describeGuidelines(guidelines: BrandGuidelines, locale: Locale): string[] {
+    const lines: string[] = [];
+    if (guidelines.toneOfVoice?.length) lines.push(`Tone of voice: ${guidelines.toneOfVoice.join(', ')}`);
+    if (guidelines.targetAudience) lines.push(`Target audience: ${guidelines.targetAudience}`);
+    if (guidelines.readingLevel) lines.push(`Reading level: ${READING_LEVELS[guidelines.readingLevel]}`);
+    if (guidelines.cta) {
+        const { verbStyle, maxWords } = guidelines.cta;
+        const verbs = ctaVerbsFor(guidelines.cta, locale);
+        lines.push([
+            verbStyle === 'first-person'
+                ? 'Call to action: in the first person, from the reader\'s point of view (like "Book my visit")'
+                : 'Call to action: an imperative addressed to the reader (like "Book your visit")',
+            ...(verbs.length > 0 ? [`starting with one of ${verbs.map(quote).join(', ')}`] : []),
+            ...(maxWords ? [`at most ${maxWords} words`] : [])
+        ].join(', '));
+    }
+    const banned = bannedPhrases(guidelines);
+    if (banned.length > 0) lines.push(`Never use these phrases: ${banned.map(quote).join(', ')}`);
+    return lines;
+}
+
+/**
+ * Checks a generated variant against the brand's copy rules; an empty result means it can ship.
+ */
+export function checkGuidelines(variant: UIContentVariant, guidelines: BrandGuidelines): BrandGuidelineViolation[] {
+    const violations: BrandGuidelineViolation[] = [];
+    const violation = (rule: BrandGuidelineViolation['rule'], field: CopyField, message: string) =>
+        violations.push({ locale: variant.locale, rule, field, message });
+
+    for (const field of COPY_FIELDS) {
+        const maxLength = guidelines.maxLengths?.[field];
+        if (maxLength !== undefined && variant[field].length > maxLength) {
+            violation('MAX_LENGTH', field, `${field} is ${variant[field].length} characters; the brand allows ${maxLength}.`);
+        }
+        for (const phrase of bannedPhrases(guidelines)) {
+            if (containsTerm(variant[field], phrase)) violation('BANNED_PHRASE', field, `Banned phrase '${phrase}' in ${field}.`);
+        }
+    }
+
+    if (guidelines.cta) {
+        const { verbStyle, maxWords } = guidelines.cta;
+        const cta = variant.ctaText.trim();
+        const verbs = ctaVerbsFor(guidelines.cta, variant.locale);
+        if (verbs.length > 0 && !verbs.some(verb => opensWith(cta, verb))) {
+            violation('CTA_STYLE', 'ctaText', `CTA '${cta}' must open with one of ${verbs.map(quote).join(', ')}.`);
+        }
+        const words = wordsOf(cta, variant.locale);
+        if (maxWords && words.length > maxWords) {
+            violation('CTA_STYLE', 'ctaText', `CTA '${cta}' has ${words.length} words; the brand allows ${maxWords}.`);
+        }
+        const firstPerson = firstPersonWords(variant.locale);
+        const speaksAsReader = words.some(word => firstPerson.includes(word.toLocaleLowerCase(variant.locale)));
+        if (verbStyle === 'first-person' && firstPerson.length > 0 && !speaksAsReader) {
+            violation('CTA_STYLE', 'ctaText', `CTA '${cta}' must be in the first person.`);
+        }
+        if (verbStyle === 'imperative' && (speaksAsReader || cta.endsWith('?'))) {
+            violation('CTA_STYLE', 'ctaText', `CTA '${cta}' must be an imperative addressed to the reader.`);
+        }
+    }
+    return violations;
+}
+
+/**
+ * Opening verbs allowed for `locale`: the entry for its exact tag, else the one for its language ('it' covers 'it-CH').
+ */
+export function ctaVerbsFor(cta: CtaStyle, locale: Locale): string[] {
+    const target = resolveLocale(locale);
+    if (!cta.verbs || !target) return [];
+    const entries = Object.entries(cta.verbs).map(([tag, verbs]) => ({ info: resolveLocale(tag), verbs }));
+    const match = entries.find(({ info }) => info?.tag === target.tag)
+        ?? entries.find(({ info }) => info?.regionInferred && info.language === target.language);
+    return match?.verbs.filter(verb => verb.trim().length > 0) ?? [];
+}
+
+function bannedPhrases(guidelines: BrandGuidelines): string[] {
+    return (guidelines.bannedPhrases ?? []).filter(phrase => phrase.trim().length > 0);
+}
+
+function firstPersonWords(locale: Locale): string[] {
+    const language = resolveLocale(locale)?.language;
+    return (language && FIRST_PERSON_WORDS[language]) || [];
+}
+
+function opensWith(text: string, verb: string): boolean {
+    const escaped = verb.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+function wordsOf(text: string, locale: Locale): string[] {
+    return Array.from(new Intl.Segmenter(locale, { granularity: 'word' }).segment(text))
+        .filter(segment => segment.isWordLike)
+        .map(segment => segment.segment);
+}
+
+function quote(text: string): string {
+    return `"${text}"`;
+}
@@ -3,26 +3,72 @@ import {
     ValidatedProject,
     CreativeEngineOutput,
     UIContentVariant,
-    Locale
+    ITerminologyStore,
+    Locale,
+    RetryPolicy,
+    RunPriority
 } from '../contracts/contracts';
+import { BrandGuidelineViolationError, TerminologyViolationError } from '../contracts/errors';
+import {
+    TextGenerationProvider,
+    buildCreativePrompt,
+    getLayoutConstraints,
+    parseCreativeResponse
+} from './text-generation';
+import { createTextProvider } from './providers/provider-factory';
+import { checkGuidelines } from './brand-guidelines';
+import { LocaleTerminology, brandIdOf, checkTerminology, resolveTerminology } from './terminology';
+import { InMemoryTerminologyStore } from './terminology-store';
+import { isTextExpandingLanguage, requireLocale } from '../locale/locale-registry';
+import { EventBus } from '../events/event-bus';
+import { DEFAULT_STAGE_POLICIES, retryWithPolicy } from '../resilience/stage-policy';
+import { ConcurrencyLimiter, getSharedLimiter } from '../resilience/concurrency-limiter';
+import { createLogger } from '../observability/logger';
+import { withSpan } from '../observability/tracing';
+
+const log = createLogger('CreativeAIEngine');
+
+export interface CreativeRunContext {
+    runId?: string; // Tags published events so subscribers can tell concurrent runs apart
+    priority?: RunPriority; // Queue priority for provider calls; defaults to batch
+}
 
 /**
  * Module: Creative AI Engine
  * Purpose: Transform validated briefs into multi-language UI/content variants.
  * 
  * Friction Points Managed:
- * 1. "Brief to 10 variants" Scalability: Uses Promise.all for parallel generation to meet <30s constraint.
- * 2. Consistency: Deterministic stubbing ensures content aligns with the core message across locales.
- * 3. Zero Side Effects: External dependencies (AI, DB) are stubbed to prevent unwanted IO during MVP.
+ * 1. "Brief to 10 variants" Scalability: Uses Promise.all for parallel generation to meet <30s constraint;
+ *    each locale is retried and time-boxed under the CREATIVE stage's RetryPolicy, and provider calls
+ *    go through the process-wide ConcurrencyLimiter.
+ * 2. Consistency: Every provider receives the same brief-derived prompt and passes the same schema check.
+ * 3. Zero Side Effects: The default provider is a deterministic stub; real LLMs are opt-in via TextGenerationProvider.
+ * 4. Slowest-Locale Wait: Each variant is published as 'creative.variant.generated' the moment it exists,
+ *    so subscribers (SEO) can start on it while other locales are still generating.
+ * 5. Observability: Every locale is a 'creative.variant' span, with a 'creative.attempt' child per provider call
+ *    (opened once the call holds a limiter slot, and ended by its timeout).
+ * 6. Terminology Drift: The brand's glossary and translation memory go into every prompt, and a variant that
+ *    breaks them fails its locale with a TerminologyViolationError (not retried, never published).
+ * 7. Brand Voice: The brief's guidelines go into every prompt the same way; a variant that breaks their copy
+ *    rules fails its locale with a BrandGuidelineViolationError.
  */
 export class CreativeAIEngine {
 
+    constructor(
+        private readonly provider: TextGenerationProvider = createTextProvider(),
+        private readonly events?: EventBus,
+        private readonly policy: RetryPolicy = DEFAULT_STAGE_POLICIES.CREATIVE,
+        private readonly limiter: ConcurrencyLimiter = getSharedLimiter(),
+        private readonly terminologyStore: ITerminologyStore = new InMemoryTerminologyStore()
+    ) { }
+
     /**
      * Entry Point: Async Task Distribution
      * Generates content for all target locales and persists the result.
-     * Returns Promise<void> as per contract (side-effect is DB persistence).
+     * With a runId, every successful variant is also published on the event bus, tagged with that run.
      */
-    public async generateCreatives(project: ValidatedProject): Promise<CreativeEngineOutput> {
+    public async generateCreatives(project: ValidatedProject, run: CreativeRunContext = {}): Promise<CreativeEngineOutput> {
+        const { runId, priority } = run;
         // 1. Validation Gate
         if (project.status !== 'VALIDATED') {
             throw new Error(`[CreativeAIEngine] Invariant Violation: Cannot process project with status ${project.status}`);
@@ -33,21 +79,48 @@ export class CreativeAIEngine {
         // 2. Parallel Generation (Friction Point: Resilience)
         // Switch to Promise.allSettled to prevent single-variant failure from halting the pipeline.
         try {
-            const variantPromises = project.payload.targetLocales.map(async (locale) => {
-                return this.stubAIGeneration(project.payload.coreMessage, locale);
-            });
+            // Duplicate locales are flagged as warnings upstream; generate each one once.
+            const locales = Array.from(new Set(project.payload.targetLocales));
+            const { guidelines } = project.payload;
+            const brandId = brandIdOf(project.payload.brandName);
+            if (!brandId) log.warn('Brand name has no letters or digits; terminology is skipped', { brandName: project.payload.brandName });
+            const terminology = brandId ? await this.terminologyStore.load(brandId) : null;
+            const warnings: string[] = [];
+            const variantPromises = locales.map(locale => withSpan('creative.variant', { attributes: { 'pipeline.locale': locale } }, async span => {
+                let attemptNumber = 0;
+                const terms = terminology ? resolveTerminology(terminology, locale) : undefined;
+                const { value: variant, attempts, failures } = await retryWithPolicy(
+                    signal => this.generateVariant(project, locale, terms, signal),
+                    this.policy,
+                    attempt => this.limiter.schedule(() => withSpan('creative.attempt', { attributes: { 'attempt.number': ++attemptNumber } }, attempt), priority)
+                );
+                span.setAttributes({ 'creative.attempts': attempts, 'creative.layout': variant.layoutId });
+                failures.forEach((message, index) => warnings.push(`${locale}: attempt ${index + 1} failed and was retried (${message})`));
+                const violations = terms ? checkTerminology(variant, terms, project.payload) : [];
+                if (violations.length > 0) {
+                    span.setAttributes({ 'creative.terminology_violations': violations.length });
+                    throw new TerminologyViolationError(locale, violations);
+                }
+                const offBrand = guidelines ? checkGuidelines(variant, guidelines) : [];
+                if (offBrand.length > 0) {
+                    span.setAttributes({ 'creative.guideline_violations': offBrand.length });
+                    throw new BrandGuidelineViolationError(locale, offBrand);
+                }
+                if (runId) await this.events?.publish('creative.variant.generated', { runId, variant });
+                return variant;
+            }));
 
             const results = await Promise.allSettled(variantPromises);
 
             const variants: UIContentVariant[] = [];
             const errors: string[] = [];
 
-            results.forEach(result => {
+            results.forEach((result, index) => {
                 if (result.status === 'fulfilled') {
                     variants.push(result.value);
                 } else {
-                    console.warn(`[CreativeAIEngine] Variant generation failed: ${result.reason}`);
-                    errors.push(String(result.reason));
+                    log.warn('Variant generation failed', { locale: locales[index], error: result.reason });
+                    errors.push(`${locales[index]}: ${String(result.reason)}`); // Locale-prefixed so failures stay attributable
                 }
             });
 
@@ -55,8 +128,9 @@ export class CreativeAIEngine {
             const output: CreativeEngineOutput = {
                 projectId: project.projectId,
                 variants: variants,
-                generationModel: 'gpt-4o-stub-v1',
-                errors: errors.length > 0 ? errors : undefined
+                generationModel: this.provider.modelName,
+                errors: errors.length > 0 ? errors : undefined,
+                warnings: warnings.length > 0 ? warnings : undefined
             };
 
             // 4. State Persistence (Stubbed Side Effect)
@@ -73,38 +147,26 @@ export class CreativeAIEngine {
     }
 
     /**
-     * STUB: AI Generation Logic
-     * Simulates LLM call with deterministic output based on locale.
-     * 
-     * Friction Point: Consistency across Languages
-     * Resolution: We programmatically derive the content to ensure it matches the core message 
-     * without hallucinations (for MVP).
+     * Generates one locale through the configured provider.
+     * Layout is chosen first so the prompt and the schema check share the same length budget. The model is asked
+     * for the brand's tighter limits too, but only the layout's are a schema error; brand overruns are guideline violations.
      */
-    private async stubAIGeneration(coreMessage: string, locale: Locale): Promise<UIContentVariant> {
-        // Simulate network latency (random between 50ms and 200ms) to prove concurrency resilience
-        const latency = Math.floor(Math.random() * 150) + 50;
-        await new Promise(resolve => setTimeout(resolve, latency));
-
-        // Deterministic content generation
-        const localizedPrefix = `[${locale.toUpperCase()}]`;
-
-        return {
-            locale: locale,
-            heroTitle: `${localizedPrefix} Future of Living: ${coreMessage.substring(0, 20)}...`,
-            bodyCopy: `${localizedPrefix} Experience the ${coreMessage} in a way that respects your local culture. This is a generated description ensuring semantic consistency.`,
-            ctaText: `${localizedPrefix} Discover More`,
-            layoutId: this.determineLayout(locale) // Layout-Aware generation
-        };
+    private async generateVariant(project: ValidatedProject, locale: Locale, terminology?: LocaleTerminology, signal?: AbortSignal): Promise<UIContentVariant> {
+        const layoutId = this.determineLayout(locale); // Layout-Aware generation
+        const constraints = getLayoutConstraints(layoutId, project.payload.guidelines);
+        const prompt = buildCreativePrompt(project.payload, locale, constraints, terminology);
+
+        const result = await this.provider.generate({ brief: project.payload, locale, layoutId, constraints, prompt, terminology, signal });
+        return parseCreativeResponse(result, locale, layoutId, getLayoutConstraints(layoutId));
     }
 
     /**
      * Helper: Selects layout based on locale characteristics.
      * Friction Point: Layout/Design Coupling
-     * Resolution: German/Russian often need wider layouts due to text length.
+     * Resolution: German/Russian often need wider layouts due to text length (by language, so 'de-AT' too).
      */
     private determineLayout(locale: Locale): string {
-        const textHeavyLocales = new Set(['de-DE', 'ru-RU', 'fi-FI']);
-        if (textHeavyLocales.has(locale)) {
+        if (isTextExpandingLanguage(requireLocale(locale).language)) {
             return 'layout-wide-v2'; // Optimized for longer text
         }
         return 'layout-minimal-v1'; // Standard layout
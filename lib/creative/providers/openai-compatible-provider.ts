@@ -0,0 +1,76 @@
+import { TextGenerationProvider, TextGenerationRequest, TextGenerationResult } from '../text-generation';
+
+export interface OpenAICompatibleProviderOptions {
+    baseUrl: string; // e.g. https://api.openai.com/v1 or http://127.0.0.1:11434/v1
+    model: string;
+    apiKey?: string;
+    timeoutMs?: number;
+    temperature?: number;
+}
+
+interface ChatCompletionResponse {
+    model?: string;
+    choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * Adapter: OpenAI-compatible Chat Completions API
+ * POSTs the creative prompt to {baseUrl}/chat/completions and returns the raw JSON content.
+ *
+ * Friction Point: Edge latency budget (<30s per language)
+ * Resolution: Every call is bounded by an AbortController timeout; HTTP and payload errors
+ * surface as exceptions, which the engine turns into per-locale errors.
+ */
+export class OpenAICompatibleProvider implements TextGenerationProvider {
+
+    public readonly modelName: string;
+
+    constructor(private readonly options: OpenAICompatibleProviderOptions) {
+        this.modelName = options.model;
+    }
+
+    public async generate(request: TextGenerationRequest): Promise<TextGenerationResult> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 25_000);
+
+        try {
+            const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+                },
+                body: JSON.stringify({
+                    model: this.options.model,
+                    temperature: this.options.temperature ?? 0.7,
+                    response_format: { type: 'json_object' },
+                    messages: [
+                        { role: 'system', content: request.prompt.system },
+                        { role: 'user', content: request.prompt.user }
+                    ]
+                }),
+                signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal
+            });
+
+            if (!response.ok) {
+                const detail = (await response.text()).slice(0, 200);
+                throw new Error(`[OpenAICompatibleProvider] HTTP ${response.status} for ${request.locale}: ${detail}`);
+            }
+
+            const body = await response.json() as ChatCompletionResponse;
+            const content = body.choices?.[0]?.message?.content;
+            if (typeof content !== 'string' || content.trim().length === 0) {
+                throw new Error(`[OpenAICompatibleProvider] Empty completion for ${request.locale}.`);
+            }
+
+            return { content, model: body.model || this.modelName };
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new Error(`[OpenAICompatibleProvider] Timeout after ${this.options.timeoutMs ?? 25_000}ms for ${request.locale}.`);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
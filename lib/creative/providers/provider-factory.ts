@@ -0,0 +1,23 @@
+import { getTextProviderSettings } from '../../config/factory-config';
+import { TextGenerationProvider } from '../text-generation';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { StubTextProvider } from './stub-provider';
+
+/**
+ * Selects the text-generation provider from the factory configuration.
+ * Defaults to the deterministic stub so local runs and tests never call a paid API.
+ */
+export function createTextProvider(): TextGenerationProvider {
+    const settings = getTextProviderSettings();
+
+    if (settings.provider === 'openai-compatible') {
+        return new OpenAICompatibleProvider({
+            baseUrl: settings.baseUrl,
+            apiKey: settings.apiKey,
+            model: settings.model,
+            timeoutMs: settings.timeoutMs
+        });
+    }
+
+    return new StubTextProvider();
+}
@@ -0,0 +1,65 @@
+import { TextGenerationProvider, TextGenerationRequest, TextGenerationResult } from '../text-generation';
+import { ctaVerbsFor } from '../brand-guidelines';
+import { LocaleTerminology } from '../terminology';
+
+/**
+ * STUB: Text Generation Provider
+ * Simulates an LLM call with deterministic output based on locale.
+ *
+ * Friction Point: Consistency across Languages
+ * Resolution: We programmatically derive the content to ensure it matches the core message
+ * without hallucinations (for MVP). Output goes through the same JSON schema check as real providers.
+ */
+export class StubTextProvider implements TextGenerationProvider {
+
+    public readonly modelName = 'gpt-4o-stub-v1';
+
+    public async generate(request: TextGenerationRequest): Promise<TextGenerationResult> {
+        // Simulate network latency (random between 50ms and 200ms) to prove concurrency resilience
+        const latency = Math.floor(Math.random() * 150) + 50;
+        await new Promise(resolve => setTimeout(resolve, latency));
+
+        // Deterministic content generation
+        const coreMessage = this.applyTerminology(request.brief.coreMessage, request.terminology);
+        const localizedPrefix = `[${request.locale.toUpperCase()}]`;
+        const bodyCopy = (message: string) =>
+            `${localizedPrefix} Experience the ${message} in a way that respects your local culture. This is a generated description ensuring semantic consistency.`;
+
+        const content = {
+            heroTitle: `${localizedPrefix} Future of Living: ${this.excerpt(coreMessage, 20)}`,
+            // Respect the layout budget like a real model would
+            bodyCopy: bodyCopy(this.excerpt(coreMessage, request.constraints.bodyCopyMaxLength - bodyCopy('').length)),
+            ctaText: this.callToAction(request) ?? `${localizedPrefix} Discover More`
+        };
+
+        return { content: JSON.stringify(content), model: this.modelName };
+    }
+
+    /**
+     * Helper: Follows the brand's terminology like an instructed model would: approved segments and
+     * mandated translations replace their source text.
+     */
+    private applyTerminology(text: string, terminology?: LocaleTerminology): string {
+        const replacements = [...(terminology?.translationMemory ?? []), ...(terminology?.mandatedTranslations ?? [])];
+        return replacements.reduce((result, { source, target }) => result.split(source).join(target), text);
+    }
+
+    /**
+     * Helper: Opens the CTA with the brand's first allowed verb for the locale, when its guidelines list any.
+     */
+    private callToAction(request: TextGenerationRequest): string | undefined {
+        const cta = request.brief.guidelines?.cta;
+        const verb = cta ? ctaVerbsFor(cta, request.locale)[0] : undefined;
+        return verb ? this.excerpt(`${verb} ${request.brief.brandName}`, request.constraints.ctaTextMaxLength) : undefined;
+    }
+
+    /**
+     * Helper: Shortens text on a word boundary (ellipsis included in maxLength) so copy never ends mid-word.
+     */
+    private excerpt(text: string, maxLength: number): string {
+        if (text.length <= maxLength) return text;
+        const cut = text.slice(0, maxLength);
+        const boundary = cut.lastIndexOf(' ');
+        return `${(boundary > 0 ? cut.slice(0, boundary) : cut.slice(0, maxLength - 1)).trim()}…`;
+    }
+}
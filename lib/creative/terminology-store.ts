@@ -0,0 +1,72 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { BrandTerminology, ITerminologyStore } from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+
+/**
+ * Module: Terminology Store
+ * Purpose: Persist each brand's glossary and translation memory, keyed by brand id (see brandIdOf).
+ *
+ * Friction Points Managed:
+ * 1. Editable Outside the Pipeline: The file store keeps one reviewable JSON document per brand, so linguists can
+ *    maintain glossaries and approve segments without touching code.
+ * 2. Aliasing: Documents are cloned on read and write, like workflow snapshots.
+ */
+
+const BRAND_ID_PATTERN = /^[a-z0-9-]+$/;
+
+function assertValidBrandId(id: string): void {
+    if (!id || !BRAND_ID_PATTERN.test(id)) {
+        throw new Error(`[TerminologyStore] Invariant Violation: Invalid brand id "${id}"`);
+    }
+}
+
+/**
+ * Volatile backend for tests and runs without brand terminology.
+ */
+export class InMemoryTerminologyStore implements ITerminologyStore {
+
+    private readonly brands = new Map<string, BrandTerminology>();
+
+    public async load(brandId: string): Promise<BrandTerminology | null> {
+        const terminology = this.brands.get(brandId);
+        return terminology ? structuredClone(terminology) : null;
+    }
+
+    public async save(terminology: BrandTerminology): Promise<void> {
+        assertValidBrandId(terminology.brandId);
+        this.brands.set(terminology.brandId, structuredClone(terminology));
+    }
+}
+
+/**
+ * Durable backend: `<brandId>.json` under the data directory's `terminology` folder.
+ */
+export class FileTerminologyStore implements ITerminologyStore {
+
+    constructor(private readonly directory: string = resolveDataPath('terminology')) { }
+
+    public async load(brandId: string): Promise<BrandTerminology | null> {
+        assertValidBrandId(brandId);
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(brandId), 'utf8')) as BrandTerminology;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    public async save(terminology: BrandTerminology): Promise<void> {
+        assertValidBrandId(terminology.brandId);
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const target = this.filePath(terminology.brandId);
+        const tempFile = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify(terminology, null, 2), 'utf8');
+        await fs.rename(tempFile, target);
+    }
+
+    private filePath(brandId: string): string {
+        return path.join(this.directory, `${brandId}.json`);
+    }
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'node:crypto';
+import {
+    BrandTerminology,
+    BriefInput,
+    CopyField,
+    ForbiddenTerm,
+    Locale,
+    MandatedTranslation,
+    TerminologyViolation,
+    TranslationMemorySegment,
+    UIContentVariant
+} from '../contracts/contracts';
+import { resolveLocale } from '../locale/locale-registry';
+
+/**
+ * Module: Terminology (Creative AI Engine support)
+ * Purpose: Apply a brand's glossary and translation memory to one locale: as prompt instructions before
+ * generation, and as a check on the generated copy afterwards.
+ *
+ * Friction Points Managed:
+ * 1. Cross-language Drift: Each locale is generated independently; do-not-translate terms, mandated translations
+ *    and approved segments give every locale the same brand vocabulary.
+ * 2. Trust but Verify: Models do not always follow instructions, so every variant is checked against the same
+ *    rules it was prompted with; a violating variant is reported as a locale error instead of being shipped.
+ * 3. Relevance: Only entries whose source text occurs in the brief's core message are prompted and enforced, so a
+ *    large glossary does not demand terms the campaign never mentions (the brand name has its own prompt line).
+ */
+
+export interface LocaleTerminology {
+    locale: Locale;
+    doNotTranslate: string[];
+    mandatedTranslations: MandatedTranslation[];
+    forbidden: ForbiddenTerm[];
+    translationMemory: TranslationMemorySegment[];
+}
+
+export const COPY_FIELDS: CopyField[] = ['heroTitle', 'bodyCopy', 'ctaText'];
+
+// Scripts written without spaces between words, where terms are matched as plain substrings
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+/**
+ * Store key for a brand: its name lowercased, without diacritics, with runs of other characters as '-'.
+ * Letters outside that range (Japanese, Cyrillic, Arabic, ...) would be lost, so such names get a hash suffix
+ * ('brand-3f2a9c1e' for a name without any Latin letters). Empty only for names without letters or digits.
+ */
+export function brandIdOf(brandName: string): string {
+    const folded = brandName.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    const slug = folded.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    if (!/[\p{L}\p{N}]/u.test(folded.replace(/[a-z0-9]/g, ''))) return slug;
+
+    const hash = createHash('sha256').update(brandName.normalize('NFC').trim().toLowerCase()).digest('hex').slice(0, 8);
+    return `${slug || 'brand'}-${hash}`;
+}
+
+/**
+ * The entries of a brand's terminology that apply to `locale`.
+ */
+export function resolveTerminology(terminology: BrandTerminology, locale: Locale): LocaleTerminology {
+    const { glossary } = terminology;
+    return {
+        locale,
+        doNotTranslate: glossary.doNotTranslate.filter(term => term.trim().length > 0),
+        mandatedTranslations: glossary.mandatedTranslations.filter(entry => appliesTo(entry.locale, locale)),
+        forbidden: glossary.forbidden.filter(entry => !entry.locales?.length || entry.locales.some(entryLocale => appliesTo(entryLocale, locale))),
+        translationMemory: terminology.translationMemory.filter(segment => appliesTo(segment.locale, locale))
+    };
+}
+
+/**
+ * Prompt lines for the entries that matter to this brief (empty when there are none).
+ */
+export function describeTerminology(terms: LocaleTerminology, brief: BriefInput): string[] {
+    const source = sourceText(brief);
+    const keep = terms.doNotTranslate.filter(term => containsTerm(source, term));
+    const mandated = terms.mandatedTranslations.filter(entry => containsTerm(source, entry.source));
+    const memory = terms.translationMemory.filter(segment => containsTerm(source, segment.source));
+
+    const lines: string[] = [];
+    if (keep.length > 0) lines.push(`Keep exactly as written, never translate: ${keep.map(quote).join(', ')}`);
+    if (mandated.length > 0) lines.push('Translate these terms exactly as given:', ...mandated.map(entry => `- ${quote(entry.source)} -> ${quote(entry.target)}`));
+    if (terms.forbidden.length > 0) lines.push(`Never use: ${terms.forbidden.map(entry => quote(entry.term)).join(', ')}`);
+    if (memory.length > 0) lines.push('Approved translations, reuse them verbatim:', ...memory.map(segment => `- ${quote(segment.source)} -> ${quote(segment.target)}`));
+    return lines;
+}
+
+/**
+ * Checks a generated variant against the rules it was prompted with; an empty result means it can ship.
+ */
+export function checkTerminology(variant: UIContentVariant, terms: LocaleTerminology, brief: BriefInput): TerminologyViolation[] {
+    const source = sourceText(brief);
+    const copy = COPY_FIELDS.map(field => variant[field]).join('\n');
+    const violations: TerminologyViolation[] = [];
+    const violation = (rule: TerminologyViolation['rule'], term: string, message: string, field?: CopyField) =>
+        violations.push({ locale: terms.locale, rule, term, message, ...(field ? { field } : {}) });
+
+    for (const term of terms.doNotTranslate) {
+        if (!containsTerm(source, term) || copy.includes(term)) continue;
+        violation('DO_NOT_TRANSLATE', term, containsTerm(copy, term)
+            ? `'${term}' must be kept exactly as written.`
+            : `'${term}' is missing; it must not be translated.`);
+    }
+    for (const entry of terms.mandatedTranslations) {
+        if (containsTerm(source, entry.source) && !containsTerm(copy, entry.target)) {
+            violation('MANDATED_TRANSLATION', entry.source, `'${entry.source}' must be rendered as '${entry.target}'.`);
+        }
+    }
+    for (const entry of terms.forbidden) {
+        const field = COPY_FIELDS.find(name => containsTerm(variant[name], entry.term));
+        if (field) {
+            violation('FORBIDDEN_TERM', entry.term, `Forbidden term '${entry.term}' in ${field}${entry.reason ? ` (${entry.reason})` : ''}.`, field);
+        }
+    }
+    for (const segment of terms.translationMemory) {
+        if (containsTerm(source, segment.source) && !copy.includes(segment.target)) {
+            violation('TRANSLATION_MEMORY', segment.source, `'${segment.source}' must use its approved translation '${segment.target}'.`);
+        }
+    }
+    return violations;
+}
+
+function sourceText(brief: BriefInput): string {
+    return brief.coreMessage;
+}
+
+/**
+ * Case-insensitive match on word boundaries (substring match for terms in scripts written without spaces).
+ */
+export function containsTerm(text: string, term: string): boolean {
+    const needle = term.trim();
+    if (!needle) return false;
+    if (UNSPACED_SCRIPT.test(needle)) return text.toLocaleLowerCase().includes(needle.toLocaleLowerCase());
+    const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Entry locales without an explicit region cover the whole language ('de' matches 'de-AT').
+ */
+function appliesTo(entryLocale: Locale, locale: Locale): boolean {
+    const entry = resolveLocale(entryLocale);
+    const target = resolveLocale(locale);
+    if (!entry || !target) return false;
+    return entry.regionInferred ? entry.language === target.language : entry.tag === target.tag;
+}
+
+function quote(text: string): string {
+    return `"${text}"`;
+}
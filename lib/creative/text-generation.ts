@@ -0,0 +1,149 @@
+import { BrandGuidelines, BriefInput, Locale, UIContentVariant } from '../contracts/contracts';
+import { describeGuidelines } from './brand-guidelines';
+import { LocaleTerminology, describeTerminology } from './terminology';
+
+/**
+ * Module: Text Generation (Creative AI Engine support)
+ * Purpose: Provider boundary between the Creative AI Engine and any LLM backend,
+ * plus the prompt builder and the response schema check shared by every provider.
+ *
+ * Friction Points Managed:
+ * 1. Vendor Lock-in: The engine only sees TextGenerationProvider; swapping models never touches pipeline code.
+ * 2. Layout/Design Coupling: Prompts carry the layout's length budget, and responses are rejected if they exceed it.
+ * 3. Hallucinated Shapes: Raw model output is parsed and schema-checked before it becomes a UIContentVariant.
+ * 4. Brand Vocabulary: The brand's glossary and approved translations for the locale are part of the prompt.
+ * 5. Brand Voice: The brief's guidelines (tone, audience, reading level, CTA style, banned phrases) are part of
+ *    the prompt, and their length limits tighten the layout budget the model is given.
+ */
+
+export interface LayoutConstraints {
+    heroTitleMaxLength: number;
+    bodyCopyMaxLength: number;
+    ctaTextMaxLength: number;
+}
+
+// Length budgets per Next.js template (see determineLayout in the engine)
+export const LAYOUT_CONSTRAINTS: Record<string, LayoutConstraints> = {
+    'layout-minimal-v1': { heroTitleMaxLength: 70, bodyCopyMaxLength: 320, ctaTextMaxLength: 24 },
+    'layout-wide-v2': { heroTitleMaxLength: 90, bodyCopyMaxLength: 480, ctaTextMaxLength: 32 }
+};
+
+export interface CreativePrompt {
+    system: string;
+    user: string;
+}
+
+export interface TextGenerationRequest {
+    brief: BriefInput;
+    locale: Locale;
+    layoutId: string;
+    constraints: LayoutConstraints;
+    prompt: CreativePrompt;
+    terminology?: LocaleTerminology; // Glossary and translation memory entries for this locale
+    signal?: AbortSignal; // Aborted when the engine gives up on the attempt (stage timeout)
+}
+
+export interface TextGenerationResult {
+    content: string; // Raw model output, expected to be a JSON object
+    model: string; // Model that actually answered (may differ from the requested alias)
+}
+
+export interface TextGenerationProvider {
+    readonly modelName: string;
+    generate(request: TextGenerationRequest): Promise<TextGenerationResult>;
+}
+
+/**
+ * Length budget of a layout, tightened by the brand's limits when guidelines are given (they never loosen it).
+ */
+export function getLayoutConstraints(layoutId: string, guidelines?: BrandGuidelines): LayoutConstraints {
+    const layout = LAYOUT_CONSTRAINTS[layoutId] ?? LAYOUT_CONSTRAINTS['layout-minimal-v1'];
+    const limits = guidelines?.maxLengths;
+    if (!limits) return layout;
+    return {
+        heroTitleMaxLength: Math.min(layout.heroTitleMaxLength, limits.heroTitle ?? Infinity),
+        bodyCopyMaxLength: Math.min(layout.bodyCopyMaxLength, limits.bodyCopy ?? Infinity),
+        ctaTextMaxLength: Math.min(layout.ctaTextMaxLength, limits.ctaText ?? Infinity)
+    };
+}
+
+/**
+ * Builds the chat prompt for one locale from the brief (with its brand guidelines), the layout budget and the brand's terminology.
+ */
+export function buildCreativePrompt(brief: BriefInput, locale: Locale, constraints: LayoutConstraints, terminology?: LocaleTerminology): CreativePrompt {
+    const system = [
+        'You are a senior conversion copywriter producing localized landing-page copy.',
+        'Write natively in the target language; never translate word-for-word.',
+        'Answer with a single JSON object and nothing else, using exactly these string fields:',
+        '"heroTitle", "bodyCopy", "ctaText".'
+    ].join('\n');
+
+    const user = [
+        `Brand: ${brief.brandName}`,
+        `Core message: ${brief.coreMessage}`,
+        `Target locale: ${locale} (${describeLocale(locale)})`,
+        'Length limits (characters):',
+        `- heroTitle: max ${constraints.heroTitleMaxLength}`,
+        `- bodyCopy: max ${constraints.bodyCopyMaxLength}`,
+        `- ctaText: max ${constraints.ctaTextMaxLength}`,
+        'Keep the brand name unchanged.',
+        ...(brief.guidelines ? describeGuidelines(brief.guidelines, locale) : []),
+        ...(terminology ? describeTerminology(terminology, brief) : [])
+    ].join('\n');
+
+    return { system, user };
+}
+
+/**
+ * Parses and schema-checks raw provider output into a UIContentVariant.
+ * Throws on malformed JSON, missing fields or layout budget overruns, so the engine
+ * records the locale as failed instead of shipping broken copy.
+ */
+export function parseCreativeResponse(
+    result: TextGenerationResult,
+    locale: Locale,
+    layoutId: string,
+    constraints: LayoutConstraints
+): UIContentVariant {
+    const json = result.content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error(`[CreativeAIEngine] Schema Violation: ${locale} response is not valid JSON.`);
+    }
+    if (!parsed || typeof parsed !== 'object') {
+        throw new Error(`[CreativeAIEngine] Schema Violation: ${locale} response is not a JSON object.`);
+    }
+
+    const record = parsed as Record<string, unknown>;
+    const field = (name: 'heroTitle' | 'bodyCopy' | 'ctaText', maxLength: number): string => {
+        const value = record[name];
+        if (typeof value !== 'string' || value.trim().length === 0) {
+            throw new Error(`[CreativeAIEngine] Schema Violation: ${locale} response is missing '${name}'.`);
+        }
+        const text = value.trim();
+        if (text.length > maxLength) {
+            throw new Error(`[CreativeAIEngine] Schema Violation: ${locale} '${name}' exceeds ${maxLength} chars for ${layoutId}.`);
+        }
+        return text;
+    };
+
+    return {
+        locale,
+        heroTitle: field('heroTitle', constraints.heroTitleMaxLength),
+        bodyCopy: field('bodyCopy', constraints.bodyCopyMaxLength),
+        ctaText: field('ctaText', constraints.ctaTextMaxLength),
+        layoutId,
+        generationModel: result.model
+    };
+}
+
+function describeLocale(locale: Locale): string {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) ?? locale;
+    } catch {
+        return locale;
+    }
+}
@@ -0,0 +1,151 @@
+import {
+    CrawlArtifact,
+    CrawlArtifacts,
+    SEOOptimizedVariant,
+    SitemapEntry
+} from '../contracts/contracts';
+
+/**
+ * Module: Crawl Artifacts (GEO Deployment support)
+ * Purpose: Produce sitemap.xml (with xhtml:link hreflang alternates), sitemap indexes and robots.txt.
+ *
+ * Friction Points Managed:
+ * 1. Day-one Discoverability: Every deployment ships its own crawl files; nothing depends on a later crawl.
+ * 2. Protocol Limits: Sitemaps are split at 50,000 URLs and tied together by a sitemap index.
+ * 3. Hreflang Consistency: Alternates are copied from the SEO stage's (validated) hreflang maps, never recomputed.
+ * 4. Served Paths: Files live under /sitemaps/{campaign}/, which the factory serves from the campaign's production
+ *    version (app/sitemaps/[campaign]/[file]) just like static exports do from their root.
+ */
+
+export const MAX_URLS_PER_SITEMAP = 50_000; // sitemaps.org protocol limit
+export const CAMPAIGN_SITEMAPS_DIR = '/sitemaps';
+
+export interface CrawlArtifactOptions {
+    campaignId: string;
+    baseUrl: string;
+    lastModified?: string;
+    maxUrlsPerSitemap?: number;
+}
+
+/**
+ * One sitemap entry per published variant; variants without a canonical URL are skipped.
+ */
+export function buildSitemapEntries(variants: SEOOptimizedVariant[], lastModified: string): SitemapEntry[] {
+    return variants
+        .filter(variant => Boolean(variant.seo?.canonicalUrl))
+        .map(variant => ({
+            url: variant.seo.canonicalUrl,
+            lastModified,
+            alternates: { ...(variant.seo.hreflang ?? {}) }
+        }));
+}
+
+export function chunkSitemapEntries(entries: SitemapEntry[], maxUrlsPerSitemap: number = MAX_URLS_PER_SITEMAP): SitemapEntry[][] {
+    if (maxUrlsPerSitemap < 1) {
+        throw new Error('[CrawlArtifacts] Invariant Violation: maxUrlsPerSitemap must be at least 1.');
+    }
+    const chunks: SitemapEntry[][] = [];
+    for (let i = 0; i < entries.length; i += maxUrlsPerSitemap) {
+        chunks.push(entries.slice(i, i + maxUrlsPerSitemap));
+    }
+    return chunks.length > 0 ? chunks : [[]];
+}
+
+export function renderSitemapXml(entries: SitemapEntry[]): string {
+    const urls = entries.map(entry => {
+        const alternates = Object.entries(entry.alternates)
+            .map(([hreflang, href]) => `    <xhtml:link rel="alternate" hreflang="${escapeXml(hreflang)}" href="${escapeXml(href)}"/>`);
+        return [
+            '  <url>',
+            `    <loc>${escapeXml(entry.url)}</loc>`,
+            `    <lastmod>${escapeXml(entry.lastModified)}</lastmod>`,
+            ...alternates,
+            '  </url>'
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+        ...urls,
+        '</urlset>',
+        ''
+    ].join('\n');
+}
+
+export function renderSitemapIndexXml(sitemapUrls: string[], lastModified: string): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        ...sitemapUrls.map(url => `  <sitemap>\n    <loc>${escapeXml(url)}</loc>\n    <lastmod>${escapeXml(lastModified)}</lastmod>\n  </sitemap>`),
+        '</sitemapindex>',
+        ''
+    ].join('\n');
+}
+
+export function renderRobotsTxt(sitemapUrls: string[], disallow: string[] = ['/api/']): string {
+    return [
+        'User-agent: *',
+        'Allow: /',
+        ...disallow.map(path => `Disallow: ${path}`),
+        '',
+        ...sitemapUrls.map(url => `Sitemap: ${url}`),
+        ''
+    ].join('\n');
+}
+
+/**
+ * Builds the crawl files for one campaign deployment.
+ * A single sitemap is emitted while the campaign fits the URL limit; beyond it, numbered sitemaps plus an index.
+ */
+export function buildCrawlArtifacts(variants: SEOOptimizedVariant[], options: CrawlArtifactOptions): CrawlArtifacts {
+    const lastModified = options.lastModified ?? new Date().toISOString();
+    const directory = campaignSitemapsPath(options.campaignId);
+    const entries = buildSitemapEntries(variants, lastModified);
+    const chunks = chunkSitemapEntries(entries, options.maxUrlsPerSitemap);
+
+    const files: CrawlArtifact[] = [];
+    let sitemapPath: string;
+
+    if (chunks.length === 1) {
+        sitemapPath = `${directory}/sitemap.xml`;
+        files.push({ path: sitemapPath, contentType: 'application/xml', content: renderSitemapXml(chunks[0]) });
+    } else {
+        const chunkPaths = chunks.map((_, index) => `${directory}/sitemap-${index + 1}.xml`);
+        chunks.forEach((chunk, index) => {
+            files.push({ path: chunkPaths[index], contentType: 'application/xml', content: renderSitemapXml(chunk) });
+        });
+        sitemapPath = `${directory}/sitemap-index.xml`;
+        files.push({
+            path: sitemapPath,
+            contentType: 'application/xml',
+            content: renderSitemapIndexXml(chunkPaths.map(path => `${options.baseUrl}${path}`), lastModified)
+        });
+    }
+
+    const sitemapUrl = `${options.baseUrl}${sitemapPath}`;
+    files.push({ path: '/robots.txt', contentType: 'text/plain', content: renderRobotsTxt([sitemapUrl]) });
+
+    return {
+        sitemapUrl,
+        robotsUrl: `${options.baseUrl}/robots.txt`,
+        entries,
+        files
+    };
+}
+
+/**
+ * Site-root directory of a campaign's sitemap files, e.g. '/sitemaps/summer-2026'.
+ */
+export function campaignSitemapsPath(campaignId: string): string {
+    return `${CAMPAIGN_SITEMAPS_DIR}/${encodeURIComponent(campaignId)}`;
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
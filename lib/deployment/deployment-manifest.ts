@@ -0,0 +1,17 @@
+import { DeploymentConfig, DeploymentManifest, Locale } from '../contracts/contracts';
+
+/**
+ * Module: Deployment Manifest (GEO Deployment support)
+ * Purpose: Read helpers over a campaign's multi-region DeploymentManifest.
+ *
+ * Friction Points Managed:
+ * 1. Locale Routing: Pages, the proxy and telemetry look up the regional deployment that serves a locale.
+ */
+
+/**
+ * Regional deployment serving a locale (case-insensitive), or undefined if no region serves it.
+ */
+export function deploymentForLocale(manifest: DeploymentManifest, locale: Locale): DeploymentConfig | undefined {
+    const wanted = locale.toLowerCase();
+    return manifest.deployments.find(deployment => deployment.locales.some(served => served.toLowerCase() === wanted));
+}
@@ -0,0 +1,80 @@
+import {
+    DataResidency,
+    EdgeRegionDefinition,
+    GeoCompliance,
+    Locale,
+    RegionAssignment
+} from '../contracts/contracts';
+import { DeploymentPlanningError } from '../contracts/errors';
+import { countryOf, resolveLocale } from '../locale/locale-registry';
+import { strictestResidency } from '../compliance/privacy-rules';
+
+/**
+ * Module: Deployment Planner (GEO Deployment support)
+ * Purpose: Assign every locale variant to an edge region, so a campaign is served from several regions
+ * instead of the one picked by a majority vote.
+ *
+ * Friction Points Managed:
+ * 1. Residency First: A locale's market decides its residency (strictest regime covering that country);
+ *    only regions in that jurisdiction are candidates. Proximity is a preference, residency is not.
+ * 2. Fail the Plan, not the Visitor: If any locale cannot be placed, planning throws DeploymentPlanningError
+ *    before anything is deployed.
+ * 3. Configurable Catalog: Regions are plain data (DEFAULT_EDGE_REGIONS); catalog order is the fallback preference.
+ */
+
+export const DEFAULT_EDGE_REGIONS: EdgeRegionDefinition[] = [
+    { id: 'iad1', residency: 'US', countries: ['US', 'CA', 'MX'] },
+    { id: 'fra1', residency: 'EU', countries: ['DE', 'AT', 'CH', 'LI', 'IT', 'PL', 'CZ', 'SK', 'HU', 'SI', 'HR', 'RO', 'BG', 'GR', 'CY', 'MT'] },
+    { id: 'cdg1', residency: 'EU', countries: ['FR', 'BE', 'LU', 'NL', 'ES', 'PT'] },
+    { id: 'dub1', residency: 'EU', countries: ['IE', 'GB', 'IS'] },
+    { id: 'arn1', residency: 'EU', countries: ['SE', 'NO', 'FI', 'DK', 'EE', 'LV', 'LT'] },
+    { id: 'gru1', residency: 'GLOBAL', countries: ['BR', 'AR', 'CL', 'CO', 'PE', 'UY'] },
+    { id: 'hnd1', residency: 'GLOBAL', countries: ['JP', 'KR'] },
+    { id: 'sin1', residency: 'GLOBAL', countries: ['SG', 'MY', 'ID', 'TH', 'VN', 'PH'] },
+    { id: 'bom1', residency: 'GLOBAL', countries: ['IN'] },
+    { id: 'syd1', residency: 'GLOBAL', countries: ['AU', 'NZ'] }
+];
+
+export class DeploymentPlanner {
+
+    constructor(private readonly regions: EdgeRegionDefinition[] = DEFAULT_EDGE_REGIONS) { }
+
+    /**
+     * One assignment per distinct locale, in input order.
+     * Throws DeploymentPlanningError listing every locale no region can legally serve.
+     */
+    public plan(locales: Locale[], compliance: GeoCompliance): RegionAssignment[] {
+        const assignments: RegionAssignment[] = [];
+        const unplaced: DeploymentPlanningError['unplaced'] = [];
+
+        for (const locale of new Set(locales)) {
+            const info = resolveLocale(locale);
+            const country = info ? countryOf(info) : undefined;
+            const residency = this.residencyFor(country, compliance);
+
+            const candidates = this.regions.filter(region => residency === 'GLOBAL' || region.residency === residency);
+            const region = candidates.find(candidate => country && candidate.countries.includes(country)) ?? candidates[0];
+
+            if (region) assignments.push({ locale, country, residency, edgeRegion: region.id });
+            else unplaced.push({ locale, residency });
+        }
+
+        if (unplaced.length > 0) {
+            throw new DeploymentPlanningError(unplaced);
+        }
+        return assignments;
+    }
+
+    /**
+     * Strictest residency of the privacy regimes covering the market. Projects validated before privacy
+     * rules existed carry no regimes; their campaign-wide residency applies to every locale.
+     */
+    private residencyFor(country: string | undefined, compliance: GeoCompliance): DataResidency {
+        if (!compliance.privacy) return compliance.dataResidency;
+        if (!country) return 'GLOBAL';
+
+        return strictestResidency(compliance.privacy
+            .filter(requirement => requirement.countries.includes(country))
+            .map(requirement => requirement.dataResidency));
+    }
+}
@@ -0,0 +1,46 @@
+import {
+    BriefInput,
+    CrawlArtifacts,
+    DeploymentConfig,
+    Locale,
+    SEOOptimizedVariant
+} from '../contracts/contracts';
+
+/**
+ * Module: Deployment Provider (GEO Deployment support)
+ * Purpose: Boundary between the GEO Deployment Hub and whatever actually ships a campaign
+ * (simulated push, local static export, a hosting platform API).
+ *
+ * Friction Points Managed:
+ * 1. Vendor Lock-in: The hub plans regions and rules; providers only ship the bundle they are given.
+ * 2. One Bundle per Version: Everything a version needs (pages, assets, crawl files, edge rules) travels together,
+ *    so a provider never has to read pipeline state.
+ */
+
+export interface RegionBundle {
+    edgeRegion: string;
+    locales: Locale[]; // Variants served from this region
+}
+
+export interface DeploymentBundle {
+    manifestId: string; // Version id; providers must never overwrite an earlier manifestId
+    campaignId: string;
+    variants: SEOOptimizedVariant[];
+    regions: RegionBundle[];
+    middlewareRules: DeploymentConfig['middlewareRules'];
+    crawl: CrawlArtifacts;
+    assets?: BriefInput['assets'];
+    guidelines?: BriefInput['guidelines']; // Palette and typography theme the rendered pages
+}
+
+export interface ProviderDeployment {
+    edgeRegion: string;
+    deploymentId: string;
+    url?: string; // Where the region's output is served, when the provider serves it
+}
+
+export interface DeploymentProvider {
+    readonly name: string;
+    // One result per bundle region
+    deploy(bundle: DeploymentBundle): Promise<ProviderDeployment[]>;
+}
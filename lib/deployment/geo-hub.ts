@@ -1,27 +1,45 @@
-
+import { randomUUID } from 'node:crypto';
 import {
     SEOOptimizedVariant,
     DeploymentConfig,
-    Locale
+    DeploymentContext,
+    DeploymentManifest,
+    GeoCompliance
 } from '../contracts/contracts';
+import { buildCrawlArtifacts } from './crawl-artifacts';
+import { DeploymentPlanner } from './deployment-planner';
+import { DeploymentProvider } from './deployment-provider';
+import { createDeploymentProvider } from './providers/provider-factory';
+import { getSiteBaseUrl } from '../config/factory-config';
 
 /**
  * Module: GEO Deployment Hub
  * Purpose: Aggregate compliance rules, select edge regions, and trigger deployment/telemetry.
  * 
  * Friction Points Managed:
- * 1. GDPR/Consent: Aggregates strict compliance (consentRequired=true) if ANY target is EU.
- *    Safe-by-default approach preventing accidental non-compliance.
- * 2. Latency vs Reach: Generates a single global config with smart region targeting, 
- *    avoiding multiple slow deployments.
- * 3. Data Residency: Explicitly selects edge regions (e.g., fra1) based on traffic sources.
+ * 1. GDPR/Consent: Aggregates strict compliance (consentRequired=true) if ANY applicable privacy regime is opt-in.
+ *    Safe-by-default approach preventing accidental non-compliance. The regimes themselves ship in
+ *    middlewareRules.privacy so the edge can apply the one covering each visitor.
+ * 2. Latency vs Reach: Each locale is served from the edge region nearest its market (DeploymentPlanner);
+ *    locales sharing a region share one deployment, so a campaign costs one deployment per region, not per locale.
+ * 3. Data Residency: A locale is only placed in a region meeting its market's residency requirement;
+ *    otherwise the plan fails (DeploymentPlanningError) before anything is deployed.
+ * 4. Conversion Tracking: Each regional deployment gets its own telemetry endpoint (see lib/telemetry).
+ * 5. Discoverability: The manifest ships the campaign's sitemap.xml and robots.txt alongside the pages.
+ * 6. Vendor Lock-in: Shipping goes through a DeploymentProvider (simulated push by default, or a local static export).
+ * 7. Immutable Releases: Deployments land on the preview target; production only changes through ReleaseManager.
  */
 export class GeoDeploymentHub {
 
+    constructor(
+        private readonly planner: DeploymentPlanner = new DeploymentPlanner(),
+        private readonly provider: DeploymentProvider = createDeploymentProvider()
+    ) { }
+
     /**
      * Entry Point: Middleware Routing & Deployment
      */
-    public async executeGeoDeploy(seoVariants: SEOOptimizedVariant[], compliance: import('../contracts/contracts').GeoCompliance): Promise<DeploymentConfig> {
+    public async executeGeoDeploy(seoVariants: SEOOptimizedVariant[], compliance: GeoCompliance, context?: DeploymentContext): Promise<DeploymentManifest> {
         // 1. Validation
         if (!seoVariants || seoVariants.length === 0) {
             throw new Error('[GeoDeploymentHub] Invariant Violation: No variants provided for deployment.');
@@ -29,74 +47,75 @@ export class GeoDeploymentHub {
 
         // 2. Compliance Aggregation (Single Source of Truth)
         // We now rely on the upstream compliance object calculated by InboundOrchestrator.
+        const allowedCountries = compliance.allowedCountries ?? [];
         const middlewareRules = {
-            geoBlocking: false, // Default open
-            consentRequired: compliance.requiresGDPR // Direct mapping from Policy
-        };
-
-        // 3. Region Selection (Friction Point: Data Residency)
-        // Calculate the "Center of Gravity" for the deployment.
-        const targetRegion = this.determineEdgeRegion(seoVariants.map(v => v.locale));
-
-        // 4. Infrastructure Provisioning (Stubs)
-        const deploymentId = await this.stubVercelDeploy(middlewareRules, targetRegion);
-        const telemetryEndpoint = await this.stubTelemetryProvisioning(deploymentId);
-
-        // 5. Output Construction
-        return {
-            deploymentId: deploymentId,
-            edgeRegion: targetRegion,
-            isLive: true,
-            telemetryEndpoint: telemetryEndpoint,
-            middlewareRules: middlewareRules
+            geoBlocking: allowedCountries.length > 0, // Default open; closed only on an explicit brief restriction
+            allowedCountries: allowedCountries,
+            consentRequired: compliance.cookieConsentActive, // Direct mapping from Policy
+            privacy: compliance.privacy
         };
-    }
-
-    /**
-     * Helper: Detects EU presence for GDPR logic.
-     */
-    private isEuLocale(locale: Locale): boolean {
-        const euPrefixes = new Set(['it', 'fr', 'de', 'es', 'pt', 'nl', 'be', 'at', 'ie']);
-        const prefix = locale.split('-')[0].toLowerCase();
-        return euPrefixes.has(prefix);
-    }
 
-    /**
-     * Helper: Selects optimal Edge region.
-     */
-    private determineEdgeRegion(locales: Locale[]): string {
-        let euCount = 0;
-        let usCount = 0;
+        // 3. Region Planning (Friction Point: Data Residency)
+        // Throws before provisioning when a locale cannot be placed.
+        const assignments = this.planner.plan(seoVariants.map(v => v.locale), compliance);
+        const localesByRegion = new Map<string, string[]>();
+        for (const assignment of assignments) {
+            localesByRegion.set(assignment.edgeRegion, [...(localesByRegion.get(assignment.edgeRegion) ?? []), assignment.locale]);
+        }
+        const regions = [...localesByRegion].map(([edgeRegion, locales]) => ({ edgeRegion, locales }));
 
-        locales.forEach(loc => {
-            if (this.isEuLocale(loc)) euCount++;
-            else usCount++;
+        // 4. Crawl Artifacts (sitemap.xml + robots.txt), campaign-wide
+        // Manifest ids identify campaign versions: the random part keeps same-millisecond deploys apart
+        const manifestId = `dpm_${Date.now().toString(36)}_${randomUUID().slice(0, 8)}`;
+        const campaignId = context?.campaignId ?? manifestId;
+        const crawl = buildCrawlArtifacts(seoVariants, {
+            campaignId: campaignId,
+            baseUrl: getSiteBaseUrl()
         });
 
-        // Simple majority voting for MVP
-        if (euCount > usCount) return 'fra1'; // Frankfurt
-        if (usCount > 0) return 'iad1'; // Washington DC
-        return 'global'; // Fallback
-    }
-
-    /**
-     * STUB: Vercel Deployment API
-     * Simulates pushing config to Edge Middleware.
-     */
-    private async stubVercelDeploy(rules: { consentRequired: boolean }, region: string): Promise<string> {
-        await new Promise(resolve => setTimeout(resolve, 200)); // Network delay
+        // 5. Infrastructure Provisioning through the provider, one deployment per region
+        const shipped = await this.provider.deploy({
+            manifestId,
+            campaignId,
+            variants: seoVariants,
+            regions,
+            middlewareRules,
+            crawl,
+            assets: context?.assets,
+            guidelines: context?.guidelines
+        });
+        const deployments = regions.map(({ edgeRegion, locales }): DeploymentConfig => {
+            const result = shipped.find(deployment => deployment.edgeRegion === edgeRegion);
+            if (!result) {
+                throw new Error(`[GeoDeploymentHub] Invariant Violation: Provider '${this.provider.name}' returned no deployment for ${edgeRegion}.`);
+            }
+            return {
+                deploymentId: result.deploymentId,
+                edgeRegion: edgeRegion,
+                isLive: false, // Preview until promoted (see ReleaseManager)
+                telemetryEndpoint: this.telemetryEndpointFor(result.deploymentId),
+                ...(result.url && { url: result.url }),
+                locales: locales,
+                middlewareRules: middlewareRules
+            };
+        });
 
-        // Deterministic UUID-like string for MVP
-        const timestamp = Date.now().toString(36);
-        return `dpl_${region}_${timestamp}`;
+        // 6. Output Construction
+        return {
+            manifestId: manifestId,
+            campaignId: campaignId,
+            createdAt: new Date().toISOString(),
+            provider: this.provider.name,
+            assignments: assignments,
+            deployments: deployments,
+            crawl: crawl
+        };
     }
 
     /**
-     * STUB: Telemetry Provider (e.g., Tinybird)
-     * Provisions a dedicated endpoint for analytics.
+     * Helper: Per-deployment ingestion endpoint served by the factory (app/api/telemetry/[deploymentId]).
      */
-    private async stubTelemetryProvisioning(deploymentId: string): Promise<string> {
-        await new Promise(resolve => setTimeout(resolve, 50));
-        return `https://analytics.microsite-factory.com/v1/events/${deploymentId}`;
+    private telemetryEndpointFor(deploymentId: string): string {
+        return `${getSiteBaseUrl()}/api/telemetry/${encodeURIComponent(deploymentId)}`;
     }
 }
@@ -0,0 +1,200 @@
+import { DeploymentConfig, Locale, PrivacyNotice } from '../contracts/contracts';
+import { regimesForVisitor, requiredNotices } from '../compliance/privacy-rules';
+
+/**
+ * Module: Middleware Policy (GEO Deployment support)
+ * Purpose: Decide, per request, how the edge treats a microsite visitor under the stored DeploymentConfig.middlewareRules.
+ *
+ * Friction Points Managed:
+ * 1. Locale Negotiation: Accept-Language first, then the visitor's country, then the campaign's primary locale.
+ * 2. Geo Restriction: Countries outside allowedCountries get a 451 when geoBlocking is on.
+ *    Visitors whose country cannot be determined are let through; blocking them would block most crawlers.
+ * 3. Consent Before Tracking: Every allowed request is marked with its consent state, so pages can hold back
+ *    tracking scripts until consent is granted. The state follows the privacy regime covering the visitor
+ *    (opt-in GDPR/LGPD vs opt-out CCPA), and opt-out visitors sending Global Privacy Control are treated as objecting.
+ * 4. Testability: Pure function over a standard Request; the Next.js proxy only translates the decision.
+ */
+
+export const CONSENT_STATE_HEADER = 'x-microsite-consent';
+export const CONSENT_COOKIE = 'mf_consent';
+export const PRIVACY_NOTICES_HEADER = 'x-microsite-privacy-notices';
+
+// Country headers set by common edge platforms, in order of preference
+const COUNTRY_HEADERS = ['x-vercel-ip-country', 'cf-ipcountry', 'cloudfront-viewer-country', 'x-country-code'];
+// Subdivision (ISO 3166-2 suffix, e.g. 'CA' for California) headers, same order
+const SUBDIVISION_HEADERS = ['x-vercel-ip-country-region', 'cf-region-code', 'cloudfront-viewer-country-region'];
+
+// 'implied': an opt-out regime applies and the visitor has not objected
+export type ConsentState = 'not-required' | 'required' | 'implied' | 'granted' | 'denied';
+
+export interface VisitorPrivacy {
+    consent: ConsentState;
+    notices: PrivacyNotice[];
+}
+
+export interface MicrositeSite {
+    campaignId: string;
+    locales: Locale[]; // Published locales; the first one is the primary (x-default) locale
+    rules: DeploymentConfig['middlewareRules'];
+}
+
+export type MiddlewareDecision =
+    | { action: 'block'; status: 451; country: string }
+    | { action: 'redirect'; status: 307; location: string; locale: Locale }
+    | { action: 'continue'; locale: Locale; consent: ConsentState; notices: PrivacyNotice[] };
+
+export interface LanguagePreference {
+    tag: string;
+    quality: number;
+}
+
+/**
+ * Parses an Accept-Language header into tags ordered by quality (ties keep header order).
+ * Wildcards and q=0 entries are dropped.
+ */
+export function parseAcceptLanguage(header: string | null): LanguagePreference[] {
+    if (!header) return [];
+
+    return header
+        .split(',')
+        .map((part, index) => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+            const quality = q ? Number(q.slice(2)) : 1;
+            return { tag: tag.trim(), quality: Number.isFinite(quality) ? quality : 0, index };
+        })
+        .filter(pref => pref.tag && pref.tag !== '*' && pref.quality > 0)
+        .sort((a, b) => b.quality - a.quality || a.index - b.index)
+        .map(({ tag, quality }) => ({ tag, quality }));
+}
+
+/**
+ * Visitor country from the first edge header carrying an ISO 3166-1 alpha-2 code.
+ * Placeholder values ('XX', Cloudflare's 'T1' for Tor) count as unknown.
+ */
+export function resolveVisitorCountry(headers: Headers): string | null {
+    for (const name of COUNTRY_HEADERS) {
+        const value = headers.get(name)?.trim().toUpperCase();
+        if (value && /^[A-Z]{2}$/.test(value) && value !== 'XX') return value;
+    }
+    return null;
+}
+
+/**
+ * Visitor subdivision as an ISO 3166-2 code ('US-CA'), or null when the edge did not report one.
+ */
+export function resolveVisitorSubdivision(headers: Headers, country: string | null): string | null {
+    if (!country) return null;
+    for (const name of SUBDIVISION_HEADERS) {
+        const value = headers.get(name)?.trim().toUpperCase();
+        if (value && /^[A-Z0-9]{1,3}$/.test(value)) return `${country}-${value}`;
+    }
+    return null;
+}
+
+/**
+ * Picks the published locale that best serves the visitor:
+ * 1. exact Accept-Language match, 2. same language (preferring the visitor's country),
+ * 3. a locale of the visitor's country, 4. the primary locale.
+ */
+export function negotiateLocale(available: Locale[], preferences: LanguagePreference[], country: string | null): Locale {
+    if (available.length === 0) {
+        throw new Error('[MiddlewarePolicy] Invariant Violation: No published locales to negotiate from.');
+    }
+    const parsed = available.map(locale => ({ locale, ...splitLocale(locale) }));
+
+    for (const preference of preferences) {
+        const wanted = splitLocale(preference.tag);
+
+        const exact = parsed.find(p => p.language === wanted.language && wanted.region && p.region === wanted.region);
+        if (exact) return exact.locale;
+
+        const sameLanguage = parsed.filter(p => p.language === wanted.language);
+        if (sameLanguage.length > 0) {
+            return (sameLanguage.find(p => country && p.region === country) ?? sameLanguage[0]).locale;
+        }
+    }
+
+    const inCountry = country ? parsed.find(p => p.region === country) : undefined;
+    return (inCountry ?? parsed[0]).locale;
+}
+
+/**
+ * Consent state and required notices for a visitor, from the privacy regimes covering their location.
+ * Deployments recorded before privacy rules fall back to the campaign-wide consentRequired flag.
+ */
+export function resolveVisitorPrivacy(request: Request, rules: DeploymentConfig['middlewareRules']): VisitorPrivacy {
+    const choice = readCookie(request.headers.get('cookie'), CONSENT_COOKIE);
+
+    if (!rules.privacy) {
+        if (!rules.consentRequired) return { consent: 'not-required', notices: [] };
+        const consent = choice === 'granted' || choice === 'denied' ? choice : 'required';
+        return { consent, notices: ['consent-banner'] };
+    }
+
+    const country = resolveVisitorCountry(request.headers);
+    const regimes = regimesForVisitor(rules.privacy, country, resolveVisitorSubdivision(request.headers, country));
+    const notices = requiredNotices(regimes);
+
+    if (regimes.length === 0) return { consent: 'not-required', notices };
+    if (choice === 'granted' || choice === 'denied') return { consent: choice, notices };
+    if (regimes.some(regime => regime.consentMode === 'opt-in')) return { consent: 'required', notices };
+    // Opt-out regimes (e.g. CCPA) must honour the Global Privacy Control signal as an objection.
+    return { consent: request.headers.get('sec-gpc') === '1' ? 'denied' : 'implied', notices };
+}
+
+/**
+ * Consent state of a request (see resolveVisitorPrivacy).
+ */
+export function resolveConsentState(request: Request, rules: DeploymentConfig['middlewareRules']): ConsentState {
+    return resolveVisitorPrivacy(request, rules).consent;
+}
+
+/**
+ * Whether tracking (telemetry beacons) may run for a request in this consent state.
+ */
+export function isTrackingAllowed(consent: string | null): boolean {
+    return consent === 'granted' || consent === 'implied' || consent === 'not-required';
+}
+
+/**
+ * Evaluates one request against a published site.
+ * requestedLocale is the locale segment of the URL, or null when the visitor hit the bare campaign path.
+ */
+export function evaluateMicrositeRequest(request: Request, site: MicrositeSite, requestedLocale: Locale | null): MiddlewareDecision {
+    const country = resolveVisitorCountry(request.headers);
+
+    // 1. Geo restriction runs first: a blocked visitor is never redirected to a page they cannot see.
+    if (site.rules.geoBlocking && country && !site.rules.allowedCountries.includes(country)) {
+        return { action: 'block', status: 451, country };
+    }
+
+    // 2. Published locale requested: serve it as-is.
+    const published = requestedLocale
+        ? site.locales.find(locale => locale.toLowerCase() === requestedLocale.toLowerCase())
+        : undefined;
+    if (published) {
+        return { action: 'continue', locale: published, ...resolveVisitorPrivacy(request, site.rules) };
+    }
+
+    // 3. Bare campaign path or unpublished locale: redirect to the best variant.
+    const locale = negotiateLocale(site.locales, parseAcceptLanguage(request.headers.get('accept-language')), country);
+    const url = new URL(request.url);
+    url.pathname = `/${locale}/${encodeURIComponent(site.campaignId)}`;
+    return { action: 'redirect', status: 307, location: url.toString(), locale };
+}
+
+function splitLocale(tag: string): { language: string; region?: string } {
+    const [language, ...rest] = tag.replace(/_/g, '-').split('-');
+    const region = rest.find(part => /^[A-Za-z]{2}$/.test(part) || /^\d{3}$/.test(part));
+    return { language: language.toLowerCase(), region: region?.toUpperCase() };
+}
+
+function readCookie(header: string | null, name: string): string | undefined {
+    if (!header) return undefined;
+    for (const pair of header.split(';')) {
+        const [key, ...value] = pair.trim().split('=');
+        if (key === name) return decodeURIComponent(value.join('='));
+    }
+    return undefined;
+}
@@ -0,0 +1,175 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getSiteBaseUrl, resolveDataPath } from '../../config/factory-config';
+import { renderStaticPage, STATIC_SITE_CSS } from '../../rendering/static-page';
+import { buildThemeTokens, renderThemeCss } from '../../rendering/theme-tokens';
+import { DeploymentBundle, DeploymentProvider, ProviderDeployment } from '../deployment-provider';
+
+/**
+ * Module: Local Static Export Provider
+ * Purpose: Ship a campaign version as a static site on disk: one HTML page per locale, assets, crawl files,
+ * the edge rules of every region, and an export manifest listing every file written.
+ *
+ * Friction Points Managed:
+ * 1. Verifiable Output: End-to-end runs produce real files (served by the factory at /exports) without a cloud account.
+ * 2. Immutable Versions: Each manifestId gets its own directory; an existing version is never overwritten.
+ * 3. Torn Exports: Files are written to a temp directory that is renamed into place only when complete.
+ */
+
+export const EXPORT_MANIFEST_FILE = 'deployment.json';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.xml': 'application/xml; charset=utf-8',
+    '.txt': 'text/plain; charset=utf-8',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp'
+};
+
+export interface ExportedFile {
+    path: string; // Relative to the export root, '/'-separated
+    bytes: number;
+    sha256: string;
+}
+
+export interface ExportManifest {
+    provider: string;
+    manifestId: string;
+    campaignId: string;
+    exportedAt: string;
+    deployments: Array<ProviderDeployment & { locales: string[]; middlewareConfig: string }>;
+    files: ExportedFile[];
+}
+
+export type ExportEntry =
+    | { kind: 'file'; content: Buffer; contentType: string }
+    | { kind: 'directory' }; // Has an index.html
+
+export class LocalStaticExportProvider implements DeploymentProvider {
+
+    public readonly name = 'local-static';
+
+    constructor(private readonly directory: string = resolveDataPath('exports')) { }
+
+    public async deploy(bundle: DeploymentBundle): Promise<ProviderDeployment[]> {
+        const campaignDirectory = path.join(this.directory, encodeURIComponent(bundle.campaignId));
+        const target = path.join(campaignDirectory, bundle.manifestId);
+        if (await exists(target)) {
+            throw new Error(`[LocalStaticExportProvider] Invariant Violation: Export ${bundle.manifestId} already exists; versions are immutable.`);
+        }
+
+        const staging = `${target}.${process.pid}.tmp`;
+        const files: ExportedFile[] = [];
+        const write = async (relativePath: string, content: string | Buffer) => {
+            const file = path.join(staging, ...relativePath.split('/'));
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(file, content);
+            files.push({
+                path: relativePath,
+                bytes: Buffer.byteLength(content),
+                sha256: createHash('sha256').update(content).digest('hex')
+            });
+        };
+
+        try {
+            // 1. Assets: local uploads (file: URLs) are copied into the export, remote logos are referenced as-is
+            await write('assets/site.css', STATIC_SITE_CSS + renderThemeCss(buildThemeTokens(bundle.guidelines)));
+            const logoUrl = bundle.assets?.logoUrl;
+            let logoSrc = logoUrl || undefined;
+            if (logoUrl?.startsWith('file:')) {
+                const logoFile = fileURLToPath(logoUrl);
+                const name = `logo${path.extname(logoFile).toLowerCase()}`;
+                await write(`assets/${name}`, await fs.readFile(logoFile));
+                logoSrc = `../../assets/${name}`;
+            }
+
+            // 2. One page per locale, at the same path as the live site: /{locale}/{campaign}/
+            const campaignSegment = encodeURIComponent(bundle.campaignId);
+            for (const variant of bundle.variants) {
+                await write(`${variant.locale}/${campaignSegment}/index.html`, renderStaticPage(variant, { assetsPath: '../../assets', logoSrc }));
+            }
+
+            // 3. Crawl files at their site-root paths
+            for (const artifact of bundle.crawl.files) {
+                await write(artifact.path.replace(/^\/+/, ''), artifact.content);
+            }
+
+            // 4. Edge rules per region
+            const suffix = bundle.manifestId.replace(/^dpm_/, '');
+            const deployments: ExportManifest['deployments'] = [];
+            for (const region of bundle.regions) {
+                const deploymentId = `dpl_${region.edgeRegion}_${suffix}_${randomUUID().slice(0, 8)}`;
+                const middlewareConfig = `_middleware/${region.edgeRegion}.json`;
+                await write(middlewareConfig, JSON.stringify({ deploymentId, edgeRegion: region.edgeRegion, locales: region.locales, rules: bundle.middlewareRules }, null, 2));
+                deployments.push({ ...region, deploymentId, url: this.urlFor(bundle, region.locales[0]), middlewareConfig });
+            }
+
+            // 5. Export manifest, then move the finished version into place
+            const manifest: ExportManifest = {
+                provider: this.name,
+                manifestId: bundle.manifestId,
+                campaignId: bundle.campaignId,
+                exportedAt: new Date().toISOString(),
+                deployments,
+                files: [...files]
+            };
+            await write(EXPORT_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+            await fs.rename(staging, target);
+
+            return deployments.map(({ edgeRegion, deploymentId, url }) => ({ edgeRegion, deploymentId, url }));
+        } catch (error) {
+            await fs.rm(staging, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * A file of a finished export, for local serving. Directories are reported as such: exported pages link
+     * relative to their index.html, so callers should redirect to it rather than serve it under the directory URL.
+     * Null for anything outside the exports directory or not written by an export.
+     */
+    public async read(segments: string[]): Promise<ExportEntry | null> {
+        const root = path.resolve(this.directory);
+        const file = path.resolve(root, ...segments);
+        if (!file.startsWith(root + path.sep) || segments.some(segment => segment.endsWith('.tmp'))) return null;
+
+        try {
+            if ((await fs.stat(file)).isDirectory()) {
+                return await exists(path.join(file, 'index.html')) ? { kind: 'directory' } : null;
+            }
+            return {
+                kind: 'file',
+                content: await fs.readFile(file),
+                contentType: CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream'
+            };
+        } catch (error) {
+            if (['ENOENT', 'ENOTDIR'].includes((error as NodeJS.ErrnoException).code ?? '')) return null;
+            throw error;
+        }
+    }
+
+    /**
+     * Page of the region's first locale, as served by the factory's /exports route.
+     * The campaign directory name is itself URI-encoded, so its URL segment is encoded twice.
+     */
+    private urlFor(bundle: DeploymentBundle, locale: string): string {
+        const campaignSegment = encodeURIComponent(encodeURIComponent(bundle.campaignId));
+        return `${getSiteBaseUrl()}/exports/${campaignSegment}/${bundle.manifestId}/${encodeURIComponent(locale)}/${campaignSegment}/index.html`;
+    }
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fs.access(file);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,18 @@
+import { getDeploymentProviderSettings } from '../../config/factory-config';
+import { DeploymentProvider } from '../deployment-provider';
+import { LocalStaticExportProvider } from './local-static-provider';
+import { StubDeploymentProvider } from './stub-provider';
+
+/**
+ * Selects the deployment provider from the factory configuration.
+ * Defaults to the simulated push so tests never write exports to disk.
+ */
+export function createDeploymentProvider(): DeploymentProvider {
+    const settings = getDeploymentProviderSettings();
+
+    if (settings.provider === 'local-static') {
+        return new LocalStaticExportProvider();
+    }
+
+    return new StubDeploymentProvider();
+}
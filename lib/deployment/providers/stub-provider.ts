@@ -0,0 +1,21 @@
+import { randomUUID } from 'node:crypto';
+import { DeploymentBundle, DeploymentProvider, ProviderDeployment } from '../deployment-provider';
+
+/**
+ * STUB: Vercel Deployment API
+ * Simulates pushing each region's config to Edge Middleware; nothing is written anywhere.
+ */
+export class StubDeploymentProvider implements DeploymentProvider {
+
+    public readonly name = 'stub';
+
+    public async deploy(bundle: DeploymentBundle): Promise<ProviderDeployment[]> {
+        return Promise.all(bundle.regions.map(async ({ edgeRegion }) => {
+            await new Promise(resolve => setTimeout(resolve, 200)); // Network delay
+
+            // Telemetry and releases look versions up by this id, so two deploys to one region must never share it
+            const timestamp = Date.now().toString(36);
+            return { edgeRegion, deploymentId: `dpl_${edgeRegion}_${timestamp}_${randomUUID().slice(0, 8)}` };
+        }));
+    }
+}
@@ -0,0 +1,327 @@
+import {
+    CampaignRelease,
+    DeploymentManifest,
+    DeploymentVersion,
+    IReleaseStore,
+    IWorkflowStateStore,
+    Locale,
+    PrivacyRequirement,
+    ReleaseEvent,
+    ReleaseTarget,
+    SEOOptimizedVariant,
+    VersionChange,
+    VersionChangeArea,
+    VersionDiff,
+    WorkflowState
+} from '../contracts/contracts';
+import { ReleaseError } from '../contracts/errors';
+import { FileWorkflowStateStore } from '../state/workflow-store';
+import { FileReleaseStore } from './release-store';
+import { deploymentForLocale } from './deployment-manifest';
+
+/**
+ * Module: Release Manager (GEO Deployment support)
+ * Purpose: Number every deployed run as an immutable version of its campaign, serve the newest one as a preview,
+ * and move production between versions by promotion or rollback.
+ *
+ * Friction Points Managed:
+ * 1. No Accidental Go-Live: Deployments land on the preview target (isLive=false); production changes only
+ *    through an explicit promote, so a bad copy push never reaches visitors on its own.
+ * 2. Seconds-Long Rollback: Versions are never rebuilt; rollback only moves the production pointer back to the
+ *    previous version that was in production.
+ * 3. Reviewable Changes: Two versions diff per locale on copy, SEO metadata and middleware rules.
+ * 4. Stable Numbers: A version gets its number once, when its run deploys, and keeps it in the release record;
+ *    production and history point at versions by run and manifest id, so deleting a run never renumbers the rest.
+ */
+
+// Query parameter selecting the preview target on microsite URLs, e.g. /it-IT/summer-2026?preview
+export const PREVIEW_QUERY_PARAM = 'preview';
+
+export interface VersionedRun extends DeploymentVersion {
+    campaignId: string;
+    state: WorkflowState;
+    variants: SEOOptimizedVariant[];
+    manifest: DeploymentManifest;
+}
+
+export interface ReleaseOverview {
+    campaignId: string;
+    versions: DeploymentVersion[]; // Oldest first
+    preview?: number;
+    production?: number;
+    rollbackTarget?: number; // Version a rollback without arguments returns to
+    history: ReleaseEvent[];
+}
+
+const COPY_FIELDS = ['heroTitle', 'bodyCopy', 'ctaText', 'layoutId'] as const;
+
+const METADATA_FIELDS: Array<[string, (variant: SEOOptimizedVariant) => unknown]> = [
+    ['seo.title', variant => variant.seo.title],
+    ['seo.description', variant => variant.seo.description],
+    ['seo.canonicalUrl', variant => variant.seo.canonicalUrl],
+    ['seo.hreflang', variant => variant.seo.hreflang],
+    ['seo.ogTags', variant => variant.seo.ogTags],
+    ['seo.structuredData', variant => variant.seo.structuredData],
+    ['keywordsApplied', variant => variant.keywordsApplied.join(', ')]
+];
+
+export class ReleaseManager {
+
+    constructor(
+        private readonly runs: IWorkflowStateStore = new FileWorkflowStateStore(),
+        private readonly releases: IReleaseStore = new FileReleaseStore()
+    ) { }
+
+    /**
+     * Numbers a deployed run as its campaign's next version (one past the highest number handed out so far).
+     * Registering the same manifest again returns the version it already has.
+     */
+    public async registerVersion(runId: string, manifest: DeploymentManifest): Promise<DeploymentVersion> {
+        const release = await this.releases.update(manifest.campaignId, current => {
+            if (current.versions.some(version => version.manifestId === manifest.manifestId)) return current;
+            const version = Math.max(0, ...current.versions.map(registered => registered.version)) + 1;
+            const registered: DeploymentVersion = {
+                version,
+                runId,
+                manifestId: manifest.manifestId,
+                deployedAt: manifest.createdAt,
+                deploymentIds: manifest.deployments.map(deployment => deployment.deploymentId)
+            };
+            return { ...current, versions: [...current.versions, registered] };
+        });
+        return release.versions.find(version => version.manifestId === manifest.manifestId)!;
+    }
+
+    /**
+     * Every deployed version of every campaign, newest first.
+     */
+    public async listAllVersions(): Promise<VersionedRun[]> {
+        const releases = await this.releases.list();
+        const versions = (await Promise.all(releases.map(release => this.loadVersions(release)))).flat();
+        return versions.sort((a, b) => b.deployedAt.localeCompare(a.deployedAt));
+    }
+
+    /**
+     * Deployed versions of one campaign, oldest first.
+     */
+    public async listVersions(campaignId: string): Promise<VersionedRun[]> {
+        const release = await this.releases.load(campaignId);
+        return release ? this.loadVersions(release) : [];
+    }
+
+    /**
+     * Version that shipped the regional deployment, released or not; null for unknown ids.
+     * Only release records are scanned; the one matching run is loaded.
+     */
+    public async findByDeployment(deploymentId: string): Promise<VersionedRun | null> {
+        for (const release of await this.releases.list()) {
+            const version = release.versions.find(candidate => candidate.deploymentIds.includes(deploymentId));
+            if (version) return this.loadVersion(release.campaignId, version);
+        }
+        return null;
+    }
+
+    /**
+     * Version the target serves, or null when nothing is released there.
+     */
+    public async resolve(campaignId: string, target: ReleaseTarget): Promise<VersionedRun | null> {
+        const release = await this.releases.load(campaignId);
+        return release ? this.resolveRelease(release, target) : null;
+    }
+
+    /**
+     * Version each campaign serves on the target, newest deployment first.
+     */
+    public async resolveAll(target: ReleaseTarget): Promise<VersionedRun[]> {
+        const releases = await this.releases.list();
+        const resolved = await Promise.all(releases.map(release => this.resolveRelease(release, target)));
+        return resolved
+            .filter((run): run is VersionedRun => run !== null)
+            .sort((a, b) => b.deployedAt.localeCompare(a.deployedAt));
+    }
+
+    /**
+     * Versions, targets and release history of every deployed campaign, most recently deployed first.
+     */
+    public async listOverviews(): Promise<ReleaseOverview[]> {
+        const releases = await this.releases.list();
+        const overviews = await Promise.all(releases.map(async release => {
+            const versions = (await this.loadVersions(release)).map(toDeploymentVersion);
+            return {
+                campaignId: release.campaignId,
+                versions,
+                preview: versions[versions.length - 1]?.version,
+                production: release.production?.version,
+                rollbackTarget: rollbackTargetOf(versions, release),
+                history: release.history
+            };
+        }));
+        const newest = (overview: ReleaseOverview) => overview.versions[overview.versions.length - 1]?.deployedAt ?? '';
+        return overviews
+            .filter(overview => overview.versions.length > 0)
+            .sort((a, b) => newest(b).localeCompare(newest(a)));
+    }
+
+    /**
+     * Puts a version (default: the preview, i.e. the newest) into production.
+     */
+    public async promote(campaignId: string, version?: number): Promise<CampaignRelease> {
+        const promoted = version === undefined
+            ? await this.resolve(campaignId, 'preview')
+            : await this.findVersion(campaignId, version);
+        return this.moveProduction(campaignId, 'promote', promoted, version);
+    }
+
+    /**
+     * Returns production to an earlier version (default: the previous version that was in production).
+     * Throws ReleaseError('NO_ROLLBACK_TARGET') when production has no earlier version to return to.
+     */
+    public async rollback(campaignId: string, version?: number): Promise<CampaignRelease> {
+        const release = await this.releases.load(campaignId);
+        const target = version ?? (release ? rollbackTargetOf((await this.loadVersions(release)).map(toDeploymentVersion), release) : undefined);
+        if (target === undefined) {
+            throw new ReleaseError('NO_ROLLBACK_TARGET', `Rollback Refused: '${campaignId}' has no earlier production version to return to.`);
+        }
+        return this.moveProduction(campaignId, 'rollback', await this.findVersion(campaignId, target), target);
+    }
+
+    /**
+     * Per-locale changes between two versions of a campaign.
+     */
+    public async diff(campaignId: string, from: number, to: number): Promise<VersionDiff> {
+        const [before, after] = await Promise.all([this.findVersion(campaignId, from), this.findVersion(campaignId, to)]);
+        if (!before || !after) {
+            throw new ReleaseError('UNKNOWN_VERSION', `Diff Refused: '${campaignId}' has no version ${before ? to : from}.`);
+        }
+        return { campaignId, from, to, changes: diffVersions(before, after) };
+    }
+
+    private async moveProduction(
+        campaignId: string,
+        action: ReleaseEvent['action'],
+        run: VersionedRun | null,
+        requested: number | undefined
+    ): Promise<CampaignRelease> {
+        if (!run) {
+            throw new ReleaseError('UNKNOWN_VERSION', `Release Refused: '${campaignId}' has no version ${requested ?? '(none deployed)'}.`);
+        }
+
+        return this.releases.update(campaignId, release => {
+            const current = release.production;
+            if (current?.manifestId === run.manifestId) return release; // Already serving it
+
+            const event: ReleaseEvent = { action, version: run.version, runId: run.runId, manifestId: run.manifestId, at: new Date().toISOString() };
+            if (current) event.previousVersion = current.version;
+            return { ...release, production: toDeploymentVersion(run), history: [...release.history, event] };
+        });
+    }
+
+    private async findVersion(campaignId: string, version: number): Promise<VersionedRun | null> {
+        const release = await this.releases.load(campaignId);
+        const registered = release?.versions.find(candidate => candidate.version === version);
+        return registered ? this.loadVersion(campaignId, registered) : null;
+    }
+
+    /**
+     * Preview: the newest version whose run can still be loaded. Production: the version the release record points at.
+     */
+    private async resolveRelease(release: CampaignRelease, target: ReleaseTarget): Promise<VersionedRun | null> {
+        if (target === 'production') {
+            return release.production ? this.loadVersion(release.campaignId, release.production) : null;
+        }
+        for (const version of [...release.versions].reverse()) {
+            const run = await this.loadVersion(release.campaignId, version);
+            if (run) return run;
+        }
+        return null;
+    }
+
+    /**
+     * The campaign's versions whose runs can still be loaded, oldest first.
+     */
+    private async loadVersions(release: CampaignRelease): Promise<VersionedRun[]> {
+        const runs = await Promise.all(release.versions.map(version => this.loadVersion(release.campaignId, version)));
+        return runs.filter((run): run is VersionedRun => run !== null);
+    }
+
+    /**
+     * The run behind a version, or null when it was deleted or no longer holds the manifest that was numbered.
+     */
+    private async loadVersion(campaignId: string, version: DeploymentVersion): Promise<VersionedRun | null> {
+        const state = await this.runs.load(version.runId);
+        const manifest = state?.data.deployment;
+        if (!state || !manifest || manifest.manifestId !== version.manifestId || !state.data.seoResults) return null;
+        return { ...toDeploymentVersion(version), campaignId, state, variants: state.data.seoResults, manifest };
+    }
+}
+
+function toDeploymentVersion(version: DeploymentVersion): DeploymentVersion {
+    return {
+        version: version.version,
+        runId: version.runId,
+        manifestId: version.manifestId,
+        deployedAt: version.deployedAt,
+        deploymentIds: [...version.deploymentIds]
+    };
+}
+
+/**
+ * Newest version older than the current production version that has been in production before.
+ */
+function rollbackTargetOf(versions: DeploymentVersion[], release: CampaignRelease): number | undefined {
+    const current = release.production;
+    if (!current) return undefined;
+
+    const released = new Set(release.history.map(event => event.manifestId));
+    return [...versions]
+        .reverse()
+        .find(version => version.version < current.version && released.has(version.manifestId))
+        ?.version;
+}
+
+/**
+ * Copy, metadata and middleware-rule changes per locale, in the newer version's locale order
+ * (locales only present in the older version come last).
+ */
+export function diffVersions(from: VersionedRun, to: VersionedRun): VersionChange[] {
+    const changes: VersionChange[] = [];
+    const record = (area: VersionChangeArea, locale: Locale, field: string, before: unknown, after: unknown) => {
+        const [was, is] = [describe(before), describe(after)];
+        if (was !== is) changes.push({ area, locale, field, before: was, after: is });
+    };
+
+    const fromVariants = new Map(from.variants.map(variant => [variant.locale, variant]));
+    const toVariants = new Map(to.variants.map(variant => [variant.locale, variant]));
+    const locales = [...new Set([...toVariants.keys(), ...fromVariants.keys()])];
+
+    for (const locale of locales) {
+        const before = fromVariants.get(locale);
+        const after = toVariants.get(locale);
+        if (!before || !after) {
+            record('copy', locale, 'locale', before?.locale, after?.locale);
+            continue;
+        }
+
+        COPY_FIELDS.forEach(field => record('copy', locale, field, before[field], after[field]));
+        METADATA_FIELDS.forEach(([field, read]) => record('metadata', locale, field, read(before), read(after)));
+
+        const servedBefore = deploymentForLocale(from.manifest, locale);
+        const servedAfter = deploymentForLocale(to.manifest, locale);
+        const rules = [servedBefore?.middlewareRules, servedAfter?.middlewareRules];
+        record('middleware', locale, 'edgeRegion', servedBefore?.edgeRegion, servedAfter?.edgeRegion);
+        record('middleware', locale, 'middlewareRules.geoBlocking', rules[0]?.geoBlocking, rules[1]?.geoBlocking);
+        record('middleware', locale, 'middlewareRules.allowedCountries', rules[0]?.allowedCountries.join(', '), rules[1]?.allowedCountries.join(', '));
+        record('middleware', locale, 'middlewareRules.consentRequired', rules[0]?.consentRequired, rules[1]?.consentRequired);
+        record('middleware', locale, 'middlewareRules.privacy', describePrivacy(rules[0]?.privacy), describePrivacy(rules[1]?.privacy));
+    }
+    return changes;
+}
+
+function describePrivacy(requirements: PrivacyRequirement[] | undefined): string | undefined {
+    return requirements?.map(requirement => `${requirement.regime} (${requirement.consentMode}, ${requirement.retentionDays}d)`).join(', ');
+}
+
+function describe(value: unknown): string | undefined {
+    if (value === undefined) return undefined;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
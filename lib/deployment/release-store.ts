@@ -0,0 +1,118 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { CampaignRelease, IReleaseStore } from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+
+/**
+ * Module: Release Store
+ * Purpose: Persist each campaign's numbered versions, which of them is in production, and the promote/rollback history.
+ *
+ * Friction Points Managed:
+ * 1. Small Writes: Versions themselves are completed runs (see lib/state); a release record only holds pointers,
+ *    so a rollback rewrites one tiny document instead of re-deploying.
+ * 2. Aliasing: Records are cloned on read and write, like WorkflowState snapshots.
+ * 3. Concurrent Updates: Updates of one campaign are serialized, so two runs deploying at once never get the
+ *    same version number and a promote never drops a version registered meanwhile.
+ */
+
+function assertValidCampaignId(campaignId: string): void {
+    if (!campaignId || !campaignId.trim()) {
+        throw new Error('[ReleaseStore] Invariant Violation: Release records need a campaign id.');
+    }
+}
+
+function emptyRelease(campaignId: string): CampaignRelease {
+    return { campaignId, versions: [], history: [] };
+}
+
+// File stores of one process share their queues: the pipeline and the factory UI each open their own store
+const fileQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Volatile backend for tests.
+ */
+export class InMemoryReleaseStore implements IReleaseStore {
+
+    private readonly releases = new Map<string, CampaignRelease>();
+
+    public async load(campaignId: string): Promise<CampaignRelease | null> {
+        const release = this.releases.get(campaignId);
+        return release ? structuredClone(release) : null;
+    }
+
+    public async update(campaignId: string, change: (release: CampaignRelease) => CampaignRelease): Promise<CampaignRelease> {
+        assertValidCampaignId(campaignId);
+        // Load, change and store without awaiting in between, so updates cannot interleave
+        const next = change(structuredClone(this.releases.get(campaignId) ?? emptyRelease(campaignId)));
+        this.releases.set(campaignId, structuredClone(next));
+        return structuredClone(next);
+    }
+
+    public async list(): Promise<CampaignRelease[]> {
+        return Array.from(this.releases.values(), release => structuredClone(release));
+    }
+}
+
+/**
+ * Durable backend: one JSON document per campaign, written through a temp file + rename.
+ */
+export class FileReleaseStore implements IReleaseStore {
+
+    constructor(private readonly directory: string = resolveDataPath('releases')) { }
+
+    public async load(campaignId: string): Promise<CampaignRelease | null> {
+        assertValidCampaignId(campaignId);
+        try {
+            const raw = await fs.readFile(this.filePath(campaignId), 'utf8');
+            return JSON.parse(raw) as CampaignRelease;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    public async update(campaignId: string, change: (release: CampaignRelease) => CampaignRelease): Promise<CampaignRelease> {
+        assertValidCampaignId(campaignId);
+        const target = this.filePath(campaignId);
+        return this.serialize(target, async () => {
+            const current = await this.load(campaignId) ?? emptyRelease(campaignId);
+            const next = change(current);
+            if (next === current) return next; // Unchanged
+
+            await fs.mkdir(this.directory, { recursive: true });
+            const tempFile = `${target}.${process.pid}.tmp`;
+            await fs.writeFile(tempFile, JSON.stringify(next, null, 2), 'utf8');
+            await fs.rename(tempFile, target);
+            return next;
+        });
+    }
+
+    public async list(): Promise<CampaignRelease[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const releases = await Promise.all(
+            entries
+                .filter(entry => entry.endsWith('.json'))
+                .map(entry => this.load(decodeURIComponent(entry.slice(0, -'.json'.length))))
+        );
+        return releases.filter((release): release is CampaignRelease => release !== null);
+    }
+
+    private serialize<T>(file: string, task: () => Promise<T>): Promise<T> {
+        const previous = fileQueues.get(file) ?? Promise.resolve();
+        const next = previous.then(task, task);
+        fileQueues.set(file, next.catch(() => undefined));
+        return next;
+    }
+
+    private filePath(campaignId: string): string {
+        // Campaign ids are free text; encoding keeps them inside the directory
+        return path.join(this.directory, `${encodeURIComponent(campaignId)}.json`);
+    }
+}
@@ -0,0 +1,47 @@
+import { PipelineEventMap, PipelineEventType } from '../contracts/contracts';
+import { createLogger } from '../observability/logger';
+
+/**
+ * Module: Event Bus
+ * Purpose: In-process publish/subscribe between pipeline stages (the "Async Task Distribution" pattern),
+ * standing in for the Supabase webhooks of the target architecture.
+ *
+ * Friction Points Managed:
+ * 1. Stage Coupling: Publishers do not know their subscribers; the Creative engine only announces finished variants.
+ * 2. Fault Isolation: A throwing subscriber is logged and never fails the publisher or the other subscribers.
+ */
+
+const log = createLogger('EventBus');
+
+export type EventHandler<T extends PipelineEventType> = (payload: PipelineEventMap[T]) => void | Promise<void>;
+
+export class EventBus {
+
+    private readonly handlers = new Map<PipelineEventType, Set<EventHandler<PipelineEventType>>>();
+
+    /**
+     * Registers a handler and returns the function that removes it.
+     */
+    public subscribe<T extends PipelineEventType>(type: T, handler: EventHandler<T>): () => void {
+        const handlers = this.handlers.get(type) ?? new Set();
+        handlers.add(handler as EventHandler<PipelineEventType>);
+        this.handlers.set(type, handlers);
+        return () => {
+            handlers.delete(handler as EventHandler<PipelineEventType>);
+        };
+    }
+
+    /**
+     * Delivers the event to every current subscriber and resolves once all of them have settled.
+     */
+    public async publish<T extends PipelineEventType>(type: T, payload: PipelineEventMap[T]): Promise<void> {
+        const handlers = [...(this.handlers.get(type) ?? [])];
+        const results = await Promise.allSettled(handlers.map(async handler => handler(payload)));
+
+        results.forEach(result => {
+            if (result.status === 'rejected') {
+                log.warn('Subscriber failed', { event: type, error: result.reason });
+            }
+        });
+    }
+}
@@ -0,0 +1,172 @@
+import { IJobStore, PipelineJob, RetryPolicy, RunPriority } from '../contracts/contracts';
+import { backoffDelay, DEFAULT_RETRY_POLICY, withTimeout } from '../resilience/stage-policy';
+import { ConcurrencyLimiter } from '../resilience/concurrency-limiter';
+import { createLogger } from '../observability/logger';
+import { withSpan } from '../observability/tracing';
+import { EventBus } from './event-bus';
+import { InMemoryJobStore } from './job-store';
+
+/**
+ * Module: Job Queue
+ * Purpose: In-process work queue between pipeline stages. Jobs are persisted at every transition,
+ * retried under their type's RetryPolicy, and moved to the dead-letter queue once their attempts run out.
+ *
+ * Friction Points Managed:
+ * 1. Transient Failures: A failed or timed-out attempt is retried with jittered exponential backoff before the job is given up on.
+ * 2. Poison Jobs: Dead-lettered jobs settle instead of throwing, so one bad locale cannot stall the others,
+ *    and they are kept with every attempt's error until someone retries them.
+ * 3. Duplicate Work: Job ids are derived from run, type and key; re-enqueueing a succeeded job returns
+ *    its stored result, and enqueueing a job that is already running joins it.
+ * 4. Shared Capacity: With a ConcurrencyLimiter, every attempt waits for a slot at its job's priority.
+ * 5. Observability: Each execution is a 'job.execute' span with one 'job.attempt' child per attempt, opened once the
+ *    attempt holds its slot, so queueing and backoff show up as gaps between attempts.
+ */
+
+const log = createLogger('JobQueue');
+
+export type JobHandler<TPayload, TResult> = (payload: TPayload, signal: AbortSignal) => Promise<TResult>;
+
+interface Worker {
+    handler: JobHandler<unknown, unknown>;
+    policy: RetryPolicy;
+}
+
+export class JobQueue {
+
+    private readonly workers = new Map<string, Worker>();
+    private readonly inflight = new Map<string, Promise<PipelineJob>>();
+
+    constructor(
+        private readonly store: IJobStore = new InMemoryJobStore(),
+        private readonly events?: EventBus,
+        private readonly defaults: Partial<RetryPolicy> = {},
+        private readonly limiter?: ConcurrencyLimiter
+    ) { }
+
+    /**
+     * Registers the worker for a job type. Each type has exactly one worker; its policy overrides the queue defaults.
+     * The handler's AbortSignal fires when an attempt times out.
+     */
+    public process<TPayload, TResult>(type: string, handler: JobHandler<TPayload, TResult>, policy: Partial<RetryPolicy> = {}): void {
+        if (this.workers.has(type)) {
+            throw new Error(`[JobQueue] Invariant Violation: A handler for job type '${type}' is already registered.`);
+        }
+        this.workers.set(type, {
+            handler: handler as JobHandler<unknown, unknown>,
+            policy: { ...DEFAULT_RETRY_POLICY, ...this.defaults, ...policy }
+        });
+    }
+
+    /**
+     * Queues a job and resolves with it once it has succeeded or been dead-lettered.
+     * Only rejects when the job cannot be queued at all (no handler, store failure).
+     */
+    public enqueue<TPayload, TResult>(type: string, runId: string, key: string, payload: TPayload, priority: RunPriority = 'batch'): Promise<PipelineJob<TPayload, TResult>> {
+        const id = `${runId}/${type}/${key}`;
+
+        return this.dispatch(id, async () => {
+            const existing = await this.store.load(id);
+            if (existing?.status === 'succeeded') return existing;
+
+            // New, dead-lettered, or interrupted by a crash: start over with a fresh attempt budget
+            const now = new Date().toISOString();
+            return this.execute({
+                id,
+                type,
+                runId,
+                payload,
+                status: 'queued',
+                priority,
+                attempts: 0,
+                maxAttempts: this.requireWorker(type).policy.maxAttempts,
+                enqueuedAt: existing?.enqueuedAt ?? now,
+                updatedAt: now,
+                errors: existing?.errors ?? []
+            });
+        }) as Promise<PipelineJob<TPayload, TResult>>;
+    }
+
+    /**
+     * Re-queues a dead-lettered job with its stored payload and a fresh attempt budget.
+     */
+    public retry(id: string): Promise<PipelineJob> {
+        return this.dispatch(id, async () => {
+            const job = await this.store.load(id);
+            if (job?.status !== 'dead-lettered') {
+                throw new Error(`[JobQueue] Invariant Violation: Job ${id} is not in the dead-letter queue.`);
+            }
+            return this.execute({ ...job, status: 'queued', attempts: 0, maxAttempts: this.requireWorker(job.type).policy.maxAttempts });
+        });
+    }
+
+    /**
+     * Dead-lettered jobs, oldest first, optionally for one run.
+     */
+    public async listDeadLetters(runId?: string): Promise<PipelineJob[]> {
+        const jobs = await this.store.list();
+        return jobs.filter(job => job.status === 'dead-lettered' && (runId === undefined || job.runId === runId));
+    }
+
+    private dispatch(id: string, start: () => Promise<PipelineJob>): Promise<PipelineJob> {
+        const running = this.inflight.get(id);
+        if (running) return running;
+
+        const settled = start().finally(() => this.inflight.delete(id));
+        this.inflight.set(id, settled);
+        return settled;
+    }
+
+    private requireWorker(type: string): Worker {
+        const worker = this.workers.get(type);
+        if (!worker) {
+            throw new Error(`[JobQueue] Invariant Violation: No handler registered for job type '${type}'.`);
+        }
+        return worker;
+    }
+
+    private execute(job: PipelineJob): Promise<PipelineJob> {
+        const attributes = { 'run.id': job.runId, 'job.id': job.id, 'job.type': job.type, 'job.priority': job.priority ?? 'batch' };
+        return withSpan('job.execute', { attributes }, async span => {
+            const { handler, policy } = this.requireWorker(job.type);
+            await this.save(job);
+
+            for (;;) {
+                job.status = 'running';
+                job.attempts++;
+                await this.save(job);
+
+                try {
+                    const number = job.attempts;
+                    const attempt = () => withSpan('job.attempt', { attributes: { 'attempt.number': number } },
+                        () => withTimeout(signal => handler(job.payload, signal), policy.attemptTimeoutMs));
+                    job.result = this.limiter ? await this.limiter.schedule(attempt, job.priority) : await attempt();
+                    job.status = 'succeeded';
+                    await this.save(job);
+                    span.setAttributes({ 'job.status': job.status, 'job.attempts': job.attempts });
+                    return job;
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    job.errors.push(`Attempt ${job.attempts}: ${message}`);
+
+                    if (job.attempts >= job.maxAttempts) {
+                        job.status = 'dead-lettered';
+                        await this.save(job);
+                        log.warn('Job dead-lettered', { jobId: job.id, attempts: job.attempts, error: message });
+                        span.setAttributes({ 'job.status': job.status, 'job.attempts': job.attempts }).setStatus('ERROR', message);
+                        await this.events?.publish('job.dead-lettered', { job: structuredClone(job) });
+                        return job;
+                    }
+
+                    job.status = 'queued';
+                    await this.save(job);
+                    await new Promise(resolve => setTimeout(resolve, backoffDelay(policy, job.attempts)));
+                }
+            }
+        });
+    }
+
+    private async save(job: PipelineJob): Promise<void> {
+        job.updatedAt = new Date().toISOString();
+        await this.store.save(job);
+    }
+}
@@ -0,0 +1,98 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { IJobStore, PipelineJob } from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+
+/**
+ * Module: Job Store
+ * Purpose: Persist queued, finished and dead-lettered jobs of the in-process job queue.
+ *
+ * Friction Points Managed:
+ * 1. Crash Recovery: Succeeded jobs keep their result, so a resumed run reuses finished work instead of redoing it.
+ * 2. Dead Letters: Jobs that exhausted their attempts stay on disk with every attempt's error, for inspection and retry.
+ * 3. Aliasing: Records are cloned on read and write, like WorkflowState snapshots.
+ */
+
+function assertValidJobId(id: string): void {
+    if (!id || !id.trim()) {
+        throw new Error('[JobStore] Invariant Violation: Jobs need an id.');
+    }
+}
+
+function byEnqueuedAt(a: PipelineJob, b: PipelineJob): number {
+    return a.enqueuedAt.localeCompare(b.enqueuedAt);
+}
+
+/**
+ * Volatile backend: default for tests and one-off runs.
+ */
+export class InMemoryJobStore implements IJobStore {
+
+    private readonly jobs = new Map<string, PipelineJob>();
+
+    public async load(id: string): Promise<PipelineJob | null> {
+        const job = this.jobs.get(id);
+        return job ? structuredClone(job) : null;
+    }
+
+    public async save(job: PipelineJob): Promise<void> {
+        assertValidJobId(job.id);
+        this.jobs.set(job.id, structuredClone(job));
+    }
+
+    public async list(): Promise<PipelineJob[]> {
+        return Array.from(this.jobs.values(), job => structuredClone(job)).sort(byEnqueuedAt);
+    }
+}
+
+/**
+ * Durable backend: one JSON document per job, written through a temp file + rename.
+ */
+export class FileJobStore implements IJobStore {
+
+    constructor(private readonly directory: string = resolveDataPath('jobs')) { }
+
+    public async load(id: string): Promise<PipelineJob | null> {
+        assertValidJobId(id);
+        try {
+            const raw = await fs.readFile(this.filePath(id), 'utf8');
+            return JSON.parse(raw) as PipelineJob;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    public async save(job: PipelineJob): Promise<void> {
+        assertValidJobId(job.id);
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const target = this.filePath(job.id);
+        const tempFile = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify(job, null, 2), 'utf8');
+        await fs.rename(tempFile, target);
+    }
+
+    public async list(): Promise<PipelineJob[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const jobs = await Promise.all(
+            entries
+                .filter(entry => entry.endsWith('.json'))
+                .map(entry => this.load(decodeURIComponent(entry.slice(0, -'.json'.length))))
+        );
+
+        return jobs.filter((job): job is PipelineJob => job !== null).sort(byEnqueuedAt);
+    }
+
+    private filePath(id: string): string {
+        // Job ids contain '/' separators; encoding keeps them inside the directory
+        return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+    }
+}
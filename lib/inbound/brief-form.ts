@@ -0,0 +1,54 @@
+import { ValidationIssue } from '../contracts/contracts';
+
+/**
+ * Module: Brief Form (Inbound support, client-safe)
+ * Purpose: Shapes shared by the brief intake page and its server action.
+ *
+ * Friction Points Managed:
+ * 1. Inline Errors: Field-addressed ValidationIssues ('targetLocales[2]', 'assets.logoUrl') are grouped per form field.
+ * 2. Bundle Safety: No Node.js imports, so client components can import this module.
+ */
+
+export const BRIEF_LOCALE_OPTIONS = [
+    'en-US', 'en-GB', 'it-IT', 'fr-FR', 'de-DE', 'es-ES', 'pt-PT', 'pt-BR', 'nl-NL', 'sv-SE', 'pl-PL', 'ja-JP'
+];
+
+export interface BriefFormValues {
+    campaignId: string;
+    brandName: string;
+    coreMessage: string;
+    targetLocales: string[];
+    restrictToTargetMarkets: boolean;
+}
+
+export interface BriefFormState {
+    status: 'idle' | 'invalid' | 'started';
+    values: BriefFormValues;
+    fieldErrors: Record<string, string[]>; // Keyed by form field, see toFormField
+    warnings: string[];
+    runId?: string;
+}
+
+export const INITIAL_BRIEF_FORM_STATE: BriefFormState = {
+    status: 'idle',
+    values: { campaignId: '', brandName: '', coreMessage: '', targetLocales: [], restrictToTargetMarkets: false },
+    fieldErrors: {},
+    warnings: []
+};
+
+/**
+ * Maps an issue path to the form field that displays it: 'targetLocales[2]' -> 'targetLocales'.
+ */
+export function toFormField(issueField: string): string {
+    return issueField.replace(/\[\d+\]$/, '');
+}
+
+export function groupIssuesByField(issues: ValidationIssue[]): Record<string, string[]> {
+    const grouped: Record<string, string[]> = {};
+    for (const issue of issues) {
+        if (issue.severity !== 'error') continue;
+        const field = toFormField(issue.field);
+        (grouped[field] ??= []).push(issue.message);
+    }
+    return grouped;
+}
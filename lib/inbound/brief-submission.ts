@@ -0,0 +1,151 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { BriefInput, ValidationIssue } from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+import { MainOrchestrator } from '../main-orchestrator';
+import { FileWorkflowStateStore } from '../state/workflow-store';
+import { FileJobStore } from '../events/job-store';
+import { FileTerminologyStore } from '../creative/terminology-store';
+import { FileReleaseStore } from '../deployment/release-store';
+import { createLogger } from '../observability/logger';
+import { InboundOrchestrator } from './inbound-orchestrator';
+import { BriefFormState, BriefFormValues, groupIssuesByField } from './brief-form';
+
+/**
+ * Module: Brief Submission (Inbound support)
+ * Purpose: Turn the intake form (FormData with asset uploads) into a BriefInput, validate it, and start the pipeline.
+ *
+ * Friction Points Managed:
+ * 1. Single Validation Path: Briefs are checked by InboundOrchestrator.validateInput, exactly as API or test callers are.
+ * 2. No Orphan Uploads: Assets are written only after the brief passes validation.
+ * 3. Responsive Intake: The pipeline runs after the response (see `schedule`); the form returns the run id immediately.
+ */
+
+const log = createLogger('BriefSubmission');
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const MAX_KEYWORDS_BYTES = 1024 * 1024;
+const LOGO_EXTENSIONS: Record<string, string> = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/svg+xml': '.svg',
+    'image/webp': '.webp'
+};
+
+export interface BriefSubmissionOptions {
+    inbound?: InboundOrchestrator;
+    orchestrator?: MainOrchestrator;
+    uploadDirectory?: string;
+    schedule?: (task: () => Promise<void>) => void; // Defaults to fire-and-forget
+}
+
+export class BriefSubmissionService {
+
+    private readonly inbound: InboundOrchestrator;
+    private readonly orchestrator: MainOrchestrator;
+    private readonly uploadDirectory: string;
+    private readonly schedule: (task: () => Promise<void>) => void;
+
+    constructor(options: BriefSubmissionOptions = {}) {
+        this.inbound = options.inbound ?? new InboundOrchestrator();
+        this.orchestrator = options.orchestrator ?? new MainOrchestrator({
+            stateStore: new FileWorkflowStateStore(),
+            jobStore: new FileJobStore(),
+            terminologyStore: new FileTerminologyStore(),
+            releaseStore: new FileReleaseStore()
+        });
+        this.uploadDirectory = options.uploadDirectory ?? resolveDataPath('uploads');
+        this.schedule = options.schedule ?? (task => { void task(); });
+    }
+
+    public async submit(formData: FormData): Promise<BriefFormState> {
+        const values = readValues(formData);
+        const logo = readFile(formData, 'logo');
+        const keywords = readFile(formData, 'keywords');
+
+        const uploadIssues = [
+            ...checkUpload(logo, 'assets.logoUrl', 'logo', MAX_LOGO_BYTES, file => file.type in LOGO_EXTENSIONS),
+            ...checkUpload(keywords, 'assets.keywordsCsvUrl', 'keyword file', MAX_KEYWORDS_BYTES, file => /\.csv$/i.test(file.name))
+        ];
+
+        // Target paths are fixed up front so the brief can be validated before anything is written.
+        const directory = path.join(this.uploadDirectory, `upl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`);
+        const logoPath = logo ? path.join(directory, `logo${LOGO_EXTENSIONS[logo.type] ?? ''}`) : undefined;
+        const keywordsPath = keywords ? path.join(directory, 'keywords.csv') : undefined;
+
+        const brief: BriefInput = {
+            campaignId: values.campaignId,
+            brandName: values.brandName,
+            coreMessage: values.coreMessage,
+            targetLocales: values.targetLocales,
+            assets: {
+                logoUrl: logoPath ? pathToFileURL(logoPath).href : '',
+                keywordsCsvUrl: keywordsPath ?? ''
+            },
+            restrictToTargetMarkets: values.restrictToTargetMarkets
+        };
+
+        const project = await this.inbound.validateInput(brief);
+
+        // An upload problem replaces the generic "required"/format issue for the same field.
+        const uploadFields = new Set(uploadIssues.map(issue => issue.field));
+        const issues = [...uploadIssues, ...project.issues.filter(issue => !uploadFields.has(issue.field))];
+        const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+
+        if (issues.some(issue => issue.severity === 'error')) {
+            return { status: 'invalid', values, fieldErrors: groupIssuesByField(issues), warnings };
+        }
+
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(logoPath!, new Uint8Array(await logo!.arrayBuffer()));
+        await fs.writeFile(keywordsPath!, new Uint8Array(await keywords!.arrayBuffer()));
+
+        const runId = this.orchestrator.createRunId(brief);
+        this.schedule(async () => {
+            try {
+                await this.orchestrator.runPipeline(brief, runId, 'interactive');
+            } catch (error) {
+                // Stage failures are already persisted in the WorkflowState; this only keeps the server log complete.
+                log.error('Run failed', { runId, error });
+            }
+        });
+
+        return { status: 'started', values, fieldErrors: {}, warnings, runId };
+    }
+}
+
+function readValues(formData: FormData): BriefFormValues {
+    const text = (name: string) => {
+        const value = formData.get(name);
+        return typeof value === 'string' ? value.trim() : '';
+    };
+    return {
+        campaignId: text('campaignId'),
+        brandName: text('brandName'),
+        coreMessage: text('coreMessage'),
+        targetLocales: formData.getAll('targetLocales').filter((v): v is string => typeof v === 'string' && v.length > 0),
+        restrictToTargetMarkets: formData.get('restrictToTargetMarkets') === 'on'
+    };
+}
+
+/**
+ * Browsers submit an empty File when no file was chosen; treat it as missing.
+ */
+function readFile(formData: FormData, name: string): File | undefined {
+    const value = formData.get(name);
+    return value instanceof File && value.size > 0 ? value : undefined;
+}
+
+function checkUpload(file: File | undefined, field: string, label: string, maxBytes: number, accepts: (file: File) => boolean): ValidationIssue[] {
+    if (!file) {
+        return [{ field, code: 'REQUIRED', severity: 'error', message: `Asset Error: Upload a ${label}.` }];
+    }
+    if (!accepts(file)) {
+        return [{ field, code: 'INVALID_FORMAT', severity: 'error', message: `Asset Error: ${file.name} is not a supported ${label}.` }];
+    }
+    if (file.size > maxBytes) {
+        return [{ field, code: 'INVALID_FORMAT', severity: 'error', message: `Asset Error: ${file.name} exceeds ${Math.round(maxBytes / 1024)} KB.` }];
+    }
+    return [];
+}
@@ -1,5 +1,17 @@
 
-import { BriefInput, ValidatedProject, GeoCompliance, Locale } from '../contracts/contracts';
+import {
+    BrandGuidelines,
+    BriefInput,
+    CampaignDetails,
+    ValidatedProject,
+    GeoCompliance,
+    Locale,
+    ValidationIssue,
+    ValidationIssueCode
+} from '../contracts/contracts';
+import { canonicalizeLocale, countryOf, resolveLocale } from '../locale/locale-registry';
+import { PrivacyRulesEngine } from '../compliance/privacy-rules';
+import { FONT_FAMILY_PATTERN, HEX_COLOR_PATTERN } from '../rendering/theme-tokens';
 
 /**
  * Module: Inbound Orchestrator
@@ -8,66 +20,205 @@ import { BriefInput, ValidatedProject, GeoCompliance, Locale } from '../contract
  * Friction Points Managed:
  * 1. "Fail Fast": Strict input validation prevents processing of invalid campaigns, saving compute resources (Step 1 constraint).
  * 2. GDPR/Compliance: Centralized logic for compliance flags based on target locales avoids distributed compliance checking.
+ *    Which regimes apply (GDPR, CCPA, LGPD, ...) is decided by the PrivacyRulesEngine from the target markets.
  * 3. Zero Side Effects: Pure validation logic with no external database writes or API calls in this specific class (stubbed if needed).
  */
 export class InboundOrchestrator {
 
+    constructor(private readonly privacyRules: PrivacyRulesEngine = new PrivacyRulesEngine()) { }
+
     /**
      * Validates the input brief and determines compliance requirements.
      * Adheres to Step 5 Integration Patterns: Sync Request-Response.
      */
     public async validateInput(input: BriefInput): Promise<ValidatedProject> {
-        const errors: string[] = [];
+        const issues: ValidationIssue[] = [];
+        const error = (field: string, code: ValidationIssueCode, message: string) =>
+            issues.push({ field, code, severity: 'error', message });
+        const warning = (field: string, code: ValidationIssueCode, message: string) =>
+            issues.push({ field, code, severity: 'warning', message });
 
         // 1. Structural Validation
-        if (!input.campaignId || input.campaignId.trim().length < 3) {
-            errors.push("Invariant Violation: campaignId must be at least 3 characters.");
+        if (!input.campaignId || input.campaignId.trim().length === 0) {
+            error('campaignId', 'REQUIRED', "Invariant Violation: campaignId is required.");
+        } else if (input.campaignId.trim().length < 3) {
+            error('campaignId', 'TOO_SHORT', "Invariant Violation: campaignId must be at least 3 characters.");
         }
         if (!input.brandName || input.brandName.trim().length === 0) {
-            errors.push("Invariant Violation: brandName is required.");
+            error('brandName', 'REQUIRED', "Invariant Violation: brandName is required.");
         }
-        if (!input.coreMessage || input.coreMessage.trim().length < 10) {
-            errors.push("Quality Gate: coreMessage too short for AI generation (<10 chars).");
+        if (!input.coreMessage || input.coreMessage.trim().length === 0) {
+            error('coreMessage', 'REQUIRED', "Quality Gate: coreMessage is required.");
+        } else if (input.coreMessage.trim().length < 10) {
+            error('coreMessage', 'TOO_SHORT', "Quality Gate: coreMessage too short for AI generation (<10 chars).");
         }
         if (!input.targetLocales || input.targetLocales.length === 0) {
-            errors.push("Invariant Violation: At least one targetLocale is required.");
+            error('targetLocales', 'REQUIRED', "Invariant Violation: At least one targetLocale is required.");
+        } else {
+            if (input.restrictToTargetMarkets && this.targetCountries(input.targetLocales).length === 0) {
+                error('restrictToTargetMarkets', 'INVALID_FORMAT', "Compliance Error: Geo restriction needs at least one targetLocale with a region (e.g. 'it-IT').");
+            }
+            const seen = new Set<string>();
+            input.targetLocales.forEach((locale, index) => {
+                const info = resolveLocale(locale);
+                if (!info) {
+                    error(`targetLocales[${index}]`, 'INVALID_FORMAT', `Invariant Violation: '${locale}' is not a valid BCP-47 locale tag.`);
+                    return;
+                }
+                if (seen.has(info.tag)) {
+                    warning(`targetLocales[${index}]`, 'DUPLICATE_VALUE', `Duplicate targetLocale '${locale}' will be generated once.`);
+                }
+                seen.add(info.tag);
+            });
         }
 
         // 2. Asset Integrity Checks (Zero Side Effects - validation by format only)
-        if (!this.isValidUrl(input.assets.logoUrl)) {
-            errors.push(`Asset Error: Invalid logoUrl format: ${input.assets.logoUrl}`);
+        if (!input.assets) {
+            error('assets', 'REQUIRED', "Asset Error: assets block is required.");
+        } else {
+            if (!input.assets.logoUrl) {
+                error('assets.logoUrl', 'REQUIRED', "Asset Error: logoUrl is required.");
+            } else if (!this.isValidUrl(input.assets.logoUrl)) {
+                error('assets.logoUrl', 'INVALID_FORMAT', `Asset Error: Invalid logoUrl format: ${input.assets.logoUrl}`);
+            }
+            if (!input.assets.keywordsCsvUrl) {
+                error('assets.keywordsCsvUrl', 'REQUIRED', "Asset Error: keywordsCsvUrl is required.");
+            } else if (!this.isValidKeywordSource(input.assets.keywordsCsvUrl)) {
+                error('assets.keywordsCsvUrl', 'INVALID_FORMAT', `Asset Error: Invalid keywordsCsvUrl format: ${input.assets.keywordsCsvUrl}`);
+            } else if (/^https?:/i.test(input.assets.keywordsCsvUrl)) {
+                warning('assets.keywordsCsvUrl', 'UNSUPPORTED_SOURCE', "Asset Warning: Remote keyword files are not ingested yet; SEO will run without keywords. Use a local path or file:// URL.");
+            }
         }
-        if (!this.isValidUrl(input.assets.keywordsCsvUrl)) {
-            errors.push(`Asset Error: Invalid keywordsCsvUrl format: ${input.assets.keywordsCsvUrl}`);
+
+        // 3. Campaign Schema (optional; feeds the JSON-LD of every page)
+        if (input.campaign) {
+            this.validateCampaign(input.campaign, error);
+        }
+
+        // 4. Brand Guidelines (optional; steer generation and theme the pages)
+        if (input.guidelines) {
+            this.validateGuidelines(input.guidelines, error);
         }
 
-        // 3. Status Determination
-        const status = errors.length > 0 ? 'FAILED' : 'VALIDATED';
+        // 5. Status Determination (warnings never block the pipeline)
+        const status = issues.some(issue => issue.severity === 'error') ? 'FAILED' : 'VALIDATED';
 
-        // 4. Compliance Calculation (Business Logic)
-        const compliance = this.computeGeoCompliance(input.targetLocales);
+        // 6. Compliance Calculation (Business Logic)
+        const compliance = this.computeGeoCompliance(input.targetLocales ?? [], input.restrictToTargetMarkets === true);
 
-        // 5. Construct Output
-        // Note: If FAILED, the payload is still returned for debugging, but downstream should halt.
-        // The 'project' object handles the state.
+        // 7. Construct Output
+        // Note: If FAILED, the payload is still returned with its issues, but downstream should halt.
+        // Locales are canonicalized ('it_it' -> 'it-IT') so URLs, hreflang and lookups agree downstream.
         const validatedProject: ValidatedProject = {
             projectId: input.campaignId, // Mapping campaignId to projectId for 1:1 relationship in MVP
             timestamp: new Date().toISOString(),
             status: status,
-            payload: input,
+            payload: input.targetLocales ? { ...input, targetLocales: input.targetLocales.map(canonicalizeLocale) } : input,
             compliance: compliance,
+            issues: issues,
         };
 
-        if (errors.length > 0) {
-            // In a real logger, we would log these. For MVP, we proceed with the FAILED status object.
-            // We could also attach errors to a transient property if the Contract allowed, 
-            // but strict adherence to Contract means we rely on 'status'.
-            // In a real logger, we would log these. For MVP, we proceed with the FAILED status object.
-            // We could also attach errors to a transient property if the Contract allowed.
-            // invalid inputs are swallowed here as per "Fail Fast" but silent contract.
+        return validatedProject;
+    }
+
+    /**
+     * Helper: Checks the fields each campaign type needs for its schema.org rich result.
+     */
+    private validateCampaign(campaign: CampaignDetails, error: (field: string, code: ValidationIssueCode, message: string) => void): void {
+        const required = (field: string, value: string | undefined, label: string) => {
+            if (!value || value.trim().length === 0) error(`campaign.${field}`, 'REQUIRED', `Campaign Error: ${label} is required for a '${campaign.type}' campaign.`);
+        };
+        const date = (field: string, value: string | undefined) => {
+            if (value && Number.isNaN(Date.parse(value))) error(`campaign.${field}`, 'INVALID_FORMAT', `Campaign Error: ${field} must be an ISO 8601 date: ${value}`);
+        };
+        const price = (value: number | undefined, currency: string | undefined) => {
+            if (value === undefined) return;
+            if (!Number.isFinite(value) || value < 0) error('campaign.price', 'INVALID_FORMAT', `Campaign Error: price must be a non-negative number: ${value}`);
+            if (!currency) error('campaign.currency', 'REQUIRED', "Campaign Error: currency is required with a price.");
+            else if (!/^[A-Z]{3}$/.test(currency)) error('campaign.currency', 'INVALID_FORMAT', `Campaign Error: currency must be an ISO 4217 code (e.g. 'EUR'): ${currency}`);
+        };
+
+        switch (campaign.type) {
+            case 'product':
+                if (campaign.price === undefined) error('campaign.price', 'REQUIRED', "Campaign Error: price is required for a 'product' campaign.");
+                price(campaign.price, campaign.currency);
+                if (campaign.imageUrl && !this.isValidUrl(campaign.imageUrl)) {
+                    error('campaign.imageUrl', 'INVALID_FORMAT', `Campaign Error: Invalid imageUrl format: ${campaign.imageUrl}`);
+                }
+                break;
+            case 'real-estate':
+                required('address', campaign.address, 'address');
+                price(campaign.price, campaign.currency);
+                date('datePosted', campaign.datePosted);
+                break;
+            case 'event':
+                required('startDate', campaign.startDate, 'startDate');
+                required('venue', campaign.venue, 'venue');
+                required('address', campaign.address, 'address');
+                date('startDate', campaign.startDate);
+                date('endDate', campaign.endDate);
+                if (campaign.endDate && Date.parse(campaign.endDate) < Date.parse(campaign.startDate)) {
+                    error('campaign.endDate', 'INVALID_FORMAT', "Campaign Error: endDate is before startDate.");
+                }
+                break;
+            case 'faq':
+                if (!campaign.questions?.length) {
+                    error('campaign.questions', 'REQUIRED', "Campaign Error: At least one question is required for a 'faq' campaign.");
+                }
+                campaign.questions?.forEach((entry, index) => {
+                    required(`questions[${index}].question`, entry.question, 'question');
+                    required(`questions[${index}].answer`, entry.answer, 'answer');
+                });
+                break;
+            default:
+                error('campaign.type', 'INVALID_FORMAT', `Campaign Error: Unknown campaign type '${(campaign as { type?: string }).type}'.`);
         }
+    }
 
-        return validatedProject;
+    /**
+     * Helper: Checks the rules the engine enforces and the theme values that end up in CSS.
+     */
+    private validateGuidelines(guidelines: BrandGuidelines, error: (field: string, code: ValidationIssueCode, message: string) => void): void {
+        const positiveInteger = (field: string, value: number | undefined) => {
+            if (value !== undefined && (!Number.isInteger(value) || value < 1)) error(`guidelines.${field}`, 'INVALID_FORMAT', `Guideline Error: ${field} must be a positive whole number: ${value}`);
+        };
+        const color = (field: string, value: string | undefined) => {
+            if (value !== undefined && !HEX_COLOR_PATTERN.test(value)) error(`guidelines.palette.${field}`, 'INVALID_FORMAT', `Guideline Error: ${field} must be a hex color (e.g. '#0a4d68'): ${value}`);
+        };
+        const font = (field: string, value: string | undefined) => {
+            if (value !== undefined && !FONT_FAMILY_PATTERN.test(value.trim())) error(`guidelines.typography.${field}`, 'INVALID_FORMAT', `Guideline Error: ${field} must be a font family name (letters, digits, spaces, '-' and '_'): ${value}`);
+        };
+
+        if (guidelines.readingLevel && !['simple', 'standard', 'expert'].includes(guidelines.readingLevel)) {
+            error('guidelines.readingLevel', 'INVALID_FORMAT', `Guideline Error: Unknown readingLevel '${guidelines.readingLevel}' (simple, standard or expert).`);
+        }
+        Object.entries(guidelines.maxLengths ?? {}).forEach(([field, value]) => positiveInteger(`maxLengths.${field}`, value));
+
+        const { cta, palette, typography } = guidelines;
+        if (cta) {
+            if (!cta.verbStyle) {
+                error('guidelines.cta.verbStyle', 'REQUIRED', "Guideline Error: cta.verbStyle is required (imperative or first-person).");
+            } else if (!['imperative', 'first-person'].includes(cta.verbStyle)) {
+                error('guidelines.cta.verbStyle', 'INVALID_FORMAT', `Guideline Error: Unknown cta.verbStyle '${cta.verbStyle}' (imperative or first-person).`);
+            }
+            positiveInteger('cta.maxWords', cta.maxWords);
+            Object.keys(cta.verbs ?? {}).filter(tag => !resolveLocale(tag)).forEach(tag =>
+                error(`guidelines.cta.verbs.${tag}`, 'INVALID_FORMAT', `Guideline Error: '${tag}' is not a valid BCP-47 locale or language tag.`));
+        }
+        if (palette) {
+            if (!palette.primary) error('guidelines.palette.primary', 'REQUIRED', "Guideline Error: palette.primary is required with a palette.");
+            color('primary', palette.primary || undefined);
+            color('onPrimary', palette.onPrimary);
+            color('background', palette.background);
+            color('text', palette.text);
+        }
+        if (typography) {
+            font('headingFont', typography.headingFont);
+            font('bodyFont', typography.bodyFont);
+            if (typography.fallback && !['sans-serif', 'serif', 'monospace'].includes(typography.fallback)) {
+                error('guidelines.typography.fallback', 'INVALID_FORMAT', `Guideline Error: Unknown typography.fallback '${typography.fallback}' (sans-serif, serif or monospace).`);
+            }
+        }
     }
 
     /**
@@ -83,30 +234,47 @@ export class InboundOrchestrator {
         }
     }
 
+    /**
+     * Helper: Keyword sources may be URLs (file/http/https) or local paths to a .csv file.
+     */
+    private isValidKeywordSource(source: string): boolean {
+        if (this.isValidUrl(source)) {
+            return ['file:', 'http:', 'https:'].includes(new URL(source).protocol);
+        }
+        return /\.csv$/i.test(source.trim());
+    }
+
     /**
      * Helper: Determines GEO compliance flags based on locale list.
      * Friction Point: Automating compliance config to reduce manual error.
+     * Markets come from the locale registry (by country, so 'fr-CA' is Canada; 'de' is inferred as Germany).
      */
-    private computeGeoCompliance(locales: Locale[]): GeoCompliance {
-        // List of ISO codes or prefixes requiring strict GDPR
-        // MVP: Hardcoded common EU locales
-        const euLocales = new Set(['it', 'fr', 'de', 'es', 'pt', 'nl', 'be', 'at', 'ie', 'pl', 'se', 'fi', 'dk']);
+    private computeGeoCompliance(locales: Locale[], restrictToTargetMarkets: boolean): GeoCompliance {
+        const markets = new Set<string>();
+        for (const locale of locales) {
+            const info = resolveLocale(locale);
+            const country = info ? countryOf(info) : undefined;
+            if (country) markets.add(country);
+        }
 
-        let isEuTargeted = false;
+        const compliance: GeoCompliance = this.privacyRules.summarize(this.privacyRules.evaluate([...markets]));
+        if (restrictToTargetMarkets) {
+            compliance.allowedCountries = this.targetCountries(locales);
+        }
+        return compliance;
+    }
 
+    /**
+     * Helper: Explicit countries of the target locales ('pt-BR' -> 'BR'), deduplicated.
+     * Inferred regions ('pt' -> 'BR') are not used: blocking visitors needs an explicit market.
+     */
+    private targetCountries(locales: Locale[]): string[] {
+        const countries = new Set<string>();
         for (const locale of locales) {
-            // Handle 'it-IT' or just 'it'
-            const langPart = locale.split('-')[0].toLowerCase();
-            if (euLocales.has(langPart)) {
-                isEuTargeted = true;
-                break;
-            }
+            const info = resolveLocale(locale);
+            const country = info && !info.regionInferred ? countryOf(info) : undefined;
+            if (country) countries.add(country);
         }
-
-        return {
-            requiresGDPR: isEuTargeted,
-            cookieConsentActive: isEuTargeted, // Active by default if EU
-            dataResidency: isEuTargeted ? 'EU' : 'GLOBAL'
-        };
+        return [...countries];
     }
 }
@@ -0,0 +1,124 @@
+import { Locale } from '../contracts/contracts';
+
+/**
+ * Module: Locale Registry
+ * Purpose: Single source of truth for what a locale tag means: canonical form, language, script, country,
+ * text direction and legal jurisdiction. Used by inbound validation, creative layout selection, SEO and deployment.
+ *
+ * Friction Points Managed:
+ * 1. Divergent Lists: Jurisdiction lives here only, so compliance flags and edge-region selection can never disagree.
+ * 2. Country, not Language: Jurisdiction follows the region subtag ('fr-CA' is Canada, 'es-MX' is Mexico).
+ *    Language-only tags use CLDR likely subtags ('de' -> DE, 'pt' -> BR) and are marked regionInferred.
+ * 3. Malformed Input: Tags are parsed with Intl.Locale, and language/region subtags must be registered in CLDR
+ *    ('english' is well-formed but not a language). Anything rejected is invalid, never guessed at.
+ */
+
+export type Jurisdiction = 'EU' | 'EEA' | 'UK' | 'CH' | 'US' | 'OTHER';
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+    tag: Locale; // Canonical BCP-47, e.g. 'pt_pt' -> 'pt-PT'
+    language: string;
+    script: string; // ISO 15924, explicit or likely (e.g. 'Latn')
+    region?: string; // ISO 3166-1 alpha-2 (or UN M.49 code), explicit or likely
+    regionInferred: boolean;
+    direction: TextDirection;
+    jurisdiction: Jurisdiction;
+}
+
+const EU_COUNTRIES = new Set([
+    'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+    'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'
+]);
+const EEA_ONLY_COUNTRIES = new Set(['IS', 'LI', 'NO']);
+const RTL_SCRIPTS = new Set(['Arab', 'Hebr', 'Thaa', 'Syrc', 'Nkoo', 'Adlm', 'Rohg', 'Mand', 'Samr']);
+
+// fallback: 'none' makes unregistered subtags resolve to undefined
+const LANGUAGE_NAMES = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+const REGION_NAMES = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+
+// Languages whose copy typically runs long (compound words), rendered with the wide layout
+const TEXT_EXPANDING_LANGUAGES = new Set(['de', 'ru', 'fi']);
+
+function jurisdictionOf(region?: string): Jurisdiction {
+    if (!region) return 'OTHER';
+    if (EU_COUNTRIES.has(region)) return 'EU';
+    if (EEA_ONLY_COUNTRIES.has(region)) return 'EEA';
+    if (region === 'GB') return 'UK';
+    if (region === 'CH') return 'CH';
+    if (region === 'US') return 'US';
+    return 'OTHER';
+}
+
+/**
+ * Parses a locale tag ('_' separators are accepted). Returns null for tags that are not valid BCP-47.
+ */
+export function resolveLocale(tag: Locale): LocaleInfo | null {
+    if (typeof tag !== 'string' || tag.trim().length === 0) return null;
+
+    let parsed: Intl.Locale;
+    try {
+        parsed = new Intl.Locale(tag.trim().replace(/_/g, '-'));
+    } catch {
+        return null;
+    }
+    if (!parsed.language || parsed.language === 'und' || !LANGUAGE_NAMES.of(parsed.language)) return null; // Node reports 'und' as no language
+    if (parsed.region && !REGION_NAMES.of(parsed.region)) return null;
+
+    const likely = parsed.maximize();
+    const region = parsed.region ?? likely.region;
+    const script = parsed.script ?? likely.script ?? 'Zyyy';
+
+    return {
+        tag: parsed.toString(),
+        language: parsed.language,
+        script,
+        region,
+        regionInferred: !parsed.region,
+        direction: RTL_SCRIPTS.has(script) ? 'rtl' : 'ltr',
+        jurisdiction: jurisdictionOf(region)
+    };
+}
+
+/**
+ * Like resolveLocale, but throws for invalid tags. For code paths that only see validated briefs.
+ */
+export function requireLocale(tag: Locale): LocaleInfo {
+    const info = resolveLocale(tag);
+    if (!info) {
+        throw new Error(`[LocaleRegistry] Invariant Violation: "${tag}" is not a valid BCP-47 locale tag.`);
+    }
+    return info;
+}
+
+/**
+ * Canonical casing for a tag ('it_it' -> 'it-IT'); invalid tags are returned unchanged.
+ */
+export function canonicalizeLocale(tag: Locale): Locale {
+    return resolveLocale(tag)?.tag ?? tag;
+}
+
+/**
+ * EU and EEA visitors are covered by the GDPR.
+ */
+export function isGdprJurisdiction(jurisdiction: Jurisdiction): boolean {
+    return jurisdiction === 'EU' || jurisdiction === 'EEA';
+}
+
+/**
+ * Countries whose visitors are covered by the GDPR (EU member states plus the EEA-only countries).
+ */
+export function gdprCountries(): string[] {
+    return [...EU_COUNTRIES, ...EEA_ONLY_COUNTRIES];
+}
+
+export function isTextExpandingLanguage(language: string): boolean {
+    return TEXT_EXPANDING_LANGUAGES.has(language);
+}
+
+/**
+ * ISO 3166-1 alpha-2 country of the locale, or undefined for supranational regions (e.g. 'es-419').
+ */
+export function countryOf(info: LocaleInfo): string | undefined {
+    return info.region && /^[A-Z]{2}$/.test(info.region) ? info.region : undefined;
+}
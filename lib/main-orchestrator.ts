@@ -1,58 +1,446 @@
-
+import { randomUUID } from 'node:crypto';
 import {
     BriefInput,
-    DeploymentConfig,
+    DeploymentManifest,
     IMicrositePipeline,
+    IWorkflowStateStore,
     ValidatedProject,
     CreativeEngineOutput,
-    SEOOptimizedVariant
+    SEOOptimizedVariant,
+    SEOContext,
+    KeywordRecord,
+    DeploymentContext,
+    WorkflowState,
+    WorkflowStep,
+    UIContentVariant,
+    IJobStore,
+    IReleaseStore,
+    ITerminologyStore,
+    PipelineJob,
+    Locale,
+    PolicyStep,
+    RunPriority,
+    SeoAuditReport
 } from './contracts/contracts';
 import { InboundOrchestrator } from './inbound/inbound-orchestrator';
-import { CreativeAIEngine } from './creative/creative-engine';
+import { CreativeAIEngine, CreativeRunContext } from './creative/creative-engine';
 import { SeoSemanticAgent } from './seo/seo-agent';
 import { GeoDeploymentHub } from './deployment/geo-hub';
+import { DeploymentProvider } from './deployment/deployment-provider';
+import { ReleaseManager } from './deployment/release-manager';
+import { InMemoryReleaseStore } from './deployment/release-store';
+import { HEARTBEAT_INTERVAL_MS, InMemoryWorkflowStateStore } from './state/workflow-store';
+import { TextGenerationProvider } from './creative/text-generation';
+import { PrivacyRulesEngine } from './compliance/privacy-rules';
+import { linkHreflangAlternates, validateHreflangReciprocity } from './seo/hreflang';
+import { SeoAuditor } from './seo/seo-audit';
+import { getSeoAuditSettings, SeoAuditSettings } from './config/factory-config';
+import { PipelineValidationError, SeoAuditError } from './contracts/errors';
+import { EventBus } from './events/event-bus';
+import { JobQueue } from './events/job-queue';
+import { enforceSuccessThreshold, resolveStagePolicies, StagePolicies, StagePolicyOverrides } from './resilience/stage-policy';
+import { ConcurrencyLimiter, getSharedLimiter } from './resilience/concurrency-limiter';
+import { getSharedTracer, SpanOptions, Tracer, withSpan } from './observability/tracing';
+import { currentSpan, runInSpan } from './observability/span-context';
+
+export interface MainOrchestratorOptions {
+    stateStore?: IWorkflowStateStore;
+    textProvider?: TextGenerationProvider; // Defaults to the provider selected by factory config
+    privacyRules?: PrivacyRulesEngine; // Defaults to DEFAULT_PRIVACY_RULES
+    deploymentProvider?: DeploymentProvider; // Defaults to the provider selected by factory config
+    events?: EventBus; // Defaults to a bus private to this orchestrator
+    jobStore?: IJobStore; // Defaults to in-memory; a FileJobStore keeps finished and dead-lettered jobs across restarts
+    stagePolicies?: StagePolicyOverrides; // Retries, timeouts and success thresholds; unset fields keep DEFAULT_STAGE_POLICIES
+    limiter?: ConcurrencyLimiter; // Defaults to the process-wide limiter shared with every other run
+    tracer?: Tracer; // Defaults to the process-wide tracer, exporting as configured by TRACE_EXPORTER
+    seoAudit?: Partial<SeoAuditSettings>; // Gate mode and minimum score; unset fields come from factory config
+    terminologyStore?: ITerminologyStore; // Brand glossaries and translation memories; defaults to an empty in-memory store
+    releaseStore?: IReleaseStore; // Where deployed runs are numbered as campaign versions; defaults to in-memory
+    heartbeatIntervalMs?: number; // How often a running stage writes WorkflowState.heartbeatAt; defaults to HEARTBEAT_INTERVAL_MS
+}
+
+const SEO_JOB = 'seo.optimize';
+
+interface SeoJobPayload {
+    runId: string;
+    variant: UIContentVariant;
+    context: SEOContext;
+}
+
+interface KeywordIngestionOutcome {
+    keywordsByLocale: Record<Locale, KeywordRecord[]>;
+    issues: WorkflowState['errors'];
+}
 
 /**
  * Main Orchestrator (Step 8 Integration)
- * 
- * Purpose: 
- * Connects the 4 modules (Inbound -> Creative -> SEO -> GEO) into a physical pipeline.
- * Adheres to "State Persistence Pattern" conceptually, but enables direct memory passing 
- * for the MVP integration test loop via the refactored contract.
+ *
+ * Purpose:
+ * Connects the 4 modules (Inbound -> Creative -> SEO -> GEO) into a physical pipeline, with an SEO audit
+ * gate between SEO and GEO.
+ * Adheres to the "State Persistence Pattern": every stage records its step, data slice and errors
+ * in a WorkflowState, so an interrupted run can be resumed from the last completed step.
+ * Adheres to the "Async Task Distribution Pattern": Creative publishes each variant on the event bus and
+ * an SEO job is queued for it right away, so SEO overlaps with the locales still being generated.
+ * Every execution (run or resume) is one trace: a 'pipeline.run' root span with a span per stage, per locale
+ * and per SEO job; its traceId is persisted on the WorkflowState.
  */
 export class MainOrchestrator implements IMicrositePipeline {
 
     // Module Instantiation
-    private inbound = new InboundOrchestrator();
-    private creative = new CreativeAIEngine();
+    private inbound: InboundOrchestrator;
+    private creative: CreativeAIEngine;
     private seo = new SeoSemanticAgent();
-    private deployment = new GeoDeploymentHub();
+    private deployment: GeoDeploymentHub;
+
+    private readonly stateStore: IWorkflowStateStore;
+    private readonly events: EventBus;
+    private readonly jobs: JobQueue;
+    private readonly policies: StagePolicies;
+    private readonly tracer: Tracer;
+    private readonly auditGate: SeoAuditSettings;
+    private readonly auditor: SeoAuditor;
+    private readonly releases: ReleaseManager;
+    private readonly heartbeatIntervalMs: number;
+
+    constructor(options: MainOrchestratorOptions = {}) {
+        this.stateStore = options.stateStore ?? new InMemoryWorkflowStateStore();
+        this.events = options.events ?? new EventBus();
+        const limiter = options.limiter ?? getSharedLimiter();
+        this.jobs = new JobQueue(options.jobStore, this.events, undefined, limiter);
+        this.policies = resolveStagePolicies(options.stagePolicies);
+        this.tracer = options.tracer ?? getSharedTracer();
+        this.auditGate = { ...getSeoAuditSettings(), ...options.seoAudit };
+        this.auditor = new SeoAuditor(this.auditGate.minScore);
+        this.inbound = new InboundOrchestrator(options.privacyRules);
+        this.creative = new CreativeAIEngine(options.textProvider, this.events, this.policies.CREATIVE, limiter, options.terminologyStore);
+        this.deployment = new GeoDeploymentHub(undefined, options.deploymentProvider);
+        this.releases = new ReleaseManager(this.stateStore, options.releaseStore ?? new InMemoryReleaseStore());
+        this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+
+        this.jobs.process<SeoJobPayload, SEOOptimizedVariant>(SEO_JOB, ({ runId, variant, context }) =>
+            withSpan('seo.optimize', { attributes: { 'pipeline.locale': variant.locale } }, async () => {
+                const optimized = await this.optimizeSEO(variant, context);
+                await this.events.publish('seo.variant.optimized', { runId, variant: optimized });
+                return optimized;
+            }), this.policies.SEO);
+    }
 
     /**
      * Executes the full pipeline from Brief to Deployment.
      * This method acts as the "Systems Integrator" glue.
+     * Throws PipelineValidationError (with field-addressed issues) when the brief is rejected.
+     * The optional runId lets callers pick the WorkflowState key (e.g. to resume it later).
+     * Interactive runs jump the shared provider queue ahead of batch runs.
+     */
+    public async runPipeline(brief: BriefInput, runId: string = this.createRunId(brief), priority: RunPriority = 'batch'): Promise<DeploymentManifest> {
+        const state: WorkflowState = {
+            id: runId,
+            currentStep: 'ORCHESTRATION',
+            lastUpdated: new Date().toISOString(),
+            priority,
+            data: {},
+            errors: []
+        };
+
+        return this.tracer.withSpan('pipeline.run', this.runSpanOptions(state, brief), async span => {
+            state.traceId = span.traceId;
+            await this.persist(state);
+            return this.advance(state, brief);
+        });
+    }
+
+    /**
+     * Resumes a persisted run from its last completed step.
+     * Completed slices (e.g. creatives) are reused as-is and never regenerated.
+     */
+    public async resumePipeline(id: string): Promise<DeploymentManifest> {
+        const state = await this.stateStore.load(id);
+        if (!state) {
+            throw new Error(`[MainOrchestrator] Invariant Violation: No workflow state found for run ${id}`);
+        }
+        const deployed = state.data.deployment;
+        if (state.currentStep === 'COMPLETED' && deployed) {
+            await this.releases.registerVersion(state.id, deployed); // In case the first execution stopped before numbering it
+            return deployed;
+        }
+        if (!state.data.project) {
+            throw new Error(`[MainOrchestrator] Invariant Violation: Run ${id} has no persisted brief to resume from`);
+        }
+        const brief = state.data.project.payload;
+        state.errors = state.errors.filter(error => !error.fatal); // They stopped the previous execution, not this one
+
+        const options = this.runSpanOptions(state, brief);
+        return this.tracer.withSpan('pipeline.run', { ...options, attributes: { ...options.attributes, 'run.resumed_from': state.currentStep } }, async span => {
+            state.traceId = span.traceId;
+            return this.advance(state, brief);
+        });
+    }
+
+    private runSpanOptions(state: WorkflowState, brief: BriefInput): SpanOptions {
+        return {
+            root: true,
+            attributes: {
+                'run.id': state.id,
+                'run.priority': state.priority ?? 'batch',
+                'campaign.id': brief.campaignId,
+                'pipeline.locales': [...new Set(brief.targetLocales)]
+            }
+        };
+    }
+
+    /**
+     * Walks the stages in order, skipping any whose data slice is already persisted.
      */
-    public async runPipeline(brief: BriefInput): Promise<DeploymentConfig> {
+    private async advance(state: WorkflowState, brief: BriefInput): Promise<DeploymentManifest> {
 
         // 1. Inbound Validation
-        const validatedProjet = await this.validateInput(brief);
+        const validatedProjet = state.data.project
+            ?? await this.runStage(state, 'ORCHESTRATION', 'InboundOrchestrator', () => this.validateInput(brief));
+        state.data.project = validatedProjet;
+
         if (validatedProjet.status === 'FAILED') {
-            throw new Error(`Pipeline Halted: Input validation failed.`);
+            const validation = state.timings?.ORCHESTRATION;
+            if (validation) validation.outcome = 'failed';
+            const validationError = new PipelineValidationError(validatedProjet.issues);
+            await this.recordFailure(state, 'InboundOrchestrator', validationError.message);
+            throw validationError;
         }
 
-        // 2. Creative Generation (Now returns data!)
-        const creativeOutput = await this.generateCreatives(validatedProjet);
+        // 2. Creative Generation
+        // Every variant published by the engine gets its SEO job queued immediately (keywords are ingested once, on first use)
+        const seoJobs = new Map<Locale, Promise<PipelineJob<SeoJobPayload, SEOOptimizedVariant>>>();
+        let keywordIngestion: Promise<KeywordIngestionOutcome> | undefined;
+        const keywords = () => keywordIngestion ??= this.ingestCampaignKeywords(validatedProjet);
+        let seoStartedAt: number | undefined;
+
+        let creativeOutput = state.data.creatives;
+        if (!creativeOutput) {
+            // Published from inside the locale's creative span; the job belongs to the run, not to that locale's creative
+            const runSpan = currentSpan();
+            const unsubscribe = this.events.subscribe('creative.variant.generated', ({ runId, variant }) => {
+                if (runId !== state.id) return;
+                seoStartedAt ??= Date.now();
+                const enqueue = () => this.enqueueSEO(state, variant, validatedProjet, keywords());
+                seoJobs.set(variant.locale, runSpan ? runInSpan(runSpan, enqueue) : enqueue());
+            });
+            try {
+                creativeOutput = await this.runStage(state, 'CREATIVE', 'CreativeAIEngine', () => this.generateCreatives(validatedProjet, { runId: state.id, priority: state.priority }));
+            } finally {
+                unsubscribe();
+            }
+            state.data.creatives = creativeOutput;
+            creativeOutput.errors?.forEach(message => state.errors.push({ module: 'CreativeAIEngine', message, fatal: false }));
+            creativeOutput.warnings?.forEach(message => state.errors.push({ module: 'CreativeAIEngine', message, fatal: false }));
+            await this.persist(state);
+        }
+        await this.enforceStagePolicy(state, 'CREATIVE', 'CreativeAIEngine', creativeOutput.variants);
 
         // 3. SEO Optimization
-        // Map over variants and optimize each one
-        const seoPromises = creativeOutput.variants.map(variant => this.optimizeSEO(variant));
-        const seoVariants = await Promise.all(seoPromises);
+        // Collect the per-locale jobs (queueing any that were not started above, e.g. on resume) and link hreflang
+        const seoVariants = state.data.seoResults
+            ?? await this.runStage(state, 'SEO', 'SeoSemanticAgent',
+                () => this.optimizeCampaignSEO(state, validatedProjet, creativeOutput, seoJobs, keywords()), seoStartedAt);
+        if (!state.data.seoResults) {
+            state.data.seoResults = seoVariants;
+            seoVariants.forEach(variant => variant.warnings?.forEach(message => state.errors.push({ module: 'SeoSemanticAgent', message, fatal: false })));
+            await this.persist(state);
+        }
+        await this.enforceStagePolicy(state, 'SEO', 'SeoSemanticAgent', seoVariants);
 
-        // 4. GEO Deployment
+        // 4. SEO Audit
+        // Scores the final metadata across locales; the report is persisted before the gate is applied
+        if (!state.data.seoAudit) {
+            const report = await this.runStage(state, 'AUDIT', 'SeoAuditor', async () => this.auditor.audit(seoVariants));
+            state.data.seoAudit = report;
+            if (!report.passed && this.auditGate.gate === 'report') {
+                state.errors.push({ module: 'SeoAuditor', message: `SEO audit failed (lowest locale score ${report.score}, minimum ${report.minScore}); deploying anyway because the audit gate is in report mode.`, fatal: false });
+            }
+            await this.persist(state);
+        }
+        await this.enforceSeoAudit(state, state.data.seoAudit);
+
+        // 5. GEO Deployment
         // Pass the compliance object from the initial validation (Single Source of Truth)
-        const deploymentConfig = await this.executeGeoDeploy(seoVariants, validatedProjet.compliance);
+        const manifest = state.data.deployment
+            ?? await this.runStage(state, 'DEPLOYMENT', 'GeoDeploymentHub', () => this.executeGeoDeploy(seoVariants, validatedProjet.compliance, { campaignId: validatedProjet.projectId, assets: validatedProjet.payload.assets, guidelines: validatedProjet.payload.guidelines }));
+        state.data.deployment = manifest;
+
+        state.currentStep = 'COMPLETED';
+        await this.persist(state);
+        await this.releases.registerVersion(state.id, manifest);
+
+        return manifest;
+    }
+
+    /**
+     * SEO stage body: waits for every variant's SEO job. A dead-lettered job drops its locale with a
+     * non-fatal error, like a failed creative; keyword ingestion problems degrade metadata the same way.
+     * Hreflang only links locales that made it through both stages.
+     */
+    private async optimizeCampaignSEO(
+        state: WorkflowState,
+        project: ValidatedProject,
+        creativeOutput: CreativeEngineOutput,
+        seoJobs: Map<Locale, Promise<PipelineJob<SeoJobPayload, SEOOptimizedVariant>>>,
+        keywordIngestion: Promise<KeywordIngestionOutcome>
+    ): Promise<SEOOptimizedVariant[]> {
+        const jobs = await Promise.all(creativeOutput.variants.map(variant =>
+            seoJobs.get(variant.locale) ?? this.enqueueSEO(state, variant, project, keywordIngestion)
+        ));
+        state.errors.push(...(await keywordIngestion).issues);
+
+        const optimized: SEOOptimizedVariant[] = [];
+        for (const job of jobs) {
+            if (job.status === 'succeeded' && job.result) {
+                optimized.push(job.result);
+                // Attempts of this execution that failed before the one that succeeded
+                job.errors.slice(job.errors.length - (job.attempts - 1)).forEach(message => state.errors.push({
+                    module: 'SeoSemanticAgent',
+                    message: `${job.payload.variant.locale}: SEO job retried after a failed attempt (${message})`,
+                    fatal: false
+                }));
+            } else {
+                const message = `${job.payload.variant.locale}: SEO job dead-lettered after ${job.attempts} attempts (${job.errors.at(-1)})`;
+                state.errors.push({ module: 'SeoSemanticAgent', message, fatal: false });
+            }
+        }
+
+        // Re-link against the final page set, then verify every page links back to every sibling
+        const linked = linkHreflangAlternates(optimized);
+        validateHreflangReciprocity(linked)
+            .forEach(issue => state.errors.push({ module: 'HreflangValidator', message: issue.message, fatal: false }));
+
+        return linked;
+    }
+
+    /**
+     * Halts the run with a fatal StagePolicyError when too few locales came out of the stage.
+     * Checked after the stage's slice is persisted, so failed locales stay inspectable, and again on resume,
+     * where a looser policy lets the run continue.
+     */
+    private async enforceStagePolicy(state: WorkflowState, step: PolicyStep, module: string, results: Array<{ locale: Locale }>): Promise<void> {
+        const requested = [...new Set(state.data.project?.payload.targetLocales ?? [])];
+        try {
+            enforceSuccessThreshold(step, this.policies[step], requested, results.map(result => result.locale));
+        } catch (error) {
+            const timing = state.timings?.[step];
+            if (timing) timing.outcome = 'failed';
+            await this.recordFailure(state, module, error instanceof Error ? error.message : String(error));
+            throw error;
+        }
+    }
+
+    /**
+     * Halts the run with a fatal SeoAuditError when the audit failed and the gate is enforced.
+     * Like the stage policies, it is checked again on resume, so a run halted here can continue in report mode.
+     */
+    private async enforceSeoAudit(state: WorkflowState, report: SeoAuditReport): Promise<void> {
+        if (report.passed || this.auditGate.gate === 'report') return;
+
+        const error = new SeoAuditError(report);
+        const timing = state.timings?.AUDIT;
+        if (timing) timing.outcome = 'failed';
+        await this.recordFailure(state, 'SeoAuditor', error.message);
+        throw error;
+    }
+
+    /**
+     * Queues the SEO job of one variant once campaign keywords are available.
+     * Hreflang siblings are the requested locales here; the SEO stage re-links against the pages that succeeded.
+     */
+    private enqueueSEO(state: WorkflowState, variant: UIContentVariant, project: ValidatedProject, keywordIngestion: Promise<KeywordIngestionOutcome>): Promise<PipelineJob<SeoJobPayload, SEOOptimizedVariant>> {
+        const job = keywordIngestion.then(({ keywordsByLocale }) => this.jobs.enqueue<SeoJobPayload, SEOOptimizedVariant>(SEO_JOB, state.id, variant.locale, {
+            runId: state.id,
+            variant,
+            context: { project, keywords: keywordsByLocale[variant.locale], siblingLocales: [...new Set(project.payload.targetLocales)] }
+        }, state.priority));
+        // Awaited by the SEO stage; if the creative stage fails first, nobody does, and that must not crash the process
+        job.catch(() => undefined);
+        return job;
+    }
+
+    /**
+     * Loads keywords.csv once per run. Never rejects: problems become non-fatal errors,
+     * so a missing or unreadable file degrades metadata instead of halting the run.
+     */
+    private async ingestCampaignKeywords(project: ValidatedProject): Promise<KeywordIngestionOutcome> {
+        try {
+            const ingestion = await this.seo.ingestKeywords(project.payload.assets.keywordsCsvUrl, [...new Set(project.payload.targetLocales)]);
+            return {
+                keywordsByLocale: ingestion.keywordsByLocale,
+                issues: ingestion.warnings.map(message => ({ module: 'KeywordIngestion', message, fatal: false }))
+            };
+        } catch (error) {
+            return {
+                keywordsByLocale: {},
+                issues: [{ module: 'KeywordIngestion', message: error instanceof Error ? error.message : String(error), fatal: false }]
+            };
+        }
+    }
+
+    /**
+     * Marks the stage as current, runs it, and records its timing and a fatal error if it throws.
+     * While it runs, a heartbeat is persisted every heartbeatIntervalMs so dashboards can tell slow from dead.
+     * The finished timing is persisted with the stage's data slice by the caller.
+     * `started` backdates the stage when its work began before it became current (SEO jobs overlap Creative).
+     * The stage is traced as a 'stage.<step>' span under the run.
+     */
+    private runStage<T>(state: WorkflowState, step: WorkflowStep, module: string, task: () => Promise<T>, started: number = Date.now()): Promise<T> {
+        const attributes = { 'pipeline.step': step, 'pipeline.module': module };
+        return withSpan(`stage.${step.toLowerCase()}`, { attributes, startTime: started }, async () => {
+            state.currentStep = step;
+            state.timings = { ...state.timings, [step]: { startedAt: new Date(started).toISOString() } };
+            state.heartbeatAt = new Date().toISOString();
+            await this.persist(state);
+
+            const heartbeat = setInterval(() => {
+                state.heartbeatAt = new Date().toISOString();
+                // Not lastUpdated: nothing changed. A missed beat only risks a 'stalled' label, never the run.
+                this.stateStore.save(state).catch(() => undefined);
+            }, this.heartbeatIntervalMs);
+            heartbeat.unref();
 
-        return deploymentConfig;
+            const finish = (outcome: 'succeeded' | 'failed') => {
+                state.timings![step] = {
+                    startedAt: new Date(started).toISOString(),
+                    finishedAt: new Date().toISOString(),
+                    durationMs: Date.now() - started,
+                    outcome
+                };
+            };
+
+            try {
+                const result = await task();
+                finish('succeeded');
+                return result;
+            } catch (error) {
+                finish('failed');
+                await this.recordFailure(state, module, error instanceof Error ? error.message : String(error));
+                throw error;
+            } finally {
+                clearInterval(heartbeat);
+            }
+        });
+    }
+
+    private async recordFailure(state: WorkflowState, module: string, message: string): Promise<void> {
+        state.errors.push({ module, message, fatal: true });
+        await this.persist(state);
+    }
+
+    private async persist(state: WorkflowState): Promise<void> {
+        state.lastUpdated = new Date().toISOString();
+        await this.stateStore.save(state);
+    }
+
+    /**
+     * Default run id for a brief. Public so callers can hand out the id before starting the run in the background.
+     * The random suffix keeps briefs submitted in the same millisecond from sharing (and overwriting) one state.
+     */
+    public createRunId(brief: BriefInput): string {
+        const campaignSlug = (brief.campaignId || 'campaign').replace(/[^A-Za-z0-9_.-]/g, '-');
+        return `run_${campaignSlug}_${Date.now().toString(36)}_${randomUUID().slice(0, 8)}`;
     }
 
     // --- IMicrositePipeline Implementation ---
@@ -61,15 +449,15 @@ export class MainOrchestrator implements IMicrositePipeline {
         return this.inbound.validateInput(input);
     }
 
-    public async generateCreatives(project: ValidatedProject): Promise<CreativeEngineOutput> {
-        return this.creative.generateCreatives(project);
+    public async generateCreatives(project: ValidatedProject, run?: CreativeRunContext): Promise<CreativeEngineOutput> {
+        return this.creative.generateCreatives(project, run);
     }
 
-    public async optimizeSEO(variant: import("./contracts/contracts").UIContentVariant): Promise<SEOOptimizedVariant> {
-        return this.seo.optimizeSEO(variant);
+    public async optimizeSEO(variant: import("./contracts/contracts").UIContentVariant, context?: SEOContext): Promise<SEOOptimizedVariant> {
+        return this.seo.optimizeSEO(variant, context);
     }
 
-    public async executeGeoDeploy(seoVariants: SEOOptimizedVariant[], compliance: import("./contracts/contracts").GeoCompliance): Promise<DeploymentConfig> {
-        return this.deployment.executeGeoDeploy(seoVariants, compliance);
+    public async executeGeoDeploy(seoVariants: SEOOptimizedVariant[], compliance: import("./contracts/contracts").GeoCompliance, context?: DeploymentContext): Promise<DeploymentManifest> {
+        return this.deployment.executeGeoDeploy(seoVariants, compliance, context);
     }
 }
@@ -0,0 +1,98 @@
+import { LogLevel, SpanAttributes } from '../contracts/contracts';
+import { getObservabilitySettings } from '../config/factory-config';
+import { currentSpan } from './span-context';
+
+/**
+ * Module: Logger
+ * Purpose: Structured, run-correlated logging for every pipeline module: one JSON object per line
+ * instead of free-form console output.
+ *
+ * Friction Points Managed:
+ * 1. Interleaved Runs: Lines written inside a span carry its runId, traceId and spanId, so the output of
+ *    concurrent campaigns can be told apart and joined with their traces.
+ * 2. Lost Warnings: Warnings and errors are also recorded as events on the active span, so they show up
+ *    in the trace next to the locale or stage that raised them.
+ * 3. Noise: LOG_LEVEL drops lines below the configured level before anything is formatted.
+ */
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+    time: string;
+    level: LogLevel;
+    module: string;
+    message: string;
+    runId?: string;
+    traceId?: string;
+    spanId?: string;
+    [field: string]: unknown;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+const SEVERITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export class Logger {
+
+    constructor(
+        private readonly module: string,
+        private readonly level: LogLevel = getObservabilitySettings().logLevel,
+        private readonly sink: LogSink = writeToConsole
+    ) { }
+
+    public debug(message: string, fields: LogFields = {}): void {
+        this.write('debug', message, fields);
+    }
+
+    public info(message: string, fields: LogFields = {}): void {
+        this.write('info', message, fields);
+    }
+
+    public warn(message: string, fields: LogFields = {}): void {
+        this.write('warn', message, fields);
+    }
+
+    public error(message: string, fields: LogFields = {}): void {
+        this.write('error', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: LogFields): void {
+        if (SEVERITY[level] < SEVERITY[this.level]) return;
+
+        const span = currentSpan();
+        const values = Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? `${value.name}: ${value.message}` : value]));
+        if (span && SEVERITY[level] >= SEVERITY.warn) {
+            span.addEvent(message, { 'log.level': level, 'log.module': this.module, ...toSpanAttributes(values) });
+        }
+
+        this.sink({
+            time: new Date().toISOString(),
+            level,
+            module: this.module,
+            message,
+            ...(span ? { runId: span.runId, traceId: span.traceId, spanId: span.spanId } : {}),
+            ...values
+        });
+    }
+}
+
+export function createLogger(module: string): Logger {
+    return new Logger(module);
+}
+
+function writeToConsole(entry: LogEntry): void {
+    const line = JSON.stringify(entry);
+    if (entry.level === 'error') console.error(line);
+    else if (entry.level === 'warn') console.warn(line);
+    else console.log(line);
+}
+
+// Span attributes only hold scalars; anything else is recorded as JSON
+function toSpanAttributes(fields: LogFields): SpanAttributes {
+    const attributes: SpanAttributes = {};
+    Object.entries(fields).forEach(([key, value]) => {
+        if (value === undefined) return;
+        attributes[key] = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : JSON.stringify(value);
+    });
+    return attributes;
+}
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Span } from './tracing';
+
+/**
+ * Module: Span Context
+ * Purpose: Carries the active span across awaits, so nested work (stages, locales, jobs) is parented
+ * without passing spans around, and log lines pick up the run and trace they belong to.
+ * Kept apart from the tracer so the logger can read it without importing the tracer.
+ */
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+export function currentSpan(): Span | undefined {
+    return activeSpan.getStore();
+}
+
+/**
+ * Runs the callback with the span active, including everything it awaits or schedules.
+ */
+export function runInSpan<T>(span: Span, callback: () => T): T {
+    return activeSpan.run(span, callback);
+}
@@ -0,0 +1,126 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { ISpanExporter, SpanAttributes, SpanRecord } from '../contracts/contracts';
+import { getObservabilitySettings, ObservabilitySettings } from '../config/factory-config';
+
+/**
+ * Module: Span Exporters
+ * Purpose: Ship finished traces out of the process as OTLP JSON (the OpenTelemetry protocol's JSON encoding),
+ * either appended to a local file or posted to a collector.
+ *
+ * Friction Points Managed:
+ * 1. Vendor Lock-in: Both exporters write the standard ExportTraceServiceRequest shape, which Jaeger, Tempo,
+ *    the OpenTelemetry Collector (and its file receiver) read as-is; no SDK dependency is needed.
+ * 2. Local-first: The file exporter keeps one request per line under the data directory, so traces can be
+ *    grepped or replayed into a collector later.
+ */
+
+const SCOPE = { name: 'microsite-factory.pipeline' };
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODES: Record<SpanRecord['status']['code'], number> = { UNSET: 0, OK: 1, ERROR: 2 };
+
+type OtlpAnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean } | { arrayValue: { values: OtlpAnyValue[] } };
+
+/**
+ * Converts spans to an OTLP/JSON ExportTraceServiceRequest for one service.
+ */
+export function toOtlpTraceRequest(spans: SpanRecord[], serviceName: string) {
+    return {
+        resourceSpans: [{
+            resource: { attributes: toKeyValues({ 'service.name': serviceName }) },
+            scopeSpans: [{
+                scope: SCOPE,
+                spans: spans.map(span => ({
+                    traceId: span.traceId,
+                    spanId: span.spanId,
+                    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+                    name: span.name,
+                    kind: SPAN_KIND_INTERNAL,
+                    startTimeUnixNano: toUnixNano(span.startTimeMs),
+                    endTimeUnixNano: toUnixNano(span.endTimeMs),
+                    attributes: toKeyValues(span.attributes),
+                    events: span.events.map(event => ({
+                        timeUnixNano: toUnixNano(event.timeMs),
+                        name: event.name,
+                        attributes: toKeyValues(event.attributes)
+                    })),
+                    status: { code: STATUS_CODES[span.status.code], ...(span.status.message ? { message: span.status.message } : {}) }
+                }))
+            }]
+        }]
+    };
+}
+
+// int64 fields are decimal strings in OTLP/JSON
+function toUnixNano(ms: number): string {
+    return BigInt(Math.round(ms * 1_000_000)).toString();
+}
+
+function toKeyValues(attributes: SpanAttributes): Array<{ key: string; value: OtlpAnyValue }> {
+    return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toAnyValue(value: SpanAttributes[string]): OtlpAnyValue {
+    if (Array.isArray(value)) return { arrayValue: { values: value.map(item => ({ stringValue: item })) } };
+    if (typeof value === 'boolean') return { boolValue: value };
+    if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    return { stringValue: value };
+}
+
+export class InMemorySpanExporter implements ISpanExporter {
+
+    public readonly spans: SpanRecord[] = [];
+
+    public async export(spans: SpanRecord[]): Promise<void> {
+        this.spans.push(...spans);
+    }
+}
+
+/**
+ * Appends one OTLP JSON request per exported batch to a JSON Lines file.
+ */
+export class FileSpanExporter implements ISpanExporter {
+
+    constructor(
+        private readonly file: string = getObservabilitySettings().traceFile,
+        private readonly serviceName: string = getObservabilitySettings().serviceName
+    ) { }
+
+    public async export(spans: SpanRecord[]): Promise<void> {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.appendFile(this.file, `${JSON.stringify(toOtlpTraceRequest(spans, this.serviceName))}\n`);
+    }
+}
+
+/**
+ * Posts OTLP JSON to a collector's HTTP receiver ({endpoint}/v1/traces).
+ */
+export class OtlpHttpSpanExporter implements ISpanExporter {
+
+    constructor(
+        private readonly endpoint: string = getObservabilitySettings().otlpEndpoint,
+        private readonly serviceName: string = getObservabilitySettings().serviceName,
+        private readonly timeoutMs = 5_000
+    ) { }
+
+    public async export(spans: SpanRecord[]): Promise<void> {
+        const response = await fetch(`${this.endpoint.replace(/\/+$/, '')}/v1/traces`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(toOtlpTraceRequest(spans, this.serviceName)),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+        if (!response.ok) {
+            throw new Error(`[OtlpHttpSpanExporter] Collector rejected ${spans.length} spans: HTTP ${response.status}`);
+        }
+    }
+}
+
+/**
+ * The exporter selected by TRACE_EXPORTER; undefined when tracing output is off.
+ */
+export function createSpanExporter(settings: ObservabilitySettings = getObservabilitySettings()): ISpanExporter | undefined {
+    if (settings.traceExporter === 'file') return new FileSpanExporter(settings.traceFile, settings.serviceName);
+    if (settings.traceExporter === 'otlp') return new OtlpHttpSpanExporter(settings.otlpEndpoint, settings.serviceName);
+    return undefined;
+}
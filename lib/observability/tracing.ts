@@ -0,0 +1,183 @@
+import { randomBytes } from 'node:crypto';
+import { ISpanExporter, SpanAttributes, SpanEvent, SpanRecord } from '../contracts/contracts';
+import { createSpanExporter } from './span-exporters';
+import { currentSpan, runInSpan } from './span-context';
+import { createLogger } from './logger';
+
+/**
+ * Module: Tracing
+ * Purpose: Timed, attributed spans for every run, stage and per-locale unit of work, grouped into one trace per
+ * pipeline execution and handed to an exporter when the run's root span ends.
+ *
+ * Friction Points Managed:
+ * 1. "Which locale blew the 30s budget?": Each locale's generation attempts and SEO job are spans of their own,
+ *    with time spent waiting for a provider slot visible as the gap before each attempt.
+ * 2. Plumbing: The active span travels with the async context, so modules open child spans with withSpan()
+ *    without taking a tracer or parent as a parameter.
+ * 3. Diagnostics Never Fail a Run: Export errors are logged and dropped.
+ */
+
+const log = createLogger('Tracer');
+
+export interface SpanOptions {
+    attributes?: SpanAttributes;
+    startTime?: number; // Epoch ms; backdates a span whose work began before it was opened
+    root?: boolean; // Start a new trace even when another span is active
+}
+
+export class Span {
+
+    public readonly spanId = randomBytes(8).toString('hex');
+    public readonly traceId: string;
+    private readonly attributes: SpanAttributes;
+    private readonly events: SpanEvent[] = [];
+    private status: SpanRecord['status'] = { code: 'UNSET' };
+    private ended = false;
+
+    constructor(
+        public readonly tracer: Tracer,
+        public readonly name: string,
+        private readonly parent: Span | undefined,
+        private readonly startTime: number,
+        attributes: SpanAttributes = {}
+    ) {
+        this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+        this.attributes = { ...attributes };
+    }
+
+    /**
+     * The run this span belongs to: its own 'run.id' attribute or the nearest ancestor's.
+     */
+    public get runId(): string | undefined {
+        const own = this.attributes['run.id'];
+        return typeof own === 'string' ? own : this.parent?.runId;
+    }
+
+    public setAttributes(attributes: SpanAttributes): this {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    public addEvent(name: string, attributes: SpanAttributes = {}): this {
+        this.events.push({ name, timeMs: now(), attributes });
+        return this;
+    }
+
+    public setStatus(code: SpanRecord['status']['code'], message?: string): this {
+        this.status = message ? { code, message } : { code };
+        return this;
+    }
+
+    public recordException(error: unknown): this {
+        const message = error instanceof Error ? error.message : String(error);
+        this.addEvent('exception', { 'exception.type': error instanceof Error ? error.name : typeof error, 'exception.message': message });
+        return this.setStatus('ERROR', message);
+    }
+
+    /**
+     * Ends the span (once; later calls are ignored) and hands it to its tracer.
+     */
+    public end(endTime: number = now()): void {
+        if (this.ended) return;
+        this.ended = true;
+        if (this.status.code === 'UNSET') this.status = { code: 'OK' };
+
+        this.tracer.onEnd({
+            traceId: this.traceId,
+            spanId: this.spanId,
+            ...(this.parent ? { parentSpanId: this.parent.spanId } : {}),
+            name: this.name,
+            startTimeMs: this.startTime,
+            endTimeMs: Math.max(endTime, this.startTime),
+            attributes: { ...this.attributes },
+            events: [...this.events],
+            status: this.status
+        });
+    }
+}
+
+export class Tracer {
+
+    private readonly pending = new Map<string, SpanRecord[]>();
+    private readonly openTraces = new Set<string>();
+    private readonly exports = new Set<Promise<void>>();
+
+    constructor(private readonly exporter?: ISpanExporter) { }
+
+    /**
+     * Opens a span under the active one (or as a new trace). Callers must end() it; prefer withSpan().
+     */
+    public startSpan(name: string, options: SpanOptions = {}): Span {
+        const parent = options.root ? undefined : currentSpan();
+        const span = new Span(this, name, parent, options.startTime ?? now(), options.attributes);
+        if (!parent) this.openTraces.add(span.traceId);
+        return span;
+    }
+
+    /**
+     * Runs the task inside a new active span and ends it when the task settles; a thrown error marks it as ERROR.
+     */
+    public async withSpan<T>(name: string, options: SpanOptions, task: (span: Span) => Promise<T>): Promise<T> {
+        const span = this.startSpan(name, options);
+        try {
+            return await runInSpan(span, () => task(span));
+        } catch (error) {
+            span.recordException(error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * Resolves once every batch handed to the exporter so far has been written (or has failed).
+     */
+    public async flush(): Promise<void> {
+        await Promise.all([...this.exports]);
+    }
+
+    /**
+     * Called by Span.end(). Buffers the span until its trace's root ends, then exports the whole trace as one batch.
+     * Spans ending after their root (e.g. an orphaned job) are exported on their own.
+     */
+    public onEnd(record: SpanRecord): void {
+        const batch = [...(this.pending.get(record.traceId) ?? []), record];
+        if (!record.parentSpanId) this.openTraces.delete(record.traceId);
+
+        if (this.openTraces.has(record.traceId)) {
+            this.pending.set(record.traceId, batch);
+            return;
+        }
+        this.pending.delete(record.traceId);
+        if (!this.exporter) return;
+
+        const exported: Promise<void> = this.exporter.export(batch)
+            .catch(error => log.warn('Span export failed', { traceId: record.traceId, spans: batch.length, error }))
+            .finally(() => this.exports.delete(exported));
+        this.exports.add(exported);
+    }
+}
+
+/**
+ * Opens a child span of the active one with that span's tracer, or a new trace on the shared tracer.
+ */
+export function withSpan<T>(name: string, options: SpanOptions, task: (span: Span) => Promise<T>): Promise<T> {
+    return (currentSpan()?.tracer ?? getSharedTracer()).withSpan(name, options, task);
+}
+
+// Kept on globalThis for the same reason as the shared limiter: one tracer per process, however the app is bundled
+const SHARED_TRACER = Symbol.for('microsite-factory.tracer');
+
+/**
+ * The process-wide tracer, exporting through createSpanExporter() (TRACE_EXPORTER).
+ */
+export function getSharedTracer(): Tracer {
+    const registry = globalThis as typeof globalThis & { [SHARED_TRACER]?: Tracer };
+    registry[SHARED_TRACER] ??= new Tracer(createSpanExporter());
+    return registry[SHARED_TRACER];
+}
+
+// Epoch ms with sub-millisecond precision, so short spans do not collapse to zero
+function now(): number {
+    return performance.timeOrigin + performance.now();
+}
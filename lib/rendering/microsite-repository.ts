@@ -0,0 +1,89 @@
+import {
+    DeploymentConfig,
+    DeploymentManifest,
+    IWorkflowStateStore,
+    Locale,
+    ReleaseTarget,
+    SEOOptimizedVariant
+} from '../contracts/contracts';
+import { FileWorkflowStateStore } from '../state/workflow-store';
+import { ReleaseManager, VersionedRun } from '../deployment/release-manager';
+import { ThemeTokens, buildThemeTokens } from './theme-tokens';
+
+/**
+ * Module: Microsite Repository (Rendering support)
+ * Purpose: Read-side lookup of published SEOOptimizedVariants for the Next.js microsite routes.
+ *
+ * Friction Points Managed:
+ * 1. Read/Write Separation: Pages never touch the orchestrator; they read completed runs from the state store.
+ * 2. Releases: Pages serve the campaign version in production; a new pipeline run is only a preview until promoted.
+ * 3. Brand Theme: Each version carries the theme tokens of the brief it was generated from.
+ */
+
+export interface PublishedCampaign {
+    campaignId: string;
+    runId: string;
+    version: number; // Campaign version (see ReleaseManager)
+    publishedAt: string;
+    variants: SEOOptimizedVariant[];
+    manifest: DeploymentManifest;
+    theme: ThemeTokens; // From the brief's brand guidelines; empty for the default theme
+}
+
+export interface PublishedDeployment extends PublishedCampaign {
+    deployment: DeploymentConfig; // The regional deployment looked up; serves deployment.locales of `variants`
+}
+
+export class MicrositeRepository {
+
+    constructor(
+        store: IWorkflowStateStore = new FileWorkflowStateStore(),
+        private readonly releases: ReleaseManager = new ReleaseManager(store)
+    ) { }
+
+    /**
+     * Version of the campaign released on the target (production by default), or null if nothing is released there.
+     */
+    public async findCampaign(campaignId: string, target: ReleaseTarget = 'production'): Promise<PublishedCampaign | null> {
+        const run = await this.releases.resolve(campaignId, target);
+        return run ? toPublished(run) : null;
+    }
+
+    /**
+     * Production version of every released campaign, newest deployment first.
+     */
+    public async listCampaigns(): Promise<PublishedCampaign[]> {
+        return (await this.releases.resolveAll('production')).map(toPublished);
+    }
+
+    /**
+     * Version that produced the regional deployment, or null for unknown ids.
+     * Every version resolves, released or not, so late telemetry is not lost after a promote or rollback.
+     */
+    public async findDeployment(deploymentId: string): Promise<PublishedDeployment | null> {
+        const run = await this.releases.findByDeployment(deploymentId);
+        const deployment = run?.manifest.deployments.find(d => d.deploymentId === deploymentId);
+        return run && deployment ? { ...toPublished(run), deployment } : null;
+    }
+
+    /**
+     * Published variant for one locale (locale tags compare case-insensitively).
+     */
+    public async findVariant(campaignId: string, locale: Locale, target: ReleaseTarget = 'production'): Promise<SEOOptimizedVariant | null> {
+        const campaign = await this.findCampaign(campaignId, target);
+        const wanted = locale.toLowerCase();
+        return campaign?.variants.find(v => v.locale.toLowerCase() === wanted) ?? null;
+    }
+}
+
+function toPublished(run: VersionedRun): PublishedCampaign {
+    return {
+        campaignId: run.campaignId,
+        runId: run.runId,
+        version: run.version,
+        publishedAt: run.state.lastUpdated,
+        variants: run.variants,
+        manifest: run.manifest,
+        theme: buildThemeTokens(run.state.data.project?.payload.guidelines)
+    };
+}
@@ -0,0 +1,45 @@
+import type { Metadata } from 'next';
+import { SEOOptimizedVariant } from '../contracts/contracts';
+
+/**
+ * Maps SEOMetadata (contract shape) to the Next.js Metadata API.
+ * Known og:* keys become typed openGraph fields; anything else is passed through verbatim.
+ */
+export function toNextMetadata(variant: SEOOptimizedVariant): Metadata {
+    const { seo } = variant;
+    const og = { ...seo.ogTags };
+    const take = (key: string): string | undefined => {
+        const value = og[key];
+        delete og[key];
+        return value;
+    };
+
+    const image = take('og:image');
+    const openGraph: Metadata['openGraph'] = {
+        type: 'website',
+        title: take('og:title') ?? seo.title,
+        description: take('og:description') ?? seo.description,
+        url: take('og:url') ?? seo.canonicalUrl,
+        locale: (take('og:locale') ?? variant.locale).replace('-', '_'),
+        images: image ? [{ url: image }] : undefined
+    };
+
+    return {
+        title: seo.title,
+        description: seo.description,
+        alternates: {
+            canonical: seo.canonicalUrl,
+            languages: seo.hreflang
+        },
+        openGraph,
+        other: og
+    };
+}
+
+/**
+ * Serializes JSON-LD for a <script type="application/ld+json"> tag.
+ * '<' is escaped so copy can never close the script element.
+ */
+export function serializeJsonLd(structuredData: object): string {
+    return JSON.stringify(structuredData).replace(/</g, '\\u003c');
+}
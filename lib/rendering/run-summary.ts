@@ -0,0 +1,120 @@
+import {
+    DeploymentManifest,
+    Locale,
+    RunPriority,
+    SEOOptimizedVariant,
+    SeoVariantAudit,
+    StageTiming,
+    UIContentVariant,
+    WorkflowState,
+    WorkflowStep
+} from '../contracts/contracts';
+import { STALLED_AFTER_MS } from '../state/workflow-store';
+
+/**
+ * Module: Run Summary (Rendering support)
+ * Purpose: Read-model of a WorkflowState for the operations dashboard (runs list and run detail).
+ *
+ * Friction Points Managed:
+ * 1. Crashed Processes: A run whose stage stopped sending heartbeats is reported as 'stalled', not 'running' forever;
+ *    a slow stage that keeps beating stays 'running'.
+ * 2. Partial Failures: Requested locales are compared with generated variants, so silently dropped locales show up.
+ * 3. Legacy Runs: States persisted before stage timings existed still summarize (timings are simply absent).
+ */
+
+export const PIPELINE_STAGES: WorkflowStep[] = ['ORCHESTRATION', 'CREATIVE', 'SEO', 'AUDIT', 'DEPLOYMENT'];
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'stalled';
+
+export interface StageSummary extends Partial<StageTiming> {
+    step: WorkflowStep;
+    state: 'pending' | 'active' | 'succeeded' | 'failed' | 'skipped';
+}
+
+export interface LocaleSummary {
+    locale: Locale;
+    creative?: UIContentVariant;
+    seo?: SEOOptimizedVariant;
+    audit?: SeoVariantAudit;
+    errors: string[]; // Creative errors for this locale
+}
+
+export interface RunSummary {
+    id: string;
+    campaignId?: string;
+    brandName?: string;
+    status: RunStatus;
+    priority: RunPriority;
+    traceId?: string; // Look the run up in the trace backend by this id
+    currentStep: WorkflowStep;
+    startedAt?: string;
+    lastUpdated: string;
+    stages: StageSummary[];
+    variants: { requested: number; generated: number; failed: number };
+    fatalError?: string;
+    warningCount: number;
+    deployment?: DeploymentManifest;
+}
+
+export function summarizeRun(state: WorkflowState, now: Date = new Date()): RunSummary {
+    const fatal = state.errors.find(error => error.fatal); // Cleared on resume: only the latest execution counts
+    // Latest sign of life: a heartbeat, or a later stage write (a heartbeat left over from an earlier execution is stale)
+    const lastSign = Math.max(new Date(state.lastUpdated).getTime(), state.heartbeatAt ? new Date(state.heartbeatAt).getTime() : 0);
+    const status: RunStatus = state.currentStep === 'COMPLETED' ? 'completed'
+        : fatal ? 'failed'
+            : now.getTime() - lastSign > STALLED_AFTER_MS ? 'stalled'
+                : 'running';
+
+    const requested = new Set(state.data.project?.payload.targetLocales ?? []).size;
+    const generated = state.data.creatives?.variants.length ?? 0;
+
+    return {
+        id: state.id,
+        campaignId: state.data.project?.projectId,
+        brandName: state.data.project?.payload.brandName,
+        status,
+        priority: state.priority ?? 'batch',
+        traceId: state.traceId,
+        currentStep: state.currentStep,
+        startedAt: state.timings?.ORCHESTRATION?.startedAt,
+        lastUpdated: state.lastUpdated,
+        stages: PIPELINE_STAGES.map(step => summarizeStage(state, step, status)),
+        variants: {
+            requested,
+            generated,
+            failed: state.data.creatives ? Math.max(state.data.creatives.errors?.length ?? 0, requested - generated) : 0
+        },
+        fatalError: fatal?.message,
+        warningCount: state.errors.filter(error => !error.fatal).length,
+        deployment: state.data.deployment
+    };
+}
+
+/**
+ * Creative copy and SEO metadata per requested locale, in brief order, for the side-by-side detail view.
+ */
+export function summarizeLocales(state: WorkflowState): LocaleSummary[] {
+    const requested = [...new Set(state.data.project?.payload.targetLocales ?? [])];
+    const creativeErrors = state.data.creatives?.errors ?? [];
+
+    return requested.map(locale => ({
+        locale,
+        creative: state.data.creatives?.variants.find(variant => variant.locale === locale),
+        seo: state.data.seoResults?.find(variant => variant.locale === locale),
+        audit: state.data.seoAudit?.variants.find(variant => variant.locale === locale),
+        errors: creativeErrors.filter(message => message.startsWith(`${locale}: `))
+    }));
+}
+
+function summarizeStage(state: WorkflowState, step: WorkflowStep, status: RunStatus): StageSummary {
+    const timing = state.timings?.[step];
+    const reached = PIPELINE_STAGES.indexOf(step) <= PIPELINE_STAGES.indexOf(state.currentStep) || state.currentStep === 'COMPLETED';
+
+    let stageState: StageSummary['state'];
+    if (timing?.outcome) stageState = timing.outcome;
+    else if (state.currentStep === step) stageState = status === 'failed' ? 'failed' : 'active';
+    else if (reached) stageState = 'skipped'; // Finished before timings were recorded, or reused on resume
+    else stageState = 'pending';
+
+    return { step, state: stageState, ...timing };
+}
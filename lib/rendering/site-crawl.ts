@@ -0,0 +1,30 @@
+import { CrawlArtifact, SitemapEntry } from '../contracts/contracts';
+import { campaignSitemapsPath, chunkSitemapEntries, MAX_URLS_PER_SITEMAP } from '../deployment/crawl-artifacts';
+import { MicrositeRepository } from './microsite-repository';
+
+/**
+ * Site-wide sitemap chunks across every live campaign, for the Next.js metadata routes.
+ * Entries come from each deployment manifest's crawl artifacts, so the site view matches what was deployed.
+ */
+export async function loadSiteSitemapChunks(
+    repository: MicrositeRepository = new MicrositeRepository(),
+    maxUrlsPerSitemap: number = MAX_URLS_PER_SITEMAP
+): Promise<SitemapEntry[][]> {
+    const campaigns = await repository.listCampaigns();
+    const entries = campaigns.flatMap(campaign => campaign.manifest.crawl?.entries ?? []);
+    return chunkSitemapEntries(entries, maxUrlsPerSitemap);
+}
+
+/**
+ * One of a campaign's own sitemap files (e.g. 'sitemap.xml', 'sitemap-index.xml') from its production version,
+ * for app/sitemaps/[campaign]/[file]; null when the campaign is not live or has no such file.
+ */
+export async function loadCampaignCrawlFile(
+    campaignId: string,
+    file: string,
+    repository: MicrositeRepository = new MicrositeRepository()
+): Promise<CrawlArtifact | null> {
+    const campaign = await repository.findCampaign(campaignId);
+    const wanted = `${campaignSitemapsPath(campaignId)}/${file}`;
+    return campaign?.manifest.crawl.files.find(artifact => artifact.path === wanted) ?? null;
+}
@@ -0,0 +1,84 @@
+import { SEOOptimizedVariant } from '../contracts/contracts';
+import { resolveLocale } from '../locale/locale-registry';
+import { serializeJsonLd } from './next-metadata';
+
+/**
+ * Module: Static Page (Rendering support)
+ * Purpose: Render a published variant as a standalone HTML document for static exports,
+ * with the same metadata the Next.js route emits (title, description, canonical, hreflang, Open Graph, JSON-LD).
+ *
+ * Friction Points Managed:
+ * 1. No Runtime: Exported pages work from any file server; they only reference files inside the export.
+ * 2. Injection: Copy comes from a model, so every text and attribute value is escaped.
+ */
+
+export interface StaticPageOptions {
+    assetsPath: string; // Relative path from the page to the export's assets directory, e.g. '../../assets'
+    logoSrc?: string; // Relative or absolute logo URL
+}
+
+// Shared by every exported page; mirrors the two Next.js layouts (components/microsite), brand theme tokens included
+export const STATIC_SITE_CSS = `*{box-sizing:border-box}
+body{margin:0;font-family:var(--brand-font-body,system-ui,-apple-system,"Segoe UI",sans-serif);color:var(--foreground,#171717);background:var(--background,#fff)}
+header{padding:24px}
+header img{height:40px}
+main{min-height:80vh;padding:96px 24px}
+h1{font-family:var(--brand-font-heading,var(--brand-font-body,system-ui,-apple-system,"Segoe UI",sans-serif));font-size:2.5rem;line-height:1.2;font-weight:600;margin:0}
+p{font-size:1.125rem;line-height:2rem;opacity:.8}
+#cta{display:inline-block;padding:12px 32px;background:var(--brand-primary,var(--foreground,#171717));color:var(--brand-on-primary,var(--background,#fff));text-decoration:none;font-weight:500}
+.layout-minimal-v1 section{max-width:42rem;margin:0 auto;text-align:center}
+.layout-minimal-v1 #cta{border-radius:9999px}
+.layout-wide-v2 section{max-width:72rem;margin:0 auto;display:grid;gap:48px;grid-template-columns:repeat(auto-fit,minmax(20rem,1fr));align-items:center}
+.layout-wide-v2 h1,.layout-wide-v2 p{hyphens:auto}
+.layout-wide-v2 #cta{border-radius:6px}
+`;
+
+export function renderStaticPage(variant: SEOOptimizedVariant, options: StaticPageOptions): string {
+    const { seo } = variant;
+    const direction = resolveLocale(variant.locale)?.direction ?? 'ltr';
+
+    const head = [
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(seo.title)}</title>`,
+        `<meta name="description" content="${escapeHtml(seo.description)}">`,
+        `<link rel="canonical" href="${escapeHtml(seo.canonicalUrl)}">`,
+        ...Object.entries(seo.hreflang ?? {}).map(([hreflang, url]) =>
+            `<link rel="alternate" hreflang="${escapeHtml(hreflang)}" href="${escapeHtml(url)}">`),
+        ...Object.entries(seo.ogTags ?? {}).map(([property, content]) =>
+            `<meta property="${escapeHtml(property)}" content="${escapeHtml(content)}">`),
+        `<link rel="stylesheet" href="${escapeHtml(`${options.assetsPath}/site.css`)}">`,
+        `<script type="application/ld+json">${serializeJsonLd(seo.structuredData ?? {})}</script>`
+    ];
+
+    const body = [
+        options.logoSrc ? `<header><img src="${escapeHtml(options.logoSrc)}" alt=""></header>` : '',
+        `<main class="${escapeHtml(variant.layoutId)}">`,
+        '<section>',
+        `<h1>${escapeHtml(variant.heroTitle)}</h1>`,
+        '<div>',
+        `<p>${escapeHtml(variant.bodyCopy)}</p>`,
+        `<a href="#cta" id="cta" data-track="cta">${escapeHtml(variant.ctaText)}</a>`,
+        '</div>',
+        '</section>',
+        '</main>'
+    ].filter(Boolean);
+
+    return [
+        '<!DOCTYPE html>',
+        `<html lang="${escapeHtml(variant.locale)}" dir="${direction}">`,
+        `<head>\n${head.join('\n')}\n</head>`,
+        `<body>\n${body.join('\n')}\n</body>`,
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
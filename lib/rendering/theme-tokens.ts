@@ -0,0 +1,74 @@
+import { BrandGuidelines, BrandTypography } from '../contracts/contracts';
+
+/**
+ * Module: Theme Tokens (Rendering support)
+ * Purpose: Turn the brief's palette and typography into CSS custom properties, read by the Next.js layouts
+ * (components/microsite, via app/globals.css) and by the stylesheet of static exports.
+ *
+ * Friction Points Managed:
+ * 1. One Source of Truth: Both renderers use the same tokens, so exported pages look like the live site.
+ * 2. Injection: Token values end up in CSS, so colors must be hex and font names plain words; anything else is dropped.
+ * 3. Readability: Text colors the brand leaves open are black or white, whichever contrasts more with their background.
+ */
+
+export type ThemeTokens = Record<`--${string}`, string>;
+
+export const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+export const FONT_FAMILY_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u;
+
+const GENERIC_FAMILIES: Array<NonNullable<BrandTypography['fallback']>> = ['sans-serif', 'serif', 'monospace'];
+
+/**
+ * Tokens for the guidelines' palette and typography (empty without guidelines: the default theme applies).
+ */
+export function buildThemeTokens(guidelines?: BrandGuidelines): ThemeTokens {
+    const tokens: ThemeTokens = {};
+    const { palette, typography } = guidelines ?? {};
+
+    if (palette) {
+        const background = hexColor(palette.background);
+        const text = hexColor(palette.text) ?? (background && contrastingText(background));
+        const primary = hexColor(palette.primary);
+        const onPrimary = hexColor(palette.onPrimary) ?? (primary && contrastingText(primary));
+        if (background) tokens['--background'] = background;
+        if (text) tokens['--foreground'] = text;
+        if (primary) tokens['--brand-primary'] = primary;
+        if (onPrimary) tokens['--brand-on-primary'] = onPrimary;
+    }
+
+    if (typography) {
+        const fallback = typography.fallback && GENERIC_FAMILIES.includes(typography.fallback) ? typography.fallback : 'sans-serif';
+        const stack = (font?: string) => font && FONT_FAMILY_PATTERN.test(font.trim()) ? `"${font.trim()}", ${fallback}` : undefined;
+        const heading = stack(typography.headingFont);
+        const body = stack(typography.bodyFont);
+        if (heading) tokens['--brand-font-heading'] = heading;
+        if (body) tokens['--brand-font-body'] = body;
+    }
+
+    return tokens;
+}
+
+/**
+ * The tokens as one CSS rule (empty string when there are none).
+ */
+export function renderThemeCss(tokens: ThemeTokens, selector = ':root'): string {
+    const declarations = Object.entries(tokens).map(([name, value]) => `${name}:${value}`);
+    return declarations.length > 0 ? `${selector}{${declarations.join(';')}}\n` : '';
+}
+
+function hexColor(value?: string): string | undefined {
+    return value && HEX_COLOR_PATTERN.test(value) ? value.toLowerCase() : undefined;
+}
+
+/**
+ * Black or white, whichever has the higher WCAG contrast ratio against `hex`.
+ */
+function contrastingText(hex: string): string {
+    const digits = hex.length === 4 ? hex.slice(1).split('').map(digit => digit + digit) : [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+    const [r, g, b] = digits.map(pair => {
+        const channel = parseInt(pair, 16) / 255;
+        return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+    });
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    return (luminance + 0.05) / 0.05 >= 1.05 / (luminance + 0.05) ? '#000000' : '#ffffff';
+}
@@ -0,0 +1,135 @@
+import { LimiterStats, RunPriority } from '../contracts/contracts';
+import { ConcurrencySettings, getConcurrencySettings } from '../config/factory-config';
+
+/**
+ * Module: Concurrency Limiter
+ * Purpose: Bound how many per-locale calls run at once, and how fast they start, across every stage and campaign
+ * in the process, so a 40-market campaign queues instead of tripping provider rate limits.
+ *
+ * Friction Points Managed:
+ * 1. Fan-out Bursts: At most `maxConcurrent` tasks are in flight; the rest wait in FIFO order.
+ * 2. Provider Rate Limits: A token bucket spaces out task starts (sustained rate plus a burst allowance).
+ * 3. Responsiveness: Interactive runs (briefs submitted from the UI) are always dequeued before batch runs.
+ */
+
+export class TokenBucket {
+
+    private tokens: number;
+    private refilledAt: number;
+
+    constructor(
+        public readonly ratePerSecond: number,
+        private readonly burst: number = ratePerSecond,
+        private readonly now: () => number = Date.now
+    ) {
+        if (ratePerSecond <= 0 || burst < 1) {
+            throw new Error(`[TokenBucket] Invariant Violation: Needs a positive rate and a burst of at least 1 (got ${ratePerSecond}/s, burst ${burst}).`);
+        }
+        this.tokens = burst;
+        this.refilledAt = now();
+    }
+
+    /**
+     * Takes a token and returns 0, or returns how many milliseconds remain until one is available.
+     */
+    public take(): number {
+        this.refill();
+        if (this.tokens >= 1) {
+            this.tokens -= 1;
+            return 0;
+        }
+        return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+    }
+
+    public available(): number {
+        this.refill();
+        return Math.floor(this.tokens);
+    }
+
+    private refill(): void {
+        const now = this.now();
+        this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond);
+        this.refilledAt = now;
+    }
+}
+
+export class ConcurrencyLimiter {
+
+    private inFlight = 0;
+    private readonly queues: Record<RunPriority, Array<() => void>> = { interactive: [], batch: [] };
+    private drainTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        private readonly maxConcurrent: number,
+        private readonly bucket?: TokenBucket
+    ) {
+        if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+            throw new Error(`[ConcurrencyLimiter] Invariant Violation: maxConcurrent must be a positive integer (got ${maxConcurrent}).`);
+        }
+    }
+
+    /**
+     * Runs the task once a slot (and a token) is free. Waiting does not count towards the task's own timeout,
+     * so callers should start their timers inside the task.
+     */
+    public async schedule<T>(task: () => Promise<T>, priority: RunPriority = 'batch'): Promise<T> {
+        await new Promise<void>(resolve => {
+            this.queues[priority].push(resolve);
+            this.drain();
+        });
+
+        try {
+            return await task();
+        } finally {
+            this.inFlight--;
+            this.drain();
+        }
+    }
+
+    public stats(): LimiterStats {
+        return {
+            maxConcurrent: this.maxConcurrent,
+            inFlight: this.inFlight,
+            queued: { interactive: this.queues.interactive.length, batch: this.queues.batch.length },
+            ...(this.bucket ? { ratePerSecond: this.bucket.ratePerSecond, tokensAvailable: this.bucket.available() } : {})
+        };
+    }
+
+    private drain(): void {
+        while (this.inFlight < this.maxConcurrent) {
+            const queue = this.queues.interactive.length > 0 ? this.queues.interactive : this.queues.batch;
+            if (queue.length === 0) return;
+
+            const wait = this.bucket?.take() ?? 0;
+            if (wait > 0) {
+                // One timer at a time; it re-runs the drain once the next token has accrued
+                this.drainTimer ??= setTimeout(() => {
+                    this.drainTimer = undefined;
+                    this.drain();
+                }, wait);
+                return;
+            }
+
+            this.inFlight++;
+            queue.shift()!();
+        }
+    }
+}
+
+export function createLimiter(settings: ConcurrencySettings): ConcurrencyLimiter {
+    const bucket = settings.ratePerSecond > 0 ? new TokenBucket(settings.ratePerSecond, Math.max(1, settings.burst)) : undefined;
+    return new ConcurrencyLimiter(settings.maxConcurrent, bucket);
+}
+
+// Kept on globalThis: Next.js can evaluate this module once per server bundle, but the process must share one limiter
+// so the dashboard reads the counts the pipelines update.
+const SHARED_LIMITER = Symbol.for('microsite-factory.concurrency-limiter');
+
+/**
+ * The process-wide limiter, built from getConcurrencySettings() on first use.
+ */
+export function getSharedLimiter(): ConcurrencyLimiter {
+    const registry = globalThis as typeof globalThis & { [SHARED_LIMITER]?: ConcurrencyLimiter };
+    registry[SHARED_LIMITER] ??= createLimiter(getConcurrencySettings());
+    return registry[SHARED_LIMITER];
+}
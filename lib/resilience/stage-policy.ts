@@ -0,0 +1,122 @@
+import { Locale, PolicyStep, RetryPolicy, StagePolicy } from '../contracts/contracts';
+import { RetryExhaustedError, StagePolicyError } from '../contracts/errors';
+
+/**
+ * Module: Stage Policy
+ * Purpose: Retry, timeout and partial-failure rules for the per-locale work of the Creative and SEO stages.
+ *
+ * Friction Points Managed:
+ * 1. "<30s per language": Every attempt is bounded by a timeout whose AbortSignal reaches the provider.
+ * 2. Thundering Herd: Retries back off exponentially with jitter, so parallel locales do not hit a
+ *    rate-limited provider again in lockstep.
+ * 3. Silent Shrinkage: A run only proceeds towards deployment while enough locales, and every required one, survive.
+ */
+
+export type StagePolicies = Record<PolicyStep, StagePolicy>;
+export type StagePolicyOverrides = { [S in PolicyStep]?: Partial<StagePolicy> };
+
+export interface RetryOutcome<T> {
+    value: T;
+    attempts: number;
+    failures: string[]; // Messages of the failed attempts before the successful one
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialDelayMs: 250,
+    maxDelayMs: 4_000,
+    jitter: 0.2,
+    attemptTimeoutMs: 0
+};
+
+// Permissive thresholds: any locale that survives is deployed, as long as one does
+export const DEFAULT_STAGE_POLICIES: StagePolicies = {
+    CREATIVE: { ...DEFAULT_RETRY_POLICY, initialDelayMs: 500, attemptTimeoutMs: 30_000, minSuccessRatio: 0, requiredLocales: [] },
+    SEO: { ...DEFAULT_RETRY_POLICY, attemptTimeoutMs: 10_000, minSuccessRatio: 0, requiredLocales: [] }
+};
+
+export function resolveStagePolicies(overrides: StagePolicyOverrides = {}): StagePolicies {
+    return {
+        CREATIVE: { ...DEFAULT_STAGE_POLICIES.CREATIVE, ...overrides.CREATIVE },
+        SEO: { ...DEFAULT_STAGE_POLICIES.SEO, ...overrides.SEO }
+    };
+}
+
+/**
+ * Delay before attempt `failedAttempt + 1`: exponential, capped, then reduced by up to `jitter` of itself.
+ */
+export function backoffDelay(policy: RetryPolicy, failedAttempt: number, random: () => number = Math.random): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (failedAttempt - 1));
+    return Math.round(exponential * (1 - policy.jitter * random()));
+}
+
+/**
+ * Runs the task with an AbortSignal that fires when the timeout elapses; the returned promise rejects at that moment
+ * even if the task ignores the signal.
+ */
+export async function withTimeout<T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    if (timeoutMs <= 0) return task(controller.signal);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Attempt timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([task(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+export type AttemptGate = <T>(attempt: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs the task until it succeeds or the policy's attempts run out (then throws RetryExhaustedError).
+ * Each attempt, timeout included, passes through the gate (e.g. a concurrency limiter); backoff waits outside it.
+ */
+export async function retryWithPolicy<T>(
+    task: (signal: AbortSignal, attempt: number) => Promise<T>,
+    policy: RetryPolicy,
+    gate: AttemptGate = attempt => attempt()
+): Promise<RetryOutcome<T>> {
+    const failures: string[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const value = await gate(() => withTimeout(signal => task(signal, attempt), policy.attemptTimeoutMs));
+            return { value, attempts: attempt, failures };
+        } catch (error) {
+            failures.push(error instanceof Error ? error.message : String(error));
+            if (attempt >= policy.maxAttempts) throw new RetryExhaustedError(failures);
+            await new Promise(resolve => setTimeout(resolve, backoffDelay(policy, attempt)));
+        }
+    }
+}
+
+/**
+ * Throws StagePolicyError unless every required locale and at least `minSuccessRatio` of the requested ones
+ * (and never fewer than one) succeeded.
+ */
+export function enforceSuccessThreshold(step: PolicyStep, policy: StagePolicy, requested: Locale[], succeeded: Locale[]): void {
+    const survivors = new Set(succeeded);
+    const missing = requested.filter(locale => !survivors.has(locale));
+
+    const missingRequired = policy.requiredLocales.filter(locale => !survivors.has(locale));
+    if (missingRequired.length > 0) {
+        throw new StagePolicyError('REQUIRED_LOCALE_FAILED', step, missing,
+            `Pipeline Halted: ${step} produced no result for required locale(s) ${missingRequired.join(', ')}.`);
+    }
+
+    // The epsilon keeps float noise (0.7 * 10 = 7.000000000000001) from demanding one locale more
+    const minimum = Math.max(1, Math.ceil(policy.minSuccessRatio * requested.length - 1e-9));
+    const count = requested.length - missing.length;
+    if (count < minimum) {
+        throw new StagePolicyError('BELOW_SUCCESS_RATIO', step, missing,
+            `Pipeline Halted: ${step} succeeded for ${count} of ${requested.length} locales (minimum ${minimum}).`);
+    }
+}
@@ -0,0 +1,118 @@
+import { Locale, SEOOptimizedVariant } from '../contracts/contracts';
+import { canonicalizeLocale } from '../locale/locale-registry';
+
+/**
+ * Module: Hreflang (SEO support)
+ * Purpose: Build hreflang maps from the pages a campaign actually publishes, and verify reciprocity.
+ *
+ * Friction Points Managed:
+ * 1. Phantom Alternates: Only successful variants are linked, so creative failures never advertise 404 pages.
+ * 2. Reciprocity: Google ignores hreflang pairs that don't link back; the validator flags every broken pair.
+ * 3. Fallbacks: Adds 'x-default' and language-only entries (e.g. 'pt' -> pt-PT) when no page claims them.
+ */
+
+export const X_DEFAULT = 'x-default';
+
+export interface HreflangPage {
+    locale: Locale;
+    url: string;
+}
+
+export interface HreflangIssue {
+    locale: Locale;
+    code: 'MISSING_SELF' | 'MISSING_SIBLING' | 'URL_MISMATCH' | 'UNKNOWN_TARGET' | 'MISSING_X_DEFAULT';
+    message: string;
+}
+
+/**
+ * Builds the hreflang map shared by every page of a campaign.
+ * Pages are taken in campaign order; the first one is the x-default unless defaultLocale is given.
+ */
+export function buildHreflangMap(pages: HreflangPage[], defaultLocale?: Locale): Record<Locale, string> {
+    const map: Record<Locale, string> = {};
+    if (pages.length === 0) return map;
+
+    const normalized = pages.map(page => ({ ...page, tag: normalizeHreflang(page.locale) }));
+
+    for (const page of normalized) {
+        map[page.tag] = page.url;
+    }
+
+    // Language-only fallbacks: first page of each language, unless a bare-language page exists
+    for (const page of normalized) {
+        const language = page.tag.split('-')[0];
+        if (!(language in map)) {
+            map[language] = page.url;
+        }
+    }
+
+    const defaultPage = normalized.find(page => defaultLocale && page.tag === normalizeHreflang(defaultLocale)) ?? normalized[0];
+    map[X_DEFAULT] = defaultPage.url;
+
+    return map;
+}
+
+/**
+ * Re-links every variant against the final set of published pages (their canonical URLs).
+ * Run after SEO so pages dropped at any stage disappear from all sibling maps.
+ */
+export function linkHreflangAlternates(variants: SEOOptimizedVariant[], defaultLocale?: Locale): SEOOptimizedVariant[] {
+    const hreflang = buildHreflangMap(variants.map(v => ({ locale: v.locale, url: v.seo.canonicalUrl })), defaultLocale);
+    return variants.map(variant => ({ ...variant, seo: { ...variant.seo, hreflang: { ...hreflang } } }));
+}
+
+/**
+ * Checks that every page links to itself and to every sibling with the sibling's canonical URL,
+ * that no entry points outside the published set, and that x-default exists.
+ */
+export function validateHreflangReciprocity(variants: SEOOptimizedVariant[]): HreflangIssue[] {
+    const issues: HreflangIssue[] = [];
+    const publishedUrls = new Set(variants.map(v => v.seo.canonicalUrl));
+
+    for (const page of variants) {
+        const map = page.seo.hreflang ?? {};
+
+        for (const sibling of variants) {
+            const tag = normalizeHreflang(sibling.locale);
+            const isSelf = sibling === page;
+            const href = map[tag];
+
+            if (href === undefined) {
+                issues.push({
+                    locale: page.locale,
+                    code: isSelf ? 'MISSING_SELF' : 'MISSING_SIBLING',
+                    message: `${page.locale} does not link to ${isSelf ? 'itself' : sibling.locale}.`
+                });
+            } else if (href !== sibling.seo.canonicalUrl) {
+                issues.push({
+                    locale: page.locale,
+                    code: 'URL_MISMATCH',
+                    message: `${page.locale} links ${tag} to ${href}, expected ${sibling.seo.canonicalUrl}.`
+                });
+            }
+        }
+
+        for (const [tag, href] of Object.entries(map)) {
+            if (!publishedUrls.has(href)) {
+                issues.push({
+                    locale: page.locale,
+                    code: 'UNKNOWN_TARGET',
+                    message: `${page.locale} links ${tag} to ${href}, which is not a published page.`
+                });
+            }
+        }
+
+        if (!map[X_DEFAULT]) {
+            issues.push({ locale: page.locale, code: 'MISSING_X_DEFAULT', message: `${page.locale} has no x-default entry.` });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Canonical BCP-47 casing (e.g. 'pt_pt' -> 'pt-PT'); invalid tags are returned unchanged.
+ */
+function normalizeHreflang(locale: Locale): string {
+    return canonicalizeLocale(locale);
+}
@@ -0,0 +1,287 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+    KeywordIngestionResult,
+    KeywordIntent,
+    KeywordRecord,
+    Locale
+} from '../contracts/contracts';
+import { resolveLocale } from '../locale/locale-registry';
+
+/**
+ * Module: Keyword Ingestion (SEO support)
+ * Purpose: Turn the campaign's keywords.csv into ranked, per-locale keyword sets for the SEO Semantic Agent.
+ *
+ * Friction Points Managed:
+ * 1. Messy Exports: Keyword tools export with BOMs, ';' or tab delimiters and quoted cells; all are accepted.
+ * 2. Header Drift: Columns are matched by alias ("Search Volume", "avg_monthly_searches", ...), not by position.
+ * 3. Loud Gaps: Unknown locales and missing markets become warnings instead of silent generic fallbacks.
+ */
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+const COLUMN_ALIASES: Record<keyof KeywordRecord, string[]> = {
+    locale: ['locale', 'language', 'lang', 'market', 'hreflang'],
+    keyword: ['keyword', 'keywords', 'term', 'query', 'searchterm', 'phrase'],
+    searchVolume: ['searchvolume', 'volume', 'avgmonthlysearches', 'monthlysearches', 'sv'],
+    intent: ['intent', 'searchintent']
+};
+
+const INTENT_ALIASES: Record<string, KeywordIntent> = {
+    informational: 'informational', info: 'informational', i: 'informational',
+    navigational: 'navigational', nav: 'navigational', n: 'navigational',
+    commercial: 'commercial', comm: 'commercial', investigation: 'commercial', c: 'commercial',
+    transactional: 'transactional', trans: 'transactional', t: 'transactional'
+};
+
+// Tie-breaker when volumes are equal: intents closer to conversion rank first.
+const INTENT_WEIGHT: Record<KeywordIntent, number> = {
+    transactional: 4,
+    commercial: 3,
+    navigational: 2,
+    informational: 1,
+    unknown: 0
+};
+
+export interface ParsedKeywordCsv {
+    records: KeywordRecord[];
+    warnings: string[];
+}
+
+/**
+ * Parses keywords.csv content. Throws only when the file is structurally unusable
+ * (no locale/keyword columns); row-level problems become warnings.
+ */
+export function parseKeywordsCsv(content: string): ParsedKeywordCsv {
+    const text = content.replace(/^\uFEFF/, '');
+    const rows = parseCsvRows(text, detectDelimiter(text)).filter(row => row.some(cell => cell.trim() !== ''));
+    if (rows.length === 0) {
+        throw new Error('[KeywordIngestion] Invariant Violation: keywords.csv is empty.');
+    }
+
+    const columns = mapColumns(rows[0]);
+    if (columns.locale === undefined || columns.keyword === undefined) {
+        throw new Error(`[KeywordIngestion] Invariant Violation: keywords.csv needs locale and keyword columns (found: ${rows[0].join(', ')}).`);
+    }
+
+    const records: KeywordRecord[] = [];
+    const warnings: string[] = [];
+
+    rows.slice(1).forEach((row, index) => {
+        const lineLabel = `Row ${index + 2}`;
+        const rawLocale = (row[columns.locale!] ?? '').trim();
+        const keyword = (row[columns.keyword!] ?? '').trim().replace(/\s+/g, ' ');
+
+        if (!keyword) {
+            warnings.push(`${lineLabel}: empty keyword skipped.`);
+            return;
+        }
+
+        const locale = resolveLocaleTag(rawLocale);
+        if (!locale) {
+            warnings.push(`${lineLabel}: unknown locale '${rawLocale}' for keyword '${keyword}' skipped.`);
+            return;
+        }
+
+        const rawVolume = columns.searchVolume !== undefined ? (row[columns.searchVolume] ?? '').trim() : '';
+        const searchVolume = parseVolume(rawVolume);
+        if (rawVolume && searchVolume === null) {
+            warnings.push(`${lineLabel}: unreadable search volume '${rawVolume}' treated as 0.`);
+        }
+
+        const rawIntent = columns.intent !== undefined ? (row[columns.intent] ?? '').trim().toLowerCase() : '';
+        records.push({
+            locale,
+            keyword,
+            searchVolume: searchVolume ?? 0,
+            intent: INTENT_ALIASES[rawIntent] ?? 'unknown'
+        });
+    });
+
+    return { records, warnings };
+}
+
+/**
+ * Groups records into ranked sets for the requested locales.
+ * Exact locale rows win; language-only rows (e.g. 'it') back-fill regional targets (e.g. 'it-IT').
+ */
+export function rankKeywordsByLocale(records: KeywordRecord[], targetLocales: Locale[]): KeywordIngestionResult {
+    const keywordsByLocale: Record<Locale, KeywordRecord[]> = {};
+    const warnings: string[] = [];
+    const targets = new Map<string, Locale>();
+
+    for (const target of targetLocales) {
+        const canonical = resolveLocaleTag(target);
+        if (canonical) targets.set(canonical, target);
+    }
+
+    for (const [canonical, target] of targets) {
+        const language = canonical.split('-')[0];
+        const exact = records.filter(r => r.locale === canonical);
+        const candidates = exact.length > 0 ? exact : records.filter(r => r.locale === language);
+
+        keywordsByLocale[target] = rank(candidates).map(record => ({ ...record, locale: target }));
+        if (candidates.length === 0) {
+            warnings.push(`No keywords found for target locale '${target}'.`);
+        }
+    }
+
+    const ignoredLocales = new Set(
+        records
+            .map(r => r.locale)
+            .filter(locale => !targets.has(locale) && ![...targets.keys()].some(t => t.split('-')[0] === locale))
+    );
+    ignoredLocales.forEach(locale => warnings.push(`Keywords for locale '${locale}' ignored: not a campaign target.`));
+
+    return { keywordsByLocale, warnings };
+}
+
+/**
+ * Loads keywords.csv from a local path or file:// URL.
+ * Remote sources are rejected: ingestion is local-first and side-effect free in the MVP.
+ */
+export class KeywordIngestionService {
+
+    public async ingest(source: string, targetLocales: Locale[]): Promise<KeywordIngestionResult> {
+        const content = await fs.readFile(this.resolveSource(source), 'utf8');
+        const parsed = parseKeywordsCsv(content);
+        const ranked = rankKeywordsByLocale(parsed.records, targetLocales);
+
+        return {
+            keywordsByLocale: ranked.keywordsByLocale,
+            warnings: [...parsed.warnings, ...ranked.warnings]
+        };
+    }
+
+    private resolveSource(source: string): string {
+        if (/^[a-z][a-z0-9+.-]*:\/\//i.test(source)) {
+            const url = new URL(source);
+            if (url.protocol !== 'file:') {
+                throw new Error(`[KeywordIngestion] Unsupported keyword source '${source}': only local paths and file:// URLs are ingested.`);
+            }
+            return fileURLToPath(url);
+        }
+        return path.resolve(process.cwd(), source);
+    }
+}
+
+// --- Helpers ---
+
+function rank(records: KeywordRecord[]): KeywordRecord[] {
+    const byKeyword = new Map<string, KeywordRecord>();
+    for (const record of records) {
+        const key = record.keyword.toLocaleLowerCase();
+        const existing = byKeyword.get(key);
+        if (!existing || record.searchVolume > existing.searchVolume) {
+            byKeyword.set(key, record);
+        }
+    }
+
+    return [...byKeyword.values()].sort((a, b) =>
+        b.searchVolume - a.searchVolume || INTENT_WEIGHT[b.intent] - INTENT_WEIGHT[a.intent]
+    );
+}
+
+function resolveLocaleTag(raw: string): Locale | null {
+    return resolveLocale(raw)?.tag ?? null;
+}
+
+function parseVolume(raw: string): number | null {
+    if (!raw) return null;
+    let compact = raw.toLowerCase().replace(/[\s'_]/g, '');
+    // With both separators the last one is the decimal mark ("1,200.5", "1.200,5"), the other groups thousands
+    if (compact.includes(',') && compact.includes('.')) {
+        const thousands = compact.lastIndexOf(',') > compact.lastIndexOf('.') ? '.' : ',';
+        compact = compact.split(thousands).join('');
+    }
+    // Without a suffix, one kind of separator followed by groups of exactly three digits groups thousands, as in
+    // most exports ("1,200", "1.200.000"); any other ',' or '.' is a decimal mark ("12.5", "12,5", "1,5k").
+    if (/^\d{1,3}([.,])\d{3}(?:\1\d{3})*$/.test(compact)) return Number(compact.replace(/[.,]/g, ''));
+
+    const match = compact.replace(',', '.').match(/^(\d+(?:\.\d+)?)(k|m)?$/);
+    if (!match) return null;
+
+    const multiplier = match[2] === 'm' ? 1_000_000 : match[2] === 'k' ? 1_000 : 1;
+    return Math.round(Number(match[1]) * multiplier);
+}
+
+function mapColumns(header: string[]): Partial<Record<keyof KeywordRecord, number>> {
+    const normalized = header.map(cell => cell.toLowerCase().replace(/[^a-z]/g, ''));
+    const columns: Partial<Record<keyof KeywordRecord, number>> = {};
+
+    (Object.keys(COLUMN_ALIASES) as Array<keyof KeywordRecord>).forEach(field => {
+        const index = normalized.findIndex(cell => COLUMN_ALIASES[field].includes(cell));
+        if (index >= 0) columns[field] = index;
+    });
+
+    return columns;
+}
+
+/**
+ * Picks the candidate delimiter that occurs most often (outside quotes) in the header line.
+ */
+function detectDelimiter(text: string): string {
+    const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+    let inQuotes = false;
+
+    for (const char of text) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && (char === '\n' || char === '\r')) break;
+        else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+    }
+
+    let best = ',';
+    for (const [delimiter, count] of counts) {
+        if (count > counts.get(best)!) best = delimiter;
+    }
+    return best;
+}
+
+/**
+ * RFC 4180 reader: quoted cells may contain delimiters, newlines and doubled quotes ("").
+ */
+function parseCsvRows(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
@@ -3,73 +3,129 @@ import {
     UIContentVariant,
     SEOOptimizedVariant,
     SEOMetadata,
+    SEOContext,
+    KeywordIngestionResult,
     Locale
 } from '../contracts/contracts';
+import { KeywordIngestionService } from './keyword-ingestion';
+import { SerpTruncationSettings, getSerpTruncationSettings, getSiteBaseUrl } from '../config/factory-config';
+import { buildHreflangMap } from './hreflang';
+import { buildStructuredData, findImageUrl, validateStructuredData } from './structured-data';
+import { SERP_LIMITS, composeForSerp } from './serp-truncation';
+import { requireLocale } from '../locale/locale-registry';
 
 /**
  * Module: SEO Semantic Agent
  * Purpose: Inject localized metadata, optimize for keywords, and generate valid SEO tags.
  * 
  * Friction Points Managed:
- * 1. Hreflang Complexity: Uses deterministic URL pattern generation to avoid expensive/complex cross-referencing.
- * 2. Metadata Limits: Enforces strict Hard Truncation (60/160 chars) to ensure SERP display validity.
- * 3. Keyword Cannibalization: Localized keyword stubs ensure unique targeting per language.
+ * 1. Hreflang Complexity: Links only the campaign's successful sibling variants, using deterministic URL patterns.
+ * 2. Metadata Limits: Titles and descriptions are fitted to SERP limits (60/160 graphemes, or estimated pixel width)
+ *    on sentence and word boundaries, keeping the primary keyword and brand name where possible.
+ * 3. Keyword Cannibalization: Ranked per-locale keyword sets (from keywords.csv) ensure unique targeting per language.
+ * 4. Rich Results: JSON-LD is a linked @graph built from the brief; a campaign schema that fails validation is
+ *    dropped with a warning rather than published.
  */
 export class SeoSemanticAgent {
 
-    private readonly MAX_TITLE_LENGTH = 60;
-    private readonly MAX_DESC_LENGTH = 160;
+    private readonly MAX_KEYWORDS_APPLIED = 5;
+    private readonly DEFAULT_CAMPAIGN_SLUG = 'campaign-mvc'; // Used when no project context is given
+
+    private keywordIngestion = new KeywordIngestionService();
+
+    constructor(private readonly serpMeasure: SerpTruncationSettings['measure'] = getSerpTruncationSettings().measure) { }
+
+    /**
+     * Campaign-level step: loads keywords.csv once and ranks keywords per target locale.
+     * The resulting sets are passed to optimizeSEO through SEOContext.keywords.
+     */
+    public async ingestKeywords(source: string, targetLocales: Locale[]): Promise<KeywordIngestionResult> {
+        return this.keywordIngestion.ingest(source, targetLocales);
+    }
 
     /**
      * Entry Point: Transform generic UI content into SEO-ready content.
      */
-    public async optimizeSEO(variant: UIContentVariant): Promise<SEOOptimizedVariant> {
+    public async optimizeSEO(variant: UIContentVariant, context: SEOContext = {}): Promise<SEOOptimizedVariant> {
         // 1. Validation
         if (!variant.locale || !variant.heroTitle) {
             throw new Error(`[SeoSemanticAgent] Invariant Violation: Invalid input variant for locale ${variant.locale}`);
         }
 
-        // 2. Fetch Context (Stubbed)
-        const keywords = await this.stubKeywordDatabase(variant.locale);
-        const primaryKeyword = keywords[0] || 'Brand';
+        // 2. Keyword Context (ranked upstream by the ingestion step)
+        const warnings: string[] = [];
+        const keywords = (context.keywords ?? []).slice(0, this.MAX_KEYWORDS_APPLIED).map(record => record.keyword);
+        const brandName = context.project?.payload.brandName;
+        let primaryKeyword = keywords[0];
+        if (!primaryKeyword) {
+            primaryKeyword = brandName || variant.heroTitle;
+            warnings.push(`No keywords available for locale ${variant.locale}; title falls back to '${primaryKeyword}'.`);
+        }
 
         // 3. Metadata Generation & Optimization
-        const seoMetadata = this.generateMetadata(variant, primaryKeyword);
+        const campaignSlug = context.project?.projectId ?? this.DEFAULT_CAMPAIGN_SLUG;
+        const siblingLocales = context.siblingLocales ?? [variant.locale];
+        const seoMetadata = this.generateMetadata(variant, primaryKeyword, campaignSlug, siblingLocales, context, warnings);
 
         // 4. Construct Output
         const optimizedVariant: SEOOptimizedVariant = {
             ...variant, // Spread original UI content
             seo: seoMetadata,
-            keywordsApplied: keywords
+            keywordsApplied: keywords,
+            warnings: warnings.length > 0 ? warnings : undefined
         };
 
         return optimizedVariant;
     }
 
     /**
-     * Core Logic: Generates metadata with strict truncation and pattern-based URLs.
+     * Core Logic: Generates metadata with SERP-aware truncation and pattern-based URLs.
      */
-    private generateMetadata(variant: UIContentVariant, keyword: string): SEOMetadata {
-        // Title Construction: "Hero Title | Keyword"
-        const rawTitle = `${variant.heroTitle} | ${keyword}`;
-        const title = this.truncate(rawTitle, this.MAX_TITLE_LENGTH);
+    private generateMetadata(
+        variant: UIContentVariant,
+        keyword: string,
+        campaignSlug: string,
+        siblingLocales: Locale[],
+        context: SEOContext,
+        warnings: string[]
+    ): SEOMetadata {
+        // Title Construction: "Hero Title | Keyword" (the hero title is shortened first)
+        const brief = context.project?.payload;
+        const fit = { locale: variant.locale, measure: this.serpMeasure, keep: [keyword, ...(brief?.brandName ? [brief.brandName] : [])] };
+        const title = composeForSerp([{ text: variant.heroTitle }, { text: keyword, keep: true }], ' | ', { ...fit, limit: SERP_LIMITS.title });
 
         // Description Construction: Body summary + Call to Action
-        const rawDesc = `${variant.bodyCopy.substring(0, 100)}... ${variant.ctaText}`;
-        const description = this.truncate(rawDesc, this.MAX_DESC_LENGTH);
+        const description = composeForSerp([{ text: variant.bodyCopy }, { text: variant.ctaText, keep: true }], ' ', { ...fit, limit: SERP_LIMITS.description });
 
         // URL Logic (Deterministic Pattern)
-        const canonicalUrl = this.stubUrlBuilder(variant.locale);
-        const hreflangMap = this.generateHreflangMap(); // In MVP, we generate a standard set
-
-        // Structured Data (JSON-LD)
-        const structuredData = {
-            "@context": "https://schema.org",
-            "@type": "WebPage",
-            "name": title,
-            "description": description,
-            "inLanguage": variant.locale
+        const languageTag = requireLocale(variant.locale).tag;
+        const canonicalUrl = this.buildMicrositeUrl(variant.locale, campaignSlug);
+        const hreflangMap = this.generateHreflangMap(campaignSlug, siblingLocales);
+
+        // Structured Data (JSON-LD @graph)
+        const page = {
+            siteUrl: getSiteBaseUrl(),
+            pageUrl: canonicalUrl,
+            languageTag,
+            title,
+            description,
+            heroTitle: variant.heroTitle,
+            brandName: brief?.brandName || undefined,
+            logoUrl: brief?.assets?.logoUrl
         };
+        let structuredData = buildStructuredData({ ...page, campaign: brief?.campaign });
+        let issues = validateStructuredData(structuredData);
+        if (issues.length > 0 && brief?.campaign) {
+            warnings.push(`Dropped the '${brief.campaign.type}' schema for locale ${variant.locale}: ${issues.map(issue => issue.message).join(' ')}`);
+            structuredData = buildStructuredData(page);
+            issues = validateStructuredData(structuredData);
+        }
+        if (issues.length > 0) {
+            throw new Error(`[SeoSemanticAgent] Invariant Violation: Invalid structured data for locale ${variant.locale}: ${issues.map(issue => issue.message).join(' ')}`);
+        }
+
+        // Social preview picture: the same campaign image or logo the published structured data carries
+        const ogImage = findImageUrl(structuredData);
 
         return {
             title,
@@ -77,8 +133,9 @@ export class SeoSemanticAgent {
             ogTags: {
                 'og:title': title,
                 'og:description': description,
-                'og:locale': variant.locale,
-                'og:url': canonicalUrl
+                'og:locale': languageTag,
+                'og:url': canonicalUrl,
+                ...(ogImage ? { 'og:image': ogImage } : {})
             },
             canonicalUrl,
             hreflang: hreflangMap,
@@ -86,57 +143,21 @@ export class SeoSemanticAgent {
         };
     }
 
-    /**
-     * Helper: Hard Truncation Logic (Friction Point Resolution)
-     * Ensures strings stay within SERP limits without exception.
-     */
-    private truncate(text: string, maxLength: number): string {
-        if (text.length <= maxLength) return text;
-        return text.substring(0, maxLength - 3) + '...';
-    }
-
     /**
      * Helper: Generates Hreflang map using deterministic patterns.
-     * Friction Point: Avoids database lookups for sibling pages.
+     * Friction Point: Avoids database lookups for sibling pages; the campaign's sibling locales arrive via SEOContext.
      */
-    private generateHreflangMap(): Record<Locale, string> {
-        // MVP: Assuming a fixed set of supported locales for specific campaign
-        // In real app, this might come from config usually passed in context
-        const supportedLocales: Locale[] = ['en-US', 'it-IT', 'fr-FR', 'es-ES', 'de-DE'];
-
-        const map: Record<Locale, string> = {};
-        for (const loc of supportedLocales) {
-            map[loc] = this.stubUrlBuilder(loc);
-        }
-        return map;
-    }
-
-    /**
-     * STUB: Keyword Database
-     * Returns localized keywords.
-     */
-    private async stubKeywordDatabase(locale: Locale): Promise<string[]> {
-        // Simulate async DB fetch
-        await new Promise(resolve => setTimeout(resolve, 20));
-
-        const keywordMap: Record<string, string[]> = {
-            'en-US': ['Best Villas', 'Luxury Living', 'Investment'],
-            'it-IT': ['Migliori Ville', 'Vita di Lusso', 'Investimenti'],
-            'fr-FR': ['Meilleures Villas', 'Vie de Luxe', 'Investissement'],
-            'es-ES': ['Mejores Villas', 'Vida de Lujo', 'Inversión'],
-            'de-DE': ['Besten Villen', 'Luxusleben', 'Investition']
-        };
-
-        return keywordMap[locale] || ['Luxury Real Estate'];
+    private generateHreflangMap(campaignSlug: string, siblingLocales: Locale[]): Record<Locale, string> {
+        return buildHreflangMap(siblingLocales.map(locale => ({ locale, url: this.buildMicrositeUrl(locale, campaignSlug) })));
     }
 
     /**
-     * STUB: URL Builder
-     * Deterministic URL generation.
+     * Helper: URL Builder
+     * Deterministic URL generation matching the Next.js route app/[locale]/[campaign].
      */
-    private stubUrlBuilder(locale: Locale): string {
-        // Pattern: https://microsite.com/{locale}/campaign
-        // Removing region code for cleaner URLs if needed, but keeping full locale for MVP strictness
-        return `https://microsite-factory.com/${locale}/campaign-mvc`;
+    private buildMicrositeUrl(locale: Locale, campaignSlug: string): string {
+        // Pattern: https://microsite.com/{locale}/{campaign}
+        // Keeping full locale for MVP strictness
+        return `${getSiteBaseUrl()}/${locale}/${encodeURIComponent(campaignSlug)}`;
     }
 }
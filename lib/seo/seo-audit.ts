@@ -0,0 +1,224 @@
+import {
+    Locale,
+    SEOOptimizedVariant,
+    SeoAuditCheck,
+    SeoAuditFinding,
+    SeoAuditReport,
+    SeoVariantAudit
+} from '../contracts/contracts';
+import { getSeoAuditSettings } from '../config/factory-config';
+import { resolveLocale } from '../locale/locale-registry';
+import { findImageUrl, findPageNode } from './structured-data';
+
+/**
+ * Module: SEO Audit
+ * Purpose: Score every SEOOptimizedVariant of a campaign before it is deployed and produce a machine-readable
+ * report with a pass/fail verdict.
+ *
+ * Friction Points Managed:
+ * 1. Blind Metadata: The SEO agent builds titles and descriptions mechanically; the audit checks that the primary
+ *    keyword survived into the title, description and body, and that hard truncation did not cut a word in half.
+ * 2. Cross-locale Duplicates: Identical or near-identical titles and descriptions across locales (e.g. untranslated
+ *    copy) are flagged on every locale involved.
+ * 3. Wrong-language Pages: Copy whose script or most frequent function words do not match the page's
+ *    `inLanguage` is flagged, without calling any external detection service.
+ * 4. Social Previews: An og:image must be an absolute URL, and a page is flagged for lacking one only when its
+ *    structured data carries a campaign image or logo the SEO agent could have used.
+ */
+
+const PENALTY: Record<SeoAuditFinding['severity'], number> = { error: 25, warning: 10 };
+
+// Share of distinct words two titles (or descriptions) must have in common to count as near-duplicates
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+// Function words per language; copy "reads as" the language whose words it uses most
+const FUNCTION_WORDS: Record<string, Set<string>> = {
+    en: new Set(['the', 'and', 'of', 'to', 'is', 'that', 'with', 'for', 'your', 'this', 'you', 'are', 'on', 'our', 'an']),
+    it: new Set(['il', 'lo', 'di', 'che', 'per', 'con', 'una', 'del', 'della', 'gli', 'sono', 'nel', 'alla', 'è', 'tuo']),
+    de: new Set(['der', 'die', 'das', 'und', 'ist', 'mit', 'für', 'den', 'ein', 'eine', 'zu', 'von', 'nicht', 'auf', 'ihr']),
+    fr: new Set(['le', 'les', 'et', 'des', 'une', 'est', 'pour', 'avec', 'dans', 'vous', 'du', 'au', 'votre', 'sur', 'qui']),
+    es: new Set(['el', 'los', 'las', 'y', 'que', 'una', 'es', 'para', 'con', 'por', 'del', 'su', 'al', 'tu', 'más']),
+    pt: new Set(['o', 'os', 'as', 'que', 'em', 'um', 'uma', 'para', 'com', 'do', 'da', 'não', 'ao', 'seu', 'sua']),
+    nl: new Set(['het', 'een', 'en', 'van', 'is', 'dat', 'met', 'voor', 'op', 'niet', 'zijn', 'je', 'te', 'uw', 'ook'])
+};
+const MIN_FUNCTION_WORDS = 3; // Fewer hits than this is too little text to judge
+
+// ISO 15924 codes that stand for several Unicode scripts
+const SCRIPT_ALIASES: Record<string, string[]> = {
+    Jpan: ['Hani', 'Hira', 'Kana'],
+    Kore: ['Hang', 'Hani'],
+    Hans: ['Hani'],
+    Hant: ['Hani']
+};
+
+export class SeoAuditor {
+
+    constructor(private readonly minScore: number = getSeoAuditSettings().minScore) { }
+
+    /**
+     * Audits the campaign's variants together (duplicates are only visible across locales).
+     */
+    public audit(variants: SEOOptimizedVariant[], auditedAt: Date = new Date()): SeoAuditReport {
+        const findings = new Map<Locale, SeoAuditFinding[]>(variants.map(variant => [variant.locale, this.auditVariant(variant)]));
+        this.findDuplicates(variants, 'DUPLICATE_TITLE', 'seo.title', variant => variant.seo.title, findings);
+        this.findDuplicates(variants, 'DUPLICATE_DESCRIPTION', 'seo.description', variant => variant.seo.description, findings);
+
+        const audits: SeoVariantAudit[] = variants.map(variant => {
+            const variantFindings = findings.get(variant.locale) ?? [];
+            const penalty = variantFindings.reduce((sum, finding) => sum + PENALTY[finding.severity], 0);
+            return { locale: variant.locale, score: Math.max(0, 100 - penalty), findings: variantFindings };
+        });
+
+        return {
+            auditedAt: auditedAt.toISOString(),
+            passed: audits.length > 0 && audits.every(audit => audit.score >= this.minScore && audit.findings.every(finding => finding.severity !== 'error')),
+            minScore: this.minScore,
+            score: audits.length > 0 ? Math.min(...audits.map(audit => audit.score)) : 0,
+            variants: audits
+        };
+    }
+
+    private auditVariant(variant: SEOOptimizedVariant): SeoAuditFinding[] {
+        return [
+            ...this.checkKeywordPlacement(variant),
+            ...this.checkTruncation(variant),
+            ...this.checkOgImage(variant),
+            ...this.checkLanguage(variant)
+        ];
+    }
+
+    private checkKeywordPlacement(variant: SEOOptimizedVariant): SeoAuditFinding[] {
+        const keyword = variant.keywordsApplied[0];
+        if (!keyword) {
+            return [{ check: 'KEYWORD_IN_TITLE', severity: 'warning', field: 'keywordsApplied', message: `No target keyword for ${variant.locale}; keyword placement could not be checked.` }];
+        }
+
+        const contains = (text: string) => normalize(text).includes(normalize(keyword));
+        const findings: SeoAuditFinding[] = [];
+        if (!contains(variant.seo.title)) {
+            findings.push({ check: 'KEYWORD_IN_TITLE', severity: 'error', field: 'seo.title', message: `Title does not contain the primary keyword '${keyword}'.` });
+        }
+        if (!contains(variant.seo.description)) {
+            findings.push({ check: 'KEYWORD_IN_DESCRIPTION', severity: 'warning', field: 'seo.description', message: `Description does not contain the primary keyword '${keyword}'.` });
+        }
+        if (!contains(`${variant.heroTitle} ${variant.bodyCopy}`)) {
+            findings.push({ check: 'KEYWORD_IN_BODY', severity: 'warning', field: 'bodyCopy', message: `Page copy does not contain the primary keyword '${keyword}'.` });
+        }
+        return findings;
+    }
+
+    /**
+     * A word right before an ellipsis that appears nowhere in the source copy was cut in half.
+     */
+    private checkTruncation(variant: SEOOptimizedVariant): SeoAuditFinding[] {
+        const sourceWords = new Set(words([variant.heroTitle, variant.bodyCopy, variant.ctaText, ...variant.keywordsApplied].join(' ')));
+        const fields: Array<[string, string]> = [['seo.title', variant.seo.title], ['seo.description', variant.seo.description]];
+
+        return fields.flatMap(([field, text]) => {
+            const cut = [...text.matchAll(/([\p{L}\p{N}]+)(?:\.\.\.|…)/gu)]
+                .map(match => match[1])
+                .find(word => !sourceWords.has(normalize(word)));
+            return cut
+                ? [{ check: 'TRUNCATED_MID_WORD' as const, severity: 'warning' as const, field, message: `${field === 'seo.title' ? 'Title' : 'Description'} is truncated mid-word ('${cut}…').` }]
+                : [];
+        });
+    }
+
+    private checkOgImage(variant: SEOOptimizedVariant): SeoAuditFinding[] {
+        const image = variant.seo.ogTags['og:image'];
+        if (image ? /^https?:\/\//i.test(image) : !findImageUrl(variant.seo.structuredData)) return [];
+        return [{
+            check: 'MISSING_OG_IMAGE',
+            severity: 'warning',
+            field: 'seo.ogTags.og:image',
+            message: image ? `og:image '${image}' is not an absolute URL.` : 'No og:image; social previews will have no picture.'
+        }];
+    }
+
+    /**
+     * Compares the copy against the page's `inLanguage`: by script first, then (for languages with a
+     * function-word list) by which language's function words the copy uses most.
+     */
+    private checkLanguage(variant: SEOOptimizedVariant): SeoAuditFinding[] {
+        const inLanguage = findPageNode(variant.seo.structuredData)?.inLanguage;
+        const declared = typeof inLanguage === 'string' ? inLanguage : variant.locale;
+        const info = resolveLocale(declared);
+        if (!info) return [];
+
+        const copy = `${variant.heroTitle} ${variant.bodyCopy} ${variant.ctaText}`;
+        const mismatch = (message: string): SeoAuditFinding[] => [{ check: 'LANGUAGE_MISMATCH', severity: 'error', field: 'bodyCopy', message }];
+
+        const scriptShare = shareInScript(copy, info.script);
+        if (scriptShare !== undefined && scriptShare < 0.5) {
+            return mismatch(`Copy is mostly not in the ${info.script} script expected for inLanguage '${declared}'.`);
+        }
+
+        const expected = FUNCTION_WORDS[info.language];
+        if (!expected) return [];
+        const tokens = words(copy);
+        const hits = (vocabulary: Set<string>) => tokens.filter(token => vocabulary.has(token)).length;
+        const expectedHits = hits(expected);
+        const [detected, detectedHits] = Object.entries(FUNCTION_WORDS)
+            .map(([language, vocabulary]) => [language, hits(vocabulary)] as const)
+            .sort((a, b) => b[1] - a[1])[0];
+
+        if (detected !== info.language && detectedHits >= MIN_FUNCTION_WORDS && detectedHits > expectedHits * 2) {
+            return mismatch(`Copy reads as '${detected}' but inLanguage is '${declared}'.`);
+        }
+        return [];
+    }
+
+    private findDuplicates(
+        variants: SEOOptimizedVariant[],
+        check: Extract<SeoAuditCheck, 'DUPLICATE_TITLE' | 'DUPLICATE_DESCRIPTION'>,
+        field: string,
+        read: (variant: SEOOptimizedVariant) => string,
+        findings: Map<Locale, SeoAuditFinding[]>
+    ): void {
+        const label = field === 'seo.title' ? 'Title' : 'Description';
+        const texts = variants.map(variant => ({ locale: variant.locale, normalized: normalize(read(variant)), words: new Set(words(read(variant))) }));
+
+        texts.forEach(text => {
+            const others = texts.filter(other => other.locale !== text.locale);
+            const identical = others.filter(other => other.normalized === text.normalized).map(other => other.locale);
+            const similar = others.filter(other => !identical.includes(other.locale) && similarity(text.words, other.words) >= NEAR_DUPLICATE_SIMILARITY).map(other => other.locale);
+
+            if (identical.length > 0) {
+                findings.get(text.locale)?.push({ check, severity: 'error', field, message: `${label} is identical to ${identical.join(', ')}.`, relatedLocales: identical });
+            } else if (similar.length > 0) {
+                findings.get(text.locale)?.push({ check, severity: 'warning', field, message: `${label} is nearly identical to ${similar.join(', ')}.`, relatedLocales: similar });
+            }
+        });
+    }
+}
+
+function normalize(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function words(text: string): string[] {
+    return normalize(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Jaccard index of two word sets
+function similarity(a: Set<string>, b: Set<string>): number {
+    const shared = [...a].filter(word => b.has(word)).length;
+    const union = a.size + b.size - shared;
+    return union === 0 ? 1 : shared / union;
+}
+
+/**
+ * Share of the letters in `text` that belong to the script; undefined when the script is unknown to the
+ * regex engine or the text has no letters.
+ */
+function shareInScript(text: string, script: string): number | undefined {
+    let pattern: RegExp;
+    try {
+        pattern = new RegExp((SCRIPT_ALIASES[script] ?? [script]).map(code => `\\p{Script=${code}}`).join('|'), 'u');
+    } catch {
+        return undefined;
+    }
+    const letters = text.match(/\p{L}/gu) ?? [];
+    if (letters.length === 0) return undefined;
+    return letters.filter(letter => pattern.test(letter)).length / letters.length;
+}
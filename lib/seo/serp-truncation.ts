@@ -0,0 +1,183 @@
+import { Locale } from '../contracts/contracts';
+import { SerpTruncationSettings } from '../config/factory-config';
+
+/**
+ * Module: SERP Truncation (SEO support)
+ * Purpose: Fit titles and descriptions into search result snippets without breaking words, grapheme clusters
+ * or the terms the page is optimized for.
+ *
+ * Friction Points Managed:
+ * 1. Broken Text: Cuts fall on sentence or word boundaries found by Intl.Segmenter, which also segments CJK and
+ *    Thai (no spaces between words); a single overlong word is cut between graphemes, never inside an emoji or
+ *    a combining sequence.
+ * 2. Pixel Limits: Search engines cut snippets by rendered width, not characters; widths can be estimated from
+ *    per-character classes (CJK is roughly twice as wide as Latin) instead of counting graphemes.
+ * 3. Lost Targeting: Kept parts (the primary keyword) survive shortening, and cuts that keep the keyword and
+ *    brand name in the text are preferred over longer ones that drop them.
+ */
+
+export interface SerpLimit {
+    maxLength: number; // Graphemes
+    maxWidthPx: number; // Estimated width on a desktop result page
+    fontSizePx: number;
+}
+
+// Desktop results: titles are set at ~20px and cut near 600px, snippets at ~14px and cut near 920px
+export const SERP_LIMITS: Record<'title' | 'description', SerpLimit> = {
+    title: { maxLength: 60, maxWidthPx: 600, fontSizePx: 20 },
+    description: { maxLength: 160, maxWidthPx: 920, fontSizePx: 14 }
+};
+
+export interface SerpTruncationOptions {
+    locale: Locale;
+    limit: SerpLimit;
+    measure?: SerpTruncationSettings['measure']; // Defaults to 'characters'
+    keep?: string[]; // Terms (primary keyword, brand name) a cut should keep when it can
+}
+
+export interface SerpTextPart {
+    text: string;
+    keep?: boolean; // Never shortened or dropped
+}
+
+// Typographic ellipsis per language; Chinese uses a double one
+const ELLIPSIS: Record<string, string> = { zh: '……' };
+const DEFAULT_ELLIPSIS = '…';
+
+// A sentence cut (no ellipsis) is preferred while it keeps at least this share of the best word cut
+const SENTENCE_CUT_MIN_SHARE = 0.6;
+
+// Approximate advance widths in em for a sans-serif SERP font, by character class
+const WIDTH_CLASSES: Array<[RegExp, number]> = [
+    [/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303f\uff01-\uff60]/u, 1],
+    [/\p{Extended_Pictographic}/u, 1.15],
+    [/\s/u, 0.28],
+    [/[iljI.,:;'!|()[\]{}]/u, 0.28],
+    [/[frt"-]/u, 0.33],
+    [/[mwMW@%]/u, 0.83],
+    [/[\p{Lu}]/u, 0.67],
+    [/[\p{N}]/u, 0.56]
+];
+const DEFAULT_WIDTH = 0.5;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Shortens `text` to the limit on a sentence boundary, or on a word boundary with an ellipsis.
+ * Returns the text unchanged when it fits, and an empty string when not even one grapheme does.
+ */
+export function truncateForSerp(text: string, options: SerpTruncationOptions): string {
+    const fits = fitsLimit(options);
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    return fits(normalized) ? normalized : cutToFit(normalized, options.locale, fits, options.keep ?? []);
+}
+
+/**
+ * Joins parts with `separator` and fits the result to the limit: parts that are not kept are shortened from the
+ * first one on, and dropped when they cannot be shortened enough. Falls back to truncating the joined text when
+ * the kept parts alone do not fit.
+ */
+export function composeForSerp(parts: SerpTextPart[], separator: string, options: SerpTruncationOptions): string {
+    const fits = fitsLimit(options);
+    const keep = options.keep ?? [];
+    const texts = parts.map(part => part.text.replace(/\s+/g, ' ').trim());
+    const join = (candidate: string[]) => candidate.filter(text => text.length > 0).join(separator);
+    if (fits(join(texts))) return join(texts);
+
+    const current = [...texts];
+    for (let index = 0; index < parts.length; index++) {
+        if (parts[index].keep || !current[index]) continue;
+        const without = (value: string) => join(current.map((text, i) => (i === index ? value : text)));
+        if (fits(without(''))) {
+            current[index] = cutToFit(current[index], options.locale, value => fits(without(value)), keep);
+            return join(current);
+        }
+        current[index] = ''; // Not even the rest fits with this part in it
+    }
+    return truncateForSerp(join(texts), options);
+}
+
+/**
+ * Estimated rendered width of `text` in pixels, one advance per grapheme cluster.
+ */
+export function estimateSerpWidth(text: string, fontSizePx: number, locale: Locale = 'en'): number {
+    const em = graphemes(text, locale).reduce((sum, grapheme) => {
+        const width = WIDTH_CLASSES.find(([pattern]) => pattern.test(grapheme))?.[1] ?? DEFAULT_WIDTH;
+        return sum + width;
+    }, 0);
+    return Math.round(em * fontSizePx);
+}
+
+export function graphemeLength(text: string, locale: Locale = 'en'): number {
+    return graphemes(text, locale).length;
+}
+
+function fitsLimit(options: SerpTruncationOptions): (text: string) => boolean {
+    const { limit, locale } = options;
+    return options.measure === 'pixels'
+        ? text => estimateSerpWidth(text, limit.fontSizePx, locale) <= limit.maxWidthPx
+        : text => graphemeLength(text, locale) <= limit.maxLength;
+}
+
+/**
+ * The best cut of `text` that satisfies `fits`: the one keeping the most `keep` terms, then a whole-sentence cut
+ * unless it is much shorter than the best word cut, then the longest. Words longer than the limit are cut by grapheme.
+ */
+function cutToFit(text: string, locale: Locale, fits: (text: string) => boolean, keep: string[]): string {
+    const ellipsis = ELLIPSIS[new Intl.Locale(locale).language] ?? DEFAULT_ELLIPSIS;
+    const kept = (candidate: string) => keep.filter(term => term && contains(text, term) && contains(candidate, term)).length;
+    const best = (candidates: string[]) => candidates
+        .filter(fits)
+        .sort((a, b) => kept(b) - kept(a) || b.length - a.length)[0];
+
+    const sentenceCut = best(boundaries(text, locale, 'sentence').map(end => text.slice(0, end).trim()));
+    const wordCut = best(boundaries(text, locale, 'word').map(end => withEllipsis(text.slice(0, end), ellipsis)));
+
+    if (sentenceCut && (!wordCut || (kept(sentenceCut) >= kept(wordCut) && sentenceCut.length >= wordCut.length * SENTENCE_CUT_MIN_SHARE))) {
+        return sentenceCut;
+    }
+    if (wordCut) return wordCut;
+
+    let prefix = '';
+    for (const grapheme of graphemes(text, locale)) {
+        if (!fits(withEllipsis(prefix + grapheme, ellipsis))) break;
+        prefix += grapheme;
+    }
+    return prefix ? withEllipsis(prefix, ellipsis) : '';
+}
+
+/**
+ * End offsets of the sentences (or words) of `text`, excluding the end of the text itself.
+ */
+function boundaries(text: string, locale: Locale, granularity: 'sentence' | 'word'): number[] {
+    const ends: number[] = [];
+    for (const segment of segmenter(locale, granularity).segment(text)) {
+        const end = segment.index + segment.segment.length;
+        if (end < text.length && (granularity === 'sentence' || segment.isWordLike)) ends.push(end);
+    }
+    return ends;
+}
+
+// Trailing spaces, dashes and sentence punctuation would sit oddly before an ellipsis
+function withEllipsis(prefix: string, ellipsis: string): string {
+    const trimmed = prefix.replace(/[\s\p{Pd}\p{Po}]+$/u, '');
+    return trimmed ? `${trimmed}${ellipsis}` : '';
+}
+
+function graphemes(text: string, locale: Locale): string[] {
+    return [...segmenter(locale, 'grapheme').segment(text)].map(segment => segment.segment);
+}
+
+function segmenter(locale: Locale, granularity: 'grapheme' | 'word' | 'sentence'): Intl.Segmenter {
+    const key = `${locale}:${granularity}`;
+    let cached = segmenters.get(key);
+    if (!cached) {
+        cached = new Intl.Segmenter(locale, { granularity });
+        segmenters.set(key, cached);
+    }
+    return cached;
+}
+
+function contains(text: string, term: string): boolean {
+    return text.toLocaleLowerCase().includes(term.toLocaleLowerCase());
+}
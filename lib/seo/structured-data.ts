@@ -0,0 +1,254 @@
+import { CampaignDetails } from '../contracts/contracts';
+
+/**
+ * Module: Structured Data (SEO support)
+ * Purpose: Build each page's JSON-LD as one linked `@graph` (Organization, WebSite, WebPage, BreadcrumbList and
+ * an optional campaign-type schema) and check it against required-property rules before it is published.
+ *
+ * Friction Points Managed:
+ * 1. Disconnected Entities: Nodes reference each other by `@id` (publisher, isPartOf, breadcrumb, mainEntity),
+ *    so search engines read one brand, one site and one page instead of unrelated fragments.
+ * 2. Campaign Types: RealEstateListing and FAQPage are WebPage subtypes and replace the page's `@type`;
+ *    Product and Event are separate nodes, linked as the page's mainEntity.
+ * 3. Invalid Rich Results: Missing required properties and dangling `@id` references are reported per node,
+ *    so the caller can drop the campaign schema instead of publishing markup that search engines reject.
+ */
+
+export const SCHEMA_CONTEXT = 'https://schema.org';
+
+export interface JsonLdNode {
+    '@type'?: string;
+    '@id'?: string;
+    [property: string]: unknown;
+}
+
+export interface JsonLdGraph {
+    '@context': typeof SCHEMA_CONTEXT;
+    '@graph': JsonLdNode[];
+}
+
+export interface StructuredDataPage {
+    siteUrl: string;
+    pageUrl: string;
+    languageTag: string;
+    title: string;
+    description: string;
+    heroTitle: string;
+    brandName?: string;
+    logoUrl?: string; // Only absolute http(s) URLs are published
+    campaign?: CampaignDetails;
+}
+
+export interface StructuredDataIssue {
+    node: string; // '@id' of the top-level node, or its '@type' when it has none
+    path: string; // Property path inside the node, e.g. 'offers.priceCurrency'
+    code: 'MISSING_PROPERTY' | 'DANGLING_REFERENCE';
+    message: string;
+}
+
+// Properties a node must carry, by '@type' (Google rich-result requirements, plus the links this graph relies on)
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+    Organization: ['name', 'url'],
+    WebSite: ['name', 'url'],
+    WebPage: ['name', 'url', 'inLanguage', 'isPartOf'],
+    RealEstateListing: ['name', 'url', 'inLanguage', 'isPartOf', 'about'],
+    FAQPage: ['name', 'url', 'inLanguage', 'isPartOf', 'mainEntity'],
+    BreadcrumbList: ['itemListElement'],
+    ListItem: ['position', 'name', 'item'],
+    Product: ['name', 'offers'],
+    Offer: ['price', 'priceCurrency'],
+    Event: ['name', 'startDate', 'location'],
+    Place: ['address'],
+    Question: ['name', 'acceptedAnswer'],
+    Answer: ['text']
+};
+
+const PAGE_TYPES = new Set(['WebPage', 'RealEstateListing', 'FAQPage']);
+
+const ATTENDANCE_MODES: Record<NonNullable<Extract<CampaignDetails, { type: 'event' }>['attendanceMode']>, string> = {
+    offline: 'OfflineEventAttendanceMode',
+    online: 'OnlineEventAttendanceMode',
+    mixed: 'MixedEventAttendanceMode'
+};
+
+/**
+ * Builds the page's JSON-LD graph. Without a brand name the Organization (and every reference to it) is left out.
+ */
+export function buildStructuredData(page: StructuredDataPage): JsonLdGraph {
+    const siteUrl = page.siteUrl.replace(/\/+$/, '');
+    const ids = {
+        organization: `${siteUrl}/#organization`,
+        website: `${siteUrl}/#website`,
+        webpage: `${page.pageUrl}#webpage`,
+        breadcrumb: `${page.pageUrl}#breadcrumb`,
+        mainEntity: `${page.pageUrl}#${page.campaign?.type ?? 'main'}`
+    };
+    const ref = (id: string) => ({ '@id': id });
+    const publisher = page.brandName ? { publisher: ref(ids.organization) } : {};
+
+    const graph: JsonLdNode[] = [];
+    if (page.brandName) {
+        graph.push({
+            '@type': 'Organization',
+            '@id': ids.organization,
+            name: page.brandName,
+            url: `${siteUrl}/`,
+            ...(isAbsoluteHttpUrl(page.logoUrl) ? { logo: { '@type': 'ImageObject', url: page.logoUrl } } : {})
+        });
+    }
+    graph.push({
+        '@type': 'WebSite',
+        '@id': ids.website,
+        name: page.brandName ?? page.heroTitle,
+        url: `${siteUrl}/`,
+        ...publisher
+    });
+
+    const webpage: JsonLdNode = {
+        '@type': 'WebPage',
+        '@id': ids.webpage,
+        url: page.pageUrl,
+        name: page.title,
+        description: page.description,
+        inLanguage: page.languageTag,
+        isPartOf: ref(ids.website),
+        breadcrumb: ref(ids.breadcrumb),
+        ...(page.brandName ? { about: ref(ids.organization) } : {})
+    };
+    graph.push(webpage);
+
+    graph.push({
+        '@type': 'BreadcrumbList',
+        '@id': ids.breadcrumb,
+        itemListElement: [
+            { '@type': 'ListItem', position: 1, name: page.brandName ?? 'Home', item: `${siteUrl}/` },
+            { '@type': 'ListItem', position: 2, name: page.heroTitle, item: page.pageUrl }
+        ]
+    });
+
+    const campaign = page.campaign;
+    switch (campaign?.type) {
+        case 'product':
+            webpage.mainEntity = ref(ids.mainEntity);
+            graph.push({
+                '@type': 'Product',
+                '@id': ids.mainEntity,
+                name: campaign.name ?? page.heroTitle,
+                description: page.description,
+                ...(campaign.sku ? { sku: campaign.sku } : {}),
+                ...(campaign.imageUrl ? { image: campaign.imageUrl } : {}),
+                ...(page.brandName ? { brand: { '@type': 'Brand', name: page.brandName } } : {}),
+                offers: offer(campaign.price, campaign.currency, page.pageUrl, campaign.availability ?? 'InStock')
+            });
+            break;
+        case 'real-estate':
+            webpage['@type'] = 'RealEstateListing';
+            webpage.about = { '@type': 'Place', address: campaign.address };
+            if (campaign.datePosted) webpage.datePosted = campaign.datePosted;
+            if (campaign.price !== undefined) webpage.offers = offer(campaign.price, campaign.currency, page.pageUrl);
+            break;
+        case 'event':
+            webpage.mainEntity = ref(ids.mainEntity);
+            graph.push({
+                '@type': 'Event',
+                '@id': ids.mainEntity,
+                name: campaign.name ?? page.heroTitle,
+                description: page.description,
+                startDate: campaign.startDate,
+                ...(campaign.endDate ? { endDate: campaign.endDate } : {}),
+                eventAttendanceMode: `${SCHEMA_CONTEXT}/${ATTENDANCE_MODES[campaign.attendanceMode ?? 'offline']}`,
+                eventStatus: `${SCHEMA_CONTEXT}/EventScheduled`,
+                location: { '@type': 'Place', name: campaign.venue, address: campaign.address },
+                ...(page.brandName ? { organizer: ref(ids.organization) } : {})
+            });
+            break;
+        case 'faq':
+            webpage['@type'] = 'FAQPage';
+            webpage.mainEntity = campaign.questions.map(entry => ({
+                '@type': 'Question',
+                name: entry.question,
+                acceptedAnswer: { '@type': 'Answer', text: entry.answer }
+            }));
+            break;
+    }
+
+    return { '@context': SCHEMA_CONTEXT, '@graph': graph };
+}
+
+/**
+ * Checks every typed node (nested ones included) for its required properties, and every `@id`-only
+ * object for a matching node in the graph. An empty result means the graph can be published.
+ */
+export function validateStructuredData(graph: JsonLdGraph): StructuredDataIssue[] {
+    const issues: StructuredDataIssue[] = [];
+    const ids = new Set(graph['@graph'].map(node => node['@id']).filter((id): id is string => !!id));
+
+    const visit = (value: unknown, node: string, path: string) => {
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => visit(item, node, `${path}[${index}]`));
+            return;
+        }
+        if (!value || typeof value !== 'object') return;
+
+        const object = value as JsonLdNode;
+        const keys = Object.keys(object);
+        const at = (property: string) => (path ? `${path}.${property}` : property);
+
+        if (keys.length === 1 && typeof object['@id'] === 'string') {
+            if (!ids.has(object['@id'])) {
+                issues.push({ node, path, code: 'DANGLING_REFERENCE', message: `${node}: ${path} references '${object['@id']}', which is not in the graph.` });
+            }
+            return;
+        }
+        for (const property of REQUIRED_PROPERTIES[object['@type'] ?? ''] ?? []) {
+            if (isEmpty(object[property])) {
+                issues.push({ node, path: at(property), code: 'MISSING_PROPERTY', message: `${node}: ${object['@type']} requires '${property}'.` });
+            }
+        }
+        keys.filter(key => !key.startsWith('@')).forEach(key => visit(object[key], node, at(key)));
+    };
+
+    graph['@graph'].forEach(node => visit(node, node['@id'] ?? node['@type'] ?? 'node', ''));
+    return issues;
+}
+
+/**
+ * The page node of a variant's structured data: the WebPage (or subtype) of a graph, or a legacy flat object.
+ */
+export function findPageNode(structuredData: object): JsonLdNode | undefined {
+    const graph = (structuredData as Partial<JsonLdGraph>)['@graph'];
+    if (!Array.isArray(graph)) return structuredData as JsonLdNode;
+    return graph.find(node => PAGE_TYPES.has(node['@type'] ?? ''));
+}
+
+/**
+ * The picture a page can be previewed with: the campaign's image, else the brand logo (absolute http(s) URLs only).
+ */
+export function findImageUrl(structuredData: object): string | undefined {
+    const graph = (structuredData as Partial<JsonLdGraph>)['@graph'];
+    const graphNodes: JsonLdNode[] = Array.isArray(graph) ? graph : [structuredData as JsonLdNode];
+    const images = graphNodes.map(node => node.image);
+    const logos = graphNodes.map(node => (node.logo as JsonLdNode | undefined)?.url);
+    return [...images, ...logos].find((url): url is string => typeof url === 'string' && isAbsoluteHttpUrl(url));
+}
+
+function offer(price: number, currency: string | undefined, url: string, availability?: string): JsonLdNode {
+    return {
+        '@type': 'Offer',
+        price,
+        priceCurrency: currency,
+        url,
+        ...(availability ? { availability: `${SCHEMA_CONTEXT}/${availability}` } : {})
+    };
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null) return true;
+    if (typeof value === 'string') return value.trim().length === 0;
+    if (typeof value === 'number') return !Number.isFinite(value);
+    return Array.isArray(value) && value.length === 0;
+}
+
+function isAbsoluteHttpUrl(url: string | undefined): url is string {
+    return !!url && /^https?:\/\//i.test(url);
+}
@@ -0,0 +1,123 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { IWorkflowStateStore, WorkflowState } from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+
+/**
+ * Module: Workflow State Store
+ * Purpose: Persist WorkflowState snapshots so a pipeline run can be inspected and resumed.
+ *
+ * Friction Points Managed:
+ * 1. State Persistence Pattern: Every stage writes its slice here instead of only passing data in memory.
+ * 2. Swap-ready Backends: The in-memory store serves tests, the file store survives process crashes,
+ *    and a Supabase adapter only needs to implement IWorkflowStateStore.
+ * 3. Aliasing: Snapshots are cloned on read and write, so callers cannot mutate persisted state by accident.
+ * 4. Liveness: Running stages write a heartbeat every HEARTBEAT_INTERVAL_MS; a run whose heartbeat is older than
+ *    STALLED_AFTER_MS lost its process. Heartbeats and stage writes overlap, so writes of one run are serialized.
+ */
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const STALLED_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS; // Three missed heartbeats
+
+const RUN_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+function assertValidRunId(id: string): void {
+    if (!id || !RUN_ID_PATTERN.test(id)) {
+        throw new Error(`[WorkflowStateStore] Invariant Violation: Invalid workflow id "${id}"`);
+    }
+}
+
+// File stores of one process share their queues: the pipeline, its heartbeat and the factory UI each open their own store
+const fileQueues = new Map<string, Promise<unknown>>();
+
+function byLastUpdatedDesc(a: WorkflowState, b: WorkflowState): number {
+    return b.lastUpdated.localeCompare(a.lastUpdated);
+}
+
+/**
+ * Volatile backend: fast, isolated per process. Default for the MVP test loop.
+ */
+export class InMemoryWorkflowStateStore implements IWorkflowStateStore {
+
+    private readonly states = new Map<string, WorkflowState>();
+
+    public async load(id: string): Promise<WorkflowState | null> {
+        const state = this.states.get(id);
+        return state ? structuredClone(state) : null;
+    }
+
+    public async save(state: WorkflowState): Promise<void> {
+        assertValidRunId(state.id);
+        this.states.set(state.id, structuredClone(state));
+    }
+
+    public async list(): Promise<WorkflowState[]> {
+        return Array.from(this.states.values(), state => structuredClone(state)).sort(byLastUpdatedDesc);
+    }
+}
+
+/**
+ * Durable backend: one JSON document per run on the local filesystem.
+ * Writes go through a temp file + rename so a crash mid-write never leaves a truncated snapshot.
+ */
+export class FileWorkflowStateStore implements IWorkflowStateStore {
+
+    constructor(private readonly directory: string = resolveDataPath('runs')) { }
+
+    public async load(id: string): Promise<WorkflowState | null> {
+        assertValidRunId(id);
+        try {
+            const raw = await fs.readFile(this.filePath(id), 'utf8');
+            return JSON.parse(raw) as WorkflowState;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    public async save(state: WorkflowState): Promise<void> {
+        assertValidRunId(state.id);
+        const snapshot = JSON.stringify(state, null, 2); // Taken now: writes land in call order
+        const target = this.filePath(state.id);
+        await this.serialize(target, async () => {
+            await fs.mkdir(this.directory, { recursive: true });
+            const tempFile = `${target}.${process.pid}.tmp`;
+            await fs.writeFile(tempFile, snapshot, 'utf8');
+            await fs.rename(tempFile, target);
+        });
+    }
+
+    public async list(): Promise<WorkflowState[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const states = await Promise.all(
+            entries
+                .filter(entry => entry.endsWith('.json'))
+                .map(entry => this.load(entry.slice(0, -'.json'.length)))
+        );
+
+        return states.filter((state): state is WorkflowState => state !== null).sort(byLastUpdatedDesc);
+    }
+
+    private serialize<T>(file: string, task: () => Promise<T>): Promise<T> {
+        const previous = fileQueues.get(file) ?? Promise.resolve();
+        const next = previous.then(task, task);
+        const settled = next.catch(() => undefined);
+        fileQueues.set(file, settled);
+        // The last queued write drops the entry, so a long-running process keeps none for finished runs
+        void settled.then(() => {
+            if (fileQueues.get(file) === settled) fileQueues.delete(file);
+        });
+        return next;
+    }
+
+    private filePath(id: string): string {
+        return path.join(this.directory, `${id}.json`);
+    }
+}
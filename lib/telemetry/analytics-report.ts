@@ -0,0 +1,108 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+    AnalyticsReport,
+    ConversionMetrics,
+    ITelemetryEventStore,
+    LocaleAnalytics,
+    TelemetryEvent
+} from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+import { FileTelemetryEventStore } from './event-store';
+
+/**
+ * Module: Analytics Report
+ * Purpose: Aggregate stored telemetry into per-locale (and per-variant) conversion rates, written as analytics.json.
+ *
+ * Friction Points Managed:
+ * 1. Comparable Markets: Rates are normalized by page views, so small and large locales can be compared.
+ * 2. Re-runnable: The job recomputes from raw events every time; there is no incremental state to drift.
+ */
+
+interface Counts {
+    pageViews: number;
+    ctaClicks: number;
+    conversions: number;
+}
+
+function emptyCounts(): Counts {
+    return { pageViews: 0, ctaClicks: 0, conversions: 0 };
+}
+
+function count(counts: Counts, event: TelemetryEvent): void {
+    if (event.type === 'page_view') counts.pageViews++;
+    else if (event.type === 'cta_click') counts.ctaClicks++;
+    else if (event.type === 'conversion') counts.conversions++;
+}
+
+function toMetrics(counts: Counts): ConversionMetrics {
+    return {
+        ...counts,
+        ctaClickRate: rate(counts.ctaClicks, counts.pageViews),
+        conversionRate: rate(counts.conversions, counts.pageViews)
+    };
+}
+
+function rate(numerator: number, pageViews: number): number {
+    return pageViews === 0 ? 0 : Math.round((numerator / pageViews) * 10_000) / 10_000;
+}
+
+/**
+ * Pure aggregation of one deployment's events.
+ */
+export function buildAnalyticsReport(deploymentId: string, events: TelemetryEvent[], generatedAt: string = new Date().toISOString()): AnalyticsReport {
+    const totals = emptyCounts();
+    const byLocale = new Map<string, { counts: Counts; variants: Map<string, Counts> }>();
+
+    for (const event of events) {
+        count(totals, event);
+
+        let locale = byLocale.get(event.locale);
+        if (!locale) {
+            locale = { counts: emptyCounts(), variants: new Map() };
+            byLocale.set(event.locale, locale);
+        }
+        count(locale.counts, event);
+
+        let variant = locale.variants.get(event.variant);
+        if (!variant) {
+            variant = emptyCounts();
+            locale.variants.set(event.variant, variant);
+        }
+        count(variant, event);
+    }
+
+    const locales: Record<string, LocaleAnalytics> = {};
+    for (const [locale, { counts, variants }] of [...byLocale].sort(([a], [b]) => a.localeCompare(b))) {
+        locales[locale] = {
+            ...toMetrics(counts),
+            variants: Object.fromEntries([...variants].map(([variant, c]) => [variant, toMetrics(c)]))
+        };
+    }
+
+    return { deploymentId, generatedAt, totals: toMetrics(totals), locales };
+}
+
+/**
+ * Aggregation job: reads a deployment's raw events and (re)writes {outputDir}/{deploymentId}/analytics.json.
+ */
+export class AnalyticsAggregationJob {
+
+    constructor(
+        private readonly store: ITelemetryEventStore = new FileTelemetryEventStore(),
+        private readonly outputDirectory: string = resolveDataPath('analytics')
+    ) { }
+
+    public async run(deploymentId: string): Promise<AnalyticsReport> {
+        const report = buildAnalyticsReport(deploymentId, await this.store.read(deploymentId));
+
+        const directory = path.join(this.outputDirectory, deploymentId);
+        await fs.mkdir(directory, { recursive: true });
+        const target = path.join(directory, 'analytics.json');
+        const tempFile = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify(report, null, 2), 'utf8');
+        await fs.rename(tempFile, target);
+
+        return report;
+    }
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ITelemetryEventStore, TelemetryEvent } from '../contracts/contracts';
+import { resolveDataPath } from '../config/factory-config';
+
+/**
+ * Module: Telemetry Event Store
+ * Purpose: Keep raw conversion events per deployment until the aggregation job turns them into analytics.json.
+ *
+ * Friction Points Managed:
+ * 1. At-least-once Delivery: Beacons retry, so every append deduplicates on eventId.
+ * 2. Concurrent Requests: Appends for one deployment are serialized, so two batches cannot both accept the same event.
+ * 3. Append-only Files: NDJSON keeps writes cheap and a torn last line only loses that line.
+ */
+
+const DEPLOYMENT_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+function assertValidDeploymentId(id: string): void {
+    if (!id || !DEPLOYMENT_ID_PATTERN.test(id)) {
+        throw new Error(`[TelemetryEventStore] Invariant Violation: Invalid deployment id "${id}"`);
+    }
+}
+
+/**
+ * Events whose id is not in `known` (including repeats inside the batch); their ids are added to `known`.
+ */
+function takeUnseen(events: TelemetryEvent[], known: Set<string>): TelemetryEvent[] {
+    const fresh: TelemetryEvent[] = [];
+    for (const event of events) {
+        if (known.has(event.eventId)) continue;
+        known.add(event.eventId);
+        fresh.push(event);
+    }
+    return fresh;
+}
+
+function parseNdjson(raw: string): TelemetryEvent[] {
+    const events: TelemetryEvent[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            events.push(JSON.parse(line) as TelemetryEvent);
+        } catch {
+            // Torn write from a crash: skip the partial line
+        }
+    }
+    return events;
+}
+
+/**
+ * Volatile backend for tests.
+ */
+export class InMemoryTelemetryEventStore implements ITelemetryEventStore {
+
+    private readonly events = new Map<string, TelemetryEvent[]>();
+
+    public async appendUnique(deploymentId: string, events: TelemetryEvent[]): Promise<TelemetryEvent[]> {
+        assertValidDeploymentId(deploymentId);
+        const stored = this.events.get(deploymentId) ?? [];
+        const known = new Set(stored.map(event => event.eventId));
+
+        const fresh = takeUnseen(events, known);
+        this.events.set(deploymentId, [...stored, ...fresh.map(event => structuredClone(event))]);
+        return fresh;
+    }
+
+    public async read(deploymentId: string): Promise<TelemetryEvent[]> {
+        return (this.events.get(deploymentId) ?? []).map(event => structuredClone(event));
+    }
+}
+
+/**
+ * Durable backend: one NDJSON file per deployment.
+ * Known event ids are loaded once per deployment and kept in memory for deduplication.
+ */
+export class FileTelemetryEventStore implements ITelemetryEventStore {
+
+    private readonly knownIds = new Map<string, Set<string>>();
+    private readonly queues = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly directory: string = resolveDataPath('telemetry')) { }
+
+    public async appendUnique(deploymentId: string, events: TelemetryEvent[]): Promise<TelemetryEvent[]> {
+        assertValidDeploymentId(deploymentId);
+        return this.serialize(deploymentId, async () => {
+            const known = await this.loadKnownIds(deploymentId);
+            const fresh = takeUnseen(events, known);
+            if (fresh.length === 0) return fresh;
+
+            await fs.mkdir(this.directory, { recursive: true });
+            const lines = fresh.map(event => JSON.stringify(event)).join('\n') + '\n';
+            await fs.appendFile(this.filePath(deploymentId), lines, 'utf8');
+            return fresh;
+        });
+    }
+
+    public async read(deploymentId: string): Promise<TelemetryEvent[]> {
+        assertValidDeploymentId(deploymentId);
+        return parseNdjson(await this.readRaw(deploymentId));
+    }
+
+    private async readRaw(deploymentId: string): Promise<string> {
+        try {
+            return await fs.readFile(this.filePath(deploymentId), 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+            throw error;
+        }
+    }
+
+    private async loadKnownIds(deploymentId: string): Promise<Set<string>> {
+        let known = this.knownIds.get(deploymentId);
+        if (!known) {
+            const raw = await this.readRaw(deploymentId);
+            if (raw && !raw.endsWith('\n')) {
+                // Terminate a torn last line so the next append starts on a line of its own
+                await fs.appendFile(this.filePath(deploymentId), '\n', 'utf8');
+            }
+            known = new Set(parseNdjson(raw).map(event => event.eventId));
+            this.knownIds.set(deploymentId, known);
+        }
+        return known;
+    }
+
+    private serialize<T>(deploymentId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(deploymentId) ?? Promise.resolve();
+        const next = previous.then(task, task);
+        this.queues.set(deploymentId, next.catch(() => undefined));
+        return next;
+    }
+
+    private filePath(deploymentId: string): string {
+        return path.join(this.directory, `${deploymentId}.ndjson`);
+    }
+}
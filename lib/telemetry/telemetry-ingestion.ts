@@ -0,0 +1,155 @@
+import {
+    ITelemetryEventStore,
+    TelemetryEvent,
+    TelemetryEventType,
+    TelemetryIngestResult,
+    ValidationIssue
+} from '../contracts/contracts';
+import { TelemetryIngestionError } from '../contracts/errors';
+import { isTrackingAllowed, resolveConsentState } from '../deployment/middleware-policy';
+import { MicrositeRepository } from '../rendering/microsite-repository';
+import { FileTelemetryEventStore } from './event-store';
+
+/**
+ * Module: Telemetry Ingestion
+ * Purpose: Accept page-view, CTA-click and conversion events for a deployment (the endpoint behind telemetryEndpoint).
+ *
+ * Friction Points Managed:
+ * 1. Untrusted Input: Events are validated one by one; bad events are reported, good ones in the same batch still land.
+ * 2. Consent: Events from visitors whose privacy regime does not allow tracking (no opt-in, or an opt-out objection)
+ *    are dropped, never stored.
+ * 3. Retries: Duplicate eventIds are counted and ignored (see TelemetryEventStore).
+ */
+
+export const MAX_EVENTS_PER_BATCH = 100;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const EVENT_TYPES: TelemetryEventType[] = ['page_view', 'cta_click', 'conversion'];
+const EVENT_ID_PATTERN = /^[A-Za-z0-9_.:-]{8,128}$/;
+
+/**
+ * Validates one raw event for the deployment in the URL.
+ * Returns the normalized event (canonical locale, receivedAt stamped) or the issues found.
+ */
+export function validateTelemetryEvent(
+    input: unknown,
+    deploymentId: string,
+    publishedLocales: string[],
+    now: Date = new Date()
+): { event?: TelemetryEvent; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = [];
+    const error = (field: string, code: ValidationIssue['code'], message: string) =>
+        issues.push({ field, code, severity: 'error', message });
+
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        error('event', 'INVALID_FORMAT', 'Event must be a JSON object.');
+        return { issues };
+    }
+    const raw = input as Record<string, unknown>;
+
+    if (typeof raw.eventId !== 'string' || !EVENT_ID_PATTERN.test(raw.eventId)) {
+        error('eventId', raw.eventId === undefined ? 'REQUIRED' : 'INVALID_FORMAT', 'eventId must be 8-128 characters of [A-Za-z0-9_.:-].');
+    }
+    if (!EVENT_TYPES.includes(raw.type as TelemetryEventType)) {
+        error('type', raw.type === undefined ? 'REQUIRED' : 'INVALID_FORMAT', `type must be one of ${EVENT_TYPES.join(', ')}.`);
+    }
+    if (raw.deploymentId !== undefined && raw.deploymentId !== deploymentId) {
+        error('deploymentId', 'INVALID_FORMAT', `Event belongs to ${String(raw.deploymentId)}, not ${deploymentId}.`);
+    }
+
+    const locale = typeof raw.locale === 'string'
+        ? publishedLocales.find(published => published.toLowerCase() === (raw.locale as string).toLowerCase())
+        : undefined;
+    if (!locale) {
+        error('locale', raw.locale === undefined ? 'REQUIRED' : 'INVALID_FORMAT', `locale must be one of the published locales (${publishedLocales.join(', ')}).`);
+    }
+
+    if (typeof raw.variant !== 'string' || raw.variant.trim().length === 0 || raw.variant.length > 64) {
+        error('variant', raw.variant === undefined ? 'REQUIRED' : 'INVALID_FORMAT', 'variant must be a non-empty string of at most 64 characters.');
+    }
+
+    const occurredAt = typeof raw.occurredAt === 'string' ? new Date(raw.occurredAt) : undefined;
+    if (!occurredAt || Number.isNaN(occurredAt.getTime())) {
+        error('occurredAt', raw.occurredAt === undefined ? 'REQUIRED' : 'INVALID_FORMAT', 'occurredAt must be an ISO 8601 timestamp.');
+    } else if (occurredAt.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS) {
+        error('occurredAt', 'INVALID_FORMAT', 'occurredAt lies in the future.');
+    }
+
+    if (issues.length > 0) return { issues };
+
+    return {
+        event: {
+            eventId: raw.eventId as string,
+            type: raw.type as TelemetryEventType,
+            deploymentId,
+            locale: locale!,
+            variant: (raw.variant as string).trim(),
+            occurredAt: occurredAt!.toISOString(),
+            receivedAt: now.toISOString()
+        },
+        issues
+    };
+}
+
+export class TelemetryIngestionService {
+
+    constructor(
+        private readonly store: ITelemetryEventStore = new FileTelemetryEventStore(),
+        private readonly repository: MicrositeRepository = new MicrositeRepository()
+    ) { }
+
+    /**
+     * Ingests the JSON body of a telemetry request: a single event, an array, or { events: [...] }.
+     * Consent is read from the request the same way the middleware does (consent cookie, visitor regime, GPC).
+     */
+    public async ingest(deploymentId: string, request: Request): Promise<TelemetryIngestResult> {
+        const published = await this.repository.findDeployment(deploymentId);
+        if (!published) {
+            throw new TelemetryIngestionError('UNKNOWN_DEPLOYMENT', `[TelemetryIngestion] Unknown deployment "${deploymentId}".`);
+        }
+
+        const events = this.extractEvents(await this.readJson(request));
+        if (events.length > MAX_EVENTS_PER_BATCH) {
+            throw new TelemetryIngestionError('BATCH_TOO_LARGE', `[TelemetryIngestion] Batch of ${events.length} events exceeds ${MAX_EVENTS_PER_BATCH}.`);
+        }
+
+        const result: TelemetryIngestResult = { accepted: 0, duplicates: 0, droppedForConsent: 0, rejected: [] };
+
+        const consent = resolveConsentState(request, published.deployment.middlewareRules);
+        if (!isTrackingAllowed(consent)) {
+            result.droppedForConsent = events.length;
+            return result;
+        }
+
+        const locales = published.deployment.locales; // Only the variants this regional deployment serves
+        const valid: TelemetryEvent[] = [];
+        events.forEach((input, index) => {
+            const { event, issues } = validateTelemetryEvent(input, deploymentId, locales);
+            if (event) valid.push(event);
+            else result.rejected.push({ index, issues });
+        });
+
+        const written = await this.store.appendUnique(deploymentId, valid);
+        result.accepted = written.length;
+        result.duplicates = valid.length - written.length;
+        return result;
+    }
+
+    private async readJson(request: Request): Promise<unknown> {
+        try {
+            return await request.json();
+        } catch {
+            throw new TelemetryIngestionError('MALFORMED_PAYLOAD', '[TelemetryIngestion] Request body is not valid JSON.');
+        }
+    }
+
+    private extractEvents(body: unknown): unknown[] {
+        if (Array.isArray(body)) return body;
+        if (typeof body === 'object' && body !== null) {
+            const events = (body as { events?: unknown }).events;
+            if (Array.isArray(events)) return events;
+            if (events === undefined) return [body];
+        }
+        throw new TelemetryIngestionError('MALFORMED_PAYLOAD', '[TelemetryIngestion] Body must be an event, an array of events or { events: [...] }.');
+    }
+}
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Brief intake uploads a logo (2 MB max) and a keyword CSV (1 MB max) in one action.
+      bodySizeLimit: "4mb",
+    },
+  },
 };
 
 export default nextConfig;
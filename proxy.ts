@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { deploymentForLocale } from "@/lib/deployment/deployment-manifest";
+import { CONSENT_STATE_HEADER, PRIVACY_NOTICES_HEADER, evaluateMicrositeRequest } from "@/lib/deployment/middleware-policy";
+import { PREVIEW_QUERY_PARAM } from "@/lib/deployment/release-manager";
+import { MicrositeRepository } from "@/lib/rendering/microsite-repository";
+
+/**
+ * Request middleware (Next 16 "proxy", Node.js runtime) enforcing each campaign's stored middlewareRules.
+ * Only /{campaign} and /{locale}/{campaign} paths of published campaigns are touched; everything else passes through.
+ * Preview URLs (?preview) are checked against the rules of the preview version.
+ */
+const repository = new MicrositeRepository();
+
+export async function proxy(request: NextRequest) {
+  const segments = decodeSegments(request.nextUrl.pathname);
+  if (!segments || segments.length < 1 || segments.length > 2) return NextResponse.next();
+
+  const [requestedLocale, campaignId] = segments.length === 2 ? segments : [null, segments[0]];
+  const target = request.nextUrl.searchParams.has(PREVIEW_QUERY_PARAM) ? "preview" : "production";
+  const campaign = await repository.findCampaign(campaignId, target);
+  if (!campaign) return NextResponse.next();
+
+  // Rules are campaign-wide; the regional deployment serving the locale is used when there is one.
+  const { manifest } = campaign;
+  const deployment = (requestedLocale && deploymentForLocale(manifest, requestedLocale)) || manifest.deployments[0];
+  const decision = evaluateMicrositeRequest(request, {
+    campaignId,
+    locales: campaign.variants.map((variant) => variant.locale),
+    rules: deployment.middlewareRules,
+  }, requestedLocale);
+
+  switch (decision.action) {
+    case "block":
+      return new NextResponse("This content is not available in your region.", {
+        status: decision.status,
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
+    case "redirect": {
+      const response = NextResponse.redirect(decision.location, decision.status);
+      response.headers.set("Vary", "Accept-Language");
+      return response;
+    }
+    case "continue": {
+      // Forwarded to the page so tracking scripts can be held back until consent is granted,
+      // and the notices required by the visitor's privacy regime are rendered.
+      const requestHeaders = new Headers(request.headers);
+      requestHeaders.set(CONSENT_STATE_HEADER, decision.consent);
+      requestHeaders.set(PRIVACY_NOTICES_HEADER, decision.notices.join(","));
+      return NextResponse.next({ request: { headers: requestHeaders } });
+    }
+  }
+}
+
+/**
+ * Path segments, decoded; null for malformed escapes ('/%E0%A4%A'), which are no campaign path and pass through.
+ */
+function decodeSegments(pathname: string): string[] | null {
+  try {
+    return pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+}
+
+export const config = {
+  // Skipped: API and export routes, Next assets, the factory (/runs, /brief, /releases, including the server action
+  // POSTs to those pages) and static files by extension. Campaign ids may contain dots, so only asset extensions count.
+  matcher: [
+    "/((?!api/|exports/|_next/static|_next/image|(?:runs|brief|releases)(?:/|$)|.*\\.(?:ico|png|jpe?g|gif|svg|webp|avif|txt|xml|json|css|js|map|woff2?)$).*)",
+  ],
+};
@@ -3,7 +3,21 @@ import { MainOrchestrator } from '../lib/main-orchestrator';
 import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
 import { GeoDeploymentHub } from '../lib/deployment/geo-hub';
 import { CreativeAIEngine } from '../lib/creative/creative-engine';
-import { BriefInput, GeoCompliance, SEOOptimizedVariant, UIContentVariant, Locale } from '../lib/contracts/contracts';
+import { FileWorkflowStateStore, InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest } from '../lib/creative/text-generation';
+import { PipelineValidationError } from '../lib/contracts/errors';
+import { validateHreflangReciprocity } from '../lib/seo/hreflang';
+import { buildCrawlArtifacts } from '../lib/deployment/crawl-artifacts';
+import { MicrositeRepository } from '../lib/rendering/microsite-repository';
+import { ReleaseManager } from '../lib/deployment/release-manager';
+import { InMemoryReleaseStore } from '../lib/deployment/release-store';
+import { loadCampaignCrawlFile, loadSiteSitemapChunks } from '../lib/rendering/site-crawl';
+import { summarizeLocales, summarizeRun } from '../lib/rendering/run-summary';
+import { BriefInput, GeoCompliance, SEOOptimizedVariant, Locale } from '../lib/contracts/contracts';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 
 // --- Test Harness Utilities ---
 
@@ -48,32 +62,31 @@ async function runScenario1_PartialFailure() {
         assets: { logoUrl: 'https://ok.com/logo.png', keywordsCsvUrl: 'https://ok.com/kw.csv' }
     };
 
-    // Monkey-patch CreativeAIEngine.prototype.stubAIGeneration
-    // We need to access the private method or just overwrite it on the prototype as 'any'
-    const originalMethod = (CreativeAIEngine.prototype as any).stubAIGeneration;
+    // Monkey-patch StubTextProvider.prototype.generate
+    // The engine reaches every provider through generate(), so failing it here exercises the Promise.allSettled path.
+    const originalMethod = StubTextProvider.prototype.generate;
 
     let failureCount = 0;
 
-    (CreativeAIEngine.prototype as any).stubAIGeneration = async function (coreMessage: string, locale: Locale) {
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        const locale: Locale = request.locale;
         if (locale === 'de-DE' || locale === 'ja-JP') {
             failureCount++;
             // Simulate timeout/error
             throw new Error(`Simulated API Timeout for ${locale}`);
         }
-        // Call original for others (binding 'this' correctly if needed, though stub is stateless mostly)
-        // However, the original method is likely simple enough to just copy behaviour if needed, 
-        // but typically better to call original.
-        // Since original logic is simple delay + return object, we can re-implement stub for simplicity and safety 
-        // or try to call original. Let's re-implement the simple stub behavior to avoid 'this' context issues with private methods.
+        // Re-implement the simple stub behavior: the provider answers with raw JSON,
+        // which the engine still parses and schema-checks into a UIContentVariant.
 
         await new Promise(resolve => setTimeout(resolve, 50));
         return {
-            locale: locale,
-            heroTitle: `[${locale}] Valid`,
-            bodyCopy: `Valid content for ${locale}`,
-            ctaText: `Click`,
-            layoutId: 'layout-standard'
-        } as UIContentVariant;
+            content: JSON.stringify({
+                heroTitle: `[${locale}] Valid`,
+                bodyCopy: `Valid content for ${locale}`,
+                ctaText: `Click`
+            }),
+            model: 'stub-test'
+        };
     };
 
     try {
@@ -88,7 +101,7 @@ async function runScenario1_PartialFailure() {
         // 2. Check Creative Output Integrity (Indirectly via what Deployment received or by spying?
         // The contract for runPipeline returns DeploymentConfig. 
         // MainOrchestrator doesn't expose the intermediate CreativeEngineOutput publicly.
-        // However, we can infer success by the fact result.isLive is true and we can check telemetry or logging if available.
+        // However, we can infer success by the fact a preview deployment was created and we can check telemetry or logging if available.
         // OR better: we can assert that the Deployment happened.
 
         // IMPORTANT: The prompt asks: "Verificare che il CreativeEngineOutput contenga le 8 varianti riuscite... e i 2 errori".
@@ -101,7 +114,7 @@ async function runScenario1_PartialFailure() {
         // We can check if result.edgeRegion or other props were calculated based on the *successful* variants.
         // But let's trust the "No Crash" + "Deployment Created" as primary validation for Step 6 integration level.
 
-        if (result.isLive) {
+        if (result.deployments.length > 0 && result.deployments.every(d => !d.isLive)) {
             logPass("Deployment proceeded despite partial failures.");
         } else {
             logFail("Deployment failed.");
@@ -111,7 +124,7 @@ async function runScenario1_PartialFailure() {
         logFail(`Pipeline crashed unexpectedly: ${e}`);
     } finally {
         // Restore
-        (CreativeAIEngine.prototype as any).stubAIGeneration = originalMethod;
+        StubTextProvider.prototype.generate = originalMethod;
     }
 }
 
@@ -156,7 +169,8 @@ async function runScenario2_PolicyDrift() {
     const mismatchedCompliance: GeoCompliance = {
         requiresGDPR: false,
         cookieConsentActive: false,
-        dataResidency: 'GLOBAL'
+        dataResidency: 'GLOBAL',
+        privacy: []
     };
 
     const deployConfig = await deployment.executeGeoDeploy(seoVariantsFr, mismatchedCompliance);
@@ -164,7 +178,7 @@ async function runScenario2_PolicyDrift() {
     // Assertion: Did it obey the mismatched compliance?
     // middlewareRules.consentRequired should be FALSE because we passed FALSE.
     // If it is TRUE, it means Deployment logic "drifted" and decided based on Locale instead of Input.
-    if (deployConfig.middlewareRules.consentRequired === false) {
+    if (deployConfig.deployments.every(d => d.middlewareRules.consentRequired === false)) {
         logPass("Deployment Hub obeyed the Input Policy (Blind Execution), preventing Logic Drift.");
     } else {
         logFail("Deployment Hub overrode the policy! Logic Drift detected (Module decided for itself).");
@@ -225,6 +239,352 @@ async function runScenario3_SEODeterminism() {
     }
 }
 
+async function runScenario4_CrashAndResume() {
+    console.log(`\n${colors.bold}>>> SCENARIO 4: Crash After SEO & Resumable Pipeline (State Persistence) <<<${colors.reset}`);
+
+    const stateDir = await mkdtemp(path.join(tmpdir(), 'workflow-state-'));
+    const brief: BriefInput = {
+        campaignId: 'sc4-resume',
+        brandName: 'Phoenix',
+        coreMessage: 'Rise again from the last completed step.',
+        targetLocales: ['en-US', 'it-IT'],
+        assets: { logoUrl: 'https://p.com/l.png', keywordsCsvUrl: 'https://p.com/k.csv' }
+    };
+    const runId = 'run_sc4-resume_fixed';
+
+    let creativeCalls = 0;
+    const originalGenerate = CreativeAIEngine.prototype.generateCreatives;
+    CreativeAIEngine.prototype.generateCreatives = async function (...args) {
+        creativeCalls++;
+        return originalGenerate.apply(this, args);
+    };
+
+    const originalDeploy = GeoDeploymentHub.prototype.executeGeoDeploy;
+    GeoDeploymentHub.prototype.executeGeoDeploy = async function () {
+        throw new Error('Simulated process crash during deployment');
+    };
+
+    try {
+        // First process: crashes after SEO.
+        try {
+            await new MainOrchestrator({ stateStore: new FileWorkflowStateStore(stateDir) }).runPipeline(brief, runId);
+            logFail("Pipeline should have crashed during deployment.");
+        } catch {
+            logPass("First run crashed during deployment as simulated.");
+        }
+
+        const crashedState = await new FileWorkflowStateStore(stateDir).load(runId);
+        if (crashedState?.currentStep === 'DEPLOYMENT' && crashedState.data.seoResults?.length === 2 && crashedState.errors.some(e => e.fatal)) {
+            logPass("WorkflowState persisted SEO results and the fatal deployment error.");
+        } else {
+            logFail(`Unexpected persisted state: ${JSON.stringify(crashedState?.currentStep)}`);
+        }
+
+        // Second process: fresh orchestrator, same durable store.
+        let resumedStatus: string | undefined;
+        GeoDeploymentHub.prototype.executeGeoDeploy = async function (...args) {
+            const live = await new FileWorkflowStateStore(stateDir).load(runId);
+            resumedStatus = live ? summarizeRun(live).status : undefined;
+            return originalDeploy.apply(this, args);
+        };
+        const result = await new MainOrchestrator({ stateStore: new FileWorkflowStateStore(stateDir) }).resumePipeline(runId);
+
+        if (creativeCalls === 1) {
+            logPass("Resume skipped creative regeneration.");
+        } else {
+            logFail(`Creatives regenerated on resume (${creativeCalls} calls).`);
+        }
+
+        const finalState = await new FileWorkflowStateStore(stateDir).load(runId);
+        if (result.deployments.every(d => !d.isLive) && finalState?.currentStep === 'COMPLETED' && finalState.data.deployment?.manifestId === result.manifestId) {
+            logPass("Resumed run completed and persisted the deployment.");
+        } else {
+            logFail("Resumed run did not reach COMPLETED.");
+        }
+
+        if (resumedStatus === 'running' && !finalState?.errors.some(e => e.fatal)) {
+            logPass("The previous execution's fatal error does not mark the resumed run as failed.");
+        } else {
+            logFail(`Unexpected status while resuming: ${resumedStatus}`);
+        }
+
+        // Two stores of one process writing the same run: writes still land in call order
+        const stores = [new FileWorkflowStateStore(stateDir), new FileWorkflowStateStore(stateDir)];
+        await Promise.all(Array.from({ length: 6 }, (_, index) =>
+            stores[index % 2].save({ ...finalState!, lastUpdated: new Date(Date.UTC(2026, 0, 1, 0, 0, index)).toISOString() })));
+        const lastWrite = await stores[0].load(runId);
+        if (lastWrite?.lastUpdated === '2026-01-01T00:00:05.000Z') {
+            logPass("Concurrent saves from separate file stores land in call order.");
+        } else {
+            logFail(`Unexpected state after concurrent saves: ${lastWrite?.lastUpdated}`);
+        }
+    } finally {
+        CreativeAIEngine.prototype.generateCreatives = originalGenerate;
+        GeoDeploymentHub.prototype.executeGeoDeploy = originalDeploy;
+        await rm(stateDir, { recursive: true, force: true });
+    }
+}
+
+async function runScenario5_StructuredValidation() {
+    console.log(`\n${colors.bold}>>> SCENARIO 5: Structured Validation Issues (Fail Fast) <<<${colors.reset}`);
+
+    const brief: BriefInput = {
+        campaignId: 'x',
+        brandName: 'Fieldwise',
+        coreMessage: 'Too short',
+        targetLocales: ['en-US', 'en-US'],
+        assets: { logoUrl: 'not a url', keywordsCsvUrl: 'https://f.com/k.csv' }
+    };
+
+    try {
+        await new MainOrchestrator().runPipeline(brief);
+        logFail("Pipeline accepted an invalid brief.");
+    } catch (e) {
+        if (!(e instanceof PipelineValidationError)) {
+            logFail(`Expected PipelineValidationError, got: ${e}`);
+            return;
+        }
+
+        const errorFields = e.issues.filter(i => i.severity === 'error').map(i => `${i.field}:${i.code}`).sort();
+        const expected = ['assets.logoUrl:INVALID_FORMAT', 'campaignId:TOO_SHORT', 'coreMessage:TOO_SHORT'];
+        if (JSON.stringify(errorFields) === JSON.stringify(expected)) {
+            logPass("PipelineValidationError carries field-addressed error issues.");
+        } else {
+            logFail(`Unexpected error issues: ${errorFields.join(', ')}`);
+        }
+
+        if (e.issues.some(i => i.field === 'targetLocales[1]' && i.code === 'DUPLICATE_VALUE' && i.severity === 'warning')) {
+            logPass("Duplicate locale reported as a non-blocking warning.");
+        } else {
+            logFail("Duplicate locale warning missing.");
+        }
+    }
+}
+
+async function runScenario6_CampaignHreflang() {
+    console.log(`\n${colors.bold}>>> SCENARIO 6: Campaign-aware Hreflang & Reciprocity <<<${colors.reset}`);
+
+    const brief: BriefInput = {
+        campaignId: 'sc6-hreflang',
+        brandName: 'Atlantico',
+        coreMessage: 'Ocean-front apartments in Lisbon and Miami.',
+        targetLocales: ['en-US', 'pt-PT', 'de-DE'],
+        assets: { logoUrl: 'https://a.com/l.png', keywordsCsvUrl: 'https://a.com/k.csv' }
+    };
+
+    // de-DE creative fails: its page must not be advertised anywhere.
+    const originalGenerate = StubTextProvider.prototype.generate;
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        if (request.locale === 'de-DE') throw new Error('Simulated provider outage for de-DE');
+        return originalGenerate.call(this, request);
+    };
+
+    let capturedVariants: SEOOptimizedVariant[] = [];
+    const originalDeploy = GeoDeploymentHub.prototype.executeGeoDeploy;
+    GeoDeploymentHub.prototype.executeGeoDeploy = async function (variants, compliance) {
+        capturedVariants = variants;
+        return originalDeploy.call(this, variants, compliance);
+    };
+
+    try {
+        await new MainOrchestrator().runPipeline(brief);
+
+        const keys = Object.keys(capturedVariants[0]?.seo.hreflang ?? {}).sort();
+        const expected = ['en', 'en-US', 'pt', 'pt-PT', 'x-default'];
+        if (JSON.stringify(keys) === JSON.stringify(expected)) {
+            logPass("Hreflang lists only successful locales plus language-only and x-default fallbacks.");
+        } else {
+            logFail(`Unexpected hreflang keys: ${keys.join(', ')}`);
+        }
+
+        if (capturedVariants[0]?.seo.hreflang['x-default'] === capturedVariants.find(v => v.locale === 'en-US')?.seo.canonicalUrl) {
+            logPass("x-default points at the campaign's primary locale.");
+        } else {
+            logFail("x-default missing or pointing elsewhere.");
+        }
+
+        if (validateHreflangReciprocity(capturedVariants).length === 0) {
+            logPass("Every page links back to every sibling.");
+        } else {
+            logFail("Reciprocity validator reported issues on a clean campaign.");
+        }
+
+        // Break reciprocity on purpose: pt-PT forgets en-US and links a dropped page.
+        const broken = capturedVariants.map(v => v.locale !== 'pt-PT' ? v : {
+            ...v,
+            seo: { ...v.seo, hreflang: { 'pt-PT': v.seo.canonicalUrl, 'de-DE': 'https://microsite-factory.com/de-DE/sc6-hreflang', 'x-default': v.seo.canonicalUrl } }
+        });
+        const codes = validateHreflangReciprocity(broken).map(i => i.code).sort();
+        if (codes.includes('MISSING_SIBLING') && codes.includes('UNKNOWN_TARGET')) {
+            logPass("Validator flags missing back-links and links to dropped pages.");
+        } else {
+            logFail(`Validator missed broken links: ${codes.join(', ')}`);
+        }
+    } finally {
+        StubTextProvider.prototype.generate = originalGenerate;
+        GeoDeploymentHub.prototype.executeGeoDeploy = originalDeploy;
+    }
+}
+
+async function runScenario7_CrawlArtifacts() {
+    console.log(`\n${colors.bold}>>> SCENARIO 7: Sitemap & robots.txt per Deployment <<<${colors.reset}`);
+
+    const brief: BriefInput = {
+        campaignId: 'sc7-crawl',
+        brandName: 'Douro Estates',
+        coreMessage: 'Vineyard estates in the Douro valley.',
+        targetLocales: ['en-GB', 'pt-PT', 'fr-FR'],
+        assets: { logoUrl: 'https://d.com/l.png', keywordsCsvUrl: 'https://d.com/k.csv' }
+    };
+
+    const store = new InMemoryWorkflowStateStore();
+    const releaseStore = new InMemoryReleaseStore();
+    const deployment = await new MainOrchestrator({ stateStore: store, releaseStore }).runPipeline(brief);
+    const [state] = await store.list();
+    const crawl = deployment.crawl;
+    const seoResults = state?.data.seoResults ?? [];
+
+    if (!crawl) {
+        logFail("Deployment carries no crawl artifacts.");
+        return;
+    }
+
+    const sitemap = crawl.files.find(f => crawl.sitemapUrl.endsWith(f.path));
+    const robots = crawl.files.find(f => f.path === '/robots.txt');
+    const alternateLinks = sitemap?.content.match(/<xhtml:link /g)?.length ?? 0;
+    const alternatesPerPage = Object.keys(seoResults[0]?.seo.hreflang ?? {}).length;
+
+    if (crawl.sitemapUrl.endsWith('/sitemaps/sc7-crawl/sitemap.xml') && crawl.entries.length === seoResults.length
+        && alternateLinks === seoResults.length * alternatesPerPage) {
+        logPass("Sitemap lists every published page with its hreflang alternates as xhtml:link.");
+    } else {
+        logFail(`Unexpected sitemap (${crawl.sitemapUrl}, ${alternateLinks} alternates): ${sitemap?.content}`);
+    }
+
+    if (robots?.content.includes(`Sitemap: ${crawl.sitemapUrl}`) && robots.content.includes('Disallow: /api/')) {
+        logPass("robots.txt references the deployment sitemap.");
+    } else {
+        logFail(`Unexpected robots.txt: ${robots?.content}`);
+    }
+
+    // Over the URL limit: numbered sitemaps tied together by an index, which robots.txt points to.
+    const chunked = buildCrawlArtifacts(seoResults, { campaignId: 'sc7-crawl', baseUrl: 'https://x.test', maxUrlsPerSitemap: 2 });
+    const index = chunked.files.find(f => f.path === '/sitemaps/sc7-crawl/sitemap-index.xml');
+    if (chunked.sitemapUrl === 'https://x.test/sitemaps/sc7-crawl/sitemap-index.xml'
+        && index?.content.includes('https://x.test/sitemaps/sc7-crawl/sitemap-1.xml')
+        && index.content.includes('https://x.test/sitemaps/sc7-crawl/sitemap-2.xml')
+        && !chunked.files.some(f => f.path === '/sitemaps/sc7-crawl/sitemap-3.xml')) {
+        logPass("Campaigns beyond the URL limit get chunked sitemaps and a sitemap index.");
+    } else {
+        logFail(`Unexpected chunking: ${chunked.files.map(f => f.path).join(', ')}`);
+    }
+
+    const releases = new ReleaseManager(store, releaseStore);
+    const repository = new MicrositeRepository(store, releases);
+    const previewChunks = await loadSiteSitemapChunks(repository, 2);
+    await releases.promote('sc7-crawl');
+    const siteChunks = await loadSiteSitemapChunks(repository, 2);
+    if (previewChunks.flat().length === 0 && siteChunks.flat().length === seoResults.length && siteChunks.length === Math.ceil(seoResults.length / 2)) {
+        logPass("Site-wide sitemap routes are fed from production versions only.");
+    } else {
+        logFail(`Unexpected site chunks: ${JSON.stringify(siteChunks)}`);
+    }
+
+    // The advertised sitemap URL must hit app/sitemaps/[campaign]/[file] and find the deployed file there.
+    const [, directory, campaignSegment, file] = new URL(crawl.sitemapUrl).pathname.split('/');
+    const served = await loadCampaignCrawlFile(decodeURIComponent(campaignSegment), file, repository);
+    if (directory === 'sitemaps' && served?.content === sitemap?.content
+        && await loadCampaignCrawlFile('sc7-crawl', 'sitemap-9.xml', repository) === null) {
+        logPass("The sitemap URL in robots.txt resolves to the campaign sitemap route.");
+    } else {
+        logFail(`Advertised sitemap ${crawl.sitemapUrl} is not served.`);
+    }
+}
+
+async function runScenario8_RunDashboard() {
+    console.log(`\n${colors.bold}>>> SCENARIO 8: Runs Dashboard Read-Model <<<${colors.reset}`);
+
+    const brief: BriefInput = {
+        campaignId: 'sc8-dashboard',
+        brandName: 'Serra Retreats',
+        coreMessage: 'Mountain retreats in Serra da Estrela.',
+        targetLocales: ['pt-PT', 'es-ES', 'fr-FR'],
+        assets: { logoUrl: 'https://s.com/l.png', keywordsCsvUrl: 'https://s.com/k.csv' }
+    };
+
+    const originalGenerate = StubTextProvider.prototype.generate;
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        if (request.locale === 'es-ES') throw new Error('Simulated quota exhaustion');
+        return originalGenerate.call(this, request);
+    };
+
+    try {
+        const store = new InMemoryWorkflowStateStore();
+        await new MainOrchestrator({ stateStore: store }).runPipeline(brief);
+        const [state] = await store.list();
+        const run = summarizeRun(state);
+
+        const timed = run.stages.every(stage => stage.state === 'succeeded' && typeof stage.durationMs === 'number');
+        if (run.status === 'completed' && timed && run.startedAt) {
+            logPass("Every stage records its duration and outcome.");
+        } else {
+            logFail(`Unexpected stages: ${JSON.stringify(run.stages)}`);
+        }
+
+        const es = summarizeLocales(state).find(l => l.locale === 'es-ES');
+        if (run.variants.requested === 3 && run.variants.generated === 2 && run.variants.failed === 1
+            && !es?.creative && es?.errors[0]?.includes('Simulated quota exhaustion')) {
+            logPass("Generated vs failed variants are counted and failures attributed to their locale.");
+        } else {
+            logFail(`Unexpected variant summary: ${JSON.stringify({ variants: run.variants, es })}`);
+        }
+
+        // A run stuck mid-stage without heartbeats for longer than the threshold is reported as stalled;
+        // a slow stage that keeps beating is still running.
+        const stuck = { ...state, currentStep: 'SEO' as const, data: { ...state.data, seoResults: undefined, deployment: undefined } };
+        const later = new Date(new Date(state.lastUpdated).getTime() + 10 * 60 * 1000);
+        const slow = { ...stuck, heartbeatAt: new Date(later.getTime() - 1000).toISOString() };
+        const stalled = summarizeRun(stuck, later);
+        if (stalled.status === 'stalled' && summarizeRun(stuck, new Date(state.lastUpdated)).status === 'running'
+            && summarizeRun(slow, later).status === 'running') {
+            logPass("Runs without heartbeats are flagged as stalled; slow stages that keep beating are not.");
+        } else {
+            logFail(`Unexpected status for stuck run: ${stalled.status} / slow ${summarizeRun(slow, later).status}`);
+        }
+
+        // A stage write after the last heartbeat (e.g. a resume before the next beat) counts as a sign of life.
+        const freshWrite = new Date(state.lastUpdated);
+        const staleBeat = { ...stuck, heartbeatAt: new Date(freshWrite.getTime() - 10 * 60 * 1000).toISOString() };
+        if (summarizeRun(staleBeat, new Date(freshWrite.getTime() + 60 * 1000)).status === 'running') {
+            logPass("A stale heartbeat does not flag a run that was written to since as stalled.");
+        } else {
+            logFail(`Stale heartbeat overrode a later write: ${summarizeRun(staleBeat, new Date(freshWrite.getTime() + 60 * 1000)).status}`);
+        }
+
+        // Heartbeats advance during a slow stage while lastUpdated stays put.
+        const beating = new InMemoryWorkflowStateStore();
+        const seen = new Set<string>();
+        StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+            for (let i = 0; i < 4; i++) {
+                await new Promise(resolve => setTimeout(resolve, 15));
+                const [live] = await beating.list();
+                if (live?.currentStep === 'CREATIVE' && live.heartbeatAt) seen.add(`${live.lastUpdated}|${live.heartbeatAt}`);
+            }
+            return originalGenerate.call(this, request);
+        };
+        await new MainOrchestrator({ stateStore: beating, heartbeatIntervalMs: 5 })
+            .runPipeline({ ...brief, campaignId: 'sc8-heartbeat', targetLocales: ['pt-PT'] });
+        const updates = new Set([...seen].map(entry => entry.split('|')[0]));
+        if (seen.size >= 2 && updates.size === 1) {
+            logPass("Running stages write heartbeats without touching lastUpdated.");
+        } else {
+            logFail(`Unexpected heartbeats: ${[...seen].join(', ')}`);
+        }
+    } finally {
+        StubTextProvider.prototype.generate = originalGenerate;
+    }
+}
+
 // --- Runner ---
 
 async function main() {
@@ -232,6 +592,11 @@ async function main() {
         await runScenario1_PartialFailure();
         await runScenario2_PolicyDrift();
         await runScenario3_SEODeterminism();
+        await runScenario4_CrashAndResume();
+        await runScenario5_StructuredValidation();
+        await runScenario6_CampaignHreflang();
+        await runScenario7_CrawlArtifacts();
+        await runScenario8_RunDashboard();
         console.log(`\n${colors.bold}${colors.green}>>> ALL SCENARIOS PASSED <<<${colors.reset}`);
     } catch (e) {
         console.error(e);
@@ -0,0 +1,208 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { CreativeAIEngine } from '../lib/creative/creative-engine';
+import { checkGuidelines, ctaVerbsFor, describeGuidelines } from '../lib/creative/brand-guidelines';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest, getLayoutConstraints } from '../lib/creative/text-generation';
+import { LocalStaticExportProvider } from '../lib/deployment/providers/local-static-provider';
+import { ReleaseManager } from '../lib/deployment/release-manager';
+import { InMemoryReleaseStore } from '../lib/deployment/release-store';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { MicrositeRepository } from '../lib/rendering/microsite-repository';
+import { buildThemeTokens, renderThemeCss } from '../lib/rendering/theme-tokens';
+import { DEFAULT_STAGE_POLICIES } from '../lib/resilience/stage-policy';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { BrandGuidelines, BriefInput, UIContentVariant } from '../lib/contracts/contracts';
+
+/**
+ * Brand Guidelines Test Suite
+ *
+ * Purpose:
+ * Check that a brief's brand guidelines are validated, written into the prompt, enforced on generated copy
+ * (length limits, banned phrases, CTA style), and turned into theme tokens for live and exported pages.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const guidelines: BrandGuidelines = {
+    toneOfVoice: ['warm', 'confident', 'never pushy'],
+    targetAudience: 'Families looking for a second home by the sea',
+    readingLevel: 'simple',
+    maxLengths: { bodyCopy: 200 },
+    bannedPhrases: ['Discover more', 'world-class'],
+    cta: { verbStyle: 'imperative', verbs: { it: ['Scopri', 'Prenota'], de: ['Entdecken'], 'de-AT': ['Buchen'] }, maxWords: 4 },
+    palette: { primary: '#0a4d68', background: '#fdf6ec' },
+    typography: { headingFont: 'Playfair Display', bodyFont: 'Source Sans 3', fallback: 'serif' }
+};
+
+const brief: BriefInput = {
+    campaignId: 'guidelines-check',
+    brandName: 'Lusitano Villas',
+    coreMessage: 'Sustainable villas in Comporta, a short walk from the dunes and the sea.',
+    targetLocales: ['it-IT', 'de-DE', 'fr-FR'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' },
+    guidelines
+};
+
+const copy = (overrides: Partial<UIContentVariant>): UIContentVariant => ({
+    locale: 'it-IT',
+    heroTitle: 'Ville sostenibili a Comporta',
+    bodyCopy: 'A pochi passi dalle dune e dal mare.',
+    ctaText: 'Prenota una visita',
+    layoutId: 'layout-minimal-v1',
+    ...overrides
+});
+
+async function testPrompt() {
+    const lines = describeGuidelines(guidelines, 'it-IT').join('\n');
+    const constraints = getLayoutConstraints('layout-wide-v2', { maxLengths: { bodyCopy: 200, ctaText: 60 } });
+
+    if (lines.includes('Tone of voice: warm, confident, never pushy') && lines.includes('Target audience: Families looking')
+        && lines.includes('Reading level: simple') && lines.includes('starting with one of "Scopri", "Prenota", at most 4 words')
+        && lines.includes('Never use these phrases: "Discover more", "world-class"')
+        && constraints.bodyCopyMaxLength === 200 && constraints.ctaTextMaxLength === 32 && constraints.heroTitleMaxLength === 90) {
+        pass("Tone, audience, reading level, CTA style and banned phrases are prompted; brand limits only ever tighten the layout budget.");
+    } else {
+        fail(`Unexpected prompt or constraints: ${lines} / ${JSON.stringify(constraints)}`);
+    }
+
+    const cta = guidelines.cta!;
+    if (ctaVerbsFor(cta, 'de-AT').join() === 'Buchen' && ctaVerbsFor(cta, 'de-CH').join() === 'Entdecken'
+        && ctaVerbsFor(cta, 'it-IT').join() === 'Scopri,Prenota' && ctaVerbsFor(cta, 'fr-FR').length === 0) {
+        pass("CTA verbs resolve by exact locale first, then by language.");
+    } else {
+        fail("Unexpected CTA verb resolution.");
+    }
+}
+
+async function testChecks() {
+    const clean = checkGuidelines(copy({}), guidelines);
+    const broken = checkGuidelines(copy({
+        bodyCopy: `Una vacanza world-class. ${'A pochi passi dalle dune e dal mare. '.repeat(6)}`,
+        ctaText: 'Clicca qui per la mia visita'
+    }), guidelines);
+    const rules = broken.map(violation => `${violation.rule}:${violation.field}`).sort().join(',');
+    if (clean.length === 0 && rules === 'BANNED_PHRASE:bodyCopy,CTA_STYLE:ctaText,CTA_STYLE:ctaText,CTA_STYLE:ctaText,MAX_LENGTH:bodyCopy') {
+        pass("Length overruns, banned phrases, wrong opening verbs, too many words and first-person CTAs are reported.");
+    } else {
+        fail(`Unexpected violations: ${clean.length} / ${rules}`);
+    }
+
+    const firstPerson: BrandGuidelines = { cta: { verbStyle: 'first-person' } };
+    const style = [
+        checkGuidelines(copy({ ctaText: 'Prenota la mia visita' }), firstPerson).length,
+        checkGuidelines(copy({ ctaText: 'Prenota una visita' }), firstPerson).length,
+        checkGuidelines(copy({ locale: 'ja-JP', ctaText: '予約する' }), firstPerson).length, // No first-person word list for Japanese
+        checkGuidelines(copy({ ctaText: 'Vuoi prenotare?' }), guidelines).filter(violation => violation.message.includes('imperative')).length,
+        checkGuidelines(copy({ bodyCopy: 'Discover moreover the dunes.' }), { bannedPhrases: ['Discover more'] }).length
+    ].join();
+    if (style === '0,1,0,1,0') {
+        pass("First-person CTAs need a first-person word where the language is known; questions are not imperatives; phrases match whole words.");
+    } else {
+        fail(`Unexpected CTA style results: ${style}`);
+    }
+}
+
+async function testEngine() {
+    const project = await new InboundOrchestrator().validateInput(brief);
+    const requests: TextGenerationRequest[] = [];
+    const provider = new StubTextProvider();
+    const originalGenerate = provider.generate.bind(provider);
+    provider.generate = async request => {
+        requests.push(request);
+        return originalGenerate(request);
+    };
+
+    const output = await new CreativeAIEngine(provider, undefined, { ...DEFAULT_STAGE_POLICIES.CREATIVE, initialDelayMs: 0 }).generateCreatives(project);
+    const italian = output.variants.find(variant => variant.locale === 'it-IT');
+
+    // fr-FR has no CTA verbs, so the stub falls back to "Discover More", a banned phrase
+    if (project.status === 'VALIDATED' && output.variants.map(variant => variant.locale).sort().join(',') === 'de-DE,it-IT'
+        && italian?.ctaText === 'Scopri Lusitano Villas' && italian.bodyCopy.length <= 200
+        && output.errors?.length === 1
+        && output.errors[0] === "fr-FR: BrandGuidelineViolationError: Brand Guideline Violation: fr-FR copy breaks the brand guidelines: Banned phrase 'Discover more' in ctaText."
+        && requests.filter(request => request.locale === 'fr-FR').length === 1
+        && requests.every(request => request.constraints.bodyCopyMaxLength === 200 && request.prompt.user.includes('Tone of voice: warm'))) {
+        pass("Variants follow the guidelines; an off-brand locale fails with BrandGuidelineViolationError and is not retried.");
+    } else {
+        fail(`Unexpected engine output: ${JSON.stringify({ variants: output.variants, errors: output.errors })}`);
+    }
+}
+
+async function testValidation() {
+    const project = await new InboundOrchestrator().validateInput({
+        ...brief,
+        guidelines: {
+            readingLevel: 'academic' as BrandGuidelines['readingLevel'],
+            maxLengths: { ctaText: 0 },
+            cta: { verbStyle: 'shouty' as 'imperative', verbs: { 'xx-invalid-': ['Go'] } },
+            palette: { primary: 'blue', text: '#12345' },
+            typography: { headingFont: 'Evil}body{color:red' }
+        }
+    });
+    const fields = project.issues.map(issue => issue.field).sort().join(',');
+    if (project.status === 'FAILED' && fields === [
+        'guidelines.cta.verbStyle', 'guidelines.cta.verbs.xx-invalid-', 'guidelines.maxLengths.ctaText', 'guidelines.palette.primary',
+        'guidelines.palette.text', 'guidelines.readingLevel', 'guidelines.typography.headingFont'
+    ].join(',')) {
+        pass("Invalid reading levels, limits, CTA styles, colors and font names fail inbound validation.");
+    } else {
+        fail(`Unexpected issues: ${JSON.stringify(project.issues)}`);
+    }
+}
+
+async function testTheme() {
+    const tokens = buildThemeTokens(guidelines);
+    const unsafe = buildThemeTokens({ palette: { primary: 'red;}body{display:none' }, typography: { bodyFont: 'Inter"; x' } });
+    if (tokens['--brand-primary'] === '#0a4d68' && tokens['--brand-on-primary'] === '#ffffff'
+        && tokens['--background'] === '#fdf6ec' && tokens['--foreground'] === '#000000'
+        && tokens['--brand-font-heading'] === '"Playfair Display", serif' && tokens['--brand-font-body'] === '"Source Sans 3", serif'
+        && Object.keys(unsafe).length === 0 && Object.keys(buildThemeTokens()).length === 0
+        && renderThemeCss({ '--brand-primary': '#0a4d68' }) === ':root{--brand-primary:#0a4d68}\n' && renderThemeCss({}) === '') {
+        pass("Palette and typography become CSS tokens, with contrasting text colors; unsafe values are dropped.");
+    } else {
+        fail(`Unexpected tokens: ${JSON.stringify({ tokens, unsafe })}`);
+    }
+
+    const workDir = await mkdtemp(path.join(tmpdir(), 'brand-theme-'));
+    try {
+        const store = new InMemoryWorkflowStateStore();
+        const releaseStore = new InMemoryReleaseStore();
+        const provider = new LocalStaticExportProvider(workDir);
+        const manifest = await new MainOrchestrator({ stateStore: store, releaseStore, deploymentProvider: provider })
+            .runPipeline({ ...brief, targetLocales: ['it-IT', 'de-DE'] });
+        const css = await readFile(path.join(workDir, 'guidelines-check', manifest.manifestId, 'assets/site.css'), 'utf8');
+        const published = await new MicrositeRepository(store, new ReleaseManager(store, releaseStore)).findCampaign('guidelines-check', 'preview');
+        if (css.includes('--brand-primary:#0a4d68') && css.includes('--brand-font-heading:"Playfair Display", serif')
+            && css.includes('background:var(--brand-primary') && published?.theme['--brand-primary'] === '#0a4d68') {
+            pass("Exported stylesheets and published campaigns carry the brand theme.");
+        } else {
+            fail(`Unexpected theme output: ${css} / ${JSON.stringify(published?.theme)}`);
+        }
+    } finally {
+        await rm(workDir, { recursive: true, force: true });
+    }
+}
+
+async function runBrandGuidelinesTest() {
+    console.log(">>> STARTING BRAND GUIDELINES TEST <<<");
+
+    await testPrompt();
+    await testChecks();
+    await testEngine();
+    await testValidation();
+    await testTheme();
+
+    console.log(process.exitCode ? "\n>>> BRAND GUIDELINES FAILED <<<" : "\n>>> BRAND GUIDELINES SUCCESSFUL <<<");
+}
+
+runBrandGuidelinesTest();
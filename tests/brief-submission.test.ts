@@ -0,0 +1,107 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { BriefSubmissionService } from '../lib/inbound/brief-submission';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { BriefInput } from '../lib/contracts/contracts';
+
+/**
+ * Brief Submission Test Suite
+ *
+ * Purpose:
+ * Submit the intake form as FormData (with File uploads) and verify inline field errors,
+ * that nothing is written for rejected briefs, and that accepted briefs start a pipeline run using the uploads.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+function briefForm(fields: Record<string, string | string[]>, files: Record<string, File> = {}): FormData {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+        for (const v of Array.isArray(value) ? value : [value]) form.append(name, v);
+    }
+    for (const [name, file] of Object.entries(files)) form.append(name, file);
+    return form;
+}
+
+async function runBriefSubmissionTest() {
+    console.log(">>> STARTING BRIEF SUBMISSION TEST <<<");
+
+    const uploads = await mkdtemp(path.join(tmpdir(), 'factory-uploads-'));
+    const runs = new InMemoryWorkflowStateStore();
+    const scheduled: Array<() => Promise<void>> = [];
+    const service = new BriefSubmissionService({
+        orchestrator: new MainOrchestrator({ stateStore: runs }),
+        uploadDirectory: uploads,
+        schedule: task => { scheduled.push(task); }
+    });
+
+    const logo = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'logo.png', { type: 'image/png' });
+    const keywords = new File(['locale,keyword,volume,intent\nit-IT,ville di lusso comporta,900,transactional\n'], 'keywords.csv', { type: 'text/csv' });
+
+    try {
+        // 1. Rejected brief: errors grouped per form field, nothing written or started
+        const rejected = await service.submit(briefForm(
+            { campaignId: 'c1', brandName: 'Lusitano', coreMessage: 'Too short', targetLocales: [] },
+            { logo: new File(['%PDF'], 'logo.pdf', { type: 'application/pdf' }), keywords: new File([], '') }
+        ));
+        const fields = Object.keys(rejected.fieldErrors).sort();
+        const expected = ['assets.keywordsCsvUrl', 'assets.logoUrl', 'campaignId', 'coreMessage', 'targetLocales'];
+        if (rejected.status === 'invalid' && JSON.stringify(fields) === JSON.stringify(expected)
+            && rejected.fieldErrors['assets.logoUrl'][0].includes('logo.pdf') && rejected.values.brandName === 'Lusitano') {
+            pass("Rejected brief returns per-field errors and echoes the submitted values.");
+        } else {
+            fail(`Unexpected rejection: ${JSON.stringify(rejected)}`);
+        }
+
+        if ((await readdir(uploads)).length === 0 && scheduled.length === 0) {
+            pass("Nothing is uploaded or started for a rejected brief.");
+        } else {
+            fail("Rejected brief left uploads behind or started a run.");
+        }
+
+        // 2. Accepted brief: uploads stored, run scheduled under the returned id
+        const accepted = await service.submit(briefForm(
+            { campaignId: 'comporta-2026', brandName: 'Lusitano Luxury', coreMessage: 'Exclusive villas in Comporta with sustainable design.', targetLocales: ['it-IT', 'en-GB', 'it-IT'] },
+            { logo, keywords }
+        ));
+        if (accepted.status === 'started' && accepted.runId?.startsWith('run_comporta-2026_') && scheduled.length === 1
+            && accepted.warnings.some(w => w.includes("Duplicate targetLocale 'it-IT'"))) {
+            pass("Accepted brief schedules a run and reports non-blocking warnings.");
+        } else {
+            fail(`Unexpected acceptance: ${JSON.stringify(accepted)}`);
+        }
+
+        // Briefs submitted within the same millisecond still get distinct run ids
+        const orchestrator = new MainOrchestrator({ stateStore: runs });
+        const ids = new Set(Array.from({ length: 50 }, () => orchestrator.createRunId({ campaignId: 'comporta-2026' } as BriefInput)));
+        if (ids.size === 50) {
+            pass("Run ids stay unique for briefs submitted at the same time.");
+        } else {
+            fail(`Only ${ids.size} distinct run ids out of 50.`);
+        }
+
+        await scheduled[0]();
+        const state = await runs.load(accepted.runId!);
+        const italian = state?.data.seoResults?.find(v => v.locale === 'it-IT');
+        if (state?.currentStep === 'COMPLETED' && JSON.stringify(italian).includes('ville di lusso comporta')) {
+            pass("The run completed using the uploaded keyword file.");
+        } else {
+            fail(`Unexpected run state: ${JSON.stringify({ step: state?.currentStep, title: italian?.seo.title, errors: state?.errors })}`);
+        }
+    } finally {
+        await rm(uploads, { recursive: true, force: true });
+    }
+
+    console.log(process.exitCode ? "\n>>> BRIEF SUBMISSION FAILED <<<" : "\n>>> BRIEF SUBMISSION SUCCESSFUL <<<");
+}
+
+runBriefSubmissionTest();
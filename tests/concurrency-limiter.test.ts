@@ -0,0 +1,176 @@
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest } from '../lib/creative/text-generation';
+import { ConcurrencyLimiter, getSharedLimiter, TokenBucket } from '../lib/resilience/concurrency-limiter';
+import { BriefInput } from '../lib/contracts/contracts';
+
+/**
+ * Concurrency Limiter Test Suite
+ *
+ * Purpose:
+ * Check the token bucket and the limiter (slot cap, priority order, rate, counts), then that pipelines
+ * share one limit across campaigns and record their priority.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+function brief(campaignId: string, targetLocales: string[]): BriefInput {
+    return {
+        campaignId,
+        brandName: 'Lusitano',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales,
+        assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+    };
+}
+
+async function testTokenBucket() {
+    let now = 0;
+    const bucket = new TokenBucket(2, 2, () => now);
+    const burst = [bucket.take(), bucket.take()];
+    const empty = bucket.take();
+    now = 250;
+    const half = bucket.take();
+    now = 500;
+    const refilled = bucket.take();
+    now = 10_000;
+
+    if (burst.join(',') === '0,0' && empty === 500 && half === 250 && refilled === 0 && bucket.available() === 2) {
+        pass("The token bucket allows its burst, then reports the wait until the next token, capped at the burst.");
+    } else {
+        fail(`Unexpected bucket: ${JSON.stringify({ burst, empty, half, refilled, available: bucket.available() })}`);
+    }
+}
+
+async function testLimiter() {
+    // 1. Slot cap and counts
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const release: Array<() => void> = [];
+    const tasks = Array.from({ length: 5 }, () => limiter.schedule(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise<void>(resolve => release.push(resolve));
+        running--;
+    }));
+    await new Promise(resolve => setImmediate(resolve));
+    const busy = limiter.stats();
+    while (release.length > 0 || running > 0) {
+        release.splice(0).forEach(resolve => resolve());
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    await Promise.all(tasks);
+
+    if (peak === 2 && busy.inFlight === 2 && busy.queued.batch === 3 && limiter.stats().inFlight === 0) {
+        pass("No more than maxConcurrent tasks run at once; in-flight and queued counts are exposed.");
+    } else {
+        fail(`Unexpected limiter: ${JSON.stringify({ peak, busy, after: limiter.stats() })}`);
+    }
+
+    // 2. Interactive work is dequeued before batch work queued earlier
+    const single = new ConcurrencyLimiter(1);
+    const order: string[] = [];
+    let unblock!: () => void;
+    const blocker = single.schedule(() => new Promise<void>(resolve => { unblock = resolve; }));
+    const queued = [
+        single.schedule(async () => { order.push('batch-1'); }, 'batch'),
+        single.schedule(async () => { order.push('batch-2'); }, 'batch'),
+        single.schedule(async () => { order.push('interactive'); }, 'interactive')
+    ];
+    await new Promise(resolve => setImmediate(resolve));
+    const waiting = single.stats().queued;
+    unblock();
+    await Promise.all([blocker, ...queued]);
+
+    if (order.join(',') === 'interactive,batch-1,batch-2' && waiting.interactive === 1 && waiting.batch === 2) {
+        pass("Interactive tasks jump ahead of queued batch tasks; batch keeps FIFO order.");
+    } else {
+        fail(`Unexpected order: ${order.join(',')}`);
+    }
+
+    // 3. Rate limit
+    const throttled = new ConcurrencyLimiter(10, new TokenBucket(20, 1));
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 3 }, () => throttled.schedule(async () => undefined)));
+    const elapsed = Date.now() - started;
+    if (elapsed >= 90 && throttled.stats().ratePerSecond === 20) {
+        pass("The token bucket spaces task starts even when slots are free.");
+    } else {
+        fail(`Three starts at 20/s with burst 1 took ${elapsed}ms.`);
+    }
+
+    // 4. A failing task frees its slot
+    try {
+        await single.schedule(async () => { throw new Error('boom'); });
+    } catch {
+        // Expected
+    }
+    if (single.stats().inFlight === 0) {
+        pass("A failing task releases its slot.");
+    } else {
+        fail(`Slot leaked: ${JSON.stringify(single.stats())}`);
+    }
+}
+
+async function testSharedPipelineLimit() {
+    const shared = getSharedLimiter();
+    const originalGenerate = StubTextProvider.prototype.generate;
+    let running = 0;
+    let peak = 0;
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        running++;
+        peak = Math.max(peak, running);
+        try {
+            return await originalGenerate.call(this, request);
+        } finally {
+            running--;
+        }
+    };
+
+    try {
+        // Two campaigns at once, each wider than the limit; the limiter is shared by default
+        const runs = new InMemoryWorkflowStateStore();
+        const locales = ['it-IT', 'fr-FR', 'es-ES', 'pt-PT', 'nl-NL', 'pl-PL'];
+        await Promise.all([
+            new MainOrchestrator({ stateStore: runs }).runPipeline(brief('limit-a', locales), 'run_limit_a', 'interactive'),
+            new MainOrchestrator({ stateStore: runs }).runPipeline(brief('limit-b', locales), 'run_limit_b')
+        ]);
+        const [a, b] = [await runs.load('run_limit_a'), await runs.load('run_limit_b')];
+
+        if (peak <= 2 && a?.currentStep === 'COMPLETED' && b?.currentStep === 'COMPLETED' && shared.stats().maxConcurrent === 2) {
+            pass("Concurrent campaigns share the process-wide limit (PIPELINE_MAX_CONCURRENCY).");
+        } else {
+            fail(`Peak of ${peak} concurrent provider calls with a shared limit of ${shared.stats().maxConcurrent}.`);
+        }
+
+        if (a?.priority === 'interactive' && b?.priority === 'batch' && shared.stats().inFlight === 0) {
+            pass("Runs record their priority, and every slot is released when they finish.");
+        } else {
+            fail(`Unexpected priorities: ${a?.priority} / ${b?.priority}`);
+        }
+    } finally {
+        StubTextProvider.prototype.generate = originalGenerate;
+    }
+}
+
+async function runConcurrencyLimiterTest() {
+    console.log(">>> STARTING CONCURRENCY LIMITER TEST <<<");
+    process.env.PIPELINE_MAX_CONCURRENCY = '2'; // Read once, when the shared limiter is first built
+
+    await testTokenBucket();
+    await testLimiter();
+    await testSharedPipelineLimit();
+
+    console.log(process.exitCode ? "\n>>> CONCURRENCY LIMITER FAILED <<<" : "\n>>> CONCURRENCY LIMITER SUCCESSFUL <<<");
+}
+
+runConcurrencyLimiterTest();
@@ -0,0 +1,119 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { CreativeAIEngine } from '../lib/creative/creative-engine';
+import { OpenAICompatibleProvider } from '../lib/creative/providers/openai-compatible-provider';
+import { ValidatedProject } from '../lib/contracts/contracts';
+
+/**
+ * Creative Provider Test Suite
+ *
+ * Purpose:
+ * Run the OpenAI-compatible adapter against a local mock chat-completions server and verify
+ * that prompts are built from the brief, responses are schema-checked, and the model is recorded per variant.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+interface CapturedRequest {
+    authorization?: string;
+    body: { model: string; messages: Array<{ role: string; content: string }> };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+async function runCreativeProviderTest() {
+    console.log(">>> STARTING CREATIVE PROVIDER TEST <<<");
+
+    const captured: CapturedRequest[] = [];
+
+    // Mock server: valid copy for it-IT, schema-breaking copy (no ctaText) for fr-FR.
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        const body = JSON.parse(await readBody(req)) as CapturedRequest['body'];
+        captured.push({ authorization: req.headers.authorization, body });
+
+        const userPrompt = body.messages.find(m => m.role === 'user')?.content ?? '';
+        const copy = userPrompt.includes('it-IT')
+            ? { heroTitle: 'Ville sostenibili a Comporta', bodyCopy: 'Design sostenibile firmato Lusitano.', ctaText: 'Scopri di più' }
+            : { heroTitle: 'Villas durables', bodyCopy: 'Design durable.' };
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            model: 'mock-model-2026-01',
+            choices: [{ message: { role: 'assistant', content: JSON.stringify(copy) } }]
+        }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+        const provider = new OpenAICompatibleProvider({
+            baseUrl: `http://127.0.0.1:${port}/v1`,
+            apiKey: 'test-key',
+            model: 'mock-model',
+            timeoutMs: 5_000
+        });
+        const engine = new CreativeAIEngine(provider);
+
+        const project: ValidatedProject = {
+            projectId: 'provider-test',
+            timestamp: new Date().toISOString(),
+            status: 'VALIDATED',
+            payload: {
+                campaignId: 'provider-test',
+                brandName: 'Lusitano Luxury',
+                coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+                targetLocales: ['it-IT', 'fr-FR'],
+                assets: { logoUrl: 'https://l.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+            },
+            compliance: { requiresGDPR: true, cookieConsentActive: true, dataResidency: 'EU', privacy: [] },
+            issues: []
+        };
+
+        const output = await engine.generateCreatives(project);
+
+        const prompt = captured.find(c => c.body.messages[1].content.includes('it-IT'));
+        if (prompt && prompt.authorization === 'Bearer test-key' && prompt.body.model === 'mock-model'
+            && prompt.body.messages[1].content.includes('Lusitano Luxury') && prompt.body.messages[1].content.includes('heroTitle: max 70')) {
+            pass("Prompt carries brand, core message, locale and layout constraints.");
+        } else {
+            fail(`Unexpected request payload: ${JSON.stringify(prompt)}`);
+        }
+
+        const it = output.variants.find(v => v.locale === 'it-IT');
+        if (output.variants.length === 1 && it?.ctaText === 'Scopri di più' && it.generationModel === 'mock-model-2026-01') {
+            pass("Valid response parsed into a UIContentVariant with the responding model recorded.");
+        } else {
+            fail(`Unexpected variants: ${JSON.stringify(output.variants)}`);
+        }
+
+        if (output.errors?.length === 1 && output.errors[0].includes("fr-FR response is missing 'ctaText'")) {
+            pass("Schema-breaking response rejected as a per-locale error.");
+        } else {
+            fail(`Unexpected errors: ${JSON.stringify(output.errors)}`);
+        }
+
+        if (output.generationModel === 'mock-model') {
+            pass("Engine output records the configured model.");
+        } else {
+            fail(`Unexpected generationModel: ${output.generationModel}`);
+        }
+    } finally {
+        await new Promise(resolve => server.close(resolve));
+    }
+
+    console.log(process.exitCode ? "\n>>> CREATIVE PROVIDER FAILED <<<" : "\n>>> CREATIVE PROVIDER SUCCESSFUL <<<");
+}
+
+runCreativeProviderTest();
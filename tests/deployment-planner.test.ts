@@ -0,0 +1,98 @@
+import { DeploymentPlanner } from '../lib/deployment/deployment-planner';
+import { deploymentForLocale } from '../lib/deployment/deployment-manifest';
+import { GeoDeploymentHub } from '../lib/deployment/geo-hub';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { DeploymentPlanningError } from '../lib/contracts/errors';
+import { BriefInput, SEOOptimizedVariant } from '../lib/contracts/contracts';
+
+/**
+ * Deployment Planner Test Suite
+ *
+ * Purpose:
+ * Assign each locale to an edge region under its data-residency constraint, deploy one DeploymentConfig
+ * per region, and refuse plans that would serve a locale from the wrong jurisdiction.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+function brief(targetLocales: string[]): BriefInput {
+    return {
+        campaignId: 'planner-check',
+        brandName: 'Lusitano',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales,
+        assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+    };
+}
+
+function variants(locales: string[]): SEOOptimizedVariant[] {
+    return locales.map(locale => ({
+        locale,
+        seo: { canonicalUrl: `https://microsite-factory.com/${locale}/planner-check`, hreflang: {} }
+    })) as unknown as SEOOptimizedVariant[];
+}
+
+async function runDeploymentPlannerTest() {
+    console.log(">>> STARTING DEPLOYMENT PLANNER TEST <<<");
+
+    // 1. 2-EU/1-US campaign: no more majority vote
+    const locales = ['de-DE', 'fr-FR', 'en-US'];
+    const project = await new InboundOrchestrator().validateInput(brief(locales));
+    const manifest = await new GeoDeploymentHub().executeGeoDeploy(variants(locales), project.compliance, { campaignId: 'planner-check' });
+    const placed = manifest.assignments.map(a => `${a.locale}:${a.edgeRegion}`).join(',');
+    if (placed === 'de-DE:fra1,fr-FR:cdg1,en-US:iad1' && manifest.deployments.length === 3) {
+        pass("Each locale is served from its own market's region instead of the majority region.");
+    } else {
+        fail(`Unexpected plan: ${placed} (${manifest.deployments.length} deployments)`);
+    }
+
+    const american = deploymentForLocale(manifest, 'EN-us');
+    if (american?.edgeRegion === 'iad1' && american.locales.join(',') === 'en-US'
+        && new Set(manifest.deployments.map(d => d.deploymentId)).size === manifest.deployments.length) {
+        pass("Every region gets its own DeploymentConfig; locale lookup is case-insensitive.");
+    } else {
+        fail(`Unexpected regional deployment: ${JSON.stringify(american)}`);
+    }
+
+    const twins = await Promise.all([0, 1].map(() =>
+        new GeoDeploymentHub().executeGeoDeploy(variants(['de-DE']), project.compliance, { campaignId: 'planner-check' })));
+    if (twins[0].manifestId !== twins[1].manifestId && twins[0].deployments[0].deploymentId !== twins[1].deployments[0].deploymentId) {
+        pass("Simultaneous deploys of one campaign get distinct manifest and deployment ids.");
+    } else {
+        fail(`Colliding ids: ${twins.map(m => `${m.manifestId}/${m.deployments[0].deploymentId}`).join(', ')}`);
+    }
+
+    // 2. Residency is a constraint, proximity only a preference
+    const euOnly = new DeploymentPlanner([
+        { id: 'iad1', residency: 'US', countries: ['US'] },
+        { id: 'fra1', residency: 'EU', countries: ['DE'] }
+    ]);
+    const fallback = euOnly.plan(['it-IT', 'ja-JP'], project.compliance).map(a => `${a.locale}:${a.edgeRegion}`).join(',');
+    if (fallback === 'it-IT:fra1,ja-JP:iad1') {
+        pass("Markets without a nearby region fall back to the first region meeting their residency.");
+    } else {
+        fail(`Unexpected fallback plan: ${fallback}`);
+    }
+
+    try {
+        new DeploymentPlanner([{ id: 'iad1', residency: 'US', countries: ['US'] }]).plan(['en-US', 'de-DE'], project.compliance);
+        fail("An EU locale was placed without an EU region.");
+    } catch (e) {
+        if (e instanceof DeploymentPlanningError && e.unplaced.map(u => `${u.locale}:${u.residency}`).join(',') === 'de-DE:EU') {
+            pass("A residency requirement no region can meet fails the plan with DeploymentPlanningError.");
+        } else {
+            fail(`Unexpected error: ${e}`);
+        }
+    }
+
+    console.log(process.exitCode ? "\n>>> DEPLOYMENT PLANNER FAILED <<<" : "\n>>> DEPLOYMENT PLANNER SUCCESSFUL <<<");
+}
+
+runDeploymentPlannerTest();
@@ -0,0 +1,122 @@
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { EXPORT_MANIFEST_FILE, ExportManifest, LocalStaticExportProvider } from '../lib/deployment/providers/local-static-provider';
+import { BriefInput } from '../lib/contracts/contracts';
+
+/**
+ * Deployment Provider Test Suite
+ *
+ * Purpose:
+ * Run the pipeline against the local static-export provider and check what lands on disk:
+ * escaped locale pages with their metadata, copied assets, crawl files, per-region edge rules and the export manifest.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+async function runDeploymentProviderTest() {
+    console.log(">>> STARTING DEPLOYMENT PROVIDER TEST <<<");
+
+    const workDir = await mkdtemp(path.join(tmpdir(), 'static-export-'));
+    const exportDir = path.join(workDir, 'exports');
+    const logoPath = path.join(workDir, 'logo.PNG');
+    await writeFile(logoPath, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    const brief: BriefInput = {
+        campaignId: 'export-check',
+        brandName: 'Lusitano',
+        coreMessage: 'Villas <b>"by the sea"</b> & dunes.',
+        targetLocales: ['it-IT', 'en-US'],
+        assets: { logoUrl: pathToFileURL(logoPath).href, keywordsCsvUrl: './keywords.csv' }
+    };
+
+    try {
+        const provider = new LocalStaticExportProvider(exportDir);
+        const manifest = await new MainOrchestrator({ stateStore: new InMemoryWorkflowStateStore(), deploymentProvider: provider }).runPipeline(brief);
+        const root = path.join(exportDir, 'export-check', manifest.manifestId);
+        const read = (file: string) => readFile(path.join(root, file), 'utf8');
+
+        // 1. Real manifest
+        const fra1 = manifest.deployments.find(d => d.edgeRegion === 'fra1');
+        if (manifest.provider === 'local-static' && fra1?.deploymentId.startsWith(`dpl_fra1_${manifest.manifestId.slice(4)}_`)
+            && fra1.url?.endsWith(`/exports/export-check/${manifest.manifestId}/it-IT/export-check/index.html`)) {
+            pass("The manifest names the provider, and each region links to its exported page.");
+        } else {
+            fail(`Unexpected manifest: ${JSON.stringify(manifest.deployments)}`);
+        }
+
+        // 2. Pages
+        const page = await read('it-IT/export-check/index.html');
+        if (page.includes('<html lang="it-IT" dir="ltr">') && page.includes('&lt;b&gt;&quot;by the sea&quot;&lt;/b&gt; &amp; dunes')
+            && !page.includes('<b>') && page.includes('rel="alternate" hreflang="en-US"')
+            && page.includes('<link rel="canonical"') && page.includes('application/ld+json')
+            && page.includes('href="../../assets/site.css"') && page.includes('src="../../assets/logo.png"')) {
+            pass("Locale pages carry escaped copy, canonical, hreflang and JSON-LD, and link assets relatively.");
+        } else {
+            fail(`Unexpected page: ${page}`);
+        }
+
+        // 3. Assets, crawl files and edge rules
+        const [robots, sitemap, rules, logo] = await Promise.all([
+            read('robots.txt'),
+            read('sitemaps/export-check/sitemap.xml'),
+            read('_middleware/fra1.json').then(JSON.parse),
+            readFile(path.join(root, 'assets/logo.png'))
+        ]);
+        if (robots.includes('Sitemap:') && sitemap.includes('<xhtml:link') && logo.length === 4
+            && rules.locales.join(',') === 'it-IT' && rules.rules.consentRequired === true) {
+            pass("Assets, robots.txt, sitemap and per-region middleware config are written.");
+        } else {
+            fail(`Unexpected support files: ${JSON.stringify({ robots, rules })}`);
+        }
+
+        // 4. Export manifest lists every file with its hash
+        const exported = JSON.parse(await read(EXPORT_MANIFEST_FILE)) as ExportManifest;
+        const checks = await Promise.all(exported.files.map(async file =>
+            createHash('sha256').update(await readFile(path.join(root, file.path))).digest('hex') === file.sha256));
+        if (exported.files.length === 8 && checks.every(Boolean) && exported.deployments.length === 2) {
+            pass("deployment.json lists every exported file with a matching sha256.");
+        } else {
+            fail(`Unexpected export manifest: ${exported.files.map(f => f.path).join(', ')}`);
+        }
+
+        // 5. Versions are immutable
+        try {
+            await provider.deploy({
+                manifestId: manifest.manifestId, campaignId: 'export-check', variants: [], regions: [],
+                middlewareRules: fra1!.middlewareRules, crawl: manifest.crawl
+            });
+            fail("An existing export version was overwritten.");
+        } catch (e) {
+            if (e instanceof Error && e.message.includes('immutable')) pass("Re-deploying an existing manifestId is refused.");
+            else fail(`Unexpected error: ${e}`);
+        }
+
+        // 6. Local serving
+        const served = await provider.read(['export-check', manifest.manifestId, 'it-IT', 'export-check', 'index.html']);
+        const directory = await provider.read(['export-check', manifest.manifestId, 'it-IT', 'export-check']);
+        const escaped = await provider.read(['..', 'logo.PNG']);
+        if (served?.kind === 'file' && served.contentType.startsWith('text/html') && directory?.kind === 'directory' && escaped === null) {
+            pass("Exports are readable for local serving; paths outside the exports directory are not.");
+        } else {
+            fail(`Unexpected reads: ${JSON.stringify({ served: served?.kind, directory, escaped })}`);
+        }
+    } finally {
+        await rm(workDir, { recursive: true, force: true });
+    }
+
+    console.log(process.exitCode ? "\n>>> DEPLOYMENT PROVIDER FAILED <<<" : "\n>>> DEPLOYMENT PROVIDER SUCCESSFUL <<<");
+}
+
+runDeploymentProviderTest();
@@ -37,8 +37,8 @@ async function runIntegrationTest() {
         console.log("\n>>> VERIFICATION <<<");
 
         // Assertion 1: Compliance (GDPR)
-        // Since we targeted IT and DE (EU), middlewareRules.consentRequired MUST be true.
-        if (result.middlewareRules.consentRequired === true) {
+        // Since we targeted IT and DE (EU), middlewareRules.consentRequired MUST be true in every region.
+        if (result.deployments.every(d => d.middlewareRules.consentRequired === true)) {
             console.log("✅ [PASS] GDPR Compliance: Consent Gate Active (EU Access Detected)");
         } else {
             console.error("❌ [FAIL] GDPR Compliance: EU targets found but consent not required!");
@@ -46,17 +46,18 @@ async function runIntegrationTest() {
         }
 
         // Assertion 2: Region Selection
-        // We have 2 EU (it, de) vs 1 US (en). Majority is EU. Expected Region: 'fra1'.
-        if (result.edgeRegion === 'fra1') {
-            console.log("✅ [PASS] Data Residency: Correct Edge Region selected (fra1) based on EU majority.");
+        // Each locale is served near its market: EU locales (it, de) from fra1 under EU residency, en-US from iad1.
+        const regionOf = (locale: string) => result.assignments.find(a => a.locale === locale)?.edgeRegion;
+        if (regionOf('it-IT') === 'fra1' && regionOf('de-DE') === 'fra1' && regionOf('en-US') === 'iad1' && result.deployments.length === 2) {
+            console.log("✅ [PASS] Data Residency: EU locales deployed to fra1, en-US to iad1 (one deployment per region).");
         } else {
-            console.error(`❌ [FAIL] Data Residency: Expected 'fra1', got '${result.edgeRegion}'`);
+            console.error(`❌ [FAIL] Data Residency: Unexpected assignments ${JSON.stringify(result.assignments)}`);
             process.exit(1);
         }
 
         // Assertion 3: Deployment Integrity
-        if (result.isLive && result.deploymentId.startsWith('dpl_')) {
-            console.log("✅ [PASS] Deployment Integrity: Valid Deployment ID returned.");
+        if (result.deployments.every(d => !d.isLive && d.deploymentId.startsWith('dpl_'))) {
+            console.log("✅ [PASS] Deployment Integrity: Valid Deployment ID returned, deployed as a preview.");
         } else {
             console.error("❌ [FAIL] Deployment Integrity: Invalid Deployment Config.");
             process.exit(1);
@@ -0,0 +1,117 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseKeywordsCsv, KeywordIngestionService } from '../lib/seo/keyword-ingestion';
+import { SeoSemanticAgent } from '../lib/seo/seo-agent';
+
+/**
+ * Keyword Ingestion Test Suite
+ *
+ * Purpose:
+ * Verify that keywords.csv exports in the shapes keyword tools actually produce
+ * (BOM, ';' delimiter, quoted cells, aliased headers) become ranked per-locale sets.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+async function runKeywordIngestionTest() {
+    console.log(">>> STARTING KEYWORD INGESTION TEST <<<");
+
+    // 1. Parser: BOM + semicolon delimiter + quoted cell containing the delimiter and escaped quotes
+    const excelExport = '\uFEFFMarket;Keyword;Search Volume;Intent\r\n'
+        + 'it_IT;"Ville; lusso ""Comporta""";1.200;Transactional\r\n'
+        + 'it-IT;Ville al mare;5k;info\r\n'
+        + 'xx-!!;broken;10;t\r\n';
+
+    const parsed = parseKeywordsCsv(excelExport);
+    if (parsed.records.length === 2 && parsed.records[0].keyword === 'Ville; lusso "Comporta"' && parsed.records[0].searchVolume === 1200) {
+        pass("Parser handled BOM, ';' delimiter, quoting and thousands separators.");
+    } else {
+        fail(`Unexpected parse result: ${JSON.stringify(parsed.records)}`);
+    }
+
+    // '.' is a thousands separator only before groups of exactly three digits
+    const volumes = parseKeywordsCsv('locale,keyword,volume\nit-IT,a,12.5\nit-IT,b,1.5\nit-IT,c,1.200.000\nit-IT,d,2.5k\n')
+        .records.map(record => record.searchVolume).join();
+    if (volumes === '13,2,1200000,2500') {
+        pass("Decimal volumes are not mistaken for thousands separators.");
+    } else {
+        fail(`Unexpected volumes: ${volumes}`);
+    }
+
+    // ',' is a decimal mark before a suffix or anything but groups of exactly three digits
+    const commaVolumes = parseKeywordsCsv('locale;keyword;volume\nit-IT;a;1,5k\nit-IT;b;12,5\nit-IT;c;1,200\nit-IT;d;1.200,5\nit-IT;e;1,200.5\nit-IT;f;2,5m\n')
+        .records.map(record => record.searchVolume).join();
+    if (commaVolumes === '1500,13,1200,1201,1201,2500000') {
+        pass("Comma decimals ('1,5k', '12,5') are kept apart from comma thousands separators ('1,200').");
+    } else {
+        fail(`Unexpected comma volumes: ${commaVolumes}`);
+    }
+
+    if (parsed.warnings.some(w => w.includes("unknown locale 'xx-!!'"))) {
+        pass("Invalid locale row reported as a warning.");
+    } else {
+        fail("Invalid locale row was not reported.");
+    }
+
+    // 2. Service: file:// source, ranking and gap warnings
+    const dir = await mkdtemp(path.join(tmpdir(), 'keywords-'));
+    const csvPath = path.join(dir, 'keywords.csv');
+    await writeFile(csvPath, [
+        'locale,keyword,volume,intent',
+        'en-US,villas comporta,900,informational',
+        'en-US,buy villa comporta,900,transactional',
+        'en-US,luxury villas,4000,commercial',
+        'it,ville comporta,300,commercial',
+        'ja-JP,コンポルタ ヴィラ,50,informational'
+    ].join('\n'));
+
+    try {
+        const result = await new KeywordIngestionService().ingest(pathToFileURL(csvPath).href, ['en-US', 'it-IT', 'de-DE']);
+
+        const en = result.keywordsByLocale['en-US'].map(k => k.keyword);
+        if (JSON.stringify(en) === JSON.stringify(['luxury villas', 'buy villa comporta', 'villas comporta'])) {
+            pass("Keywords ranked by volume, then by intent.");
+        } else {
+            fail(`Unexpected en-US ranking: ${en.join(', ')}`);
+        }
+
+        if (result.keywordsByLocale['it-IT'][0]?.keyword === 'ville comporta') {
+            pass("Language-only rows back-fill regional targets.");
+        } else {
+            fail("it-IT did not receive the language-only keywords.");
+        }
+
+        const warnedMissing = result.warnings.some(w => w.includes("'de-DE'"));
+        const warnedIgnored = result.warnings.some(w => w.includes("'ja-JP' ignored"));
+        if (warnedMissing && warnedIgnored) {
+            pass("Missing and non-target locales produce warnings.");
+        } else {
+            fail(`Expected gap warnings, got: ${result.warnings.join(' | ')}`);
+        }
+
+        // 3. Agent: no silent generic fallback
+        const agent = new SeoSemanticAgent();
+        const variant = { locale: 'de-DE', heroTitle: 'Villen', bodyCopy: 'Text', ctaText: 'Los', layoutId: 'layout-wide-v2' };
+        const optimized = await agent.optimizeSEO(variant, { keywords: result.keywordsByLocale['de-DE'] });
+        if (optimized.keywordsApplied.length === 0 && optimized.warnings?.length === 1 && !optimized.seo.title.includes('Luxury Real Estate')) {
+            pass("Agent warns instead of applying a generic keyword fallback.");
+        } else {
+            fail(`Unexpected fallback behaviour: ${JSON.stringify(optimized.warnings)}`);
+        }
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+
+    console.log(process.exitCode ? "\n>>> KEYWORD INGESTION FAILED <<<" : "\n>>> KEYWORD INGESTION SUCCESSFUL <<<");
+}
+
+runKeywordIngestionTest();
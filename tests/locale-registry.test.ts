@@ -0,0 +1,108 @@
+import { resolveLocale } from '../lib/locale/locale-registry';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { GeoDeploymentHub } from '../lib/deployment/geo-hub';
+import { BriefInput, SEOOptimizedVariant } from '../lib/contracts/contracts';
+
+/**
+ * Locale Registry Test Suite
+ *
+ * Purpose:
+ * Resolve tags to country, jurisdiction and direction, and verify that inbound compliance and
+ * edge-region selection read the same registry (no more divergent EU lists).
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+function brief(targetLocales: string[]): BriefInput {
+    return {
+        campaignId: 'locale-check',
+        brandName: 'Lusitano',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales,
+        assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+    };
+}
+
+function variant(locale: string): SEOOptimizedVariant {
+    return {
+        locale,
+        seo: { canonicalUrl: `https://microsite-factory.com/${locale}/locale-check`, hreflang: {} }
+    } as unknown as SEOOptimizedVariant;
+}
+
+async function runLocaleRegistryTest() {
+    console.log(">>> STARTING LOCALE REGISTRY TEST <<<");
+
+    // 1. Parsing and resolution
+    const pt = resolveLocale('pt_pt');
+    const de = resolveLocale('de');
+    const ar = resolveLocale('ar');
+    if (pt?.tag === 'pt-PT' && pt.jurisdiction === 'EU' && !pt.regionInferred
+        && de?.region === 'DE' && de.regionInferred && ar?.direction === 'rtl' && pt.direction === 'ltr') {
+        pass("Tags are canonicalized; missing regions are inferred and RTL scripts detected.");
+    } else {
+        fail(`Unexpected resolution: ${JSON.stringify([pt, de, ar])}`);
+    }
+
+    const jurisdictions = ['fr-CA', 'es-MX', 'pl-PL', 'nb-NO', 'en-GB', 'de-CH']
+        .map(tag => resolveLocale(tag)?.jurisdiction).join(',');
+    if (jurisdictions === 'OTHER,OTHER,EU,EEA,UK,CH') {
+        pass("Jurisdiction follows the country, not the language.");
+    } else {
+        fail(`Unexpected jurisdictions: ${jurisdictions}`);
+    }
+
+    if (['', 'english', 'it_IT_x', 'und'].every(tag => resolveLocale(tag) === null)) {
+        pass("Invalid tags are rejected.");
+    } else {
+        fail("An invalid tag was resolved.");
+    }
+
+    // 2. Inbound validation and compliance
+    const inbound = new InboundOrchestrator();
+    const invalid = await inbound.validateInput(brief(['it-IT', 'english']));
+    if (invalid.status === 'FAILED' && invalid.issues.some(i => i.field === 'targetLocales[1]' && i.code === 'INVALID_FORMAT')) {
+        pass("Inbound rejects invalid locale tags per field.");
+    } else {
+        fail(`Unexpected issues: ${JSON.stringify(invalid.issues)}`);
+    }
+
+    const polish = await inbound.validateInput(brief(['pl-PL', 'en-US']));
+    const americas = await inbound.validateInput(brief(['fr-CA', 'es-MX']));
+    if (polish.compliance.requiresGDPR && polish.compliance.dataResidency === 'EU'
+        && !americas.compliance.requiresGDPR && americas.compliance.dataResidency === 'GLOBAL') {
+        pass("GDPR flags follow jurisdiction ('pl-PL' is EU, 'fr-CA'/'es-MX' are not).");
+    } else {
+        fail(`Unexpected compliance: ${JSON.stringify([polish.compliance, americas.compliance])}`);
+    }
+
+    const duplicate = await inbound.validateInput(brief(['it-IT', 'it_it']));
+    if (duplicate.status === 'VALIDATED' && duplicate.issues.some(i => i.code === 'DUPLICATE_VALUE')
+        && duplicate.payload.targetLocales.join(',') === 'it-IT,it-IT') {
+        pass("Locales are canonicalized in the validated payload and duplicates detected across casing.");
+    } else {
+        fail(`Unexpected canonicalization: ${JSON.stringify(duplicate)}`);
+    }
+
+    // 3. Deployment reads the same registry
+    const hub = new GeoDeploymentHub();
+    const eu = await hub.executeGeoDeploy(['pl-PL', 'sv-SE', 'en-US'].map(variant), polish.compliance, { campaignId: 'locale-check' });
+    const na = await hub.executeGeoDeploy(['fr-CA', 'es-MX', 'de-DE'].map(variant), americas.compliance, { campaignId: 'locale-check' });
+    const regions = (manifest: typeof eu) => manifest.assignments.map(a => `${a.locale}:${a.edgeRegion}`).join(',');
+    if (regions(eu) === 'pl-PL:fra1,sv-SE:arn1,en-US:iad1' && regions(na) === 'fr-CA:iad1,es-MX:iad1,de-DE:fra1') {
+        pass("Edge region selection agrees with the locale's country.");
+    } else {
+        fail(`Unexpected regions: ${regions(eu)} / ${regions(na)}`);
+    }
+
+    console.log(process.exitCode ? "\n>>> LOCALE REGISTRY FAILED <<<" : "\n>>> LOCALE REGISTRY SUCCESSFUL <<<");
+}
+
+runLocaleRegistryTest();
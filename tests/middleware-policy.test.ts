@@ -0,0 +1,124 @@
+import {
+    CONSENT_COOKIE,
+    evaluateMicrositeRequest,
+    MicrositeSite,
+    negotiateLocale,
+    parseAcceptLanguage
+} from '../lib/deployment/middleware-policy';
+import { GeoDeploymentHub } from '../lib/deployment/geo-hub';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { SEOOptimizedVariant } from '../lib/contracts/contracts';
+
+/**
+ * Middleware Policy Test Suite
+ *
+ * Purpose:
+ * Drive the edge policy with plain Request objects: locale redirects, geo-blocking and consent marking,
+ * plus the brief -> compliance -> middlewareRules chain that feeds it.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+function request(path: string, headers: Record<string, string> = {}): Request {
+    return new Request(`https://microsite-factory.com${path}`, { headers });
+}
+
+async function runMiddlewarePolicyTest() {
+    console.log(">>> STARTING MIDDLEWARE POLICY TEST <<<");
+
+    const site: MicrositeSite = {
+        campaignId: 'comporta-villas',
+        locales: ['en-GB', 'pt-PT', 'pt-BR', 'de-DE'],
+        rules: { geoBlocking: false, allowedCountries: [], consentRequired: true }
+    };
+
+    // 1. Locale negotiation
+    const prefs = parseAcceptLanguage('fr-FR;q=0.9, pt;q=0.8, *;q=0.1, de;q=0');
+    if (JSON.stringify(prefs.map(p => p.tag)) === JSON.stringify(['fr-FR', 'pt'])) {
+        pass("Accept-Language parsed by quality, dropping wildcards and q=0.");
+    } else {
+        fail(`Unexpected preferences: ${JSON.stringify(prefs)}`);
+    }
+
+    const checks: Array<[string, string, string | null]> = [
+        [negotiateLocale(site.locales, parseAcceptLanguage('de-AT,de;q=0.9'), 'AT'), 'de-DE', 'same language'],
+        [negotiateLocale(site.locales, parseAcceptLanguage('pt'), 'BR'), 'pt-BR', 'language + country'],
+        [negotiateLocale(site.locales, parseAcceptLanguage('ja-JP'), 'PT'), 'pt-PT', 'country fallback'],
+        [negotiateLocale(site.locales, [], null), 'en-GB', 'primary locale fallback']
+    ];
+    const wrong = checks.filter(([actual, expected]) => actual !== expected);
+    if (wrong.length === 0) {
+        pass("Negotiation falls back from language to country to the primary locale.");
+    } else {
+        fail(`Negotiation mismatches: ${JSON.stringify(wrong)}`);
+    }
+
+    // 2. Redirects
+    const bare = evaluateMicrositeRequest(request('/comporta-villas?utm=x', { 'accept-language': 'pt-BR' }), site, null);
+    if (bare.action === 'redirect' && bare.location === 'https://microsite-factory.com/pt-BR/comporta-villas?utm=x') {
+        pass("Bare campaign path redirects to the best variant, keeping the query string.");
+    } else {
+        fail(`Unexpected decision: ${JSON.stringify(bare)}`);
+    }
+
+    const unpublished = evaluateMicrositeRequest(request('/fr-FR/comporta-villas', { 'x-vercel-ip-country': 'DE' }), site, 'fr-FR');
+    if (unpublished.action === 'redirect' && unpublished.locale === 'de-DE') {
+        pass("Unpublished locale redirects using the country header.");
+    } else {
+        fail(`Unexpected decision: ${JSON.stringify(unpublished)}`);
+    }
+
+    // 3. Consent marking
+    const pending = evaluateMicrositeRequest(request('/en-gb/comporta-villas'), site, 'en-gb');
+    const granted = evaluateMicrositeRequest(request('/en-GB/comporta-villas', { cookie: `theme=dark; ${CONSENT_COOKIE}=granted` }), site, 'en-GB');
+    const open = evaluateMicrositeRequest(request('/en-GB/comporta-villas'), { ...site, rules: { ...site.rules, consentRequired: false } }, 'en-GB');
+    if (pending.action === 'continue' && pending.consent === 'required' && pending.locale === 'en-GB'
+        && granted.action === 'continue' && granted.consent === 'granted'
+        && open.action === 'continue' && open.consent === 'not-required') {
+        pass("Published pages pass through, marked with the visitor's consent state.");
+    } else {
+        fail(`Unexpected consent decisions: ${JSON.stringify([pending, granted, open])}`);
+    }
+
+    // 4. Geo-blocking, driven by the brief
+    const project = await new InboundOrchestrator().validateInput({
+        campaignId: 'comporta-villas',
+        brandName: 'Lusitano Luxury',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales: ['pt-PT', 'de-DE'],
+        assets: { logoUrl: 'https://l.com/logo.png', keywordsCsvUrl: './keywords.csv' },
+        restrictToTargetMarkets: true
+    });
+    const variants = ['pt-PT', 'de-DE'].map(locale => ({
+        locale,
+        seo: { canonicalUrl: `https://microsite-factory.com/${locale}/comporta-villas`, hreflang: {} }
+    })) as unknown as SEOOptimizedVariant[];
+    const [deployment] = (await new GeoDeploymentHub().executeGeoDeploy(variants, project.compliance, { campaignId: 'comporta-villas' })).deployments;
+
+    if (deployment.middlewareRules.geoBlocking && JSON.stringify(deployment.middlewareRules.allowedCountries) === '["PT","DE"]') {
+        pass("restrictToTargetMarkets turns on geoBlocking for the target countries.");
+    } else {
+        fail(`Unexpected middlewareRules: ${JSON.stringify(deployment.middlewareRules)}`);
+    }
+
+    const restricted: MicrositeSite = { ...site, locales: ['pt-PT', 'de-DE'], rules: deployment.middlewareRules };
+    const blocked = evaluateMicrositeRequest(request('/comporta-villas', { 'cf-ipcountry': 'us' }), restricted, null);
+    const allowed = evaluateMicrositeRequest(request('/de-DE/comporta-villas', { 'cf-ipcountry': 'DE' }), restricted, 'de-DE');
+    const unknown = evaluateMicrositeRequest(request('/de-DE/comporta-villas', { 'cf-ipcountry': 'XX' }), restricted, 'de-DE');
+    if (blocked.action === 'block' && blocked.status === 451 && allowed.action === 'continue' && unknown.action === 'continue') {
+        pass("Disallowed countries get 451 before any redirect; allowed and unknown countries pass.");
+    } else {
+        fail(`Unexpected geo decisions: ${JSON.stringify([blocked, allowed, unknown])}`);
+    }
+
+    console.log(process.exitCode ? "\n>>> MIDDLEWARE POLICY FAILED <<<" : "\n>>> MIDDLEWARE POLICY SUCCESSFUL <<<");
+}
+
+runMiddlewarePolicyTest();
@@ -0,0 +1,202 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { EventBus } from '../lib/events/event-bus';
+import { JobQueue } from '../lib/events/job-queue';
+import { FileJobStore, InMemoryJobStore } from '../lib/events/job-store';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest } from '../lib/creative/text-generation';
+import { SeoSemanticAgent } from '../lib/seo/seo-agent';
+import { BriefInput, PipelineJob, UIContentVariant } from '../lib/contracts/contracts';
+
+/**
+ * Pipeline Events Test Suite
+ *
+ * Purpose:
+ * Check the event bus and job queue on their own (retries, dead letters, durable results), then
+ * the pipeline wiring: SEO starts per locale while Creative is still running, and a poison SEO job
+ * drops its locale instead of failing the run.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const brief: BriefInput = {
+    campaignId: 'events-check',
+    brandName: 'Lusitano',
+    coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+    targetLocales: ['it-IT', 'de-DE', 'fr-FR'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+};
+
+async function testEventBus() {
+    const bus = new EventBus();
+    const received: string[] = [];
+    const variant = { locale: 'it-IT' } as UIContentVariant;
+
+    bus.subscribe('creative.variant.generated', () => { throw new Error('Broken subscriber'); });
+    const unsubscribe = bus.subscribe('creative.variant.generated', ({ runId }) => { received.push(runId); });
+    await bus.publish('creative.variant.generated', { runId: 'run_a', variant });
+    unsubscribe();
+    await bus.publish('creative.variant.generated', { runId: 'run_b', variant });
+
+    if (received.join(',') === 'run_a') {
+        pass("A failing subscriber does not stop delivery, and unsubscribed handlers receive nothing.");
+    } else {
+        fail(`Unexpected deliveries: ${received.join(',')}`);
+    }
+}
+
+async function testJobQueue() {
+    const directory = await mkdtemp(path.join(tmpdir(), 'job-store-'));
+    try {
+        const bus = new EventBus();
+        const deadLettered: PipelineJob[] = [];
+        bus.subscribe('job.dead-lettered', ({ job }) => { deadLettered.push(job); });
+
+        // 1. Retries, then dead letter
+        let healthy = false;
+        let calls = 0;
+        const queue = new JobQueue(new FileJobStore(directory), bus, { initialDelayMs: 0 });
+        queue.process<{ n: number }, number>('double', async ({ n }) => {
+            calls++;
+            if (!healthy) throw new Error(`Upstream unavailable (${calls})`);
+            return n * 2;
+        });
+
+        const failed = await queue.enqueue<{ n: number }, number>('double', 'run_q', 'a', { n: 21 });
+        const letters = await queue.listDeadLetters('run_q');
+        if (failed.status === 'dead-lettered' && failed.attempts === 3 && failed.errors.length === 3
+            && failed.errors[2] === 'Attempt 3: Upstream unavailable (3)'
+            && deadLettered[0]?.id === 'run_q/double/a' && letters.length === 1) {
+            pass("A job failing every attempt settles as dead-lettered, with each attempt's error, and is announced.");
+        } else {
+            fail(`Unexpected dead letter: ${JSON.stringify({ failed, letters: letters.length })}`);
+        }
+
+        // 2. Retry from the dead-letter queue
+        healthy = true;
+        const retried = await queue.retry('run_q/double/a');
+        if (retried.status === 'succeeded' && retried.result === 42 && (await queue.listDeadLetters()).length === 0) {
+            pass("Retrying a dead-lettered job runs it again and clears it from the dead-letter queue.");
+        } else {
+            fail(`Unexpected retry: ${JSON.stringify(retried)}`);
+        }
+
+        // 3. Durable results: a new queue on the same directory reuses finished work
+        const callsBefore = calls;
+        const restarted = new JobQueue(new FileJobStore(directory), undefined, { initialDelayMs: 0 });
+        restarted.process<{ n: number }, number>('double', async ({ n }) => { calls++; return n * 2; });
+        const reused = await restarted.enqueue<{ n: number }, number>('double', 'run_q', 'a', { n: 21 });
+        if (reused.status === 'succeeded' && reused.result === 42 && calls === callsBefore) {
+            pass("Succeeded jobs survive a restart and are not run again.");
+        } else {
+            fail(`Finished job re-ran: ${calls - callsBefore} extra calls.`);
+        }
+
+        try {
+            await restarted.retry('run_q/double/a');
+            fail("Retried a job that is not dead-lettered.");
+        } catch (e) {
+            if (e instanceof Error && e.message.includes('Invariant Violation')) pass("Only dead-lettered jobs can be retried.");
+            else fail(`Unexpected error: ${e}`);
+        }
+
+        // 4. Concurrent enqueues of the same job share one execution
+        let slowCalls = 0;
+        const shared = new JobQueue(new InMemoryJobStore());
+        shared.process('slow', async () => { slowCalls++; await new Promise(resolve => setTimeout(resolve, 20)); return 'done'; });
+        const [first, second] = await Promise.all([shared.enqueue('slow', 'run_s', 'x', {}), shared.enqueue('slow', 'run_s', 'x', {})]);
+        if (slowCalls === 1 && first.result === 'done' && second.result === 'done') {
+            pass("Enqueueing a job that is already running joins it instead of running it twice.");
+        } else {
+            fail(`Duplicate execution: ${slowCalls} calls.`);
+        }
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+async function testPipelineWiring() {
+    const originalGenerate = StubTextProvider.prototype.generate;
+    const originalOptimize = SeoSemanticAgent.prototype.optimizeSEO;
+
+    // de-DE is the slow locale; fr-FR is poison for SEO
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        if (request.locale === 'de-DE') await new Promise(resolve => setTimeout(resolve, 300));
+        return originalGenerate.call(this, request);
+    };
+    SeoSemanticAgent.prototype.optimizeSEO = async function (variant, context) {
+        if (variant.locale === 'fr-FR') throw new Error('Simulated SEO crash');
+        return originalOptimize.call(this, variant, context);
+    };
+
+    try {
+        const events = new EventBus();
+        const timeline: string[] = [];
+        events.subscribe('creative.variant.generated', ({ variant }) => { timeline.push(`creative:${variant.locale}`); });
+        events.subscribe('seo.variant.optimized', ({ variant }) => { timeline.push(`seo:${variant.locale}`); });
+
+        const runs = new InMemoryWorkflowStateStore();
+        const jobStore = new InMemoryJobStore();
+        const manifest = await new MainOrchestrator({ stateStore: runs, events, jobStore }).runPipeline(brief, 'run_events_check');
+        const [state] = await runs.list();
+
+        // 1. Overlap: Italian SEO is done before the German creative exists
+        if (timeline.indexOf('seo:it-IT') !== -1 && timeline.indexOf('seo:it-IT') < timeline.indexOf('creative:de-DE')) {
+            pass("SEO starts on each locale as soon as its creative is published.");
+        } else {
+            fail(`Unexpected event order: ${timeline.join(' -> ')}`);
+        }
+
+        // 2. Dead letter: fr-FR is dropped, the run still deploys the other locales
+        const deployed = state.data.seoResults?.map(v => v.locale).join(',');
+        const frError = state.errors.find(e => e.module === 'SeoSemanticAgent' && e.message.startsWith('fr-FR: '));
+        const hreflang = Object.keys(state.data.seoResults?.[0]?.seo.hreflang ?? {});
+        if (state.currentStep === 'COMPLETED' && deployed === 'it-IT,de-DE' && frError && !frError.fatal
+            && frError.message.includes('after 3 attempts (Attempt 3: Simulated SEO crash)')
+            && !hreflang.includes('fr-FR') && manifest.deployments.every(d => !d.locales.includes('fr-FR'))) {
+            pass("A dead-lettered SEO job drops its locale with a non-fatal error; hreflang and deployment skip it.");
+        } else {
+            fail(`Unexpected run: ${JSON.stringify({ step: state.currentStep, deployed, frError, hreflang })}`);
+        }
+
+        const [letter] = await jobStore.list().then(jobs => jobs.filter(job => job.status === 'dead-lettered'));
+        if (letter?.id === 'run_events_check/seo.optimize/fr-FR' && (letter.payload as { variant: UIContentVariant }).variant.locale === 'fr-FR') {
+            pass("The dead-lettered job keeps its payload in the job store for a later retry.");
+        } else {
+            fail(`Unexpected dead letters: ${JSON.stringify(letter)}`);
+        }
+
+        const seo = state.timings?.SEO;
+        const creative = state.timings?.CREATIVE;
+        if (seo && creative && seo.startedAt < creative.finishedAt! && seo.outcome === 'succeeded') {
+            pass("The SEO stage timing starts with its first job, overlapping the creative stage.");
+        } else {
+            fail(`Unexpected timings: ${JSON.stringify(state.timings)}`);
+        }
+    } finally {
+        StubTextProvider.prototype.generate = originalGenerate;
+        SeoSemanticAgent.prototype.optimizeSEO = originalOptimize;
+    }
+}
+
+async function runPipelineEventsTest() {
+    console.log(">>> STARTING PIPELINE EVENTS TEST <<<");
+
+    await testEventBus();
+    await testJobQueue();
+    await testPipelineWiring();
+
+    console.log(process.exitCode ? "\n>>> PIPELINE EVENTS FAILED <<<" : "\n>>> PIPELINE EVENTS SUCCESSFUL <<<");
+}
+
+runPipelineEventsTest();
@@ -0,0 +1,125 @@
+import { PrivacyRulesEngine } from '../lib/compliance/privacy-rules';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { GeoDeploymentHub } from '../lib/deployment/geo-hub';
+import { CONSENT_COOKIE, evaluateMicrositeRequest, resolveVisitorPrivacy } from '../lib/deployment/middleware-policy';
+import { BriefInput, SEOOptimizedVariant } from '../lib/contracts/contracts';
+
+/**
+ * Privacy Rules Test Suite
+ *
+ * Purpose:
+ * Map target markets to privacy regimes (GDPR, UK GDPR, FADP, CCPA/CPRA, LGPD, PIPEDA), follow them from the brief
+ * into middlewareRules, and check the per-visitor consent decision at the edge.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+function brief(targetLocales: string[]): BriefInput {
+    return {
+        campaignId: 'privacy-check',
+        brandName: 'Lusitano',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales,
+        assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+    };
+}
+
+function variants(locales: string[]): SEOOptimizedVariant[] {
+    return locales.map(locale => ({
+        locale,
+        seo: { canonicalUrl: `https://microsite-factory.com/${locale}/privacy-check`, hreflang: {} }
+    })) as unknown as SEOOptimizedVariant[];
+}
+
+function request(headers: Record<string, string> = {}): Request {
+    return new Request('https://microsite-factory.com/en-US/privacy-check', { headers });
+}
+
+async function runPrivacyRulesTest() {
+    console.log(">>> STARTING PRIVACY RULES TEST <<<");
+
+    // 1. Market -> regime mapping
+    const engine = new PrivacyRulesEngine();
+    const regimes = engine.evaluate(['US', 'BR', 'GB', 'CH', 'CA', 'JP']).map(r => r.regime).join(',');
+    if (regimes === 'UK_GDPR,CH_FADP,CCPA_CPRA,LGPD,PIPEDA') {
+        pass("Target markets map to their regimes; markets without a regime add none.");
+    } else {
+        fail(`Unexpected regimes: ${regimes}`);
+    }
+
+    const americas = engine.summarize(engine.evaluate(['US', 'CA']));
+    const withBrazil = engine.summarize(engine.evaluate(['US', 'BR']));
+    if (!americas.cookieConsentActive && americas.dataResidency === 'GLOBAL' && !americas.requiresGDPR
+        && withBrazil.cookieConsentActive) {
+        pass("Opt-out regimes need no consent gate; one opt-in regime (LGPD) turns it on.");
+    } else {
+        fail(`Unexpected summaries: ${JSON.stringify([americas, withBrazil])}`);
+    }
+
+    const custom = new PrivacyRulesEngine([
+        { regime: 'PIPEDA', countries: ['CA'], subdivisions: ['CA-QC'], consentMode: 'opt-in', notices: ['consent-banner'], dataResidency: 'GLOBAL', retentionDays: 180 }
+    ]);
+    const quebec = custom.evaluate(['CA']);
+    if (quebec.length === 1 && quebec[0].consentMode === 'opt-in' && quebec[0].retentionDays === 180 && custom.evaluate(['US']).length === 0) {
+        pass("Rule sets are configurable data.");
+    } else {
+        fail(`Unexpected custom evaluation: ${JSON.stringify(quebec)}`);
+    }
+
+    try {
+        new PrivacyRulesEngine([{ regime: 'LGPD', countries: ['BR'], consentMode: 'opt-in', notices: [], dataResidency: 'GLOBAL', retentionDays: 0 }]);
+        fail("A rule without retention was accepted.");
+    } catch (e) {
+        if (e instanceof Error && e.message.includes('Invariant Violation')) pass("Rules without a retention limit are rejected.");
+        else fail(`Unexpected error: ${e}`);
+    }
+
+    // 2. Brief -> compliance -> middlewareRules
+    const project = await new InboundOrchestrator().validateInput(brief(['en-US', 'en-GB', 'pt-BR']));
+    const manifest = await new GeoDeploymentHub().executeGeoDeploy(variants(['en-US', 'en-GB', 'pt-BR']), project.compliance, { campaignId: 'privacy-check' });
+    const rules = manifest.deployments[0].middlewareRules;
+    const british = manifest.assignments.find(a => a.locale === 'en-GB');
+    if (rules.consentRequired && rules.privacy?.map(r => r.regime).join(',') === 'UK_GDPR,CCPA_CPRA,LGPD'
+        && rules.privacy.every(r => r.retentionDays > 0) && british?.residency === 'EU' && british.edgeRegion === 'dub1') {
+        pass("Regimes flow into middlewareRules; the UK GDPR residency constraint keeps en-GB in an EU region.");
+    } else {
+        fail(`Unexpected deployment: ${JSON.stringify({ rules, assignments: manifest.assignments })}`);
+    }
+
+    // 3. Per-visitor decision at the edge
+    const cases: Array<[string, Record<string, string>, string, string]> = [
+        ['California', { 'x-vercel-ip-country': 'US', 'x-vercel-ip-country-region': 'CA' }, 'implied', 'do-not-sell-link'],
+        ['California with GPC', { 'x-vercel-ip-country': 'US', 'x-vercel-ip-country-region': 'CA', 'sec-gpc': '1' }, 'denied', 'do-not-sell-link'],
+        ['New York', { 'x-vercel-ip-country': 'US', 'x-vercel-ip-country-region': 'NY' }, 'not-required', ''],
+        ['Brazil', { 'cf-ipcountry': 'BR' }, 'required', 'consent-banner'],
+        ['Brazil after consent', { 'cf-ipcountry': 'BR', cookie: `${CONSENT_COOKIE}=granted` }, 'granted', 'consent-banner'],
+        ['Japan', { 'cf-ipcountry': 'JP' }, 'not-required', ''],
+        ['unknown location', {}, 'required', 'consent-banner,do-not-sell-link']
+    ];
+    const wrong = cases
+        .map(([label, headers, consent, notices]) => ({ label, expected: `${consent}|${notices}`, actual: resolveVisitorPrivacy(request(headers), rules) }))
+        .filter(c => `${c.actual.consent}|${c.actual.notices.join(',')}` !== c.expected);
+    if (wrong.length === 0) {
+        pass("Each visitor gets the consent mode and notices of the regime covering them (strictest when unknown).");
+    } else {
+        fail(`Visitor mismatches: ${JSON.stringify(wrong)}`);
+    }
+
+    const decision = evaluateMicrositeRequest(request({ 'cf-ipcountry': 'GB' }), { campaignId: 'privacy-check', locales: ['en-US', 'en-GB', 'pt-BR'], rules }, 'en-US');
+    if (decision.action === 'continue' && decision.consent === 'required' && decision.notices.join(',') === 'consent-banner') {
+        pass("Middleware decisions carry the visitor's consent state and notices.");
+    } else {
+        fail(`Unexpected decision: ${JSON.stringify(decision)}`);
+    }
+
+    console.log(process.exitCode ? "\n>>> PRIVACY RULES FAILED <<<" : "\n>>> PRIVACY RULES SUCCESSFUL <<<");
+}
+
+runPrivacyRulesTest();
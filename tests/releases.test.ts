@@ -0,0 +1,170 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { ReleaseManager } from '../lib/deployment/release-manager';
+import { FileReleaseStore, InMemoryReleaseStore } from '../lib/deployment/release-store';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { MicrositeRepository } from '../lib/rendering/microsite-repository';
+import { ReleaseError } from '../lib/contracts/errors';
+import { BriefInput, WorkflowState } from '../lib/contracts/contracts';
+
+/**
+ * Releases Test Suite
+ *
+ * Purpose:
+ * Deploy versions to preview, promote and roll back production, diff two versions, and check that
+ * version numbers are assigned once at deploy time.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const brief: BriefInput = {
+    campaignId: 'release-check',
+    brandName: 'Lusitano',
+    coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+    targetLocales: ['it-IT', 'en-US'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+};
+
+/**
+ * A later version of a completed run: same campaign, edited Italian hero title, consent gate switched off.
+ */
+function redeploy(state: WorkflowState, id: string, minutesLater: number): WorkflowState {
+    const next = structuredClone(state);
+    const deployedAt = new Date(Date.parse(state.data.deployment!.createdAt) + minutesLater * 60_000).toISOString();
+    next.id = id;
+    next.lastUpdated = deployedAt;
+    next.data.seoResults = next.data.seoResults!.map(v => v.locale === 'it-IT' ? { ...v, heroTitle: `${v.heroTitle} (v${minutesLater + 1})` } : v);
+    next.data.deployment = {
+        ...next.data.deployment!,
+        manifestId: `dpm_${id}`,
+        createdAt: deployedAt,
+        deployments: next.data.deployment!.deployments.map(d => ({ ...d, isLive: false, middlewareRules: { ...d.middlewareRules, consentRequired: false } }))
+    };
+    return next;
+}
+
+async function runReleasesTest() {
+    console.log(">>> STARTING RELEASES TEST <<<");
+
+    const runs = new InMemoryWorkflowStateStore();
+    const releaseStore = new InMemoryReleaseStore();
+    const releases = new ReleaseManager(runs, releaseStore);
+    const repository = new MicrositeRepository(runs, releases);
+    const deploy = async (state: WorkflowState) => {
+        await runs.save(state);
+        return releases.registerVersion(state.id, state.data.deployment!);
+    };
+
+    // 1. A deployment is a preview, not production
+    const manifest = await new MainOrchestrator({ stateStore: runs, releaseStore }).runPipeline(brief, 'run_release_v1');
+    const [first] = await runs.list();
+    const preview = await repository.findCampaign('release-check', 'preview');
+    if (manifest.deployments.every(d => !d.isLive) && preview?.version === 1 && await repository.findCampaign('release-check') === null) {
+        pass("New deployments are served on the preview target only.");
+    } else {
+        fail(`Unexpected targets after deploy: ${JSON.stringify({ preview: preview?.version })}`);
+    }
+
+    // 2. Promote, deploy again, promote again
+    await releases.promote('release-check');
+    await deploy(redeploy(first, 'run_release_v2', 1));
+    await deploy(redeploy(first, 'run_release_v3', 2));
+    const beforePromotion = await repository.findCampaign('release-check');
+    await releases.promote('release-check', 3);
+    const promoted = await repository.findCampaign('release-check');
+    if (beforePromotion?.version === 1 && promoted?.version === 3 && promoted.runId === 'run_release_v3'
+        && (await repository.findCampaign('release-check', 'preview'))?.version === 3) {
+        pass("Production only moves on promote; the preview always serves the newest version.");
+    } else {
+        fail(`Unexpected production: ${beforePromotion?.version} -> ${promoted?.version}`);
+    }
+
+    // 3. Rollback returns to the previous production version (v2 was never released)
+    const rolledBack = await releases.rollback('release-check');
+    const served = await repository.findCampaign('release-check');
+    const history = rolledBack.history.map(e => `${e.action}:${e.previousVersion ?? '-'}->${e.version}`).join(',');
+    if (served?.version === 1 && history === 'promote:-->1,promote:1->3,rollback:3->1') {
+        pass("Rollback skips never-released versions and records the move in the history.");
+    } else {
+        fail(`Unexpected rollback: v${served?.version}, ${history}`);
+    }
+
+    try {
+        await releases.rollback('release-check');
+        fail("Rolled back past the first production version.");
+    } catch (e) {
+        if (e instanceof ReleaseError && e.reason === 'NO_ROLLBACK_TARGET') pass("Rollback refuses when there is no earlier production version.");
+        else fail(`Unexpected error: ${e}`);
+    }
+
+    try {
+        await releases.promote('release-check', 9);
+        fail("Promoted a version that does not exist.");
+    } catch (e) {
+        if (e instanceof ReleaseError && e.reason === 'UNKNOWN_VERSION' && (await repository.findCampaign('release-check'))?.version === 1) {
+            pass("Unknown versions are refused and production is left unchanged.");
+        } else {
+            fail(`Unexpected error: ${e}`);
+        }
+    }
+
+    // 4. Diff between versions
+    const diff = await releases.diff('release-check', 1, 3);
+    const fields = diff.changes.map(c => `${c.area}:${c.locale}:${c.field}`);
+    const title = diff.changes.find(c => c.field === 'heroTitle');
+    if (fields.join(',') === 'copy:it-IT:heroTitle,middleware:it-IT:middlewareRules.consentRequired,middleware:en-US:middlewareRules.consentRequired'
+        && title?.after === `${title?.before} (v3)`) {
+        pass("Diff lists copy and middleware-rule changes per locale, with before and after values.");
+    } else {
+        fail(`Unexpected diff: ${JSON.stringify(diff.changes)}`);
+    }
+
+    const identical = await releases.diff('release-check', 1, 1);
+    if (identical.changes.length === 0) {
+        pass("A version diffed against itself has no changes.");
+    } else {
+        fail(`Unexpected self-diff: ${JSON.stringify(identical.changes)}`);
+    }
+
+    // 5. Numbers are assigned at deploy time and never shift
+    const again = await releases.registerVersion(first.id, manifest);
+    const backdated = await deploy(redeploy(first, 'run_release_v4', -10)); // Deployed last, with an older timestamp
+    const replaced = redeploy(first, 'run_release_v2', 3);
+    replaced.data.deployment!.manifestId = 'dpm_run_release_v2_resumed';
+    await runs.save(replaced); // v2's run now holds a different manifest
+    const numbers = (await releases.listVersions('release-check')).map(v => `${v.version}:${v.runId}`).join(',');
+    if (again.version === 1 && backdated.version === 4 && numbers === '1:run_release_v1,3:run_release_v3,4:run_release_v4'
+        && (await repository.findCampaign('release-check'))?.runId === 'run_release_v1'
+        && (await releases.registerVersion(replaced.id, replaced.data.deployment!)).version === 5) {
+        pass("Versions keep their deploy-time numbers when runs are redeployed or backdated; numbers are never reused.");
+    } else {
+        fail(`Unexpected numbering: again=${again.version}, backdated=${backdated.version}, ${numbers}`);
+    }
+
+    const dataDir = await mkdtemp(path.join(tmpdir(), 'releases-'));
+    try {
+        const concurrent = new ReleaseManager(runs, new FileReleaseStore(dataDir));
+        const registered = await Promise.all(['a', 'b', 'c', 'd'].map(id => concurrent.registerVersion(`run_${id}`, { ...manifest, manifestId: `dpm_${id}` })));
+        const stored = (await new FileReleaseStore(dataDir).list())[0];
+        if (registered.map(v => v.version).sort().join() === '1,2,3,4' && stored?.versions.length === 4) {
+            pass("Concurrent deployments of one campaign get distinct version numbers.");
+        } else {
+            fail(`Unexpected concurrent numbering: ${JSON.stringify(registered)}`);
+        }
+    } finally {
+        await rm(dataDir, { recursive: true, force: true });
+    }
+
+    console.log(process.exitCode ? "\n>>> RELEASES FAILED <<<" : "\n>>> RELEASES SUCCESSFUL <<<");
+}
+
+runReleasesTest();
@@ -0,0 +1,228 @@
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { SeoSemanticAgent } from '../lib/seo/seo-agent';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { SeoAuditor } from '../lib/seo/seo-audit';
+import { SeoAuditError } from '../lib/contracts/errors';
+import { BriefInput, Locale, SEOOptimizedVariant, SeoAuditCheck, SeoVariantAudit } from '../lib/contracts/contracts';
+
+/**
+ * SEO Audit Test Suite
+ *
+ * Purpose:
+ * Score hand-written variants (clean, then one problem at a time) and metadata generated by the SEO agent, then
+ * run the audit stage through the pipeline in report and enforce mode, including resuming a run the gate halted.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+interface VariantCopy {
+    heroTitle: string;
+    bodyCopy: string;
+    title: string;
+    description: string;
+    keyword: string;
+}
+
+const COPY: Record<string, VariantCopy> = {
+    'it-IT': {
+        heroTitle: 'Ville di lusso a Comporta',
+        bodyCopy: 'Scopri le ville di lusso a Comporta, con un design sostenibile e una vista sul mare che è unica per la tua famiglia.',
+        title: 'Ville di lusso a Comporta | Lusitano',
+        description: 'Scopri le ville di lusso a Comporta con un design sostenibile e la vista sul mare.',
+        keyword: 'ville di lusso'
+    },
+    'de-DE': {
+        heroTitle: 'Luxusvillen in Comporta',
+        bodyCopy: 'Entdecken Sie die Luxusvillen in Comporta mit einem nachhaltigen Design und einem Blick auf das Meer für die ganze Familie.',
+        title: 'Luxusvillen in Comporta | Lusitano',
+        description: 'Entdecken Sie die Luxusvillen in Comporta mit nachhaltigem Design und Meerblick.',
+        keyword: 'luxusvillen'
+    }
+};
+
+function variant(locale: Locale, overrides: Partial<VariantCopy> = {}, ogImage: string | null = 'https://cdn.example.com/og.jpg', inLanguage: string = locale): SEOOptimizedVariant {
+    const copy = { ...COPY[locale], ...overrides };
+    return {
+        locale,
+        heroTitle: copy.heroTitle,
+        bodyCopy: copy.bodyCopy,
+        ctaText: 'Lusitano',
+        layoutId: 'layout-minimal-v1',
+        keywordsApplied: [copy.keyword],
+        seo: {
+            title: copy.title,
+            description: copy.description,
+            ogTags: ogImage ? { 'og:image': ogImage } : {},
+            canonicalUrl: `https://microsite-factory.com/${locale}/audit`,
+            hreflang: {},
+            structuredData: { '@type': 'WebPage', inLanguage, image: 'https://cdn.example.com/og.jpg' }
+        }
+    };
+}
+
+const checks = (audit: SeoVariantAudit | undefined) => audit?.findings.map(finding => `${finding.check}:${finding.severity}`).sort().join(',');
+const only = (audit: SeoVariantAudit | undefined, check: SeoAuditCheck) => audit?.findings.find(finding => finding.check === check);
+
+async function testAuditor() {
+    const auditor = new SeoAuditor(70);
+
+    // 1. Clean, localized campaign
+    const clean = auditor.audit([variant('it-IT'), variant('de-DE')]);
+    if (clean.passed && clean.score === 100 && clean.variants.every(audit => audit.findings.length === 0)) {
+        pass("Localized variants with keywords, whole words and an og:image pass with a perfect score.");
+    } else {
+        fail(`Unexpected clean audit: ${JSON.stringify(clean.variants)}`);
+    }
+
+    // 2. Keyword placement, truncation and og:image on one variant
+    const damaged = auditor.audit([
+        variant('it-IT'),
+        variant('de-DE', { title: 'Villen in Comporta | Lusitano', description: 'Entdecken Sie die Luxusvillen in Comporta mit nachhaltigem Desi...' }, null)
+    ]).variants[1];
+    if (checks(damaged) === 'KEYWORD_IN_TITLE:error,MISSING_OG_IMAGE:warning,TRUNCATED_MID_WORD:warning'
+        && only(damaged, 'TRUNCATED_MID_WORD')?.message.includes("'Desi…'") && damaged.score === 55) {
+        pass("A missing title keyword, a mid-word cut and a missing og:image are flagged and scored.");
+    } else {
+        fail(`Unexpected damaged audit: ${JSON.stringify(damaged)}`);
+    }
+
+    // 3. Language mismatch by function words and by script
+    const english = variant('de-DE', {
+        heroTitle: 'Luxusvillen in Comporta',
+        bodyCopy: 'Discover the luxusvillen of Comporta with a sustainable design and a view of the sea for your whole family.'
+    });
+    const latinForRussian = variant('de-DE', {}, null, 'ru-RU');
+    const [englishAudit, russianAudit] = [auditor.audit([english]).variants[0], auditor.audit([latinForRussian]).variants[0]];
+    if (only(englishAudit, 'LANGUAGE_MISMATCH')?.message === "Copy reads as 'en' but inLanguage is 'de-DE'."
+        && only(russianAudit, 'LANGUAGE_MISMATCH')?.message.includes('Cyrl script')) {
+        pass("Copy in the wrong language is caught by its function words, and copy in the wrong script by its letters.");
+    } else {
+        fail(`Unexpected language findings: ${checks(englishAudit)} / ${checks(russianAudit)}`);
+    }
+
+    // 4. Cross-locale duplicates
+    const duplicated = auditor.audit([
+        variant('it-IT'),
+        variant('de-DE', { title: COPY['it-IT'].title, keyword: 'ville di lusso', description: `${COPY['it-IT'].description} Lusitano` }, null, 'it-IT')
+    ]);
+    const [first, second] = duplicated.variants;
+    if (only(first, 'DUPLICATE_TITLE')?.severity === 'error' && only(first, 'DUPLICATE_TITLE')?.relatedLocales?.join(',') === 'de-DE'
+        && only(second, 'DUPLICATE_TITLE')?.relatedLocales?.join(',') === 'it-IT'
+        && only(first, 'DUPLICATE_DESCRIPTION')?.severity === 'warning' && !duplicated.passed) {
+        pass("Identical titles are errors and near-identical descriptions warnings, on every locale involved.");
+    } else {
+        fail(`Unexpected duplicate findings: ${checks(first)} / ${checks(second)}`);
+    }
+
+    // 5. The gate: warnings alone fail only below the minimum score
+    const warned = [variant('it-IT', {}, null), variant('de-DE', {}, null)];
+    if (new SeoAuditor(90).audit(warned).passed === true && new SeoAuditor(95).audit(warned).passed === false) {
+        pass("Warnings lower the score; the gate fails once a locale drops below minScore.");
+    } else {
+        fail("Unexpected gate results for warning-only variants.");
+    }
+
+    // 6. No picture to preview with: the missing og:image is not held against the page
+    const pictureless = variant('it-IT', {}, null);
+    pictureless.seo.structuredData = { '@type': 'WebPage', inLanguage: 'it-IT' };
+    const relative = variant('it-IT', {}, '/og.jpg');
+    if (!only(auditor.audit([pictureless]).variants[0], 'MISSING_OG_IMAGE')
+        && only(auditor.audit([relative]).variants[0], 'MISSING_OG_IMAGE')?.message === "og:image '/og.jpg' is not an absolute URL.") {
+        pass("A page with no campaign image or logo is not flagged for its missing og:image; a relative og:image is.");
+    } else {
+        fail("Unexpected og:image findings for pictureless or relative-image variants.");
+    }
+}
+
+async function testGeneratedMetadata() {
+    const project = await new InboundOrchestrator().validateInput({
+        campaignId: 'audit-generated',
+        brandName: 'Lusitano',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales: ['it-IT', 'de-DE'],
+        assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+    });
+    const agent = new SeoSemanticAgent();
+    const optimized = await Promise.all((['it-IT', 'de-DE'] as Locale[]).map(locale => agent.optimizeSEO(
+        { locale, heroTitle: COPY[locale].heroTitle, bodyCopy: COPY[locale].bodyCopy, ctaText: 'Lusitano', layoutId: 'layout-minimal-v1' },
+        { project, siblingLocales: ['it-IT', 'de-DE'], keywords: [{ locale, keyword: COPY[locale].keyword, searchVolume: 1000, intent: 'commercial' }] }
+    )));
+
+    // The agent publishes the brief's logo as og:image, so localized copy can pass the audit outright
+    const audit = new SeoAuditor(70).audit(optimized);
+    if (optimized.every(page => page.seo.ogTags['og:image'] === 'https://cdn.example.com/logo.png') && audit.passed && audit.score === 100) {
+        pass("Metadata generated from a brief with a logo carries og:image and passes the audit with a perfect score.");
+    } else {
+        fail(`Unexpected audit of generated metadata: ${JSON.stringify(audit.variants)}`);
+    }
+}
+
+async function testPipelineGate() {
+    const brief: BriefInput = {
+        campaignId: 'audit-check',
+        brandName: 'Lusitano',
+        coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+        targetLocales: ['it-IT', 'de-DE'],
+        assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+    };
+
+    // 1. Report mode: the stubbed (English, near-identical) copy fails the audit but still deploys
+    const runs = new InMemoryWorkflowStateStore();
+    await new MainOrchestrator({ stateStore: runs, seoAudit: { gate: 'report' } }).runPipeline(brief, 'run_audit_report');
+    const reported = (await runs.load('run_audit_report'))!;
+    const warning = reported.errors.find(error => error.module === 'SeoAuditor');
+    if (reported.currentStep === 'COMPLETED' && reported.data.seoAudit?.passed === false && reported.timings?.AUDIT?.outcome === 'succeeded'
+        && reported.data.seoAudit.variants.map(audit => audit.locale).join(',') === 'it-IT,de-DE' && warning && !warning.fatal) {
+        pass("In report mode a failed audit is persisted with the run and recorded as a warning; the run deploys.");
+    } else {
+        fail(`Unexpected report-mode run: ${JSON.stringify({ step: reported.currentStep, audit: reported.data.seoAudit?.passed, warning })}`);
+    }
+
+    // 2. Enforce mode: the run halts before deployment, with the report kept
+    const strictRuns = new InMemoryWorkflowStateStore();
+    let haltedAuditedAt: string | undefined;
+    try {
+        await new MainOrchestrator({ stateStore: strictRuns, seoAudit: { gate: 'enforce' } }).runPipeline(brief, 'run_audit_enforced');
+        fail("The run deployed past an enforced, failing audit.");
+    } catch (e) {
+        const halted = (await strictRuns.load('run_audit_enforced'))!;
+        const fatal = halted.errors.filter(error => error.fatal);
+        haltedAuditedAt = halted.data.seoAudit?.auditedAt;
+        if (e instanceof SeoAuditError && e.report.passed === false && fatal.length === 1 && fatal[0].module === 'SeoAuditor'
+            && fatal[0].message === e.message && halted.currentStep === 'AUDIT' && halted.timings?.AUDIT?.outcome === 'failed'
+            && halted.data.seoAudit && !halted.data.deployment) {
+            pass("An enforced gate halts the run with SeoAuditError; the report stays persisted.");
+        } else {
+            fail(`Unexpected enforced run: ${e} / ${JSON.stringify(halted.errors)}`);
+        }
+    }
+
+    // 3. Resuming in report mode reuses the stored report and deploys
+    const resumed = await new MainOrchestrator({ stateStore: strictRuns, seoAudit: { gate: 'report' } }).resumePipeline('run_audit_enforced');
+    const after = (await strictRuns.load('run_audit_enforced'))!;
+    if (resumed.deployments.length > 0 && after.currentStep === 'COMPLETED' && after.data.seoAudit?.auditedAt === haltedAuditedAt) {
+        pass("A run halted by the gate can be resumed in report mode.");
+    } else {
+        fail(`Unexpected resumed run: ${after.currentStep}`);
+    }
+}
+
+async function runSeoAuditTest() {
+    console.log(">>> STARTING SEO AUDIT TEST <<<");
+
+    await testAuditor();
+    await testGeneratedMetadata();
+    await testPipelineGate();
+
+    console.log(process.exitCode ? "\n>>> SEO AUDIT FAILED <<<" : "\n>>> SEO AUDIT SUCCESSFUL <<<");
+}
+
+runSeoAuditTest();
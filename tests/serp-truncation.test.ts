@@ -0,0 +1,129 @@
+import { SeoSemanticAgent } from '../lib/seo/seo-agent';
+import { SeoAuditor } from '../lib/seo/seo-audit';
+import { SERP_LIMITS, composeForSerp, estimateSerpWidth, graphemeLength, truncateForSerp } from '../lib/seo/serp-truncation';
+
+/**
+ * SERP Truncation Test Suite
+ *
+ * Purpose:
+ * Check that titles and descriptions are shortened on sentence, word (including CJK and Thai) and grapheme
+ * boundaries, by character count or estimated pixel width, keeping the primary keyword and brand name.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const ITALIAN = 'Scopri le ville di lusso a Comporta, con un design sostenibile e una vista sul mare che è unica per la tua famiglia. '
+    + 'Prenota oggi stesso una visita privata con il nostro team locale e scopri di più sulle nostre proprietà esclusive in Portogallo.';
+
+async function testBoundaries() {
+    // 1. Sentences first, then words, never mid-word
+    const sentence = truncateForSerp(ITALIAN, { locale: 'it-IT', limit: SERP_LIMITS.description });
+    const word = truncateForSerp(ITALIAN, { locale: 'it-IT', limit: { ...SERP_LIMITS.description, maxLength: 60 } });
+    if (sentence === 'Scopri le ville di lusso a Comporta, con un design sostenibile e una vista sul mare che è unica per la tua famiglia.'
+        && word === 'Scopri le ville di lusso a Comporta, con un design…' && graphemeLength(word) <= 60) {
+        pass("Long copy is cut after its last whole sentence, or after a whole word with one ellipsis character.");
+    } else {
+        fail(`Unexpected cuts: ${sentence} / ${word}`);
+    }
+
+    // 2. Languages without spaces are cut between dictionary words, with the language's ellipsis
+    const japanese = truncateForSerp('コンポルタの高級ヴィラで持続可能なデザインと海の景色をお楽しみください。', { locale: 'ja-JP', limit: { ...SERP_LIMITS.title, maxLength: 20 } });
+    const thai = truncateForSerp('สัมผัสวิลล่าหรูในคอมปอร์ตาพร้อมการออกแบบที่ยั่งยืนและวิวทะเลที่สวยงาม', { locale: 'th-TH', limit: { ...SERP_LIMITS.title, maxLength: 25 } });
+    const chinese = truncateForSerp('探索孔波尔塔的豪华别墅，享受可持续设计和海景。为您的家人提供独特的住宿体验。', { locale: 'zh-CN', limit: { ...SERP_LIMITS.title, maxLength: 20 } });
+    if (japanese.endsWith('…') && 'コンポルタの高級ヴィラで持続可能なデザインと'.startsWith(japanese.slice(0, -1)) && graphemeLength(japanese) <= 20
+        && thai.endsWith('…') && ['สัมผัส', 'วิลล่า', 'หรู', 'ใน', 'คอมปอร์ตา', 'พร้อม'].join('').startsWith(thai.slice(0, -1)) && graphemeLength(thai) <= 25
+        && chinese.endsWith('……') && !chinese.includes('，……') && graphemeLength(chinese) <= 20) {
+        pass("Japanese, Thai and Chinese are cut between words found by Intl.Segmenter, with localized ellipses.");
+    } else {
+        fail(`Unexpected CJK/Thai cuts: ${japanese} / ${thai} / ${chinese}`);
+    }
+
+    // 3. A word longer than the limit is cut between graphemes, never inside a cluster
+    const family = '👨‍👩‍👧‍👦';
+    const emoji = truncateForSerp(`${family}${family}${family}`, { locale: 'en-US', limit: { ...SERP_LIMITS.title, maxLength: 2 } });
+    const accents = truncateForSerp('Cafe\u0301Cafe\u0301Cafe\u0301', { locale: 'fr-FR', limit: { ...SERP_LIMITS.title, maxLength: 6 } }); // e + combining acute
+    if (emoji === `${family}…` && accents === 'Cafe\u0301C…') {
+        pass("Overlong words are cut between grapheme clusters (emoji sequences and combining accents stay whole).");
+    } else {
+        fail(`Unexpected grapheme cuts: ${emoji} / ${accents}`);
+    }
+}
+
+async function testPixelsAndKeywords() {
+    // 1. Pixel widths: wide glyphs and CJK use up the budget sooner than their character count suggests
+    const wide = 'WWWWWWWWWW WWWWWWWWWW WWWWWWWWWW WWWWWWWWWW WWWWW';
+    const byCharacters = truncateForSerp(wide, { locale: 'en-US', limit: SERP_LIMITS.title });
+    const byPixels = truncateForSerp(wide, { locale: 'en-US', limit: SERP_LIMITS.title, measure: 'pixels' });
+    if (estimateSerpWidth('高級ヴィラ', 20) > estimateSerpWidth('Ville', 20) * 1.5 && estimateSerpWidth('iiii', 20) < estimateSerpWidth('mmmm', 20)
+        && byCharacters === wide && byPixels.endsWith('…') && estimateSerpWidth(byPixels, 20) <= SERP_LIMITS.title.maxWidthPx) {
+        pass("In pixel mode copy is fitted to the estimated rendered width (wide glyphs and CJK count more).");
+    } else {
+        fail(`Unexpected pixel fitting: ${byCharacters} / ${byPixels} (${estimateSerpWidth(byPixels, 20)}px)`);
+    }
+
+    // 2. The keyword part survives; the headline is shortened instead
+    const title = composeForSerp(
+        [{ text: 'Exclusive sustainable luxury villas with ocean views in Comporta, Portugal' }, { text: 'ville di lusso', keep: true }],
+        ' | ',
+        { locale: 'it-IT', limit: SERP_LIMITS.title }
+    );
+    if (title === 'Exclusive sustainable luxury villas with… | ville di lusso') {
+        pass("Composed titles shorten the headline and keep the keyword part.");
+    } else {
+        fail(`Unexpected title: ${title}`);
+    }
+
+    // 3. A cut that keeps the brand and keyword wins over a longer one that drops them
+    const text = 'Lusitano: ville di lusso. Scopri le nostre proprietà esclusive in Portogallo con vista mare e piscina privata';
+    const kept = truncateForSerp(text, { locale: 'it-IT', limit: { ...SERP_LIMITS.title, maxLength: 40 }, keep: ['ville di lusso', 'Lusitano'] });
+    const plain = truncateForSerp('Vista mare. Scopri le nostre proprietà esclusive in Portogallo, ville di lusso', { locale: 'it-IT', limit: { ...SERP_LIMITS.title, maxLength: 40 }, keep: ['ville di lusso'] });
+    if (kept === 'Lusitano: ville di lusso.' && plain === 'Vista mare. Scopri le nostre proprietà…') {
+        pass("Cuts prefer keeping the keyword and brand name, and otherwise keep as much copy as fits.");
+    } else {
+        fail(`Unexpected keyword-aware cuts: ${kept} / ${plain}`);
+    }
+}
+
+async function testAgent() {
+    const variant = {
+        locale: 'it-IT',
+        heroTitle: 'Scopri le esclusive ville di lusso con vista sul mare a Comporta, in Portogallo',
+        bodyCopy: ITALIAN,
+        ctaText: 'Prenota una visita',
+        layoutId: 'layout-minimal-v1'
+    };
+    const keywords = [{ locale: 'it-IT', keyword: 'ville di lusso comporta', searchVolume: 900, intent: 'commercial' as const }];
+    const optimized = await new SeoSemanticAgent('characters').optimizeSEO(variant, { keywords });
+    const pixels = await new SeoSemanticAgent('pixels').optimizeSEO(variant, { keywords });
+    const { seo } = optimized;
+    const audit = new SeoAuditor(70).audit([optimized]).variants[0];
+
+    if (seo.title.endsWith(' | ville di lusso comporta') && graphemeLength(seo.title) <= 60
+        && seo.description.startsWith('Scopri le ville di lusso a Comporta') && seo.description.endsWith(' Prenota una visita')
+        && !seo.description.includes('...') && graphemeLength(seo.description) <= 160
+        && estimateSerpWidth(pixels.seo.title, 20) <= SERP_LIMITS.title.maxWidthPx
+        && !audit.findings.some(finding => finding.check === 'TRUNCATED_MID_WORD')) {
+        pass("The SEO agent fits titles and descriptions to SERP limits without mid-word cuts (audit agrees).");
+    } else {
+        fail(`Unexpected metadata: ${JSON.stringify({ title: seo.title, description: seo.description, findings: audit.findings })}`);
+    }
+}
+
+async function runSerpTruncationTest() {
+    console.log(">>> STARTING SERP TRUNCATION TEST <<<");
+
+    await testBoundaries();
+    await testPixelsAndKeywords();
+    await testAgent();
+
+    console.log(process.exitCode ? "\n>>> SERP TRUNCATION FAILED <<<" : "\n>>> SERP TRUNCATION SUCCESSFUL <<<");
+}
+
+runSerpTruncationTest();
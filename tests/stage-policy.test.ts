@@ -0,0 +1,190 @@
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest } from '../lib/creative/text-generation';
+import { SeoSemanticAgent } from '../lib/seo/seo-agent';
+import { backoffDelay, DEFAULT_STAGE_POLICIES, enforceSuccessThreshold, retryWithPolicy, withTimeout } from '../lib/resilience/stage-policy';
+import { RetryExhaustedError, StagePolicyError } from '../lib/contracts/errors';
+import { BriefInput, Locale } from '../lib/contracts/contracts';
+
+/**
+ * Stage Policy Test Suite
+ *
+ * Purpose:
+ * Check backoff, per-attempt timeouts, retries and success thresholds on their own, then through the pipeline:
+ * flaky and hanging locales, required locales, and the fatal flag of every recorded failure.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const brief: BriefInput = {
+    campaignId: 'policy-check',
+    brandName: 'Lusitano',
+    coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+    targetLocales: ['it-IT', 'de-DE', 'fr-FR'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+};
+
+function thresholdError(requested: Locale[], succeeded: Locale[], minSuccessRatio: number, requiredLocales: Locale[] = []): StagePolicyError | null {
+    try {
+        enforceSuccessThreshold('CREATIVE', { ...DEFAULT_STAGE_POLICIES.CREATIVE, minSuccessRatio, requiredLocales }, requested, succeeded);
+        return null;
+    } catch (e) {
+        return e as StagePolicyError;
+    }
+}
+
+async function testPolicyPrimitives() {
+    // 1. Backoff
+    const policy = { ...DEFAULT_STAGE_POLICIES.SEO, initialDelayMs: 100, maxDelayMs: 300, jitter: 0.5 };
+    const delays = [1, 2, 3].map(attempt => backoffDelay(policy, attempt, () => 0));
+    const jittered = backoffDelay(policy, 2, () => 1);
+    if (delays.join(',') === '100,200,300' && jittered === 100) {
+        pass("Backoff doubles per attempt, is capped, and jitter only shortens it.");
+    } else {
+        fail(`Unexpected delays: ${delays.join(',')} / ${jittered}`);
+    }
+
+    // 2. Timeout aborts the attempt even when the task ignores the signal
+    let aborted = false;
+    try {
+        await withTimeout(signal => {
+            signal.addEventListener('abort', () => { aborted = true; });
+            return new Promise(resolve => setTimeout(resolve, 1_000));
+        }, 50);
+        fail("A hanging task was not timed out.");
+    } catch (e) {
+        if (aborted && e instanceof Error && e.message === 'Attempt timed out after 50ms') pass("Attempts time out and their AbortSignal fires.");
+        else fail(`Unexpected timeout error: ${e}`);
+    }
+
+    // 3. Retries
+    let calls = 0;
+    const recovered = await retryWithPolicy(async () => {
+        if (++calls < 3) throw new Error(`Flaky ${calls}`);
+        return 'ok';
+    }, { ...policy, initialDelayMs: 0 });
+    try {
+        await retryWithPolicy(async (_signal, attempt) => { throw new Error(`Down ${attempt}`); }, { ...policy, initialDelayMs: 0, maxAttempts: 2 });
+        fail("A task failing every attempt did not throw.");
+    } catch (e) {
+        if (recovered.value === 'ok' && recovered.attempts === 3 && recovered.failures.join('|') === 'Flaky 1|Flaky 2'
+            && e instanceof RetryExhaustedError && e.message === 'Down 2 (gave up after 2 attempts)') {
+            pass("Retries report recovered failures, and exhausted retries throw RetryExhaustedError.");
+        } else {
+            fail(`Unexpected retry results: ${JSON.stringify(recovered)} / ${e}`);
+        }
+    }
+
+    // 4. Thresholds
+    const ten = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
+    const below = thresholdError(ten, ten.slice(0, 6), 0.7);
+    const required = thresholdError(['it-IT', 'de-DE'], ['it-IT'], 0, ['de-DE']);
+    if (thresholdError(ten, ten.slice(0, 7), 0.7) === null && below?.reason === 'BELOW_SUCCESS_RATIO' && below.missingLocales.length === 4
+        && required?.reason === 'REQUIRED_LOCALE_FAILED' && required.missingLocales.join(',') === 'de-DE'
+        && thresholdError(['it-IT'], [], 0)?.reason === 'BELOW_SUCCESS_RATIO') {
+        pass("Thresholds enforce the success ratio, required locales, and at least one surviving locale.");
+    } else {
+        fail(`Unexpected threshold results: ${below?.message} / ${required?.message}`);
+    }
+}
+
+async function testPipelinePolicies() {
+    const originalGenerate = StubTextProvider.prototype.generate;
+    const originalOptimize = SeoSemanticAgent.prototype.optimizeSEO;
+    let itCalls = 0;
+    let deAborts = 0;
+
+    // it-IT fails once, de-DE hangs until its attempt is aborted
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        if (request.locale === 'it-IT' && ++itCalls === 1) throw new Error('Simulated rate limit');
+        if (request.locale === 'de-DE') {
+            return new Promise((_, reject) => request.signal?.addEventListener('abort', () => {
+                deAborts++;
+                reject(new Error('aborted'));
+            }));
+        }
+        return originalGenerate.call(this, request);
+    };
+    const creativePolicy = { attemptTimeoutMs: 1_000, initialDelayMs: 0, maxAttempts: 2 };
+
+    try {
+        // 1. Flaky and hanging locales with permissive thresholds
+        const runs = new InMemoryWorkflowStateStore();
+        await new MainOrchestrator({ stateStore: runs, stagePolicies: { CREATIVE: creativePolicy } }).runPipeline(brief, 'run_policy_partial');
+        const state = (await runs.load('run_policy_partial'))!;
+        const retried = state.errors.find(e => e.message.startsWith('it-IT: attempt 1 failed and was retried (Simulated rate limit)'));
+        const timedOut = state.errors.find(e => e.message.startsWith('de-DE: ') && e.message.includes('Attempt timed out after 1000ms (gave up after 2 attempts)'));
+        if (state.currentStep === 'COMPLETED' && state.data.seoResults?.map(v => v.locale).join(',') === 'it-IT,fr-FR'
+            && retried && !retried.fatal && timedOut && !timedOut.fatal && deAborts === 2 && state.errors.every(e => !e.fatal)) {
+            pass("Recovered and timed-out locales are recorded as non-fatal; the run deploys the survivors.");
+        } else {
+            fail(`Unexpected partial run: ${JSON.stringify({ step: state.currentStep, errors: state.errors, deAborts })}`);
+        }
+
+        // 2. A required locale that fails halts the run after Creative, with its slice kept
+        const strictRuns = new InMemoryWorkflowStateStore();
+        itCalls = 0;
+        try {
+            await new MainOrchestrator({ stateStore: strictRuns, stagePolicies: { CREATIVE: { ...creativePolicy, requiredLocales: ['de-DE'] } } })
+                .runPipeline(brief, 'run_policy_strict');
+            fail("The run deployed without a required locale.");
+        } catch (e) {
+            const halted = (await strictRuns.load('run_policy_strict'))!;
+            const fatal = halted.errors.filter(error => error.fatal);
+            if (e instanceof StagePolicyError && e.reason === 'REQUIRED_LOCALE_FAILED' && e.step === 'CREATIVE'
+                && fatal.length === 1 && fatal[0].module === 'CreativeAIEngine' && fatal[0].message === e.message
+                && halted.timings?.CREATIVE?.outcome === 'failed' && halted.data.creatives?.variants.length === 2 && !halted.data.deployment) {
+                pass("A failed required locale stops the run with one fatal error; the creative slice stays persisted.");
+            } else {
+                fail(`Unexpected halted run: ${e} / ${JSON.stringify(halted.errors)}`);
+            }
+        }
+
+        // 3. Resuming under a looser policy continues from the kept slice
+        const resumed = await new MainOrchestrator({ stateStore: strictRuns }).resumePipeline('run_policy_strict');
+        if (resumed.deployments.flatMap(d => d.locales).sort().join(',') === 'fr-FR,it-IT') {
+            pass("The halted run can be resumed under a looser policy without regenerating creatives.");
+        } else {
+            fail(`Unexpected resumed deployment: ${JSON.stringify(resumed.deployments)}`);
+        }
+
+        // 4. SEO success ratio
+        StubTextProvider.prototype.generate = originalGenerate;
+        SeoSemanticAgent.prototype.optimizeSEO = async function (variant, context) {
+            if (variant.locale === 'fr-FR') throw new Error('Simulated SEO crash');
+            return originalOptimize.call(this, variant, context);
+        };
+        try {
+            await new MainOrchestrator({ stagePolicies: { SEO: { initialDelayMs: 0, minSuccessRatio: 1 } } }).runPipeline(brief);
+            fail("The run deployed below the SEO success ratio.");
+        } catch (e) {
+            if (e instanceof StagePolicyError && e.step === 'SEO' && e.reason === 'BELOW_SUCCESS_RATIO' && e.missingLocales.join(',') === 'fr-FR') {
+                pass("The SEO stage enforces its own success ratio.");
+            } else {
+                fail(`Unexpected SEO policy error: ${e}`);
+            }
+        }
+    } finally {
+        StubTextProvider.prototype.generate = originalGenerate;
+        SeoSemanticAgent.prototype.optimizeSEO = originalOptimize;
+    }
+}
+
+async function runStagePolicyTest() {
+    console.log(">>> STARTING STAGE POLICY TEST <<<");
+
+    await testPolicyPrimitives();
+    await testPipelinePolicies();
+
+    console.log(process.exitCode ? "\n>>> STAGE POLICY FAILED <<<" : "\n>>> STAGE POLICY SUCCESSFUL <<<");
+}
+
+runStagePolicyTest();
@@ -0,0 +1,172 @@
+import { SeoSemanticAgent } from '../lib/seo/seo-agent';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { JsonLdGraph, JsonLdNode, buildStructuredData, findPageNode, validateStructuredData } from '../lib/seo/structured-data';
+import { BriefInput, CampaignDetails, UIContentVariant } from '../lib/contracts/contracts';
+
+/**
+ * Structured Data Test Suite
+ *
+ * Purpose:
+ * Check the JSON-LD graph the SEO agent attaches to each page (linked core nodes, one schema per campaign type),
+ * the required-property and reference rules, and how invalid campaign details are handled by intake and by the agent.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const brief: BriefInput = {
+    campaignId: 'comporta-villas',
+    brandName: 'Lusitano',
+    coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+    targetLocales: ['it-IT'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+};
+
+const variant: UIContentVariant = {
+    locale: 'it-IT',
+    heroTitle: 'Ville di lusso a Comporta',
+    bodyCopy: 'Scopri le ville di lusso a Comporta, con un design sostenibile e una vista sul mare.',
+    ctaText: 'Prenota una visita',
+    layoutId: 'layout-minimal-v1'
+};
+
+const inbound = new InboundOrchestrator();
+const agent = new SeoSemanticAgent();
+
+async function optimize(campaign?: CampaignDetails) {
+    const project = await inbound.validateInput({ ...brief, campaign });
+    return agent.optimizeSEO(variant, { project });
+}
+
+const nodes = (structuredData: object) => (structuredData as JsonLdGraph)['@graph'];
+const byType = (structuredData: object, type: string) => nodes(structuredData).find(node => node['@type'] === type);
+const idOf = (value: unknown) => (value as JsonLdNode | undefined)?.['@id'];
+
+async function testCoreGraph() {
+    const { seo, warnings } = await optimize();
+    const organization = byType(seo.structuredData, 'Organization');
+    const website = byType(seo.structuredData, 'WebSite');
+    const page = findPageNode(seo.structuredData);
+    const breadcrumb = byType(seo.structuredData, 'BreadcrumbList');
+
+    if (nodes(seo.structuredData).map(node => node['@type']).join(',') === 'Organization,WebSite,WebPage,BreadcrumbList'
+        && organization?.name === 'Lusitano' && (organization.logo as JsonLdNode)?.url === brief.assets.logoUrl
+        && idOf(website?.publisher) === organization['@id'] && idOf(page?.isPartOf) === website?.['@id']
+        && idOf(page?.breadcrumb) === breadcrumb?.['@id'] && page?.inLanguage === 'it-IT' && page.url === seo.canonicalUrl
+        && (breadcrumb?.itemListElement as JsonLdNode[]).map(item => item.item).pop() === seo.canonicalUrl && !warnings?.some(warning => warning.includes('schema'))) {
+        pass("Each page gets a linked @graph: Organization with logo, WebSite, WebPage with inLanguage, BreadcrumbList.");
+    } else {
+        fail(`Unexpected core graph: ${JSON.stringify(seo.structuredData)}`);
+    }
+
+    // Local (uploaded) logos cannot be fetched by crawlers, and briefless pages have no Organization
+    const local = buildStructuredData({
+        siteUrl: 'https://microsite-factory.com', pageUrl: seo.canonicalUrl, languageTag: 'it-IT', title: seo.title,
+        description: seo.description, heroTitle: variant.heroTitle, brandName: 'Lusitano', logoUrl: 'file:///srv/uploads/logo.png'
+    });
+    const briefless = await agent.optimizeSEO(variant);
+    if (byType(local, 'Organization') && !('logo' in byType(local, 'Organization')!) && validateStructuredData(local).length === 0
+        && !byType(briefless.seo.structuredData, 'Organization') && validateStructuredData(briefless.seo.structuredData as JsonLdGraph).length === 0) {
+        pass("Non-http logos are left out, and pages without a brief omit the Organization without dangling references.");
+    } else {
+        fail(`Unexpected graphs: ${JSON.stringify(local)} / ${JSON.stringify(briefless.seo.structuredData)}`);
+    }
+}
+
+async function testCampaignSchemas() {
+    const product = (await optimize({ type: 'product', price: 1250000, currency: 'EUR', sku: 'VILLA-07' })).seo.structuredData;
+    const productNode = byType(product, 'Product');
+    const offers = productNode?.offers as JsonLdNode | undefined;
+    if (idOf(findPageNode(product)?.mainEntity) === productNode?.['@id'] && productNode?.name === variant.heroTitle
+        && offers?.price === 1250000 && offers.priceCurrency === 'EUR' && offers.availability === 'https://schema.org/InStock') {
+        pass("A product campaign adds a Product with an Offer as the page's mainEntity.");
+    } else {
+        fail(`Unexpected product graph: ${JSON.stringify(product)}`);
+    }
+
+    const listing = findPageNode((await optimize({ type: 'real-estate', address: 'Comporta, 7580 Alcácer do Sal, Portugal', price: 980000, currency: 'EUR', datePosted: '2026-05-01' })).seo.structuredData);
+    if (listing?.['@type'] === 'RealEstateListing' && (listing.about as JsonLdNode)?.address === 'Comporta, 7580 Alcácer do Sal, Portugal'
+        && (listing.offers as JsonLdNode)?.priceCurrency === 'EUR' && listing.datePosted === '2026-05-01') {
+        pass("A real-estate campaign turns the page into a RealEstateListing with its address and offer.");
+    } else {
+        fail(`Unexpected listing: ${JSON.stringify(listing)}`);
+    }
+
+    const event = (await optimize({ type: 'event', startDate: '2026-06-12T18:00:00+01:00', venue: 'Casa Comporta', address: 'Comporta, Portugal', attendanceMode: 'mixed' })).seo.structuredData;
+    const eventNode = byType(event, 'Event');
+    if (idOf(findPageNode(event)?.mainEntity) === eventNode?.['@id'] && (eventNode?.location as JsonLdNode)?.name === 'Casa Comporta'
+        && eventNode?.eventAttendanceMode === 'https://schema.org/MixedEventAttendanceMode' && idOf(eventNode?.organizer) === byType(event, 'Organization')?.['@id']) {
+        pass("An event campaign adds an Event with its Place, attendance mode and organizer.");
+    } else {
+        fail(`Unexpected event graph: ${JSON.stringify(event)}`);
+    }
+
+    const faq = findPageNode((await optimize({ type: 'faq', questions: [{ question: 'Can I visit?', answer: 'Yes, by appointment.' }] })).seo.structuredData);
+    const [question] = (faq?.mainEntity ?? []) as JsonLdNode[];
+    if (faq?.['@type'] === 'FAQPage' && question?.name === 'Can I visit?' && (question.acceptedAnswer as JsonLdNode)?.text === 'Yes, by appointment.') {
+        pass("An FAQ campaign turns the page into an FAQPage with one Question per entry.");
+    } else {
+        fail(`Unexpected FAQ page: ${JSON.stringify(faq)}`);
+    }
+}
+
+async function testValidation() {
+    // 1. Rules: required properties (nested included) and references
+    const graph: JsonLdGraph = {
+        '@context': 'https://schema.org',
+        '@graph': [
+            { '@type': 'WebSite', '@id': 'https://x.com/#website', name: 'X', url: 'https://x.com/', publisher: { '@id': 'https://x.com/#organization' } },
+            { '@type': 'Product', '@id': 'https://x.com/p#product', name: 'Villa', offers: { '@type': 'Offer', price: 10 } }
+        ]
+    };
+    const issues = validateStructuredData(graph).map(issue => `${issue.node}|${issue.path}|${issue.code}`).sort();
+    if (issues.join(',') === 'https://x.com/#website|publisher|DANGLING_REFERENCE,https://x.com/p#product|offers.priceCurrency|MISSING_PROPERTY') {
+        pass("Validation reports missing required properties by path and references to nodes outside the graph.");
+    } else {
+        fail(`Unexpected issues: ${issues.join(', ')}`);
+    }
+
+    // 2. Intake rejects incomplete campaign details with field paths
+    const invalid = await inbound.validateInput({
+        ...brief,
+        campaign: { type: 'event', startDate: '2026-06-12', endDate: '2026-06-10', venue: '', address: 'Comporta' }
+    });
+    const faq = await inbound.validateInput({ ...brief, campaign: { type: 'faq', questions: [{ question: 'Can I visit?', answer: ' ' }] } });
+    const product = await inbound.validateInput({ ...brief, campaign: { type: 'product', price: 10, currency: 'euro' } });
+    if (invalid.status === 'FAILED' && invalid.issues.map(issue => issue.field).sort().join(',') === 'campaign.endDate,campaign.venue'
+        && faq.issues.map(issue => issue.field).join(',') === 'campaign.questions[0].answer'
+        && product.issues.map(issue => `${issue.field}:${issue.code}`).join(',') === 'campaign.currency:INVALID_FORMAT') {
+        pass("Intake rejects incomplete campaign details with field-level issues.");
+    } else {
+        fail(`Unexpected intake issues: ${JSON.stringify([invalid.issues, faq.issues, product.issues])}`);
+    }
+
+    // 3. The agent never publishes an invalid campaign schema it was handed directly
+    const project = await inbound.validateInput(brief);
+    project.payload = { ...brief, campaign: { type: 'product', price: 10, currency: '' } };
+    const { seo, warnings } = await agent.optimizeSEO(variant, { project });
+    if (!byType(seo.structuredData, 'Product') && byType(seo.structuredData, 'Organization')
+        && warnings?.some(warning => warning.startsWith("Dropped the 'product' schema for locale it-IT") && warning.includes("requires 'priceCurrency'"))) {
+        pass("An invalid campaign schema is dropped with a warning; the core graph is still published.");
+    } else {
+        fail(`Unexpected fallback: ${JSON.stringify({ graph: seo.structuredData, warnings })}`);
+    }
+}
+
+async function runStructuredDataTest() {
+    console.log(">>> STARTING STRUCTURED DATA TEST <<<");
+
+    await testCoreGraph();
+    await testCampaignSchemas();
+    await testValidation();
+
+    console.log(process.exitCode ? "\n>>> STRUCTURED DATA FAILED <<<" : "\n>>> STRUCTURED DATA SUCCESSFUL <<<");
+}
+
+runStructuredDataTest();
@@ -0,0 +1,138 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { MicrositeRepository } from '../lib/rendering/microsite-repository';
+import { ReleaseManager } from '../lib/deployment/release-manager';
+import { InMemoryReleaseStore } from '../lib/deployment/release-store';
+import { CONSENT_COOKIE } from '../lib/deployment/middleware-policy';
+import { FileTelemetryEventStore } from '../lib/telemetry/event-store';
+import { TelemetryIngestionService } from '../lib/telemetry/telemetry-ingestion';
+import { AnalyticsAggregationJob } from '../lib/telemetry/analytics-report';
+import { TelemetryIngestionError } from '../lib/contracts/errors';
+import { AnalyticsReport } from '../lib/contracts/contracts';
+
+/**
+ * Telemetry Test Suite
+ *
+ * Purpose:
+ * Post conversion events for a real (stubbed) deployment and check validation, consent dropping,
+ * deduplication and the per-locale conversion rates written to analytics.json.
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+async function runTelemetryTest() {
+    console.log(">>> STARTING TELEMETRY TEST <<<");
+
+    const directory = await mkdtemp(path.join(tmpdir(), 'factory-telemetry-'));
+    const runs = new InMemoryWorkflowStateStore();
+    const releaseStore = new InMemoryReleaseStore();
+
+    try {
+        // EU campaign: consentRequired is on
+        const manifest = await new MainOrchestrator({ stateStore: runs, releaseStore }).runPipeline({
+            campaignId: 'telemetry-test',
+            brandName: 'Lusitano Luxury',
+            coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+            targetLocales: ['it-IT', 'de-DE'],
+            assets: { logoUrl: 'https://l.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+        });
+        const [deployment] = manifest.deployments; // Both locales are served from fra1
+        const id = deployment.deploymentId;
+
+        if (deployment.telemetryEndpoint.endsWith(`/api/telemetry/${id}`)) {
+            pass("Deployment points telemetry at the factory's ingestion route.");
+        } else {
+            fail(`Unexpected telemetryEndpoint: ${deployment.telemetryEndpoint}`);
+        }
+
+        const store = new FileTelemetryEventStore(path.join(directory, 'events'));
+        const service = new TelemetryIngestionService(store, new MicrositeRepository(runs, new ReleaseManager(runs, releaseStore)));
+        const post = (body: unknown, consent?: string) => new Request(deployment.telemetryEndpoint, {
+            method: 'POST',
+            headers: consent ? { cookie: `${CONSENT_COOKIE}=${consent}` } : {},
+            body: JSON.stringify(body)
+        });
+        const event = (eventId: string, type: string, locale: string, variant = 'layout-minimal-v1') =>
+            ({ eventId, type, deploymentId: id, locale, variant, occurredAt: new Date().toISOString() });
+
+        // 1. Consent
+        const noConsent = await service.ingest(id, post([event('evt-consent-1', 'page_view', 'it-IT')]));
+        const denied = await service.ingest(id, post([event('evt-consent-2', 'page_view', 'it-IT')], 'denied'));
+        if (noConsent.droppedForConsent === 1 && denied.droppedForConsent === 1 && noConsent.accepted === 0) {
+            pass("Events without granted consent are dropped when consentRequired is set.");
+        } else {
+            fail(`Unexpected consent handling: ${JSON.stringify([noConsent, denied])}`);
+        }
+
+        // 2. Validation and deduplication
+        const batch = [
+            event('evt-it-view-1', 'page_view', 'it-IT'),
+            event('evt-it-view-2', 'page_view', 'it-it'),
+            event('evt-it-view-3', 'page_view', 'it-IT', 'layout-wide-v2'),
+            event('evt-it-view-4', 'page_view', 'it-IT', 'layout-wide-v2'),
+            event('evt-it-click-1', 'cta_click', 'it-IT'),
+            event('evt-it-conv-1', 'conversion', 'it-IT'),
+            event('evt-de-view-1', 'page_view', 'de-DE'),
+            event('evt-de-view-1', 'page_view', 'de-DE'), // Repeated inside the batch
+            event('evt-fr-view-1', 'page_view', 'fr-FR'), // Not published
+            { ...event('evt-bad-type-1', 'purchase', 'de-DE'), occurredAt: 'yesterday' }
+        ];
+        const first = await service.ingest(id, post({ events: batch }, 'granted'));
+        const retry = await service.ingest(id, post(batch.slice(0, 3), 'granted'));
+
+        const badFields = first.rejected.flatMap(r => r.issues.map(i => i.field)).sort();
+        if (first.accepted === 7 && first.duplicates === 1
+            && JSON.stringify(badFields) === JSON.stringify(['locale', 'occurredAt', 'type'])) {
+            pass("Invalid events are rejected with field issues while valid ones in the batch land.");
+        } else {
+            fail(`Unexpected batch result: ${JSON.stringify(first)}`);
+        }
+
+        if (retry.accepted === 0 && retry.duplicates === 3) {
+            pass("Retried events are deduplicated by eventId.");
+        } else {
+            fail(`Unexpected retry result: ${JSON.stringify(retry)}`);
+        }
+
+        try {
+            await service.ingest('dpl_unknown_1', post([], 'granted'));
+            fail("Unknown deployment accepted.");
+        } catch (error) {
+            if (error instanceof TelemetryIngestionError && error.reason === 'UNKNOWN_DEPLOYMENT') {
+                pass("Unknown deployments are refused.");
+            } else {
+                throw error;
+            }
+        }
+
+        // 3. Aggregation (a fresh store instance proves the events were persisted)
+        const job = new AnalyticsAggregationJob(new FileTelemetryEventStore(path.join(directory, 'events')), path.join(directory, 'analytics'));
+        await job.run(id);
+        const report = JSON.parse(await readFile(path.join(directory, 'analytics', id, 'analytics.json'), 'utf8')) as AnalyticsReport;
+
+        const it = report.locales['it-IT'];
+        if (report.totals.pageViews === 5 && it.pageViews === 4 && it.conversionRate === 0.25 && it.ctaClickRate === 0.25
+            && it.variants['layout-minimal-v1'].conversionRate === 0.5 && it.variants['layout-wide-v2'].conversions === 0
+            && report.locales['de-DE'].conversionRate === 0) {
+            pass("analytics.json reports per-locale and per-variant conversion rates.");
+        } else {
+            fail(`Unexpected report: ${JSON.stringify(report)}`);
+        }
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+
+    console.log(process.exitCode ? "\n>>> TELEMETRY FAILED <<<" : "\n>>> TELEMETRY SUCCESSFUL <<<");
+}
+
+runTelemetryTest();
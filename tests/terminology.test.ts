@@ -0,0 +1,204 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { CreativeAIEngine } from '../lib/creative/creative-engine';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest } from '../lib/creative/text-generation';
+import { brandIdOf, checkTerminology, describeTerminology, resolveTerminology } from '../lib/creative/terminology';
+import { FileTerminologyStore, InMemoryTerminologyStore } from '../lib/creative/terminology-store';
+import { EventBus } from '../lib/events/event-bus';
+import { InboundOrchestrator } from '../lib/inbound/inbound-orchestrator';
+import { DEFAULT_STAGE_POLICIES } from '../lib/resilience/stage-policy';
+import { BrandTerminology, BriefInput, UIContentVariant } from '../lib/contracts/contracts';
+
+/**
+ * Terminology Test Suite
+ *
+ * Purpose:
+ * Check how a brand's glossary and translation memory are resolved per locale, written into the prompt,
+ * checked on generated copy, and enforced by the Creative AI Engine (violating locales fail and are not published).
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const brief: BriefInput = {
+    campaignId: 'terminology-check',
+    brandName: 'Lusitano Villas',
+    coreMessage: 'Lusitano Villas: exclusive villas in Comporta with sustainable design. Live the Comporta way.',
+    targetLocales: ['it-IT', 'de-DE', 'fr-FR'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+};
+
+const terminology: BrandTerminology = {
+    brandId: 'lusitano-villas',
+    glossary: {
+        doNotTranslate: ['Lusitano Villas', 'Comporta', 'Signature Suite'],
+        mandatedTranslations: [
+            { source: 'sustainable design', locale: 'it', target: 'design sostenibile' },
+            { source: 'sustainable design', locale: 'de-AT', target: 'nachhaltiges Design' }
+        ],
+        forbidden: [{ term: 'exclusive', locales: ['de'], reason: 'restricted claim in DACH advertising' }, { term: 'cheap' }]
+    },
+    translationMemory: [
+        { source: 'Live the Comporta way.', locale: 'it-IT', target: 'Vivi lo stile Comporta.', approvedAt: '2026-03-02T10:00:00.000Z' }
+    ]
+};
+
+const copy = (overrides: Partial<UIContentVariant>): UIContentVariant => ({
+    locale: 'it-IT',
+    heroTitle: 'Lusitano Villas a Comporta',
+    bodyCopy: 'Ville esclusive a Comporta con design sostenibile. Vivi lo stile Comporta.',
+    ctaText: 'Scopri di più',
+    layoutId: 'layout-minimal-v1',
+    ...overrides
+});
+
+async function testResolveAndPrompt() {
+    const italian = resolveTerminology(terminology, 'it-IT');
+    const austrian = resolveTerminology(terminology, 'de-AT');
+    const german = resolveTerminology(terminology, 'de-DE');
+    const french = resolveTerminology(terminology, 'fr-FR');
+
+    if (brandIdOf('Lusitano Villas') === 'lusitano-villas' && brandIdOf('Café Açores & Co.') === 'cafe-acores-co'
+        && italian.mandatedTranslations.length === 1 && italian.translationMemory.length === 1
+        && austrian.mandatedTranslations.length === 1 && german.mandatedTranslations.length === 0
+        && german.forbidden.map(entry => entry.term).join(',') === 'exclusive,cheap' && french.forbidden.map(entry => entry.term).join(',') === 'cheap') {
+        pass("Entries apply by exact locale, or by language when their locale has no region; forbidden terms without locales apply everywhere.");
+    } else {
+        fail(`Unexpected resolution: ${JSON.stringify({ italian, austrian, german, french })}`);
+    }
+
+    // Non-Latin names keep a stable, store-safe id instead of collapsing to ''
+    const japanese = brandIdOf('ルシタノ・ヴィラ');
+    const mixed = brandIdOf('東京 Villas');
+    if (/^brand-[0-9a-f]{8}$/.test(japanese) && japanese === brandIdOf('ルシタノ・ヴィラ') && japanese !== brandIdOf('Лузитано')
+        && /^villas-[0-9a-f]{8}$/.test(mixed) && mixed !== brandIdOf('Villas') && brandIdOf('!!!') === '') {
+        pass("Brand names in other scripts get a hashed id; only names without letters or digits have none.");
+    } else {
+        fail(`Unexpected brand ids: ${japanese} / ${mixed}`);
+    }
+
+    const lines = describeTerminology(italian, brief).join('\n');
+    if (lines.includes('Keep exactly as written, never translate: "Lusitano Villas", "Comporta"') && !lines.includes('Signature Suite')
+        && lines.includes('- "sustainable design" -> "design sostenibile"') && lines.includes('- "Live the Comporta way." -> "Vivi lo stile Comporta."')
+        && lines.includes('Never use: "cheap"')) {
+        pass("The prompt lists the do-not-translate terms, translations and approved segments the brief actually uses.");
+    } else {
+        fail(`Unexpected prompt lines: ${lines}`);
+    }
+}
+
+async function testChecks() {
+    const italian = resolveTerminology(terminology, 'it-IT');
+    const clean = checkTerminology(copy({}), italian, brief);
+    const drifted = checkTerminology(copy({
+        heroTitle: 'Ville Lusitano a Comporta',
+        bodyCopy: 'Ville esclusive e cheap a comporta con un design ecologico. Vivi Comporta.'
+    }), italian, brief);
+    const rules = drifted.map(violation => `${violation.rule}:${violation.term}`).sort().join(',');
+    const forbidden = drifted.find(violation => violation.rule === 'FORBIDDEN_TERM');
+
+    if (clean.length === 0 && rules === 'DO_NOT_TRANSLATE:Lusitano Villas,FORBIDDEN_TERM:cheap,MANDATED_TRANSLATION:sustainable design,TRANSLATION_MEMORY:Live the Comporta way.'
+        && forbidden?.field === 'bodyCopy') {
+        pass("Drifted brand names, missing mandated translations, forbidden terms and unused approved segments are reported.");
+    } else {
+        fail(`Unexpected violations: ${clean.length} / ${rules}`);
+    }
+
+    const cased = checkTerminology(copy({ heroTitle: 'LUSITANO VILLAS a Comporta' }), italian, brief);
+    const partial = checkTerminology(copy({ bodyCopy: `${copy({}).bodyCopy} Prezzi cheaper del mercato.` }), italian, brief);
+    if (cased.map(violation => violation.message).join() === "'Lusitano Villas' must be kept exactly as written." && partial.length === 0) {
+        pass("Do-not-translate terms must keep their casing; forbidden terms only match whole words.");
+    } else {
+        fail(`Unexpected casing/word-boundary results: ${JSON.stringify([cased, partial])}`);
+    }
+}
+
+async function testEngine() {
+    const store = new InMemoryTerminologyStore();
+    await store.save(terminology);
+    const project = await new InboundOrchestrator().validateInput(brief);
+
+    const requests: TextGenerationRequest[] = [];
+    const provider = new StubTextProvider();
+    const originalGenerate = provider.generate.bind(provider);
+    provider.generate = async request => {
+        requests.push(request);
+        return originalGenerate(request);
+    };
+
+    const events = new EventBus();
+    const published: string[] = [];
+    events.subscribe('creative.variant.generated', ({ variant }) => { published.push(variant.locale); });
+
+    const engine = new CreativeAIEngine(provider, events, { ...DEFAULT_STAGE_POLICIES.CREATIVE, initialDelayMs: 0 }, undefined, store);
+    const output = await engine.generateCreatives(project, { runId: 'run_terminology' });
+    const italian = output.variants.find(variant => variant.locale === 'it-IT');
+
+    // de-DE copies "exclusive" from the brief, which its glossary forbids
+    if (output.variants.map(variant => variant.locale).sort().join(',') === 'fr-FR,it-IT'
+        && italian?.bodyCopy.includes('design sostenibile') && italian.bodyCopy.includes('Vivi lo stile Comporta.')
+        && output.errors?.length === 1 && output.errors[0].startsWith("de-DE: TerminologyViolationError: Terminology Violation: de-DE copy breaks the brand glossary: Forbidden term 'exclusive'")
+        && published.sort().join(',') === 'fr-FR,it-IT' && requests.filter(request => request.locale === 'de-DE').length === 1) {
+        pass("A violating locale fails with TerminologyViolationError in output.errors; it is neither retried nor published.");
+    } else {
+        fail(`Unexpected engine output: ${JSON.stringify({ variants: output.variants.map(variant => variant.locale), errors: output.errors, published })}`);
+    }
+
+    const prompt = requests.find(request => request.locale === 'it-IT')?.prompt.user ?? '';
+    if (prompt.includes('"sustainable design" -> "design sostenibile"') && requests.every(request => request.terminology?.locale === request.locale)) {
+        pass("Every provider request carries the locale's terminology, in the prompt and as structured entries.");
+    } else {
+        fail(`Unexpected provider requests: ${prompt}`);
+    }
+
+    // Brands without terminology generate as before
+    const plain = await new CreativeAIEngine(new StubTextProvider(), undefined, undefined, undefined, new InMemoryTerminologyStore()).generateCreatives(project);
+    if (plain.variants.length === 3 && !plain.errors) {
+        pass("Brands without a glossary are generated without checks.");
+    } else {
+        fail(`Unexpected plain output: ${JSON.stringify(plain.errors)}`);
+    }
+}
+
+async function testFileStore() {
+    const directory = await mkdtemp(path.join(tmpdir(), 'factory-terminology-'));
+    try {
+        const store = new FileTerminologyStore(directory);
+        await store.save(terminology);
+        const loaded = await store.load('lusitano-villas');
+        let rejected = false;
+        try {
+            await store.load('../runs/secret');
+        } catch {
+            rejected = true;
+        }
+        if (JSON.stringify(loaded) === JSON.stringify(terminology) && (await store.load('unknown-brand')) === null && rejected) {
+            pass("The file store round-trips one JSON document per brand and rejects unsafe ids.");
+        } else {
+            fail(`Unexpected file store behaviour: ${JSON.stringify(loaded)}`);
+        }
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+async function runTerminologyTest() {
+    console.log(">>> STARTING TERMINOLOGY TEST <<<");
+
+    await testResolveAndPrompt();
+    await testChecks();
+    await testEngine();
+    await testFileStore();
+
+    console.log(process.exitCode ? "\n>>> TERMINOLOGY FAILED <<<" : "\n>>> TERMINOLOGY SUCCESSFUL <<<");
+}
+
+runTerminologyTest();
@@ -0,0 +1,227 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MainOrchestrator } from '../lib/main-orchestrator';
+import { InMemoryWorkflowStateStore } from '../lib/state/workflow-store';
+import { StubTextProvider } from '../lib/creative/providers/stub-provider';
+import { TextGenerationRequest } from '../lib/creative/text-generation';
+import { LogEntry, Logger } from '../lib/observability/logger';
+import { Tracer } from '../lib/observability/tracing';
+import { FileSpanExporter, InMemorySpanExporter, OtlpHttpSpanExporter, toOtlpTraceRequest } from '../lib/observability/span-exporters';
+import { BriefInput, SpanRecord } from '../lib/contracts/contracts';
+
+/**
+ * Tracing Test Suite
+ *
+ * Purpose:
+ * Check run-correlated logging, the span tree of a pipeline run (stages, locales, attempts, SEO jobs),
+ * the OTLP JSON encoding, and both exporters (file and HTTP collector).
+ */
+
+function pass(msg: string) {
+    console.log(`✅ [PASS] ${msg}`);
+}
+
+function fail(msg: string) {
+    console.error(`❌ [FAIL] ${msg}`);
+    process.exitCode = 1;
+}
+
+const brief: BriefInput = {
+    campaignId: 'tracing-check',
+    brandName: 'Lusitano',
+    coreMessage: 'Exclusive villas in Comporta with sustainable design.',
+    targetLocales: ['it-IT', 'de-DE', 'fr-FR'],
+    assets: { logoUrl: 'https://cdn.example.com/logo.png', keywordsCsvUrl: './keywords.csv' }
+};
+
+const duration = (span: SpanRecord) => span.endTimeMs - span.startTimeMs;
+
+async function testLogger() {
+    const entries: LogEntry[] = [];
+    const logger = new Logger('TracingTest', 'info', entry => entries.push(entry));
+    const exporter = new InMemorySpanExporter();
+
+    logger.debug('Dropped below the level');
+    await new Tracer(exporter).withSpan('unit', { root: true, attributes: { 'run.id': 'run_log' } }, async () => {
+        logger.warn('Inside a span', { locale: 'it-IT', error: new TypeError('boom') });
+    });
+    logger.info('Outside a span');
+
+    const [inside, outside] = entries;
+    const [span] = exporter.spans;
+    if (entries.length === 2 && inside.runId === 'run_log' && inside.traceId === span.traceId && inside.spanId === span.spanId
+        && inside.error === 'TypeError: boom' && inside.locale === 'it-IT' && outside.traceId === undefined) {
+        pass("Log entries are filtered by level and carry the run and trace of the active span.");
+    } else {
+        fail(`Unexpected log entries: ${JSON.stringify(entries)}`);
+    }
+
+    const event = span.events.find(e => e.name === 'Inside a span');
+    if (event?.attributes['log.level'] === 'warn' && event.attributes.locale === 'it-IT') {
+        pass("Warnings are also recorded as events on the active span.");
+    } else {
+        fail(`Missing span event: ${JSON.stringify(span.events)}`);
+    }
+}
+
+async function testPipelineTrace() {
+    const originalGenerate = StubTextProvider.prototype.generate;
+    let itCalls = 0;
+
+    // it-IT fails once, de-DE is the slow locale
+    StubTextProvider.prototype.generate = async function (request: TextGenerationRequest) {
+        if (request.locale === 'it-IT' && ++itCalls === 1) throw new Error('Simulated rate limit');
+        if (request.locale === 'de-DE') await new Promise(resolve => setTimeout(resolve, 300));
+        return originalGenerate.call(this, request);
+    };
+
+    try {
+        const exporter = new InMemorySpanExporter();
+        const tracer = new Tracer(exporter);
+        const runs = new InMemoryWorkflowStateStore();
+        await new MainOrchestrator({ stateStore: runs, tracer, stagePolicies: { CREATIVE: { initialDelayMs: 0 } } }).runPipeline(brief, 'run_trace_check');
+        await tracer.flush();
+        const state = (await runs.load('run_trace_check'))!;
+        const spans = exporter.spans;
+        const byName = (name: string) => spans.filter(span => span.name === name);
+        const locale = (span: SpanRecord) => span.attributes['pipeline.locale'];
+
+        // 1. One trace, rooted at the run
+        const [root] = byName('pipeline.run');
+        const stages = spans.filter(span => span.name.startsWith('stage.'));
+        if (root && !root.parentSpanId && root.attributes['run.id'] === 'run_trace_check' && state.traceId === root.traceId
+            && spans.every(span => span.traceId === root.traceId)
+            && stages.map(span => span.name).sort().join(',') === 'stage.audit,stage.creative,stage.deployment,stage.orchestration,stage.seo'
+            && stages.every(span => span.parentSpanId === root.spanId)) {
+            pass("A run exports one trace: a root span (its id persisted on the run) with one child per stage.");
+        } else {
+            fail(`Unexpected trace: ${spans.map(span => `${span.name}<${span.parentSpanId ?? '-'}`).join(', ')}`);
+        }
+
+        // 2. Per-locale spans under their stage, attempts included
+        const creativeStage = stages.find(span => span.name === 'stage.creative')!;
+        const variants = byName('creative.variant');
+        const itVariant = variants.find(span => locale(span) === 'it-IT')!;
+        const itAttempts = byName('creative.attempt').filter(span => span.parentSpanId === itVariant?.spanId);
+        if (variants.length === 3 && variants.every(span => span.parentSpanId === creativeStage.spanId)
+            && itVariant.attributes['creative.attempts'] === 2
+            && itAttempts.map(span => span.status.code).join(',') === 'ERROR,OK' && itAttempts[0].status.message === 'Simulated rate limit') {
+            pass("Every locale has a creative span, with one child per provider attempt and failed attempts marked as errors.");
+        } else {
+            fail(`Unexpected creative spans: ${JSON.stringify(variants.map(span => span.attributes))}`);
+        }
+
+        const slowest = [...variants].sort((a, b) => duration(b) - duration(a))[0];
+        if (locale(slowest) === 'de-DE' && duration(slowest) >= 300) {
+            pass("The slowest locale can be read straight off the creative spans.");
+        } else {
+            fail(`Slowest creative span was ${locale(slowest)} (${duration(slowest)}ms).`);
+        }
+
+        // 3. SEO jobs belong to the run, not to the creative span that triggered them
+        const jobs = byName('job.execute');
+        const optimized = byName('seo.optimize');
+        if (jobs.length === 3 && jobs.every(span => span.parentSpanId === root.spanId && span.attributes['job.status'] === 'succeeded')
+            && optimized.map(locale).sort().join(',') === 'de-DE,fr-FR,it-IT') {
+            pass("Each SEO job is a span under the run, with the locale it optimized.");
+        } else {
+            fail(`Unexpected job spans: ${JSON.stringify(jobs.map(span => [span.parentSpanId, span.attributes]))}`);
+        }
+    } finally {
+        StubTextProvider.prototype.generate = originalGenerate;
+    }
+}
+
+async function testExporters() {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer(exporter);
+    await tracer.withSpan('root', { root: true, attributes: { 'run.id': 'run_otlp', 'pipeline.locales': ['it-IT'] } }, async () => {
+        await tracer.withSpan('child', { attributes: { 'attempt.number': 2, ratio: 0.5, retried: true } }, async span => {
+            span.setStatus('ERROR', 'Simulated');
+        });
+    });
+
+    // 1. Encoding
+    const request = toOtlpTraceRequest(exporter.spans, 'factory-test');
+    const resource = request.resourceSpans[0];
+    const [child, root] = resource.scopeSpans[0].spans;
+    const attribute = (key: string) => child.attributes.find(a => a.key === key)?.value;
+    if (JSON.stringify(resource.resource.attributes[0]) === '{"key":"service.name","value":{"stringValue":"factory-test"}}'
+        && /^[0-9a-f]{32}$/.test(child.traceId) && /^[0-9a-f]{16}$/.test(child.spanId) && child.parentSpanId === root.spanId && !('parentSpanId' in root)
+        && /^\d{19}$/.test(child.startTimeUnixNano) && child.status.code === 2 && root.status.code === 1
+        && JSON.stringify(attribute('attempt.number')) === '{"intValue":"2"}' && JSON.stringify(attribute('ratio')) === '{"doubleValue":0.5}'
+        && JSON.stringify(attribute('retried')) === '{"boolValue":true}'
+        && JSON.stringify(root.attributes.find(a => a.key === 'pipeline.locales')?.value) === '{"arrayValue":{"values":[{"stringValue":"it-IT"}]}}') {
+        pass("Spans are encoded as an OTLP/JSON ExportTraceServiceRequest.");
+    } else {
+        fail(`Unexpected OTLP request: ${JSON.stringify(request)}`);
+    }
+
+    // 2. File exporter: one request per line
+    const directory = await mkdtemp(path.join(tmpdir(), 'factory-traces-'));
+    try {
+        const file = path.join(directory, 'traces', 'traces.jsonl');
+        const fileExporter = new FileSpanExporter(file, 'factory-test');
+        await fileExporter.export(exporter.spans);
+        await fileExporter.export(exporter.spans);
+        const lines = (await readFile(file, 'utf8')).trim().split('\n');
+        if (lines.length === 2 && JSON.parse(lines[1]).resourceSpans[0].scopeSpans[0].spans.length === 2) {
+            pass("The file exporter appends one OTLP JSON request per trace.");
+        } else {
+            fail(`Unexpected trace file: ${lines.length} lines.`);
+        }
+    } finally {
+        await rm(directory, { recursive: true, force: true });
+    }
+
+    // 3. HTTP exporter against a local collector
+    const received: Array<{ url?: string; type?: string; body: string }> = [];
+    let status = 200;
+    const collector = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            received.push({ url: req.url, type: req.headers['content-type'], body });
+            res.writeHead(status).end();
+        });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+    try {
+        const endpoint = `http://127.0.0.1:${(collector.address() as AddressInfo).port}/`;
+        await new OtlpHttpSpanExporter(endpoint, 'factory-test').export(exporter.spans);
+        if (received[0]?.url === '/v1/traces' && received[0].type === 'application/json'
+            && JSON.parse(received[0].body).resourceSpans[0].scopeSpans[0].spans.length === 2) {
+            pass("The OTLP exporter posts the request to the collector's /v1/traces.");
+        } else {
+            fail(`Unexpected collector request: ${JSON.stringify(received)}`);
+        }
+
+        // A rejecting collector is logged by the tracer and never fails the traced work
+        status = 503;
+        const failing = new Tracer(new OtlpHttpSpanExporter(endpoint, 'factory-test'));
+        const result = await failing.withSpan('root', { root: true }, async () => 'done');
+        await failing.flush();
+        if (result === 'done' && received.length === 2) {
+            pass("Export failures are dropped without affecting the traced work.");
+        } else {
+            fail(`Unexpected export failure handling: ${result} / ${received.length} requests.`);
+        }
+    } finally {
+        await new Promise(resolve => collector.close(resolve));
+    }
+}
+
+async function runTracingTest() {
+    console.log(">>> STARTING TRACING TEST <<<");
+
+    await testLogger();
+    await testPipelineTrace();
+    await testExporters();
+
+    console.log(process.exitCode ? "\n>>> TRACING FAILED <<<" : "\n>>> TRACING SUCCESSFUL <<<");
+}
+
+runTracingTest();